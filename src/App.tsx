@@ -9,6 +9,7 @@ import { FamilyHub } from './components/FamilyHub'
 import { MoreMenu } from './components/MoreMenu'
 import { Calendar } from './components/Calendar'
 import { Contacts } from './components/Contacts'
+import { Carpools } from './components/Carpools'
 import { Shopping } from './components/Shopping'
 import { Tasks } from './components/Tasks'
 import { Settings } from './components/Settings'
@@ -26,7 +27,7 @@ import { useAffirmationNotifier } from './hooks/useAffirmationNotifier'
 import { captureAndStoreGoogleTokens } from './services/googleTokenStorage'
 
 export type Screen = 'dashboard' | 'calendar' | 'family' | 'more'
-export type SubScreen = 'shopping' | 'tasks' | 'contacts' | 'family-folders' | 'settings'
+export type SubScreen = 'shopping' | 'tasks' | 'contacts' | 'carpools' | 'family-folders' | 'settings'
 
 function App() {
   const session = useSessionContext()
@@ -244,6 +245,11 @@ function App() {
                   <Contacts />
                 </FeatureErrorBoundary>
               )}
+              {currentSubScreen === 'carpools' && (
+                <FeatureErrorBoundary featureName="Carpools">
+                  <Carpools />
+                </FeatureErrorBoundary>
+              )}
               {currentSubScreen === 'family-folders' && (
                 <FeatureErrorBoundary featureName="Family Folders">
                   <FamilyFolders />
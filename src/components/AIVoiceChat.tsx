@@ -1,11 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import {
-  Mic, MicOff, MessageCircle, X, Loader2, Phone, PhoneOff, Send, MessageSquare
+  Mic, MicOff, MessageCircle, X, Loader2, Phone, PhoneOff, Send, MessageSquare, CheckCircle2, XCircle, HelpCircle, Undo2, Trash2
 } from 'lucide-react';
 import { openaiRealtimeService, RealtimeEvent } from '../services/openaiRealtimeService';
-import { aiAssistantService } from '../services/aiAssistantService';
+import { aiAssistantService, AIAction } from '../services/aiAssistantService';
+import { conversationMemoryService, HISTORY_PAGE_SIZE } from '../services/conversationMemory';
+import type { AssistantMessage } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // Outcome of each part of a multi-part request
+  steps?: AIAction[];
+  confirmation?: AIAction['confirmation'];
+  undoId?: string;
+  createdAt?: string;
+}
+
+const toChatMessage = (message: AssistantMessage): ChatMessage => ({
+  role: message.role === 'user' ? 'user' : 'assistant',
+  content: message.content,
+  createdAt: message.created_at
+});
+
 interface AIVoiceChatProps {
   isOpen: boolean;
   onClose: () => void;
@@ -36,9 +54,11 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
       setIsWaitingForWakeWord(true);
     }
   }, [chatMode, isConnected]);
-  const [chatMessages, setChatMessages] = useState<Array<{role: 'user' | 'assistant', content: string}>>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [textInput, setTextInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [hasEarlier, setHasEarlier] = useState(false);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const initializingRef = useRef(false);
@@ -52,6 +72,38 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
     scrollToBottom();
   }, [chatMessages]);
 
+  // Pick up the stored conversation the first time text mode opens
+  useEffect(() => {
+    if (!isOpen || !user || chatMode !== 'text' || historyLoaded) return;
+
+    setHistoryLoaded(true);
+    conversationMemoryService.getHistory(user.id).then(history => {
+      setChatMessages(prev => [...history.map(toChatMessage), ...prev]);
+      setHasEarlier(history.length === HISTORY_PAGE_SIZE);
+    });
+  }, [isOpen, user, chatMode, historyLoaded]);
+
+  const loadEarlier = async () => {
+    const oldest = chatMessages.find(message => message.createdAt)?.createdAt;
+    if (!user || !oldest) return;
+
+    const earlier = await conversationMemoryService.getHistory(user.id, oldest);
+    setChatMessages(prev => [...earlier.map(toChatMessage), ...prev]);
+    setHasEarlier(earlier.length === HISTORY_PAGE_SIZE);
+  };
+
+  const clearHistory = async () => {
+    if (!user || !confirm('Clear your whole conversation with Sarah? She will also forget what "it" referred to.')) return;
+
+    try {
+      await conversationMemoryService.clear(user.id);
+      setChatMessages([]);
+      setHasEarlier(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not clear the conversation');
+    }
+  };
+
   useEffect(() => {
     if (!isOpen || !user) return;
     if (initializingRef.current) return;
@@ -182,9 +234,15 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
       setIsProcessing(true);
 
       try {
-        // Pass conversation history to maintain context
-        const result = await aiAssistantService.processUserMessage(text.trim(), user!.id, chatMessages);
-        const assistantMessage = { role: 'assistant' as const, content: result.message };
+        // The stored conversation supplies the history
+        const result = await aiAssistantService.processUserMessage(text.trim(), user!.id);
+        const assistantMessage = {
+          role: 'assistant' as const,
+          content: result.message,
+          steps: result.steps,
+          confirmation: result.confirmation,
+          undoId: result.undoId
+        };
         setChatMessages(prev => [...prev, assistantMessage]);
       } catch (error) {
         const errorMessage = {
@@ -211,6 +269,37 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
     }
   };
 
+  const undoChange = async (undoId: string) => {
+    if (!user || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await aiAssistantService.undo(user.id, undoId);
+      // Each change can only be undone once
+      setChatMessages(prev => [
+        ...prev.map(message => ({
+          ...message,
+          undoId: message.undoId === undoId ? undefined : message.undoId,
+          steps: message.steps?.map(step => (step.undoId === undoId ? { ...step, undoId: undefined } : step))
+        })),
+        { role: 'assistant' as const, content: result.message }
+      ]);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const undoButton = (undoId: string) => (
+    <button
+      onClick={() => undoChange(undoId)}
+      disabled={isProcessing}
+      className="inline-flex items-center gap-1 text-xs font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+    >
+      <Undo2 className="w-3 h-3" />
+      Undo
+    </button>
+  );
+
   const toggleMute = async () => {
     try {
       if (!isConnected) return;
@@ -358,6 +447,24 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
                   </div>
                 )}
 
+                {chatMessages.length > 0 && (
+                  <div className="flex items-center justify-between text-xs">
+                    {hasEarlier ? (
+                      <button onClick={loadEarlier} className="font-medium text-rose-600 hover:text-rose-700">
+                        Load earlier messages
+                      </button>
+                    ) : <span />}
+                    <button
+                      onClick={clearHistory}
+                      disabled={isProcessing}
+                      className="inline-flex items-center gap-1 text-gray-500 hover:text-rose-600 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      Clear history
+                    </button>
+                  </div>
+                )}
+
                 {/* Chat Messages */}
                 {chatMessages.map((message, index) => (
                   <div
@@ -371,7 +478,65 @@ export function AIVoiceChat({ isOpen, onClose }: AIVoiceChatProps) {
                           : 'bg-white border-2 border-rose-100 text-gray-900'
                       }`}
                     >
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.steps ? (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">
+                            {message.steps.every(step => step.success)
+                              ? `Done — all ${message.steps.length} things you asked for`
+                              : `${message.steps.filter(step => step.success).length} of ${message.steps.length} done`}
+                          </p>
+                          {message.steps.map((step, stepIndex) => (
+                            <div key={stepIndex} className="flex items-start gap-2">
+                              {step.success
+                                ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                                : step.confirmation
+                                  ? <HelpCircle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                                  : <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />}
+                              <div>
+                                <p className={`text-sm whitespace-pre-wrap ${step.success || step.confirmation ? '' : 'text-red-700'}`}>{step.message}</p>
+                                {step.undoId && undoButton(step.undoId)}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      )}
+
+                      {message.undoId && <div className="mt-2">{undoButton(message.undoId)}</div>}
+
+                      {/* Quick answers, only while it's still the question being asked */}
+                      {message.confirmation && index === chatMessages.length - 1 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {message.confirmation.options.length > 0
+                            ? message.confirmation.options.map((option, optionIndex) => (
+                              <button
+                                key={optionIndex}
+                                onClick={() => sendTextMessage(String(optionIndex + 1))}
+                                disabled={isProcessing}
+                                className="px-3 py-1 text-xs font-medium bg-rose-50 text-rose-700 rounded-full hover:bg-rose-100 disabled:opacity-50"
+                              >
+                                {optionIndex + 1}. {option}
+                              </button>
+                            ))
+                            : (
+                              <button
+                                onClick={() => sendTextMessage('yes')}
+                                disabled={isProcessing}
+                                className="px-3 py-1 text-xs font-medium bg-rose-500 text-white rounded-full hover:bg-rose-600 disabled:opacity-50"
+                              >
+                                Yes
+                              </button>
+                            )}
+                          <button
+                            onClick={() => sendTextMessage('cancel')}
+                            disabled={isProcessing}
+                            className="px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200 disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { AutoReorder } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { autoReorderService } from '../services/autoReorders';
+
+interface AutoReordersProps {
+  // Called after an item is put on the shopping list
+  onShoppingListChange?: () => void;
+}
+
+const emptyForm = {
+  item_name: '',
+  frequency_days: '7',
+  next_order_date: '',
+  price: '',
+  quantity: '1',
+  send_to_instacart: false,
+};
+
+const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+
+export function AutoReorders({ onShoppingListChange }: AutoReordersProps) {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<AutoReorder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setRules(await autoReorderService.getRules(user.id));
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const openForm = (rule: AutoReorder | null) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule
+      ? {
+          item_name: rule.item_name,
+          frequency_days: String(rule.frequency_days),
+          next_order_date: rule.next_order_date,
+          price: rule.price !== null && rule.price !== undefined ? String(rule.price) : '',
+          quantity: String(rule.quantity ?? 1),
+          send_to_instacart: !!rule.send_to_instacart,
+        }
+      : emptyForm);
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !form.item_name.trim() || !(Number(form.frequency_days) > 0)) return;
+
+    const values = {
+      item_name: form.item_name.trim(),
+      frequency_days: Math.round(Number(form.frequency_days)),
+      price: form.price ? Number(form.price) : null,
+      quantity: Math.max(1, Math.round(Number(form.quantity) || 1)),
+      send_to_instacart: form.send_to_instacart,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await autoReorderService.updateRule(editingId, {
+          ...values,
+          ...(form.next_order_date ? { next_order_date: form.next_order_date } : {}),
+        });
+      } else {
+        await autoReorderService.createRule(user.id, {
+          ...values,
+          next_order_date: form.next_order_date || undefined,
+        });
+      }
+      setShowForm(false);
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving auto reorder:', error);
+      alert('Could not save the reorder. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: AutoReorder) => {
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, active: !r.active } : r));
+    try {
+      await autoReorderService.updateRule(rule.id, { active: !rule.active });
+    } catch (error) {
+      console.error('Error updating auto reorder:', error);
+      loadRules();
+    }
+  };
+
+  const handleOrderNow = async (rule: AutoReorder) => {
+    try {
+      await autoReorderService.orderNow(rule);
+      onShoppingListChange?.();
+      await loadRules();
+    } catch (error) {
+      console.error('Error ordering item:', error);
+      alert('Could not add the item to your shopping list.');
+    }
+  };
+
+  const handleDelete = async (rule: AutoReorder) => {
+    if (!confirm(`Stop reordering ${rule.item_name}?`)) return;
+    try {
+      await autoReorderService.deleteRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting auto reorder:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-8 h-8 border-4 border-green-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading reorders...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-green-50 border border-green-200 rounded-xl p-3 sm:p-4 mb-4 sm:mb-6">
+        <h3 className="font-medium text-green-900 mb-2 text-sm sm:text-base">Smart Reordering</h3>
+        <p className="text-xs sm:text-sm text-green-700">
+          Staples go on your shopping list when they're due, and the schedule adjusts to how often you actually tick them off
+        </p>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white border border-gray-200 rounded-xl p-3 sm:p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+              {editingId ? 'Edit schedule' : 'New reorder'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            required
+            placeholder="Item (e.g. Huggies Size 3)"
+            value={form.item_name}
+            onChange={e => setForm({ ...form, item_name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600">
+              Every (days)
+              <input
+                type="number"
+                min="1"
+                required
+                value={form.frequency_days}
+                onChange={e => setForm({ ...form, frequency_days: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Next order
+              <input
+                type="date"
+                value={form.next_order_date}
+                onChange={e => setForm({ ...form, next_order_date: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Price ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.price}
+                onChange={e => setForm({ ...form, price: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Quantity
+              <input
+                type="number"
+                min="1"
+                value={form.quantity}
+                onChange={e => setForm({ ...form, quantity: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.send_to_instacart}
+              onChange={e => setForm({ ...form, send_to_instacart: e.target.checked })}
+              className="w-4 h-4 text-green-500 border-gray-300 rounded"
+            />
+            <span>Send to Instacart when due</span>
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      )}
+
+      {rules.map(rule => (
+        <div key={rule.id} className={`bg-white border border-gray-200 rounded-xl p-3 sm:p-4 ${rule.active ? '' : 'opacity-60'}`}>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+              {rule.item_name}
+              {(rule.quantity ?? 1) > 1 && <span className="text-gray-500 font-normal"> × {rule.quantity}</span>}
+            </h3>
+            <div className="flex items-center space-x-2">
+              {rule.price !== null && rule.price !== undefined && (
+                <span className="text-base sm:text-lg font-bold text-green-600">${Number(rule.price).toFixed(2)}</span>
+              )}
+              <button
+                type="button"
+                onClick={() => toggleActive(rule)}
+                aria-label={rule.active ? 'Pause reorder' : 'Resume reorder'}
+                className={`w-8 h-4 rounded-full relative transition-colors ${rule.active ? 'bg-green-500' : 'bg-gray-300'}`}
+              >
+                <div className={`w-3 h-3 bg-white rounded-full absolute top-0.5 shadow transition-all ${rule.active ? 'right-0.5' : 'left-0.5'}`}></div>
+              </button>
+            </div>
+          </div>
+          <div className="text-xs sm:text-sm text-gray-600 space-y-1">
+            <p>
+              <span className="font-medium">Next order:</span> {rule.active ? formatDate(rule.next_order_date) : 'Paused'}
+              {rule.shopping_item_id && <span className="text-green-600"> · on your list</span>}
+            </p>
+            <p>
+              <span className="font-medium">Frequency:</span> {autoReorderService.describeFrequency(rule.frequency_days)}
+              {rule.learn_cadence && rule.last_completed && <span className="text-gray-400"> · learned from your usage</span>}
+            </p>
+            {rule.send_to_instacart && <p className="text-green-700">Sent to Instacart when due</p>}
+          </div>
+          <div className="flex space-x-2 mt-3 flex-wrap gap-1">
+            <button
+              onClick={() => handleOrderNow(rule)}
+              disabled={!!rule.shopping_item_id}
+              className="px-2 sm:px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-xs sm:text-sm hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Order Now
+            </button>
+            <button
+              onClick={() => openForm(rule)}
+              className="px-2 sm:px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-xs sm:text-sm hover:bg-gray-200 transition-colors"
+            >
+              Edit Schedule
+            </button>
+            <button
+              onClick={() => handleDelete(rule)}
+              className="px-2 sm:px-3 py-1 text-gray-400 hover:text-red-500 text-xs sm:text-sm"
+              aria-label="Delete reorder"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {!showForm && (
+        <div className="text-center py-4">
+          {rules.length === 0 && (
+            <p className="text-sm sm:text-base text-gray-600 mb-4">Nothing is set to reorder yet</p>
+          )}
+          <button
+            onClick={() => openForm(null)}
+            className="px-4 py-2 bg-green-500 text-white rounded-xl text-sm font-medium hover:bg-green-600 inline-flex items-center space-x-1"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add a staple</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
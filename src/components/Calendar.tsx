@@ -20,15 +20,25 @@ import {
   Info,
   Loader2,
   Bell,
+  Repeat,
+  FileText,
+  Rss,
 } from 'lucide-react';
 
 import { EventForm } from './forms/EventForm';
 import { ConflictResolutionModal } from './ConflictResolutionModal';
+import { CalendarImportExport } from './CalendarImportExport';
+import { EventChecklist } from './EventChecklist';
 import { googleCalendarService, GoogleCalendarEvent } from '../services/googleCalendar';
 import { useSupabaseClient } from '@supabase/auth-helpers-react';
-import type { Event as DbEvent } from '../lib/supabase';
+import type { Event as DbEvent, CalendarFeed, RecurrenceEditScope } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { useCalendarSync } from '../hooks/useCalendarSync';
+import { calendarContextService } from '../services/calendarContext';
+import { recurringEventService } from '../services/recurringEvents';
+import { recurringItemService } from '../services/recurringItems';
+import { icsFeedService } from '../services/icsFeeds';
+import { RecurrenceRule } from '../utils/recurrenceRule';
 
 // --- Helpers -----------------------------------------------------------------
 const startOfMonth = (d: Date) => new Date(d.getFullYear(), d.getMonth(), 1);
@@ -71,6 +81,8 @@ export function Calendar() {
   const [showWhatsAppForm, setShowWhatsAppForm] = useState(false);
   const [showEventDetails, setShowEventDetails] = useState(false);
   const [showConflicts, setShowConflicts] = useState(false);
+  const [showDeleteScope, setShowDeleteScope] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
 
   // Data
   const [events, setEvents] = useState<DbEvent[]>([]);
@@ -82,6 +94,7 @@ export function Calendar() {
   const [isGoogleConnected, setIsGoogleConnected] = useState(false);
   const [googleEvents, setGoogleEvents] = useState<GoogleCalendarEvent[]>([]);
   const [syncedGoogleEventIds, setSyncedGoogleEventIds] = useState<Set<string>>(new Set());
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
 
   const monthStart = useMemo(() => startOfMonth(currentDate), [currentDate]);
   const monthEnd = useMemo(() => endOfMonth(currentDate), [currentDate]);
@@ -92,18 +105,13 @@ export function Calendar() {
     setLoading(true);
     setError(null);
     try {
-      // Load events
-      const { data: eventsData, error: eventsErr } = await supabase
-        .from('events')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('event_date', toLocalISODate(monthStart))
-        .lte('event_date', toLocalISODate(monthEnd))
-        .order('event_date', { ascending: true })
-        .order('start_time', { ascending: true });
-
-      if (eventsErr) throw eventsErr;
-      setEvents(eventsData ?? []);
+      // Load events, with recurring series expanded into occurrences
+      const eventsData = await calendarContextService.getEventsForDateRange(
+        user.id,
+        toLocalISODate(monthStart),
+        toLocalISODate(monthEnd)
+      );
+      setEvents(eventsData);
 
       // Load reminders for the same date range
       const { data: remindersData, error: remindersErr } = await supabase
@@ -141,6 +149,32 @@ export function Calendar() {
     if (user?.id) loadEvents();
   }, [user?.id, loadEvents]);
 
+  // Subscribed feeds: names/colors for badges, and a background refresh of any that are due
+  const loadFeeds = useCallback(async () => {
+    if (!user?.id) return;
+    setFeeds(await icsFeedService.listFeeds(user.id));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let mounted = true;
+
+    (async () => {
+      await loadFeeds();
+      const changed = await icsFeedService.refreshDueFeeds(user.id);
+      if (mounted && changed > 0) {
+        await loadFeeds();
+        void loadEvents();
+      }
+    })();
+
+    return () => {
+      mounted = false;
+    };
+  }, [user?.id, loadFeeds, loadEvents]);
+
+  const feedsById = useMemo(() => new Map(feeds.map(f => [f.id, f])), [feeds]);
+
   // Check Google Calendar connection and load events
   useEffect(() => {
     let mounted = true;
@@ -202,8 +236,8 @@ export function Calendar() {
 
     // Filter out Google events that are already synced to local DB
     const dayGoogleEvents = googleEvents.filter(ev => {
-      // Skip if this Google event is already in local database
-      if (syncedGoogleEventIds.has(ev.id)) {
+      // Skip if this Google event (or the series it belongs to) is already in local database
+      if (syncedGoogleEventIds.has(ev.id) || (ev.recurringEventId && syncedGoogleEventIds.has(ev.recurringEventId))) {
         return false;
       }
 
@@ -305,6 +339,20 @@ export function Calendar() {
     void loadEvents();
   }, [loadEvents]);
 
+  const handleDeleteOccurrence = useCallback(async (scope: RecurrenceEditScope) => {
+    if (!selectedEvent) return;
+    try {
+      await recurringEventService.deleteOccurrence(selectedEvent, scope);
+      setShowDeleteScope(false);
+      setShowEventDetails(false);
+      setSelectedEvent(null);
+      void loadEvents();
+    } catch (error) {
+      console.error('Error deleting recurring event:', error);
+      alert('Error deleting event. Please try again.');
+    }
+  }, [selectedEvent, loadEvents]);
+
   // --- Render helpers --------------------------------------------------------
   const isSameDay = (a: Date, b: Date) =>
     a.getFullYear() === b.getFullYear() &&
@@ -320,6 +368,7 @@ export function Calendar() {
       // Only count Google events that are NOT already synced to local DB
       const googleEventCount = googleEvents.filter(ev => {
         if (syncedGoogleEventIds.has(ev.id)) return false;
+        if (ev.recurringEventId && syncedGoogleEventIds.has(ev.recurringEventId)) return false;
 
         if (ev.start?.date) return ev.start.date === d;
         if (ev.start?.dateTime) return ev.start.dateTime.split('T')[0] === d;
@@ -460,6 +509,13 @@ export function Calendar() {
                 <Plus className="w-5 h-5" />
                 <span>Add Event</span>
               </button>
+              <button
+                onClick={() => setShowImportExport(true)}
+                className="w-full mt-3 py-2 text-sm font-medium text-rose-600 bg-rose-50 rounded-xl hover:bg-rose-100 transition-colors flex items-center justify-center space-x-2"
+              >
+                <FileText className="w-4 h-4" />
+                <span>Import, Export &amp; Subscribe</span>
+              </button>
             </div>
           </div>
 
@@ -495,7 +551,25 @@ export function Calendar() {
                         className="group bg-gradient-to-br from-orange-50 to-pink-50 border border-orange-200 rounded-2xl p-4 cursor-pointer hover:shadow-md transition-all"
                       >
                         <div className="flex items-start justify-between mb-2">
-                          <h3 className="font-semibold text-gray-900 group-hover:text-orange-600 transition-colors">{ev.title}</h3>
+                          <div className="flex items-center space-x-2">
+                            <h3 className="font-semibold text-gray-900 group-hover:text-orange-600 transition-colors">{ev.title}</h3>
+                            {recurringEventService.isRecurring(ev) && (
+                              <Repeat className="w-3 h-3 text-orange-500" aria-label="Recurring event" />
+                            )}
+                            {ev.feed_id && feedsById.has(ev.feed_id) && (
+                              <span className="flex items-center space-x-1 px-2 py-0.5 bg-white rounded-full border border-gray-200 text-xs font-medium text-gray-600">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: feedsById.get(ev.feed_id)!.color || undefined }} />
+                                <span>{feedsById.get(ev.feed_id)!.name}</span>
+                              </span>
+                            )}
+                            {ev.calendar_color && (
+                              <span
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: ev.calendar_color }}
+                                title="From Google Calendar"
+                              />
+                            )}
+                          </div>
                           <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full font-medium">
                             {formatTimeRange(ev.start_time, ev.end_time) || 'All day'}
                           </span>
@@ -597,6 +671,17 @@ export function Calendar() {
         )}
       </div>
 
+      <CalendarImportExport
+        isOpen={showImportExport}
+        onClose={() => setShowImportExport(false)}
+        onImported={() => {
+          void loadEvents();
+          void loadFeeds();
+        }}
+        defaultStartDate={toLocalISODate(monthStart)}
+        defaultEndDate={toLocalISODate(monthEnd)}
+      />
+
       {/* Event form modal */}
       {showEventForm && (
         <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-2 sm:p-4">
@@ -632,6 +717,7 @@ export function Calendar() {
                 <button
                   onClick={() => {
                     setShowEventDetails(false);
+                    setShowDeleteScope(false);
                     setSelectedEvent(null);
                     setSelectedReminder(null);
                   }}
@@ -663,6 +749,26 @@ export function Calendar() {
                       </div>
                     )}
 
+                    {recurringEventService.isRecurring(selectedEvent) && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Repeat className="w-4 h-4" />
+                        <span>
+                          {selectedEvent.recurrence_rule
+                            ? RecurrenceRule.describe(selectedEvent.recurrence_rule)
+                            : 'Edited occurrence of a recurring event'}
+                        </span>
+                      </div>
+                    )}
+
+                    {selectedEvent.feed_id && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Rss className="w-4 h-4" />
+                        <span>
+                          From {feedsById.get(selectedEvent.feed_id)?.name ?? 'a subscribed calendar'} (read-only)
+                        </span>
+                      </div>
+                    )}
+
                     {selectedEvent.location && (
                       <div className="flex items-center space-x-2 text-sm text-gray-600">
                         <MapPin className="w-4 h-4" />
@@ -684,42 +790,52 @@ export function Calendar() {
                     )}
                   </div>
 
+                  <EventChecklist event={selectedEvent} />
+
                   <div className="flex space-x-3 pt-4">
-                    <button
-                      onClick={() => {
-                        setShowEventDetails(false);
-                        setShowEventForm(true);
-                      }}
-                      className="flex-1 px-4 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 transition-colors"
-                    >
-                      Edit Event
-                    </button>
-                    <button
-                      onClick={async () => {
-                        if (confirm('Are you sure you want to delete this event?')) {
-                          try {
-                            const { error } = await supabase
-                              .from('events')
-                              .delete()
-                              .eq('id', selectedEvent.id);
+                    {!selectedEvent.feed_id && (
+                      <>
+                        <button
+                          onClick={() => {
+                            setShowEventDetails(false);
+                            setShowEventForm(true);
+                          }}
+                          className="flex-1 px-4 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 transition-colors"
+                        >
+                          Edit Event
+                        </button>
+                        <button
+                          onClick={async () => {
+                            if (recurringEventService.isRecurring(selectedEvent)) {
+                              setShowDeleteScope(true);
+                              return;
+                            }
+                            if (confirm('Are you sure you want to delete this event?')) {
+                              try {
+                                const { error } = await supabase
+                                  .from('events')
+                                  .delete()
+                                  .eq('id', selectedEvent.id);
                             
-                            if (!error) {
-                              setShowEventDetails(false);
-                              setSelectedEvent(null);
-                              loadEvents(); // Refresh events list
-                            } else {
-                              alert('Error deleting event. Please try again.');
+                                if (!error) {
+                                  setShowEventDetails(false);
+                                  setSelectedEvent(null);
+                                  loadEvents(); // Refresh events list
+                                } else {
+                                  alert('Error deleting event. Please try again.');
+                                }
+                              } catch (error) {
+                                console.error('Error deleting event:', error);
+                                alert('Error deleting event. Please try again.');
+                              }
                             }
-                          } catch (error) {
-                            console.error('Error deleting event:', error);
-                            alert('Error deleting event. Please try again.');
-                          }
-                        }
-                      }}
-                      className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    >
-                      Delete
-                    </button>
+                          }}
+                          className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={() => {
                         setShowEventDetails(false);
@@ -730,6 +846,31 @@ export function Calendar() {
                       Close
                     </button>
                   </div>
+
+                  {showDeleteScope && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-xl space-y-2">
+                      <p className="text-sm font-medium text-red-800">Delete recurring event</p>
+                      {([
+                        ['this', 'This event'],
+                        ['future', 'This and following events'],
+                        ['all', 'All events'],
+                      ] as [RecurrenceEditScope, string][]).map(([scope, label]) => (
+                        <button
+                          key={scope}
+                          onClick={() => handleDeleteOccurrence(scope)}
+                          className="w-full px-4 py-2 text-sm text-left bg-white border border-red-200 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setShowDeleteScope(false)}
+                        className="w-full px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -764,6 +905,13 @@ export function Calendar() {
                       </div>
                     )}
 
+                    {selectedReminder.recurrence_rule && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Repeat className="w-4 h-4" />
+                        <span>Repeats: {RecurrenceRule.describe(selectedReminder.recurrence_rule)}</span>
+                      </div>
+                    )}
+
                     {selectedReminder.description && (
                       <div className="p-3 bg-gray-50 rounded-lg">
                         <p className="text-sm text-gray-700">{selectedReminder.description}</p>
@@ -775,16 +923,11 @@ export function Calendar() {
                     <button
                       onClick={async () => {
                         try {
-                          const { error } = await supabase
-                            .from('reminders')
-                            .update({ completed: true })
-                            .eq('id', selectedReminder.id);
-                          
-                          if (!error) {
-                            setShowEventDetails(false);
-                            setSelectedReminder(null);
-                            loadEvents(); // Refresh to remove completed reminder
-                          }
+                          // Recurring reminders spawn their next occurrence
+                          await recurringItemService.completeReminder(selectedReminder);
+                          setShowEventDetails(false);
+                          setSelectedReminder(null);
+                          loadEvents(); // Refresh to remove completed reminder
                         } catch (error) {
                           console.error('Error completing reminder:', error);
                         }
@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Rss, RefreshCw, Trash2, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { CalendarFeed } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { icsFeedService, FEED_COLORS } from '../services/icsFeeds';
+
+interface CalendarFeedsProps {
+  // Called after anything that adds, changes or removes feed events
+  onChanged: () => void;
+}
+
+const REFRESH_OPTIONS = [
+  { value: 60, label: 'Every hour' },
+  { value: 360, label: 'Every 6 hours' },
+  { value: 1440, label: 'Once a day' },
+];
+
+function formatRefreshed(feed: CalendarFeed): string {
+  if (!feed.last_refreshed_at) return 'Not refreshed yet';
+  return `Updated ${new Date(feed.last_refreshed_at).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })}`;
+}
+
+/**
+ * Subscribed (read-only) calendar feeds: school, league and team calendars
+ * that are re-fetched in the background.
+ */
+export function CalendarFeeds({ onChanged }: CalendarFeedsProps) {
+  const { user } = useAuth();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [url, setUrl] = useState('');
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(FEED_COLORS[0]);
+  const [adding, setAdding] = useState(false);
+  const [busyFeedId, setBusyFeedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeeds = useCallback(async () => {
+    if (!user?.id) return;
+    setFeeds(await icsFeedService.listFeeds(user.id));
+  }, [user?.id]);
+
+  useEffect(() => {
+    void loadFeeds();
+  }, [loadFeeds]);
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !url.trim()) return;
+
+    setAdding(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { feed, result } = await icsFeedService.addFeed(user.id, { url, name, color });
+      setMessage(`Subscribed to ${feed.name}: ${result.added} event${result.added !== 1 ? 's' : ''} added.`);
+      setUrl('');
+      setName('');
+      setColor(FEED_COLORS[(feeds.length + 1) % FEED_COLORS.length]);
+      await loadFeeds();
+      onChanged();
+    } catch (err) {
+      console.error('Error subscribing to calendar feed:', err);
+      setError(err instanceof Error ? err.message : 'Could not subscribe to that calendar.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRefresh = async (feed: CalendarFeed) => {
+    setBusyFeedId(feed.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await icsFeedService.refreshFeed(feed, true);
+      setMessage(`${feed.name}: ${result.added} added, ${result.updated} updated, ${result.removed} removed.`);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not refresh that calendar.');
+    } finally {
+      await loadFeeds();
+      setBusyFeedId(null);
+    }
+  };
+
+  const handleToggle = async (feed: CalendarFeed) => {
+    setBusyFeedId(feed.id);
+    await icsFeedService.updateFeed(feed.id, { enabled: feed.enabled === false });
+    await loadFeeds();
+    setBusyFeedId(null);
+  };
+
+  const handleIntervalChange = async (feed: CalendarFeed, minutes: number) => {
+    await icsFeedService.updateFeed(feed.id, { refresh_interval_minutes: minutes });
+    await loadFeeds();
+  };
+
+  const handleRemove = async (feed: CalendarFeed) => {
+    if (!confirm(`Unsubscribe from ${feed.name}? Its events will be removed from your calendar.`)) return;
+
+    setBusyFeedId(feed.id);
+    const removed = await icsFeedService.removeFeed(feed.id);
+    if (!removed) setError('Could not unsubscribe. Please try again.');
+    await loadFeeds();
+    setBusyFeedId(null);
+    if (removed) onChanged();
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-gray-900">Subscribed calendars</h3>
+      <p className="text-sm text-gray-600">
+        Paste a calendar link (https:// or webcal://). Events stay in sync with the source and can't be edited here.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex items-start space-x-2">
+          <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{message}</span>
+        </div>
+      )}
+
+      {feeds.length > 0 && (
+        <div className="space-y-2">
+          {feeds.map((feed) => (
+            <div key={feed.id} className="p-3 border border-gray-200 rounded-xl space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: feed.color || FEED_COLORS[0] }} />
+                  <span className={`font-medium truncate ${feed.enabled === false ? 'text-gray-400' : 'text-gray-900'}`}>
+                    {feed.name}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleRefresh(feed)}
+                    disabled={busyFeedId === feed.id}
+                    title="Refresh now"
+                    className="w-8 h-8 rounded-lg flex items-center justify-center text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    {busyFeedId === feed.id
+                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                      : <RefreshCw className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(feed)}
+                    disabled={busyFeedId === feed.id}
+                    title="Unsubscribe"
+                    className="w-8 h-8 rounded-lg flex items-center justify-center text-red-500 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{feed.last_error ? <span className="text-red-600">{feed.last_error}</span> : formatRefreshed(feed)}</span>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={feed.refresh_interval_minutes ?? 360}
+                    onChange={(e) => handleIntervalChange(feed, parseInt(e.target.value, 10))}
+                    className="px-1 py-0.5 border border-gray-200 rounded text-xs"
+                  >
+                    {REFRESH_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center space-x-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={feed.enabled !== false}
+                      onChange={() => handleToggle(feed)}
+                      disabled={busyFeedId === feed.id}
+                    />
+                    <span>On</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubscribe} className="space-y-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="webcal://school.example.org/calendar.ics"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm"
+          pattern="(https?|webcals?)://.+"
+          required
+        />
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm"
+          />
+          <div className="flex space-x-1">
+            {FEED_COLORS.map((swatch) => (
+              <button
+                key={swatch}
+                type="button"
+                onClick={() => setColor(swatch)}
+                className={`w-5 h-5 rounded-full ${color === swatch ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                style={{ backgroundColor: swatch }}
+                aria-label={`Use color ${swatch}`}
+              />
+            ))}
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={adding || !url.trim()}
+          className="w-full py-3 bg-gradient-to-r from-rose-400 to-pink-400 text-white rounded-xl font-medium hover:shadow-lg transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          {adding ? <Loader2 className="w-5 h-5 animate-spin" /> : <Rss className="w-5 h-5" />}
+          <span>{adding ? 'Subscribing...' : 'Subscribe'}</span>
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { X, Upload, Download, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase, FamilyMember } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { icsCalendarService, IcsImportResult } from '../services/icsCalendar';
+import { CalendarFeeds } from './CalendarFeeds';
+
+interface CalendarImportExportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  defaultStartDate: string;
+  defaultEndDate: string;
+}
+
+export function CalendarImportExport({
+  isOpen,
+  onClose,
+  onImported,
+  defaultStartDate,
+  defaultEndDate
+}: CalendarImportExportProps) {
+  const { user } = useAuth();
+  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<IcsImportResult | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportOptions, setExportOptions] = useState({
+    startDate: defaultStartDate,
+    endDate: defaultEndDate,
+    familyMemberName: ''
+  });
+
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+    setImportResult(null);
+    setError(null);
+    setExportOptions({ startDate: defaultStartDate, endDate: defaultEndDate, familyMemberName: '' });
+
+    supabase
+      .from('family_members')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+      .then(({ data, error }) => {
+        if (!error) setFamilyMembers(data || []);
+      });
+  }, [isOpen, user?.id, defaultStartDate, defaultEndDate]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user?.id) return;
+
+    setImporting(true);
+    setError(null);
+    setImportResult(null);
+    try {
+      const text = await file.text();
+      const result = await icsCalendarService.importFile(user.id, text);
+      setImportResult(result);
+      if (result.imported > 0) onImported();
+    } catch (err) {
+      console.error('Error importing calendar file:', err);
+      setError(err instanceof Error ? err.message : 'Could not read that calendar file.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user?.id) return;
+    if (exportOptions.endDate < exportOptions.startDate) {
+      setError('The end date must be on or after the start date.');
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+    try {
+      const content = await icsCalendarService.exportEvents(user.id, {
+        startDate: exportOptions.startDate,
+        endDate: exportOptions.endDate,
+        familyMemberName: exportOptions.familyMemberName || null
+      });
+
+      const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      const who = exportOptions.familyMemberName ? `${exportOptions.familyMemberName.toLowerCase().replace(/\s+/g, '-')}-` : '';
+      link.href = url;
+      link.download = `${who}calendar-${exportOptions.startDate}-to-${exportOptions.endDate}.ics`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting calendar:', err);
+      setError(err instanceof Error ? err.message : 'Could not export events.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">Import, Export &amp; Subscribe</h2>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center hover:bg-gray-200 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start space-x-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900">Import an .ics file</h3>
+            <p className="text-sm text-gray-600">
+              Add events from a school, doctor or sports league calendar. Events you already have are skipped.
+            </p>
+            <label className={`w-full py-3 border-2 border-dashed border-rose-200 rounded-xl flex items-center justify-center space-x-2 text-rose-600 font-medium transition-colors ${
+              importing ? 'opacity-50 cursor-wait' : 'cursor-pointer hover:bg-rose-50'
+            }`}>
+              {importing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              <span>{importing ? 'Importing...' : 'Choose .ics file'}</span>
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFile}
+                disabled={importing}
+                className="hidden"
+              />
+            </label>
+
+            {importResult && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 space-y-1">
+                <div className="flex items-center space-x-2 font-medium">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>
+                    {importResult.calendarName ? `${importResult.calendarName}: ` : ''}
+                    {importResult.imported} imported, {importResult.duplicates} already in your calendar
+                    {importResult.skipped > 0 ? `, ${importResult.skipped} skipped` : ''}
+                  </span>
+                </div>
+                {importResult.warnings.length > 0 && (
+                  <ul className="list-disc list-inside text-xs text-amber-700">
+                    {importResult.warnings.slice(0, 5).map((warning, i) => (
+                      <li key={i}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 pt-4 border-t border-gray-100">
+            <h3 className="font-semibold text-gray-900">Export events</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={exportOptions.startDate}
+                  onChange={(e) => setExportOptions({ ...exportOptions, startDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={exportOptions.endDate}
+                  min={exportOptions.startDate}
+                  onChange={(e) => setExportOptions({ ...exportOptions, endDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Family member</label>
+              <select
+                value={exportOptions.familyMemberName}
+                onChange={(e) => setExportOptions({ ...exportOptions, familyMemberName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm"
+              >
+                <option value="">Everyone</option>
+                {familyMembers.map((member) => (
+                  <option key={member.id} value={member.name}>{member.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={exporting || !exportOptions.startDate || !exportOptions.endDate}
+              className="w-full py-3 bg-gradient-to-r from-rose-400 to-pink-400 text-white rounded-xl font-medium hover:shadow-lg transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+              <span>{exporting ? 'Exporting...' : 'Download .ics'}</span>
+            </button>
+          </div>
+
+          <div className="pt-4 border-t border-gray-100">
+            <CalendarFeeds onChanged={onImported} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,496 @@
+import React, { useCallback, useState } from 'react';
+import { Car, Plus, Trash2, Phone, ArrowRight, ArrowLeft, RefreshCw, X } from 'lucide-react';
+import { Carpool, Contact, Event, FamilyMember, RideDirection, supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { carpoolService, RideLeg, RunSheet } from '../services/carpools';
+import { calendarContextService } from '../services/calendarContext';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+
+// How far ahead open legs and requestable events are listed
+const LOOKAHEAD_DAYS = 14;
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const formatTime = (time: string | null): string => {
+  if (!time) return 'All day';
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const emptyCarpool = {
+  event_id: '',
+  name: '',
+  directions: ['to', 'from'] as RideDirection[],
+  passengers: [] as string[],
+  drivers: [] as string[], // driver keys in rotation order
+};
+
+export function Carpools() {
+  const { user } = useAuth();
+  const [selectedDate, setSelectedDate] = useState(todayString());
+  const [runSheets, setRunSheets] = useState<RunSheet[]>([]);
+  const [openLegs, setOpenLegs] = useState<RideLeg[]>([]);
+  const [carpools, setCarpools] = useState<Carpool[]>([]);
+  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
+  const [seriesEvents, setSeriesEvents] = useState<Event[]>([]);
+  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [requestKey, setRequestKey] = useState('');
+  const [showCarpoolForm, setShowCarpoolForm] = useState(false);
+  const [carpoolForm, setCarpoolForm] = useState(emptyCarpool);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadAll = useCallback(async () => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    try {
+      const today = todayString();
+      const until = RecurrenceRule.addDays(today, LOOKAHEAD_DAYS);
+
+      // Rotations first, so the lists below include the legs they fill in
+      await carpoolService.generateUpcoming(user.id);
+
+      const [legs, carpoolList, events, membersResult, contactsResult] = await Promise.all([
+        carpoolService.getLegs(user.id, today, until),
+        carpoolService.getCarpools(user.id),
+        calendarContextService.getEventsForDateRange(user.id, today, until),
+        supabase.from('family_members').select('*').eq('user_id', user.id).order('name'),
+        supabase.from('contacts').select('*').eq('user_id', user.id).order('name'),
+      ]);
+
+      setOpenLegs(legs.filter(leg => carpoolService.driverKey(leg.action) === 'unassigned'));
+      setCarpools(carpoolList);
+      setUpcomingEvents(events);
+      setSeriesEvents([...new Map(events.filter(e => e.recurrence_rule).map(e => [e.id, e])).values()]);
+      setFamilyMembers(membersResult.data || []);
+      setContacts(contactsResult.data || []);
+    } catch (err) {
+      console.error('Error loading carpools:', err);
+      setError('Failed to load carpools.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  const loadRunSheets = useCallback(async () => {
+    if (!user?.id) return;
+    setRunSheets(await carpoolService.getRunSheets(user.id, selectedDate));
+  }, [user?.id, selectedDate]);
+
+  React.useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  React.useEffect(() => {
+    loadRunSheets();
+  }, [loadRunSheets]);
+
+  const refresh = async () => {
+    await Promise.all([loadAll(), loadRunSheets()]);
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setError('');
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error(failure, err);
+      setError(`${failure} ${err instanceof Error ? err.message : ''}`.trim());
+    }
+  };
+
+  const handleAssign = (leg: RideLeg, driverKey: string) =>
+    runAction(
+      () => carpoolService.assignDriver(leg.action.id, carpoolService.parseDriverKey(driverKey)),
+      'Failed to assign driver.'
+    );
+
+  const handleRequestRide = (direction: RideDirection) => {
+    const occurrence = upcomingEvents.find(e => `${e.id}|${e.event_date}` === requestKey);
+    if (!user?.id || !occurrence) return;
+
+    runAction(async () => {
+      await carpoolService.requestRide(user.id, occurrence, direction);
+      setRequestKey('');
+    }, 'Failed to request a ride.');
+  };
+
+  const handleCreateCarpool = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id) return;
+
+    const event = seriesEvents.find(ev => ev.id === carpoolForm.event_id);
+    runAction(async () => {
+      await carpoolService.createCarpool(user.id, {
+        event_id: carpoolForm.event_id,
+        name: carpoolForm.name.trim() || `${event?.title ?? 'Event'} carpool`,
+        directions: carpoolForm.directions,
+        passengers: carpoolForm.passengers,
+        start_date: todayString(),
+        drivers: carpoolForm.drivers
+          .map(key => carpoolService.parseDriverKey(key))
+          .filter((driver): driver is NonNullable<typeof driver> => driver !== null),
+      });
+      setCarpoolForm(emptyCarpool);
+      setShowCarpoolForm(false);
+    }, 'Failed to create carpool.');
+  };
+
+  const handleDeleteCarpool = (carpool: Carpool) => {
+    if (!confirm(`Delete "${carpool.name}" and its upcoming rides?`)) return;
+    runAction(() => carpoolService.deleteCarpool(carpool.id), 'Failed to delete carpool.');
+  };
+
+  const toggleDirection = (direction: RideDirection) => {
+    const directions = carpoolForm.directions.includes(direction)
+      ? carpoolForm.directions.filter(d => d !== direction)
+      : [...carpoolForm.directions, direction];
+    setCarpoolForm({ ...carpoolForm, directions });
+  };
+
+  const togglePassenger = (name: string) => {
+    const passengers = carpoolForm.passengers.includes(name)
+      ? carpoolForm.passengers.filter(p => p !== name)
+      : [...carpoolForm.passengers, name];
+    setCarpoolForm({ ...carpoolForm, passengers });
+  };
+
+  const eventTitle = (eventId: string) =>
+    seriesEvents.find(e => e.id === eventId)?.title ?? 'Event';
+
+  const driverOptions = (
+    <>
+      {familyMembers.length > 0 && (
+        <optgroup label="Family">
+          {familyMembers.map(member => (
+            <option key={member.id} value={`member:${member.id}`}>{member.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {contacts.length > 0 && (
+        <optgroup label="Contacts">
+          {contacts.map(contact => (
+            <option key={contact.id} value={`contact:${contact.id}`}>{contact.name}</option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  );
+
+  const directionLabel = (leg: RideLeg) => (
+    <span className="inline-flex items-center text-xs text-gray-500">
+      {leg.direction === 'to'
+        ? <><ArrowRight className="w-3 h-3 mr-1" />Drop-off</>
+        : <><ArrowLeft className="w-3 h-3 mr-1" />Pickup</>}
+    </span>
+  );
+
+  return (
+    <div className="h-screen overflow-y-auto pb-20 sm:pb-24">
+      {/* Header */}
+      <div className="bg-white p-4 sm:p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Carpools</h1>
+            <p className="text-sm sm:text-base text-gray-600">Who's driving, and when</p>
+          </div>
+          <button
+            onClick={refresh}
+            className="w-8 h-8 sm:w-10 sm:h-10 bg-purple-500 text-white rounded-full flex items-center justify-center hover:bg-purple-600 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 sm:w-5 sm:h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 sm:p-6 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Run sheet */}
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">Run sheet</h2>
+            <input
+              type="date"
+              value={selectedDate}
+              onChange={(e) => setSelectedDate(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          {runSheets.length === 0 ? (
+            <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-xl p-4">
+              No rides on {formatDate(selectedDate)}.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {runSheets.map(sheet => (
+                <div key={sheet.driverKey} className="bg-white border border-gray-200 rounded-xl p-3 sm:p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className={`font-semibold text-sm sm:text-base ${sheet.driverKey === 'unassigned' ? 'text-amber-600' : 'text-gray-900'}`}>
+                      {sheet.driverName}
+                    </h3>
+                    {sheet.phone && (
+                      <a href={`tel:${sheet.phone}`} className="flex items-center text-xs text-green-600">
+                        <Phone className="w-3 h-3 mr-1" />{sheet.phone}
+                      </a>
+                    )}
+                  </div>
+                  <ul className="space-y-2">
+                    {sheet.legs.map(leg => (
+                      <li key={leg.action.id} className="flex items-start justify-between text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">{formatTime(leg.time)} · {leg.event.title}</p>
+                          <div className="flex items-center space-x-2">
+                            {directionLabel(leg)}
+                            {leg.event.location && <span className="text-xs text-gray-500">{leg.event.location}</span>}
+                          </div>
+                          {leg.action.passengers && leg.action.passengers.length > 0 && (
+                            <p className="text-xs text-gray-500">Riders: {leg.action.passengers.join(', ')}</p>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => runAction(() => carpoolService.cancelRide(leg.action.id), 'Failed to cancel ride.')}
+                          className="text-gray-400 hover:text-red-500"
+                          title="No ride needed"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Open legs */}
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Needs a driver</h2>
+          {openLegs.length === 0 ? (
+            <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-xl p-4">
+              Every ride in the next {LOOKAHEAD_DAYS} days has a driver.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {openLegs.map(leg => (
+                <div key={leg.action.id} className="bg-white border border-amber-200 rounded-xl p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{leg.event.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(leg.event.event_date)} · {formatTime(leg.time)} · {leg.direction === 'to' ? 'Drop-off' : 'Pickup'}
+                    </p>
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) => handleAssign(leg, e.target.value)}
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="" disabled>Assign…</option>
+                    {driverOptions}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-3 bg-white border border-gray-200 rounded-xl p-3 space-y-2">
+            <p className="text-sm font-medium text-gray-700">Request a ride</p>
+            <select
+              value={requestKey}
+              onChange={(e) => setRequestKey(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">Choose an event…</option>
+              {upcomingEvents.map(event => (
+                <option key={`${event.id}|${event.event_date}`} value={`${event.id}|${event.event_date}`}>
+                  {formatDate(event.event_date)} · {formatTime(event.start_time ?? null)} · {event.title}
+                </option>
+              ))}
+            </select>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleRequestRide('to')}
+                disabled={!requestKey}
+                className="flex-1 px-3 py-2 bg-purple-500 text-white rounded-lg text-sm hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                Needs a drop-off
+              </button>
+              <button
+                onClick={() => handleRequestRide('from')}
+                disabled={!requestKey}
+                className="flex-1 px-3 py-2 bg-purple-500 text-white rounded-lg text-sm hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                Needs a pickup
+              </button>
+            </div>
+          </div>
+        </section>
+
+        {/* Rotating carpools */}
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">Rotating carpools</h2>
+            <button
+              onClick={() => setShowCarpoolForm(!showCarpoolForm)}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-purple-500 text-white rounded-lg text-sm hover:bg-purple-600 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New</span>
+            </button>
+          </div>
+
+          {showCarpoolForm && (
+            <form onSubmit={handleCreateCarpool} className="bg-white border border-gray-200 rounded-xl p-4 mb-3 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Recurring event *</label>
+                <select
+                  required
+                  value={carpoolForm.event_id}
+                  onChange={(e) => setCarpoolForm({ ...carpoolForm, event_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Choose an event…</option>
+                  {seriesEvents.map(event => (
+                    <option key={event.id} value={event.id}>
+                      {event.title} ({RecurrenceRule.describe(event.recurrence_rule)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={carpoolForm.name}
+                  onChange={(e) => setCarpoolForm({ ...carpoolForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., Soccer carpool"
+                />
+              </div>
+
+              <div className="flex space-x-4 text-sm">
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={carpoolForm.directions.includes('to')} onChange={() => toggleDirection('to')} />
+                  <span>Drop-off</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={carpoolForm.directions.includes('from')} onChange={() => toggleDirection('from')} />
+                  <span>Pickup</span>
+                </label>
+              </div>
+
+              {familyMembers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Riders</label>
+                  <div className="flex flex-wrap gap-2">
+                    {familyMembers.map(member => (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => togglePassenger(member.name)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${
+                          carpoolForm.passengers.includes(member.name)
+                            ? 'bg-purple-500 text-white'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {member.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Drivers, in turn *</label>
+                <ol className="space-y-1 mb-2">
+                  {carpoolForm.drivers.map((key, index) => (
+                    <li key={key} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-1.5">
+                      <span>
+                        {index + 1}. {familyMembers.find(m => `member:${m.id}` === key)?.name
+                          ?? contacts.find(c => `contact:${c.id}` === key)?.name}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setCarpoolForm({ ...carpoolForm, drivers: carpoolForm.drivers.filter(d => d !== key) })}
+                        className="text-gray-400 hover:text-red-500"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && !carpoolForm.drivers.includes(e.target.value) &&
+                    setCarpoolForm({ ...carpoolForm, drivers: [...carpoolForm.drivers, e.target.value] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Add a driver…</option>
+                  {driverOptions}
+                </select>
+              </div>
+
+              <button
+                type="submit"
+                disabled={!carpoolForm.event_id || carpoolForm.drivers.length === 0 || carpoolForm.directions.length === 0}
+                className="w-full px-4 py-2 bg-purple-500 text-white rounded-lg text-sm font-medium hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                Create carpool
+              </button>
+            </form>
+          )}
+
+          {carpools.length === 0 && !showCarpoolForm ? (
+            <p className="text-sm text-gray-500 bg-white border border-gray-200 rounded-xl p-4">
+              Share a recurring drive with other parents and the app takes turns for you.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {carpools.map(carpool => (
+                <div key={carpool.id} className="bg-white border border-gray-200 rounded-xl p-3 flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <div className="w-9 h-9 bg-purple-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <Car className="w-4 h-4 text-purple-600" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-semibold text-gray-900">{carpool.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {eventTitle(carpool.event_id)} · {carpool.directions.map(d => d === 'to' ? 'drop-off' : 'pickup').join(' & ')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Drivers: {(carpool.carpool_drivers || [])
+                          .map(driver => carpoolService.describeDriver(driver, familyMembers, contacts))
+                          .join(' → ')}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteCarpool(carpool)}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
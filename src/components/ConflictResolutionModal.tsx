@@ -1,16 +1,55 @@
 import React, { useState } from 'react';
-import { X, AlertTriangle, Calendar, Clock, MapPin, Users, ChevronRight } from 'lucide-react';
-import type { SyncConflict } from '../services/calendarSync';
+import { X, AlertTriangle, Calendar, Clock, MapPin, Users, ChevronRight, Trash2 } from 'lucide-react';
+import { CalendarSync } from '../services/calendarSync';
+import type { SyncConflict, SyncField, SyncSnapshot } from '../services/calendarSync';
+
+type FieldChoices = Partial<Record<SyncField, 'local' | 'google'>>;
 
 interface ConflictResolutionModalProps {
   conflicts: SyncConflict[];
-  onResolve: (conflictId: string, resolution: 'keep_local' | 'keep_google' | 'merge') => Promise<boolean>;
+  onResolve: (
+    conflictId: string,
+    resolution: 'keep_local' | 'keep_google' | 'merge',
+    choices?: FieldChoices
+  ) => Promise<boolean>;
   onClose: () => void;
 }
 
+const FIELD_LABELS: Record<SyncField, string> = {
+  title: 'Title',
+  time: 'Date & time',
+  location: 'Location',
+  attendees: 'Participants',
+  description: 'Description',
+  recurrence: 'Repeats',
+};
+
+function describeField(snapshot: SyncSnapshot, field: SyncField): string {
+  switch (field) {
+    case 'title':
+      return snapshot.title || 'Untitled';
+    case 'time': {
+      const date = new Date(`${snapshot.event_date}T00:00:00`).toLocaleDateString();
+      const endDate = snapshot.end_date ? new Date(`${snapshot.end_date}T00:00:00`).toLocaleDateString() : null;
+      if (!snapshot.start_time) return endDate ? `${date} - ${endDate}, all day` : `${date}, all day`;
+      const end = snapshot.end_time ? ` - ${endDate ? `${endDate}, ` : ''}${snapshot.end_time}` : '';
+      return `${date}, ${snapshot.start_time}${end}`;
+    }
+    case 'location':
+      return snapshot.location || 'Not set';
+    case 'attendees':
+      return snapshot.participants.length > 0 ? snapshot.participants.join(', ') : 'None';
+    case 'description':
+      return snapshot.description || 'Not set';
+    case 'recurrence':
+      return snapshot.recurrence_rule || 'Does not repeat';
+  }
+}
+
 export function ConflictResolutionModal({ conflicts, onResolve, onClose }: ConflictResolutionModalProps) {
   const [selectedConflictIndex, setSelectedConflictIndex] = useState(0);
   const [resolving, setResolving] = useState(false);
+  const [choices, setChoices] = useState<FieldChoices>({});
 
   if (conflicts.length === 0) {
     return null;
@@ -19,16 +58,33 @@ export function ConflictResolutionModal({ conflicts, onResolve, onClose }: Confl
   const currentConflict = conflicts[selectedConflictIndex];
   const localData = currentConflict.local_event_data;
   const googleData = currentConflict.google_event_data;
+  const deletedSide = currentConflict.conflict_type === 'deletion' ? currentConflict.deleted_side : null;
+
+  // Field-level conflicts only show the fields both sides changed
+  const conflictingFields = deletedSide ? [] : currentConflict.conflicting_fields ?? [];
+  const localSnapshot = conflictingFields.length > 0 ? CalendarSync.toSnapshot(localData) : null;
+  const googleSnapshot = conflictingFields.length > 0
+    ? CalendarSync.toSnapshot(CalendarSync.googleEventToLocal(
+        googleData,
+        currentConflict.user_id,
+        CalendarSync.eventTimeZone(localData)
+      ))
+    : null;
+
+  const showNextConflict = () => {
+    setChoices({});
+    setSelectedConflictIndex(selectedConflictIndex + 1);
+  };
 
   const handleResolve = async (resolution: 'keep_local' | 'keep_google' | 'merge') => {
     setResolving(true);
     try {
-      const success = await onResolve(currentConflict.id, resolution);
+      const success = await onResolve(currentConflict.id, resolution, resolution === 'merge' ? choices : undefined);
 
       if (success) {
         // Move to next conflict or close if this was the last one
         if (selectedConflictIndex < conflicts.length - 1) {
-          setSelectedConflictIndex(selectedConflictIndex + 1);
+          showNextConflict();
         } else {
           onClose();
         }
@@ -81,164 +137,213 @@ export function ConflictResolutionModal({ conflicts, onResolve, onClose }: Confl
 
           <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mt-4">
             <p className="text-sm text-orange-800">
-              This event was modified in both your local calendar and Google Calendar.
-              Choose which version to keep or merge them manually.
+              {deletedSide === 'local'
+                ? 'This event was deleted in your local calendar but changed in Google Calendar. Delete it from Google too, or restore it here?'
+                : deletedSide === 'google'
+                ? 'This event was deleted in Google Calendar but changed in your local calendar. Delete it here too, or put it back in Google?'
+                : conflictingFields.length > 0
+                ? 'This event was changed in both calendars. Other edits were merged automatically; pick which value to keep for each field below.'
+                : 'This event was modified in both your local calendar and Google Calendar. Choose which version to keep or merge them manually.'}
             </p>
           </div>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Local Version */}
-            <div className="border-2 border-blue-200 rounded-xl p-4 bg-blue-50">
-              <div className="flex items-center space-x-2 mb-4">
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-                  <Calendar className="w-4 h-4 text-white" />
-                </div>
-                <div>
-                  <h3 className="font-semibold text-gray-900">Local Calendar</h3>
-                  <p className="text-xs text-gray-500">
-                    Modified: {formatDate(currentConflict.local_modified_at)}
-                  </p>
-                </div>
-              </div>
-
-              <div className="space-y-3">
-                <div>
-                  <label className="text-xs font-medium text-gray-600">Title</label>
-                  <p className="text-sm font-medium text-gray-900">{localData.title || 'Untitled'}</p>
+          {localSnapshot && googleSnapshot ? (
+            <div className="space-y-4">
+              {conflictingFields.map((field) => (
+                <div key={field} className="border border-gray-200 rounded-xl p-4">
+                  <h3 className="text-xs font-medium text-gray-600 mb-3">{FIELD_LABELS[field]}</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {(['local', 'google'] as const).map((side) => (
+                      <label
+                        key={side}
+                        className={`flex items-start space-x-3 p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                          (choices[field] ?? 'local') === side
+                            ? side === 'local' ? 'border-blue-400 bg-blue-50' : 'border-green-400 bg-green-50'
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={`field-${field}`}
+                          checked={(choices[field] ?? 'local') === side}
+                          onChange={() => setChoices({ ...choices, [field]: side })}
+                          className="mt-1"
+                        />
+                        <div>
+                          <p className="text-xs text-gray-500">{side === 'local' ? 'Local Calendar' : 'Google Calendar'}</p>
+                          <p className="text-sm text-gray-900">
+                            {describeField(side === 'local' ? localSnapshot : googleSnapshot, field)}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
                 </div>
-
-                {localData.description && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Description</label>
-                    <p className="text-sm text-gray-700">{localData.description}</p>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Local Version */}
+              <div className="border-2 border-blue-200 rounded-xl p-4 bg-blue-50">
+                <div className="flex items-center space-x-2 mb-4">
+                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
+                    <Calendar className="w-4 h-4 text-white" />
                   </div>
-                )}
-
-                <div>
-                  <label className="text-xs font-medium text-gray-600">Date</label>
-                  <div className="flex items-center space-x-2 text-sm text-gray-700">
-                    <Calendar className="w-3 h-3" />
-                    <span>{formatDate(localData.event_date)}</span>
+                  <div>
+                    <h3 className="font-semibold text-gray-900">Local Calendar</h3>
+                    <p className="text-xs text-gray-500">
+                      Modified: {formatDate(currentConflict.local_modified_at)}
+                    </p>
                   </div>
                 </div>
 
-                {(localData.start_time || localData.end_time) && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Time</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <Clock className="w-3 h-3" />
-                      <span>
-                        {formatTime(localData.start_time)}
-                        {localData.end_time && ` - ${formatTime(localData.end_time)}`}
-                      </span>
+                {deletedSide === 'local' ? (
+                  <DeletedNotice />
+                ) : (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Title</label>
+                      <p className="text-sm font-medium text-gray-900">{localData.title || 'Untitled'}</p>
                     </div>
-                  </div>
-                )}
 
-                {localData.location && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Location</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <MapPin className="w-3 h-3" />
-                      <span>{localData.location}</span>
-                    </div>
-                  </div>
-                )}
+                    {localData.description && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Description</label>
+                        <p className="text-sm text-gray-700">{localData.description}</p>
+                      </div>
+                    )}
 
-                {localData.participants && localData.participants.length > 0 && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Participants</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <Users className="w-3 h-3" />
-                      <span>{localData.participants.join(', ')}</span>
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Date</label>
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <Calendar className="w-3 h-3" />
+                        <span>{formatDate(localData.event_date)}</span>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            </div>
 
-            {/* Google Version */}
-            <div className="border-2 border-green-200 rounded-xl p-4 bg-green-50">
-              <div className="flex items-center space-x-2 mb-4">
-                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center">
-                  <Calendar className="w-4 h-4 text-white" />
-                </div>
-                <div>
-                  <h3 className="font-semibold text-gray-900">Google Calendar</h3>
-                  <p className="text-xs text-gray-500">
-                    Modified: {formatDate(currentConflict.google_modified_at)}
-                  </p>
-                </div>
-              </div>
+                    {(localData.start_time || localData.end_time) && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Time</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <Clock className="w-3 h-3" />
+                          <span>
+                            {formatTime(localData.start_time)}
+                            {localData.end_time && ` - ${formatTime(localData.end_time)}`}
+                          </span>
+                        </div>
+                      </div>
+                    )}
 
-              <div className="space-y-3">
-                <div>
-                  <label className="text-xs font-medium text-gray-600">Title</label>
-                  <p className="text-sm font-medium text-gray-900">{googleData.summary || 'Untitled'}</p>
-                </div>
+                    {localData.location && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Location</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <MapPin className="w-3 h-3" />
+                          <span>{localData.location}</span>
+                        </div>
+                      </div>
+                    )}
 
-                {googleData.description && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Description</label>
-                    <p className="text-sm text-gray-700">{googleData.description}</p>
+                    {localData.participants && localData.participants.length > 0 && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Participants</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <Users className="w-3 h-3" />
+                          <span>{localData.participants.join(', ')}</span>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
+              </div>
 
-                <div>
-                  <label className="text-xs font-medium text-gray-600">Date</label>
-                  <div className="flex items-center space-x-2 text-sm text-gray-700">
-                    <Calendar className="w-3 h-3" />
-                    <span>
-                      {googleData.start?.date
-                        ? formatDate(googleData.start.date)
-                        : formatDate(googleData.start?.dateTime)
-                      }
-                    </span>
+              {/* Google Version */}
+              <div className="border-2 border-green-200 rounded-xl p-4 bg-green-50">
+                <div className="flex items-center space-x-2 mb-4">
+                  <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center">
+                    <Calendar className="w-4 h-4 text-white" />
                   </div>
-                </div>
-
-                {googleData.start?.dateTime && (
                   <div>
-                    <label className="text-xs font-medium text-gray-600">Time</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <Clock className="w-3 h-3" />
-                      <span>
-                        {new Date(googleData.start.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
-                        {googleData.end?.dateTime &&
-                          ` - ${new Date(googleData.end.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
-                        }
-                      </span>
-                    </div>
+                    <h3 className="font-semibold text-gray-900">Google Calendar</h3>
+                    <p className="text-xs text-gray-500">
+                      Modified: {formatDate(currentConflict.google_modified_at)}
+                    </p>
                   </div>
-                )}
+                </div>
 
-                {googleData.location && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Location</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <MapPin className="w-3 h-3" />
-                      <span>{googleData.location}</span>
+                {deletedSide === 'google' ? (
+                  <DeletedNotice />
+                ) : (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Title</label>
+                      <p className="text-sm font-medium text-gray-900">{googleData.summary || 'Untitled'}</p>
                     </div>
-                  </div>
-                )}
 
-                {googleData.attendees && googleData.attendees.length > 0 && (
-                  <div>
-                    <label className="text-xs font-medium text-gray-600">Attendees</label>
-                    <div className="flex items-center space-x-2 text-sm text-gray-700">
-                      <Users className="w-3 h-3" />
-                      <span>
-                        {googleData.attendees.map(a => a.email || a.displayName).filter(Boolean).join(', ')}
-                      </span>
+                    {googleData.description && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Description</label>
+                        <p className="text-sm text-gray-700">{googleData.description}</p>
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Date</label>
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <Calendar className="w-3 h-3" />
+                        <span>
+                          {googleData.start?.date
+                            ? formatDate(googleData.start.date)
+                            : formatDate(googleData.start?.dateTime)
+                          }
+                        </span>
+                      </div>
                     </div>
+
+                    {googleData.start?.dateTime && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Time</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <Clock className="w-3 h-3" />
+                          <span>
+                            {new Date(googleData.start.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                            {googleData.end?.dateTime &&
+                              ` - ${new Date(googleData.end.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+                            }
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {googleData.location && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Location</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <MapPin className="w-3 h-3" />
+                          <span>{googleData.location}</span>
+                        </div>
+                      </div>
+                    )}
+
+                    {googleData.attendees && googleData.attendees.length > 0 && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Attendees</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                          <Users className="w-3 h-3" />
+                          <span>
+                            {googleData.attendees.map(a => a.email || a.displayName).filter(Boolean).join(', ')}
+                          </span>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -249,7 +354,11 @@ export function ConflictResolutionModal({ conflicts, onResolve, onClose }: Confl
               disabled={resolving}
               className="flex-1 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 font-medium"
             >
-              Keep Local Version
+              {deletedSide === 'local'
+                ? 'Delete from Google'
+                : deletedSide === 'google'
+                ? 'Restore to Google'
+                : 'Keep Local Version'}
             </button>
 
             <button
@@ -257,12 +366,26 @@ export function ConflictResolutionModal({ conflicts, onResolve, onClose }: Confl
               disabled={resolving}
               className="flex-1 px-4 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 font-medium"
             >
-              Keep Google Version
+              {deletedSide === 'local'
+                ? 'Restore Locally'
+                : deletedSide === 'google'
+                ? 'Delete Locally'
+                : 'Keep Google Version'}
             </button>
 
+            {conflictingFields.length > 0 && (
+              <button
+                onClick={() => handleResolve('merge')}
+                disabled={resolving}
+                className="flex-1 px-4 py-3 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50 font-medium"
+              >
+                Apply Selection
+              </button>
+            )}
+
             {selectedConflictIndex < conflicts.length - 1 && (
               <button
-                onClick={() => setSelectedConflictIndex(selectedConflictIndex + 1)}
+                onClick={showNextConflict}
                 disabled={resolving}
                 className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 flex items-center space-x-2"
               >
@@ -282,3 +405,12 @@ export function ConflictResolutionModal({ conflicts, onResolve, onClose }: Confl
     </div>
   );
 }
+
+function DeletedNotice() {
+  return (
+    <div className="flex flex-col items-center justify-center py-8 text-gray-500 space-y-2">
+      <Trash2 className="w-8 h-8" />
+      <p className="text-sm font-medium">Deleted</p>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import React from 'react';
-import { Calendar, ShoppingBag, MessageCircle, Clock, Heart, Gift, Users, LogOut, Smartphone, User, Sparkles } from 'lucide-react';
+import { Calendar, ShoppingBag, MessageCircle, Clock, Heart, Gift, Users, LogOut, Smartphone, User, Sparkles, Car } from 'lucide-react';
 import { WhatsAppIntegration } from './WhatsAppIntegration';
 import { DailyAffirmations } from './DailyAffirmations';
 import { useAuth } from '../hooks/useAuth';
 import { supabase, Profile, Event, ShoppingItem, Reminder, Affirmation } from '../lib/supabase';
 import { affirmationService } from '../services/affirmationService';
+import { recurringItemService } from '../services/recurringItems';
+import { birthdayService } from '../services/birthdays';
+import { travelTimeService, TravelLeg } from '../services/travelTime';
 
 import { SubScreen } from '../App';
 
@@ -25,6 +28,7 @@ export function Dashboard({ onNavigate, onNavigateToSubScreen, onVoiceChatOpen }
   const [showRemindersPopup, setShowRemindersPopup] = React.useState(false);
   const [events, setEvents] = React.useState<Event[]>([]);
   const [todayEvents, setTodayEvents] = React.useState<Event[]>([]);
+  const [travelLegs, setTravelLegs] = React.useState<Record<string, TravelLeg>>({});
   const [tasks, setTasks] = React.useState<ShoppingItem[]>([]);
   const [reminders, setReminders] = React.useState<Reminder[]>([]);
   const [loading, setLoading] = React.useState(false);
@@ -85,6 +89,12 @@ export function Dashboard({ onNavigate, onNavigateToSubScreen, onVoiceChatOpen }
       const today = new Date().toISOString().split('T')[0];
       const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
+      // Birthdays first so their reminder series get rolled forward too
+      await birthdayService.syncMissing(user.id);
+
+      // Roll recurring reminders and tasks forward before reading them
+      await recurringItemService.generateDueOccurrences(user.id);
+
       // Load upcoming events for next 7 days (for event count)
       const { data: eventsData, error: eventsError } = await supabase
         .from('events')
@@ -109,6 +119,11 @@ export function Dashboard({ onNavigate, onNavigateToSubScreen, onVoiceChatOpen }
           });
 
         setTodayEvents(todayEventsFiltered);
+
+        // Leave-by times may need geocoding, so they fill in after the rest
+        travelTimeService.planDay(user.id, todayEventsFiltered)
+          .then(legs => setTravelLegs(Object.fromEntries(legs.map(leg => [leg.eventId, leg]))))
+          .catch(error => console.error('Error planning travel:', error));
       }
 
       // Load incomplete shopping items (tasks)
@@ -328,6 +343,12 @@ export function Dashboard({ onNavigate, onNavigateToSubScreen, onVoiceChatOpen }
                       {event.location && (
                         <p className="text-xs sm:text-sm text-gray-600">{event.location}</p>
                       )}
+                      {travelLegs[event.id] && (
+                        <p className={`text-xs sm:text-sm mt-1 flex items-center ${travelLegs[event.id].tight ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                          <Car className="w-3 h-3 sm:w-4 sm:h-4 mr-1 flex-shrink-0" />
+                          Leave by {formatEventTime(travelLegs[event.id].leaveBy)} ({travelLegs[event.id].travelMinutes} min from {travelLegs[event.id].fromLabel})
+                        </p>
+                      )}
                       {event.description && (
                         <p className="text-xs sm:text-sm text-gray-500 mt-1 line-clamp-1">{event.description}</p>
                       )}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CheckSquare, Square, Sparkles, Car } from 'lucide-react';
+import { Event, EventAction } from '../lib/supabase';
+import { eventActionService } from '../services/eventActions';
+
+interface EventChecklistProps {
+  event: Event;
+  // Only pending items, without the heading or the suggest button
+  compact?: boolean;
+}
+
+const formatDue = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+export function EventChecklist({ event, compact = false }: EventChecklistProps) {
+  const [actions, setActions] = useState<EventAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [suggesting, setSuggesting] = useState(false);
+
+  const loadActions = useCallback(async () => {
+    setLoading(true);
+    setActions(await eventActionService.getActions(event));
+    setLoading(false);
+  }, [event]);
+
+  useEffect(() => {
+    loadActions();
+  }, [loadActions]);
+
+  const toggleAction = async (action: EventAction) => {
+    const status = action.action_status === 'completed' ? 'pending' : 'completed';
+    setActions(prev => prev.map(a => a.id === action.id ? { ...a, action_status: status } : a));
+    try {
+      await eventActionService.setStatus(action.id, status);
+    } catch (error) {
+      console.error('Error updating event action:', error);
+      loadActions();
+    }
+  };
+
+  const suggestActions = async () => {
+    setSuggesting(true);
+    await eventActionService.suggestForEvent(event);
+    await loadActions();
+    setSuggesting(false);
+  };
+
+  const visible = compact ? actions.filter(a => a.action_status === 'pending') : actions;
+
+  if (loading || (compact && visible.length === 0)) return null;
+
+  return (
+    <div className={compact ? 'mt-2 space-y-1' : 'space-y-2'}>
+      {!compact && (
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center space-x-2">
+          <CheckSquare className="w-4 h-4 text-rose-500" />
+          <span>To do</span>
+        </h4>
+      )}
+
+      {visible.map(action => {
+        const done = action.action_status === 'completed';
+        const overdue = eventActionService.isOverdue(action);
+        // A ride leg is done once somebody is driving, which the carpool screen decides
+        const isRideLeg = !!action.ride_direction;
+
+        return (
+          <button
+            key={action.id}
+            type="button"
+            onClick={() => !isRideLeg && toggleAction(action)}
+            disabled={isRideLeg}
+            className="w-full flex items-center space-x-2 text-left text-sm disabled:cursor-default"
+          >
+            {isRideLeg
+              ? <Car className={`w-4 h-4 flex-shrink-0 ${done ? 'text-green-500' : 'text-amber-500'}`} />
+              : done
+                ? <CheckSquare className="w-4 h-4 flex-shrink-0 text-green-500" />
+                : <Square className="w-4 h-4 flex-shrink-0 text-gray-400" />}
+            <span className={`flex-1 ${done ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+              {eventActionService.label(action)}
+              {isRideLeg && !done && ' - needs a driver'}
+            </span>
+            {action.due_date && !done && (
+              <span className={`text-xs ${overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                {overdue ? 'Overdue' : formatDue(action.due_date)}
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {!compact && actions.length === 0 && eventActionService.canSuggest(event) && (
+        <button
+          type="button"
+          onClick={suggestActions}
+          disabled={suggesting}
+          className="flex items-center space-x-1 text-sm text-rose-600 hover:text-rose-700 disabled:opacity-50"
+        >
+          <Sparkles className="w-4 h-4" />
+          <span>{suggesting ? 'Suggesting...' : 'Suggest a checklist'}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Users, Calendar, CheckSquare, Bell, ShoppingBag, Plus, Edit, Trash2, Us
 import { FamilyMember, Event, Task, Reminder, ShoppingItem, supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { EventForm } from './forms/EventForm';
+import { EventChecklist } from './EventChecklist';
+import { FamilyAge } from '../utils/familyAge';
 import { TaskForm } from './forms/TaskForm';
 import { ReminderForm } from './forms/ReminderForm';
 import { ShoppingForm } from './forms/ShoppingForm';
@@ -230,7 +232,7 @@ export function FamilyFolders() {
                       <div className="text-left">
                         <h3 className="text-lg sm:text-xl font-semibold text-gray-900">{data.member.name}</h3>
                         <div className="flex items-center space-x-3 text-sm text-gray-600">
-                          {data.member.age && <span>Age {data.member.age}</span>}
+                          {FamilyAge.label(data.member) && <span>Age {FamilyAge.label(data.member)}</span>}
                           {data.member.gender && <span>{data.member.gender}</span>}
                           {data.member.school && <span>{data.member.school}</span>}
                         </div>
@@ -307,6 +309,7 @@ export function FamilyFolders() {
                                       {event.start_time && <span>{event.start_time.slice(0, 5)}</span>}
                                       {event.location && <span>{event.location}</span>}
                                     </div>
+                                    <EventChecklist event={event} compact />
                                   </div>
                                   <div className="flex space-x-1">
                                     <button
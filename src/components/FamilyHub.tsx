@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Users, FolderOpen, UserPlus, ShoppingBag, CheckSquare, Calendar } from 'lucide-react';
+import { Users, FolderOpen, UserPlus, ShoppingBag, CheckSquare, Calendar, Car } from 'lucide-react';
 import { NavigationHeader } from './NavigationHeader';
 import { SubScreen, Screen } from '../App';
 
@@ -24,6 +24,13 @@ export function FamilyHub({ onNavigateToSubScreen, onNavigateToScreen }: FamilyH
       description: 'Manage family contacts',
       color: 'from-rose-400 to-pink-400'
     },
+    {
+      id: 'carpools' as SubScreen,
+      icon: Car,
+      title: 'Carpools',
+      description: 'Rides, drivers and run sheets',
+      color: 'from-sky-400 to-indigo-400'
+    },
     {
       id: 'tasks' as SubScreen,
       icon: CheckSquare,
@@ -0,0 +1,427 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Gift, Sparkles, ShoppingCart, ExternalLink, RefreshCw, Trash2, Check, CalendarDays } from 'lucide-react';
+import { Event, FamilyMember, GiftIdea, GiftStatus, GiftSuggestion, supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { giftService, GiftRecipient } from '../services/gifts';
+import { calendarContextService } from '../services/calendarContext';
+import { FamilyAge } from '../utils/familyAge';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+
+interface GiftPlannerProps {
+  // Called after a gift lands on the shopping list so the list can refresh
+  onShoppingListChange?: () => void;
+  retailerKey?: string;
+}
+
+const NEXT_STATUS: Partial<Record<GiftStatus, { status: GiftStatus; label: string }>> = {
+  chosen: { status: 'bought', label: 'Mark bought' },
+  bought: { status: 'wrapped', label: 'Mark wrapped' },
+  wrapped: { status: 'given', label: 'Mark given' },
+};
+
+const STATUS_STYLES: Record<GiftStatus, string> = {
+  planning: 'bg-gray-100 text-gray-700',
+  chosen: 'bg-purple-100 text-purple-700',
+  bought: 'bg-blue-100 text-blue-700',
+  wrapped: 'bg-pink-100 text-pink-700',
+  given: 'bg-green-100 text-green-700',
+};
+
+const BIRTHDAY_WORDS = /\b(birthday|bday)\b/i;
+// How far ahead parties are offered for planning
+const LOOKAHEAD_DAYS = 60;
+
+const emptyForm = {
+  recipient_name: '',
+  recipient_age: '',
+  recipient_gender: '',
+  budget_min: '',
+  budget_max: '',
+  interests: '',
+};
+
+const formatPrice = (price?: number | null): string =>
+  price === null || price === undefined ? '' : `$${price.toFixed(2)}`;
+
+export function GiftPlanner({ onShoppingListChange, retailerKey }: GiftPlannerProps) {
+  const { user } = useAuth();
+  const [plans, setPlans] = useState<GiftSuggestion[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formEvent, setFormEvent] = useState<Event | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [busyPlanId, setBusyPlanId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const loadPlans = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const today = new Date().toISOString().split('T')[0];
+    const [planData, eventData, { data: memberData, error }] = await Promise.all([
+      giftService.getPlans(user.id),
+      // Expanded, so yearly birthdays show up as this year's occurrence
+      calendarContextService.getEventsForDateRange(user.id, today, RecurrenceRule.addDays(today, LOOKAHEAD_DAYS)),
+      supabase
+        .from('family_members')
+        .select('*')
+        .eq('user_id', user.id),
+    ]);
+
+    if (error) console.error('Error loading family members for gifts:', error);
+
+    setPlans(planData);
+    setFamilyMembers(memberData || []);
+    setEvents(eventData.filter(e =>
+      e.event_type === 'party' || e.event_type === 'birthday' || BIRTHDAY_WORDS.test(e.title)
+    ));
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const openForm = (event: Event | null) => {
+    const fromTitle = event ? giftService.recipientFromEvent(event) : { name: null, age: null };
+    // A family birthday knows exactly who it's for and how old they'll be
+    const member = event ? familyMembers.find(m => m.birthday_event_id === event.id) : undefined;
+    const age = member && event ? FamilyAge.ageOn(member, event.event_date) : fromTitle.age;
+
+    setFormEvent(event);
+    setForm({
+      ...emptyForm,
+      recipient_name: member?.name ?? fromTitle.name ?? '',
+      recipient_age: age !== null ? String(age) : '',
+      recipient_gender: member?.gender && member.gender !== 'Other' ? member.gender : '',
+    });
+    setShowForm(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !form.recipient_name.trim()) return;
+
+    const recipient: GiftRecipient = {
+      event_id: formEvent?.id ?? null,
+      recipient_name: form.recipient_name.trim(),
+      recipient_age: form.recipient_age ? Number(form.recipient_age) : null,
+      recipient_gender: (form.recipient_gender || null) as GiftRecipient['recipient_gender'],
+      budget_min: form.budget_min ? Number(form.budget_min) : null,
+      budget_max: form.budget_max ? Number(form.budget_max) : null,
+      interests: form.interests.trim(),
+    };
+
+    setGenerating(true);
+    try {
+      const plan = await giftService.createPlan(user.id, recipient);
+      setPlans(prev => [plan, ...prev]);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error creating gift plan:', error);
+      alert('Could not create the gift plan. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const runOnPlan = async (plan: GiftSuggestion, action: () => Promise<GiftSuggestion | void>) => {
+    setBusyPlanId(plan.id);
+    try {
+      const updated = await action();
+      if (updated) {
+        setPlans(prev => prev.map(p => p.id === updated.id ? updated : p));
+      }
+    } catch (error) {
+      console.error('Error updating gift plan:', error);
+      alert(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyPlanId(null);
+    }
+  };
+
+  const handleChoose = (plan: GiftSuggestion, idea: GiftIdea) =>
+    runOnPlan(plan, () => giftService.chooseGift(plan, idea));
+
+  const handleStatus = (plan: GiftSuggestion, status: GiftStatus) =>
+    runOnPlan(plan, () => giftService.setStatus(plan, status));
+
+  const handleRegenerate = (plan: GiftSuggestion) =>
+    runOnPlan(plan, () => giftService.regenerate(plan));
+
+  const handleAddToList = (plan: GiftSuggestion) =>
+    runOnPlan(plan, async () => {
+      const item = await giftService.addToShoppingList(plan);
+      onShoppingListChange?.();
+      return { ...plan, shopping_item_id: item.id };
+    });
+
+  const handleInstacart = (plan: GiftSuggestion) =>
+    runOnPlan(plan, async () => {
+      const response = await giftService.sendToInstacart(plan, retailerKey);
+      onShoppingListChange?.();
+      window.open(response.products_link_url, '_blank', 'noopener,noreferrer');
+      await loadPlans();
+    });
+
+  const handleDelete = (plan: GiftSuggestion) =>
+    runOnPlan(plan, async () => {
+      if (!confirm(`Delete the gift plan for ${plan.recipient_name}?`)) return;
+      await giftService.deletePlan(plan.id);
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+    });
+
+  const eventsById = new Map(events.map(e => [e.id, e]));
+  // A given gift frees a yearly birthday up for next year's plan
+  const unplannedEvents = events.filter(e => !plans.some(p => p.event_id === e.id && p.status !== 'given'));
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading gift plans...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {unplannedEvents.length > 0 && (
+        <div className="bg-purple-50 border border-purple-200 rounded-xl p-4">
+          <h3 className="font-medium text-purple-900 mb-2 text-sm sm:text-base">Upcoming parties</h3>
+          <div className="space-y-2">
+            {unplannedEvents.map(event => (
+              <div key={event.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center space-x-2 text-purple-800">
+                  <CalendarDays className="w-4 h-4" />
+                  <span>{event.title} · {event.event_date}</span>
+                </span>
+                <button
+                  onClick={() => openForm(event)}
+                  className="text-purple-600 hover:text-purple-800 font-medium"
+                >
+                  Plan a gift
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6 space-y-3">
+          <h3 className="text-base font-semibold text-gray-900">
+            {formEvent ? `Gift for ${formEvent.title}` : 'New gift plan'}
+          </h3>
+          <input
+            type="text"
+            required
+            placeholder="Who is it for?"
+            value={form.recipient_name}
+            onChange={e => setForm({ ...form, recipient_name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="number"
+              min="0"
+              max="120"
+              placeholder="Age"
+              value={form.recipient_age}
+              onChange={e => setForm({ ...form, recipient_age: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={form.recipient_gender}
+              onChange={e => setForm({ ...form, recipient_gender: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Any</option>
+              <option value="Boy">Boy</option>
+              <option value="Girl">Girl</option>
+              <option value="Other">Other</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              placeholder="Budget from ($)"
+              value={form.budget_min}
+              onChange={e => setForm({ ...form, budget_min: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="number"
+              min="0"
+              placeholder="Budget up to ($)"
+              value={form.budget_max}
+              onChange={e => setForm({ ...form, budget_max: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Interests (e.g. dinosaurs, art, soccer)"
+            value={form.interests}
+            onChange={e => setForm({ ...form, interests: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={generating}
+              className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg text-sm font-medium hover:bg-purple-600 disabled:opacity-50 flex items-center justify-center space-x-1"
+            >
+              <Sparkles className="w-4 h-4" />
+              <span>{generating ? 'Finding ideas...' : 'Get ideas'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {plans.map(plan => {
+        const event = plan.event_id ? eventsById.get(plan.event_id) : undefined;
+        const next = NEXT_STATUS[plan.status];
+        const busy = busyPlanId === plan.id;
+        const budget = plan.budget_min || plan.budget_max
+          ? `$${plan.budget_min ?? 0}-${plan.budget_max ?? '?'}`
+          : null;
+
+        return (
+          <div key={plan.id} className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+                  {event ? event.title : `Gift for ${plan.recipient_name}`}
+                </h3>
+                <div className="flex flex-wrap items-center gap-x-3 text-xs sm:text-sm text-gray-600 mt-1">
+                  {event && <span>{event.event_date}</span>}
+                  {plan.recipient_age !== null && plan.recipient_age !== undefined && <span>Age: {plan.recipient_age}</span>}
+                  {plan.recipient_gender && <span>{plan.recipient_gender}</span>}
+                  {budget && <span>Budget: {budget}</span>}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[plan.status]}`}>
+                  {plan.status}
+                </span>
+                <button
+                  onClick={() => handleDelete(plan)}
+                  disabled={busy}
+                  className="text-gray-400 hover:text-red-500"
+                  aria-label="Delete gift plan"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {plan.chosen_gift ? (
+              <div className="p-3 bg-purple-50 rounded-lg mb-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium text-gray-900 text-sm sm:text-base">{plan.chosen_gift.title}</h4>
+                    <span className="text-sm font-semibold text-green-600">{formatPrice(plan.chosen_gift.estimated_price)}</span>
+                  </div>
+                  {next && (
+                    <button
+                      onClick={() => handleStatus(plan, next.status)}
+                      disabled={busy}
+                      className="px-3 py-1.5 bg-purple-500 text-white rounded-lg text-xs sm:text-sm font-medium hover:bg-purple-600 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <Check className="w-3 h-3" />
+                      <span>{next.label}</span>
+                    </button>
+                  )}
+                </div>
+                {plan.status === 'chosen' && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <button
+                      onClick={() => handleAddToList(plan)}
+                      disabled={busy || !!plan.shopping_item_id}
+                      className="px-3 py-1.5 border border-purple-300 text-purple-700 rounded-lg text-xs sm:text-sm hover:bg-purple-100 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <ShoppingCart className="w-3 h-3" />
+                      <span>{plan.shopping_item_id ? 'On shopping list' : 'Add to shopping list'}</span>
+                    </button>
+                    <button
+                      onClick={() => handleInstacart(plan)}
+                      disabled={busy}
+                      className="px-3 py-1.5 bg-green-500 text-white rounded-lg text-xs sm:text-sm hover:bg-green-600 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      <span>Send to Instacart</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : null}
+
+            {plan.status === 'planning' || plan.status === 'chosen' ? (
+              <div className="space-y-3">
+                {plan.suggestions.map((idea, index) => {
+                  const chosen = plan.chosen_gift?.title === idea.title;
+                  return (
+                    <div key={index} className="flex items-center space-x-3 sm:space-x-4 p-2 sm:p-3 bg-gray-50 rounded-lg">
+                      <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-pink-400 to-purple-400 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <Gift className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-gray-900 text-sm sm:text-base">{idea.title}</h4>
+                        {idea.description && <p className="text-xs text-gray-500 truncate">{idea.description}</p>}
+                        <div className="flex items-center space-x-2 text-xs sm:text-sm text-gray-600">
+                          <span className="font-semibold text-green-600">{formatPrice(idea.estimated_price)}</span>
+                          {idea.category && <span className="capitalize">{idea.category}</span>}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleChoose(plan, idea)}
+                        disabled={busy || chosen}
+                        className="px-3 sm:px-4 py-1.5 sm:py-2 bg-purple-500 text-white rounded-lg text-xs sm:text-sm font-medium hover:bg-purple-600 disabled:opacity-50"
+                      >
+                        {chosen ? 'Chosen' : 'Choose'}
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => handleRegenerate(plan)}
+                  disabled={busy}
+                  className="text-sm text-purple-600 hover:text-purple-800 flex items-center space-x-1 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+                  <span>More ideas</span>
+                </button>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {!showForm && (
+        <div className="text-center py-8">
+          {plans.length === 0 && (
+            <p className="text-sm sm:text-base text-gray-600 mb-4">No gift plans yet</p>
+          )}
+          <button
+            onClick={() => openForm(null)}
+            className="px-4 sm:px-6 py-2 sm:py-3 bg-gradient-to-r from-pink-400 to-purple-500 text-white rounded-xl font-medium hover:shadow-lg transition-all text-sm sm:text-base"
+          >
+            Plan a gift
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
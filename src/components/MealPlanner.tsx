@@ -0,0 +1,444 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Plus, Minus, Trash2, ShoppingCart, X, Loader2, Check, ChefHat } from 'lucide-react';
+import { MealPlan, MealSlot, Recipe } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { mealPlanService, MEAL_SLOTS, PlannedIngredient } from '../services/mealPlans';
+import { recipeService } from '../services/recipeService';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+
+interface MealPlannerProps {
+  // Called after ingredients are put on the shopping list
+  onShoppingListChange?: () => void;
+  onRecipeSelect?: (recipe: Recipe) => void;
+}
+
+const SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+// Weeks run Monday to Sunday
+const weekStartOf = (date: string): string => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return RecurrenceRule.addDays(date, -((weekday + 6) % 7));
+};
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+export function MealPlanner({ onShoppingListChange, onRecipeSelect }: MealPlannerProps) {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(NaturalDate.today()));
+  const [meals, setMeals] = useState<MealPlan[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [addingFor, setAddingFor] = useState<string | null>(null);
+  const [form, setForm] = useState({ recipe_id: '', meal_slot: 'dinner' as MealSlot, servings: '4' });
+  const [draft, setDraft] = useState<PlannedIngredient[] | null>(null);
+  const [draftSelected, setDraftSelected] = useState<Set<string>>(new Set());
+  const [includePantry, setIncludePantry] = useState(false);
+  const [includeShopped, setIncludeShopped] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const weekEnd = RecurrenceRule.addDays(weekStart, 6);
+  const days = Array.from({ length: 7 }, (_, i) => RecurrenceRule.addDays(weekStart, i));
+
+  const loadMeals = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setMeals(await mealPlanService.getMeals(user.id, weekStart, weekEnd));
+    setLoading(false);
+  }, [user?.id, weekStart, weekEnd]);
+
+  const loadRecipes = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const [own, saved] = await Promise.all([
+        recipeService.getRecipes(user.id),
+        recipeService.getSavedRecipes(user.id),
+      ]);
+      const byId = new Map([...own, ...saved].map(recipe => [recipe.id, recipe]));
+      setRecipes([...byId.values()].sort((a, b) => a.title.localeCompare(b.title)));
+    } catch (error) {
+      console.error('Error loading recipes for meal planning:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadMeals();
+  }, [loadMeals]);
+
+  useEffect(() => {
+    loadRecipes();
+  }, [loadRecipes]);
+
+  const openAddForm = (date: string) => {
+    setAddingFor(date);
+    setForm({ recipe_id: recipes[0]?.id ?? '', meal_slot: 'dinner', servings: String(recipes[0]?.servings || 4) });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !addingFor || !form.recipe_id) return;
+
+    try {
+      const meal = await mealPlanService.addMeal(user.id, {
+        recipe_id: form.recipe_id,
+        plan_date: addingFor,
+        meal_slot: form.meal_slot,
+        servings: Number(form.servings) || 1,
+      });
+      setMeals(prev => [...prev, meal]);
+      setAddingFor(null);
+      setDraft(null);
+    } catch (error) {
+      console.error('Error adding meal:', error);
+      alert('Failed to add meal');
+    }
+  };
+
+  const changeServings = async (meal: MealPlan, delta: number) => {
+    const servings = Math.max(1, meal.servings + delta);
+    if (servings === meal.servings) return;
+
+    setMeals(prev => prev.map(m => m.id === meal.id ? { ...m, servings } : m));
+    setDraft(null);
+    try {
+      await mealPlanService.updateMeal(meal.id, { servings });
+    } catch (error) {
+      console.error('Error updating servings:', error);
+      loadMeals();
+    }
+  };
+
+  const removeMeal = async (meal: MealPlan) => {
+    setMeals(prev => prev.filter(m => m.id !== meal.id));
+    setDraft(null);
+    try {
+      await mealPlanService.removeMeal(meal.id);
+    } catch (error) {
+      console.error('Error removing meal:', error);
+      loadMeals();
+    }
+  };
+
+  // Takes the meal's ingredients out of the pantry
+  const markCooked = async (meal: MealPlan) => {
+    try {
+      const cooked = await mealPlanService.markCooked(meal);
+      setMeals(prev => prev.map(m => m.id === meal.id ? cooked : m));
+    } catch (error) {
+      console.error('Error marking meal cooked:', error);
+      alert('Failed to update the pantry');
+    }
+  };
+
+  const mealsForList = includeShopped ? meals : meals.filter(meal => !meal.shopping_generated_at);
+
+  const buildDraft = async () => {
+    setWorking(true);
+    setMessage(null);
+    try {
+      const items = await mealPlanService.consolidate(mealsForList, { includePantry });
+      setDraft(items);
+      setDraftSelected(new Set(items.map(item => item.key)));
+    } catch (error) {
+      console.error('Error building shopping list:', error);
+      alert('Failed to work out the shopping list');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleDraftItem = (key: string) => {
+    setDraftSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const addDraftToList = async () => {
+    if (!user?.id || !draft) return;
+
+    setWorking(true);
+    try {
+      const created = await mealPlanService.addToShoppingList(
+        user.id,
+        mealsForList,
+        draft.filter(item => draftSelected.has(item.key))
+      );
+      setDraft(null);
+      setMessage(`Added ${created.length} item${created.length === 1 ? '' : 's'} to your shopping list`);
+      onShoppingListChange?.();
+      loadMeals();
+    } catch (error) {
+      console.error('Error adding meal plan to shopping list:', error);
+      alert('Failed to add items to the shopping list');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => { setWeekStart(RecurrenceRule.addDays(weekStart, -7)); setDraft(null); }}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+            title="Previous week"
+          >
+            <ChevronLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+            {formatDay(weekStart)} – {formatDay(weekEnd)}
+          </h3>
+          <button
+            onClick={() => { setWeekStart(RecurrenceRule.addDays(weekStart, 7)); setDraft(null); }}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+            title="Next week"
+          >
+            <ChevronRight className="w-5 h-5 text-gray-600" />
+          </button>
+          {weekStart !== weekStartOf(NaturalDate.today()) && (
+            <button
+              onClick={() => { setWeekStart(weekStartOf(NaturalDate.today())); setDraft(null); }}
+              className="text-sm text-green-600 hover:text-green-700"
+            >
+              This week
+            </button>
+          )}
+        </div>
+
+        <button
+          onClick={buildDraft}
+          disabled={working || mealsForList.length === 0}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          {working && !draft ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShoppingCart className="w-4 h-4" />}
+          <span>Generate shopping list</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={includePantry}
+            onChange={(e) => { setIncludePantry(e.target.checked); setDraft(null); }}
+            className="w-4 h-4 text-green-500 rounded focus:ring-green-500"
+          />
+          <span>Include pantry staples</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={includeShopped}
+            onChange={(e) => { setIncludeShopped(e.target.checked); setDraft(null); }}
+            className="w-4 h-4 text-green-500 rounded focus:ring-green-500"
+          />
+          <span>Include meals already shopped for</span>
+        </label>
+      </div>
+
+      {message && (
+        <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          <span className="flex items-center"><Check className="w-4 h-4 mr-2" />{message}</span>
+          <button onClick={() => setMessage(null)} className="text-green-700 hover:text-green-900">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {draft && (
+        <div className="border border-green-200 rounded-xl p-4 bg-green-50/50 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-900">
+              {draft.length} ingredient{draft.length === 1 ? '' : 's'} for {mealsForList.length} meal{mealsForList.length === 1 ? '' : 's'}
+            </h4>
+            <button onClick={() => setDraft(null)} className="p-1 hover:bg-green-100 rounded">
+              <X className="w-4 h-4 text-gray-600" />
+            </button>
+          </div>
+          {draft.length === 0 ? (
+            <p className="text-sm text-gray-600">Nothing to buy; these recipes have no ingredients listed.</p>
+          ) : (
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+              {draft.map(item => (
+                <label key={item.key} className="flex items-start space-x-3 p-2 hover:bg-white rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draftSelected.has(item.key)}
+                    onChange={() => toggleDraftItem(item.key)}
+                    className="mt-0.5 w-4 h-4 text-green-500 rounded focus:ring-green-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">
+                      {item.name}
+                      {item.pantry && <span className="ml-2 text-xs text-gray-500">(pantry staple)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{mealPlanService.describeLine(item)}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={addDraftToList}
+            disabled={working || draftSelected.size === 0}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            {working ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShoppingCart className="w-4 h-4" />}
+            <span>Add {draftSelected.size} to Shopping List</span>
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-green-500 animate-spin" />
+          <span className="ml-2 text-sm text-gray-600">Loading meal plan...</span>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+          {days.map(date => {
+            const dayMeals = meals
+              .filter(meal => meal.plan_date === date)
+              .sort((a, b) => MEAL_SLOTS.indexOf(a.meal_slot) - MEAL_SLOTS.indexOf(b.meal_slot));
+
+            return (
+              <div
+                key={date}
+                className={`rounded-xl border p-2 space-y-2 ${date === NaturalDate.today() ? 'border-green-400 bg-green-50/40' : 'border-gray-200'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-gray-700">{formatDay(date)}</span>
+                  <button
+                    onClick={() => openAddForm(date)}
+                    className="p-1 text-green-600 hover:bg-green-100 rounded"
+                    title="Add a meal"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {dayMeals.map(meal => (
+                  <div key={meal.id} className="bg-white border border-gray-200 rounded-lg p-2 text-xs">
+                    <p className="text-[10px] uppercase tracking-wide text-gray-500">{SLOT_LABELS[meal.meal_slot]}</p>
+                    <button
+                      onClick={() => meal.recipe && onRecipeSelect?.(meal.recipe)}
+                      className="text-left font-medium text-gray-900 hover:text-green-600 line-clamp-2"
+                    >
+                      {meal.recipe?.title ?? 'Recipe'}
+                    </button>
+                    <div className="flex items-center justify-between mt-1">
+                      <div className="flex items-center space-x-1 text-gray-600">
+                        <button onClick={() => changeServings(meal, -1)} className="p-0.5 hover:bg-gray-100 rounded">
+                          <Minus className="w-3 h-3" />
+                        </button>
+                        <span>{meal.servings}</span>
+                        <button onClick={() => changeServings(meal, 1)} className="p-0.5 hover:bg-gray-100 rounded">
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        {meal.shopping_generated_at && (
+                          <span title="Ingredients are on the shopping list">
+                            <ShoppingCart className="w-3 h-3 text-green-500" />
+                          </span>
+                        )}
+                        <button
+                          onClick={() => markCooked(meal)}
+                          disabled={!!meal.cooked_at}
+                          className={`p-0.5 ${meal.cooked_at ? 'text-green-500' : 'text-gray-400 hover:text-green-600'}`}
+                          title={meal.cooked_at ? 'Cooked' : 'Mark cooked and use up pantry items'}
+                        >
+                          <ChefHat className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => removeMeal(meal)} className="p-0.5 text-gray-400 hover:text-red-500">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                {addingFor === date && (
+                  <form onSubmit={handleAdd} className="bg-white border border-green-300 rounded-lg p-2 space-y-2 text-xs">
+                    {recipes.length === 0 ? (
+                      <p className="text-gray-600">Save or import a recipe first.</p>
+                    ) : (
+                      <>
+                        <select
+                          value={form.recipe_id}
+                          onChange={(e) => {
+                            const recipe = recipes.find(r => r.id === e.target.value);
+                            setForm({ ...form, recipe_id: e.target.value, servings: String(recipe?.servings || form.servings) });
+                          }}
+                          className="w-full px-2 py-1 border border-gray-300 rounded"
+                        >
+                          {recipes.map(recipe => (
+                            <option key={recipe.id} value={recipe.id}>{recipe.title}</option>
+                          ))}
+                        </select>
+                        <div className="flex space-x-1">
+                          <select
+                            value={form.meal_slot}
+                            onChange={(e) => setForm({ ...form, meal_slot: e.target.value as MealSlot })}
+                            className="flex-1 px-1 py-1 border border-gray-300 rounded"
+                          >
+                            {MEAL_SLOTS.map(slot => (
+                              <option key={slot} value={slot}>{SLOT_LABELS[slot]}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="1"
+                            value={form.servings}
+                            onChange={(e) => setForm({ ...form, servings: e.target.value })}
+                            className="w-12 px-1 py-1 border border-gray-300 rounded"
+                            title="Servings"
+                          />
+                        </div>
+                      </>
+                    )}
+                    <div className="flex space-x-1">
+                      <button
+                        type="submit"
+                        disabled={!form.recipe_id}
+                        className="flex-1 px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setAddingFor(null)}
+                        className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
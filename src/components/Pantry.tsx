@@ -0,0 +1,434 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Minus, Trash2, AlertTriangle, ChefHat, Loader2, Search, X } from 'lucide-react';
+import { PantryItem, Recipe, supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { pantryService, PantryMatch } from '../services/pantry';
+import { recipeService } from '../services/recipeService';
+import { themealdbService, SimplifiedRecipe } from '../services/themealdb';
+import { MeasurementConverter } from '../utils/measurementConverter';
+import { NaturalDate } from '../utils/naturalDate';
+
+interface PantryProps {
+  onRecipeSelect?: (recipe: Recipe) => void;
+}
+
+const CATEGORIES = ['pantry', 'produce', 'dairy', 'meat', 'bakery', 'frozen', 'beverages', 'snacks', 'baby', 'household', 'health', 'other'];
+
+const emptyForm = {
+  name: '',
+  quantity: '1',
+  unit: '',
+  category: 'pantry',
+  expires_on: '',
+};
+
+const formatAmount = (item: PantryItem): string =>
+  `${MeasurementConverter.formatQuantity(Number(item.quantity))}${item.unit ? ` ${item.unit}` : ''}`;
+
+const expiryLabel = (date: string): string => {
+  const days = Math.round((new Date(`${date}T00:00:00Z`).getTime() - new Date(`${NaturalDate.today()}T00:00:00Z`).getTime()) / 86400000);
+  if (days < 0) return `expired ${-days} day${days === -1 ? '' : 's'} ago`;
+  if (days === 0) return 'expires today';
+  if (days === 1) return 'expires tomorrow';
+  return `expires in ${days} days`;
+};
+
+export function Pantry({ onRecipeSelect }: PantryProps) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [savedMatches, setSavedMatches] = useState<PantryMatch<Recipe>[] | null>(null);
+  const [discoverMatches, setDiscoverMatches] = useState<PantryMatch<SimplifiedRecipe>[] | null>(null);
+  const [searchIngredient, setSearchIngredient] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [importing, setImporting] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setItems(await pantryService.getItems(user.id));
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      await pantryService.addItem(user.id, {
+        name: form.name.trim(),
+        quantity: Number(form.quantity) || 1,
+        unit: form.unit.trim() || null,
+        category: form.category,
+        expires_on: form.expires_on || null,
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+      setSavedMatches(null);
+      await loadItems();
+    } catch (error) {
+      console.error('Error adding pantry item:', error);
+      alert('Failed to add pantry item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const adjustQuantity = async (item: PantryItem, delta: number) => {
+    const quantity = Math.max(0, Number(item.quantity) + delta);
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, quantity } : i));
+    try {
+      await pantryService.updateItem(item.id, { quantity });
+    } catch (error) {
+      console.error('Error updating pantry item:', error);
+      loadItems();
+    }
+  };
+
+  const updateExpiry = async (item: PantryItem, expires_on: string) => {
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, expires_on: expires_on || null } : i));
+    try {
+      await pantryService.updateItem(item.id, { expires_on: expires_on || null });
+    } catch (error) {
+      console.error('Error updating expiry date:', error);
+      loadItems();
+    }
+  };
+
+  const removeItem = async (item: PantryItem) => {
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    try {
+      await pantryService.removeItem(item.id);
+    } catch (error) {
+      console.error('Error removing pantry item:', error);
+      loadItems();
+    }
+  };
+
+  // Saved and own recipes, best match first; staples like salt are assumed
+  const rankSavedRecipes = async () => {
+    if (!user?.id) return;
+
+    setSearching(true);
+    try {
+      const [own, saved] = await Promise.all([
+        recipeService.getRecipes(user.id),
+        recipeService.getSavedRecipes(user.id),
+      ]);
+      const recipes = [...new Map([...own, ...saved].map(r => [r.id, r])).values()];
+
+      const { data: ingredients, error } = recipes.length > 0
+        ? await supabase
+            .from('recipe_ingredients')
+            .select('recipe_id, name, is_pantry_item')
+            .in('recipe_id', recipes.map(r => r.id))
+        : { data: [], error: null };
+      if (error) throw error;
+
+      const namesByRecipe = new Map<string, string[]>();
+      for (const ingredient of ingredients || []) {
+        if (ingredient.is_pantry_item) continue;
+        namesByRecipe.set(ingredient.recipe_id, [...(namesByRecipe.get(ingredient.recipe_id) || []), ingredient.name]);
+      }
+
+      setSavedMatches(pantryService
+        .rankRecipes(recipes, recipe => namesByRecipe.get(recipe.id) || [], items)
+        .filter(match => match.have.length > 0));
+    } catch (error) {
+      console.error('Error ranking recipes:', error);
+      alert('Failed to check your recipes');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const searchByIngredient = async (ingredient: string) => {
+    if (!ingredient.trim()) return;
+
+    setSearching(true);
+    try {
+      const results = await themealdbService.filterByIngredient(ingredient.trim());
+      setDiscoverMatches(pantryService.rankRecipes(results, recipe => recipe.ingredients.map(i => i.name), items));
+    } catch (error) {
+      console.error('Error finding recipes by ingredient:', error);
+      setDiscoverMatches([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const importRecipe = async (recipe: SimplifiedRecipe) => {
+    if (!user?.id) return;
+
+    setImporting(recipe.id);
+    try {
+      const imported = await recipeService.importFromTheMealDB(user.id, recipe);
+      onRecipeSelect?.(imported);
+    } catch (error) {
+      console.error('Error importing recipe:', error);
+      alert('Failed to import recipe');
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const expiring = pantryService.expiringSoon(items);
+  const inStock = items.filter(item => Number(item.quantity) > 0);
+  const usedUp = items.filter(item => Number(item.quantity) <= 0);
+
+  const renderMatch = (match: PantryMatch<{ title: string }>, action: React.ReactNode) => (
+    <div className="flex items-start justify-between gap-3 p-3 bg-white border border-gray-200 rounded-lg">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900">{match.recipe.title}</p>
+        <p className="text-xs text-green-700">
+          {match.have.length} of {match.have.length + match.missing.length} ingredients on hand
+        </p>
+        {match.missing.length > 0 && (
+          <p className="text-xs text-gray-500 line-clamp-2">Missing: {match.missing.join(', ')}</p>
+        )}
+      </div>
+      {action}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {expiring.length > 0 && (
+        <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-amber-800">
+            <p className="font-medium">Use these soon</p>
+            <p>{expiring.map(item => `${item.name} (${expiryLabel(item.expires_on as string)})`).join(', ')}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">In the pantry</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center space-x-1 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
+        >
+          {showForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          <span>{showForm ? 'Cancel' : 'Add item'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAdd} className="grid grid-cols-2 sm:grid-cols-6 gap-2 p-3 border border-green-200 rounded-lg bg-green-50/50">
+          <input
+            type="text"
+            placeholder="Item, e.g. Rice"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.quantity}
+            onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            title="Quantity"
+          />
+          <input
+            type="text"
+            placeholder="Unit (optional)"
+            value={form.unit}
+            onChange={(e) => setForm({ ...form, unit: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {CATEGORIES.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={form.expires_on}
+            onChange={(e) => setForm({ ...form, expires_on: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            title="Expiry date (optional)"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="col-span-2 sm:col-span-6 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+          >
+            {saving ? 'Adding...' : 'Add to pantry'}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-green-500 animate-spin" />
+          <span className="ml-2 text-sm text-gray-600">Loading pantry...</span>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center py-6">
+          Your pantry is empty. Items you tick off the shopping list are added here automatically.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {[...inStock, ...usedUp].map(item => {
+            const soon = expiring.some(e => e.id === item.id);
+            return (
+              <div
+                key={item.id}
+                className={`flex flex-wrap items-center gap-2 p-3 rounded-lg border ${
+                  Number(item.quantity) <= 0
+                    ? 'border-gray-200 bg-gray-50 opacity-60'
+                    : soon ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <div className="flex-1 min-w-[8rem]">
+                  <p className="font-medium text-gray-900">{item.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.category}
+                    {item.expires_on && ` · ${expiryLabel(item.expires_on)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 text-sm">
+                  <button onClick={() => adjustQuantity(item, -1)} className="p-1 hover:bg-gray-100 rounded">
+                    <Minus className="w-4 h-4" />
+                  </button>
+                  <span className="min-w-[4rem] text-center">
+                    {Number(item.quantity) <= 0 ? 'used up' : formatAmount(item)}
+                  </span>
+                  <button onClick={() => adjustQuantity(item, 1)} className="p-1 hover:bg-gray-100 rounded">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="date"
+                  value={item.expires_on || ''}
+                  onChange={(e) => updateExpiry(item, e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded text-xs"
+                  title="Expiry date"
+                />
+                <button onClick={() => removeItem(item)} className="p-1 text-gray-400 hover:text-red-500">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ChefHat className="w-5 h-5 mr-2 text-green-500" />
+            What can I cook?
+          </h3>
+          <button
+            onClick={rankSavedRecipes}
+            disabled={searching || inStock.length === 0}
+            className="px-3 py-2 border border-green-500 text-green-600 rounded-lg hover:bg-green-50 disabled:opacity-50 text-sm"
+          >
+            Check my recipes
+          </button>
+        </div>
+
+        {savedMatches && (
+          savedMatches.length === 0 ? (
+            <p className="text-sm text-gray-600">None of your recipes use what's in the pantry yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {savedMatches.slice(0, 10).map(match => (
+                <React.Fragment key={match.recipe.id}>
+                  {renderMatch(match, (
+                    <button
+                      onClick={() => onRecipeSelect?.(match.recipe)}
+                      className="flex-shrink-0 px-3 py-1 text-sm text-green-600 hover:bg-green-50 rounded-lg"
+                    >
+                      View
+                    </button>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">Find new recipes built around something you have, starting with what expires soon:</p>
+          <div className="flex flex-wrap gap-2">
+            {[...expiring, ...inStock.filter(item => !expiring.includes(item))].slice(0, 8).map(item => (
+              <button
+                key={item.id}
+                onClick={() => { setSearchIngredient(item.name); searchByIngredient(item.name); }}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  expiring.includes(item) ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Ingredient, e.g. chicken"
+                value={searchIngredient}
+                onChange={(e) => setSearchIngredient(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && searchByIngredient(searchIngredient)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <button
+              onClick={() => searchByIngredient(searchIngredient)}
+              disabled={searching || !searchIngredient.trim()}
+              className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+            >
+              {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
+            </button>
+          </div>
+        </div>
+
+        {discoverMatches && (
+          discoverMatches.length === 0 ? (
+            <p className="text-sm text-gray-600">No recipes found for that ingredient.</p>
+          ) : (
+            <div className="space-y-2">
+              {discoverMatches.map(match => (
+                <React.Fragment key={match.recipe.id}>
+                  {renderMatch(match, (
+                    <button
+                      onClick={() => importRecipe(match.recipe)}
+                      disabled={importing === match.recipe.id}
+                      className="flex-shrink-0 px-3 py-1 text-sm text-green-600 hover:bg-green-50 rounded-lg disabled:opacity-50"
+                    >
+                      {importing === match.recipe.id ? 'Importing...' : 'Import'}
+                    </button>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react'
-import { Search, Clock, Users, ChefHat, Heart, Loader2, Plus, Globe, BookOpen } from 'lucide-react'
+import { Search, Clock, Users, ChefHat, Heart, Loader2, Plus, Globe, BookOpen, AlertTriangle } from 'lucide-react'
 import { Recipe } from '../lib/supabase'
 import { recipeService } from '../services/recipeService'
 import { useAuth } from '../hooks/useAuth'
 import { createAllSampleRecipes } from '../utils/sampleRecipes'
 import { themealdbService, SimplifiedRecipe } from '../services/themealdb'
+import { dietaryProfileService } from '../services/dietaryProfile'
+import { Allergens } from '../utils/allergens'
+import type { DietaryProfile } from '../utils/allergens'
 
 interface RecipeBrowserProps {
   onRecipeSelect: (recipe: Recipe) => void
@@ -24,6 +27,8 @@ export function RecipeBrowser({ onRecipeSelect }: RecipeBrowserProps) {
   const [importing, setImporting] = useState<string | null>(null)
   const [categories, setCategories] = useState<string[]>([])
   const [selectedCategory, setSelectedCategory] = useState<string>('')
+  const [profile, setProfile] = useState<DietaryProfile | null>(null)
+  const [showUnsafe, setShowUnsafe] = useState(false)
 
   useEffect(() => {
     if (user) {
@@ -32,6 +37,10 @@ export function RecipeBrowser({ onRecipeSelect }: RecipeBrowserProps) {
     }
   }, [user, activeView])
 
+  useEffect(() => {
+    dietaryProfileService.getProfile(user?.id).then(setProfile)
+  }, [user?.id])
+
   useEffect(() => {
     if (activeView === 'discover') {
       loadCategories()
@@ -177,6 +186,16 @@ export function RecipeBrowser({ onRecipeSelect }: RecipeBrowserProps) {
     }
   }
 
+  const discoverConflicts = (recipe: SimplifiedRecipe) => profile
+    ? Allergens.checkAll(recipe.ingredients.map(i => i.name), profile)
+    : []
+
+  // Recipes with something a family member can't eat are hidden unless asked for
+  const unsafeDiscoverCount = discoverRecipes.filter(r => discoverConflicts(r).length > 0).length
+  const visibleDiscoverRecipes = showUnsafe
+    ? discoverRecipes
+    : discoverRecipes.filter(r => discoverConflicts(r).length === 0)
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -336,64 +355,100 @@ export function RecipeBrowser({ onRecipeSelect }: RecipeBrowserProps) {
             <Loader2 className="w-8 h-8 text-green-500 animate-spin" />
             <span className="ml-3 text-gray-600">Discovering recipes...</span>
           </div>
-        ) : discoverRecipes.length === 0 ? (
+        ) : visibleDiscoverRecipes.length === 0 ? (
           <div className="text-center py-12">
             <ChefHat className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No recipes found</h3>
-            <p className="text-gray-600">Try a different search or category</p>
+            <p className="text-gray-600">
+              {unsafeDiscoverCount > 0
+                ? `${unsafeDiscoverCount} recipe${unsafeDiscoverCount === 1 ? ' was' : 's were'} hidden because of family allergies or diets`
+                : 'Try a different search or category'}
+            </p>
+            {unsafeDiscoverCount > 0 && (
+              <button
+                onClick={() => setShowUnsafe(true)}
+                className="mt-3 text-sm text-green-600 hover:text-green-700 font-medium"
+              >
+                Show them anyway
+              </button>
+            )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {discoverRecipes.map((recipe) => (
-              <div
-                key={recipe.id}
-                className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
-              >
-                <div className="relative h-48">
-                  <img
-                    src={recipe.imageUrl}
-                    alt={recipe.title}
-                    className="w-full h-full object-cover"
-                  />
-                  <div className="absolute top-2 right-2 bg-green-500 text-white px-2 py-1 rounded text-xs font-medium">
-                    {recipe.cuisine}
-                  </div>
-                </div>
-                <div className="p-4">
-                  <h3 className="font-semibold text-gray-900 mb-2 line-clamp-1">{recipe.title}</h3>
-                  <p className="text-sm text-gray-600 mb-3 line-clamp-2">{recipe.description}</p>
-                  <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
-                    <div className="flex items-center space-x-4">
-                      <span className="flex items-center">
-                        <Clock className="w-4 h-4 mr-1" />
-                        {recipe.prepTime + recipe.cookTime} min
-                      </span>
-                      <span className="flex items-center">
-                        <Users className="w-4 h-4 mr-1" />
-                        {recipe.servings}
-                      </span>
+          <div className="space-y-3">
+            {unsafeDiscoverCount > 0 && (
+              <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <span className="flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  {showUnsafe
+                    ? `${unsafeDiscoverCount} recipe${unsafeDiscoverCount === 1 ? '' : 's'} below contain${unsafeDiscoverCount === 1 ? 's' : ''} family allergens`
+                    : `${unsafeDiscoverCount} recipe${unsafeDiscoverCount === 1 ? '' : 's'} hidden because of family allergies or diets`}
+                </span>
+                <button
+                  onClick={() => setShowUnsafe(!showUnsafe)}
+                  className="font-medium hover:text-amber-900"
+                >
+                  {showUnsafe ? 'Hide them' : 'Show anyway'}
+                </button>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleDiscoverRecipes.map((recipe) => (
+                <div
+                  key={recipe.id}
+                  className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
+                >
+                  <div className="relative h-48">
+                    <img
+                      src={recipe.imageUrl}
+                      alt={recipe.title}
+                      className="w-full h-full object-cover"
+                    />
+                    <div className="absolute top-2 right-2 bg-green-500 text-white px-2 py-1 rounded text-xs font-medium">
+                      {recipe.cuisine}
                     </div>
                   </div>
-                  <button
-                    onClick={() => handleImportRecipe(recipe)}
-                    disabled={importing === recipe.id}
-                    className="w-full px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-                  >
-                    {importing === recipe.id ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        <span>Importing...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Plus className="w-4 h-4" />
-                        <span>Import Recipe</span>
-                      </>
+                  <div className="p-4">
+                    <h3 className="font-semibold text-gray-900 mb-2 line-clamp-1">{recipe.title}</h3>
+                    <p className="text-sm text-gray-600 mb-3 line-clamp-2">{recipe.description}</p>
+                    {discoverConflicts(recipe).length > 0 && (
+                      <p className="text-xs text-red-600 flex items-center mb-3">
+                        <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                        Contains {Allergens.describe(discoverConflicts(recipe))}
+                      </p>
                     )}
-                  </button>
+                    <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
+                      <div className="flex items-center space-x-4">
+                        <span className="flex items-center">
+                          <Clock className="w-4 h-4 mr-1" />
+                          {recipe.prepTime + recipe.cookTime} min
+                        </span>
+                        <span className="flex items-center">
+                          <Users className="w-4 h-4 mr-1" />
+                          {recipe.servings}
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleImportRecipe(recipe)}
+                      disabled={importing === recipe.id}
+                      className="w-full px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                    >
+                      {importing === recipe.id ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          <span>Importing...</span>
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="w-4 h-4" />
+                          <span>Import Recipe</span>
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         )
       ) : recipes.length === 0 ? (
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react'
-import { X, Clock, Users, ShoppingCart, Loader2, Heart, Plus, Minus } from 'lucide-react'
+import { X, Clock, Users, ShoppingCart, Loader2, Heart, Plus, Minus, AlertTriangle, ChefHat } from 'lucide-react'
 import { Recipe, RecipeIngredient, ShoppingItem } from '../lib/supabase'
 import { recipeService } from '../services/recipeService'
 import { instacartService } from '../services/instacartService'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
 import { InstacartButton } from './InstacartButton'
+import { dietaryProfileService } from '../services/dietaryProfile'
+import { mealPlanService } from '../services/mealPlans'
+import { Allergens } from '../utils/allergens'
+import type { AllergenConflict, DietaryProfile } from '../utils/allergens'
 
 interface RecipeDetailModalProps {
   recipe: Recipe
@@ -22,6 +26,8 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
   const [generatingUrl, setGeneratingUrl] = useState(false)
   const [isSaved, setIsSaved] = useState(false)
   const [servings, setServings] = useState(recipe.servings || 4)
+  const [profile, setProfile] = useState<DietaryProfile | null>(null)
+  const [cooking, setCooking] = useState(false)
   const originalServings = recipe.servings || 4
 
   useEffect(() => {
@@ -32,9 +38,16 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
   const loadIngredients = async () => {
     try {
       setLoading(true)
-      const data = await recipeService.getIngredients(recipe.id)
+      const [data, family] = await Promise.all([
+        recipeService.getIngredients(recipe.id),
+        dietaryProfileService.getProfile(user?.id),
+      ])
       setIngredients(data)
-      setSelectedIngredients(new Set(data.map(i => i.id)))
+      setProfile(family)
+      // Leave out anything someone can't eat; it can still be ticked by hand
+      setSelectedIngredients(new Set(
+        data.filter(i => Allergens.check(ingredientText(i), family).length === 0).map(i => i.id)
+      ))
     } catch (error) {
       console.error('Error loading ingredients:', error)
     } finally {
@@ -52,6 +65,11 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
     }
   }
 
+  const ingredientText = (ingredient: RecipeIngredient) => `${ingredient.name} ${ingredient.display_text}`
+
+  const conflictsFor = (ingredient: RecipeIngredient): AllergenConflict[] =>
+    profile ? Allergens.check(ingredientText(ingredient), profile) : []
+
   const toggleIngredient = (ingredientId: string) => {
     setSelectedIngredients(prev => {
       const next = new Set(prev)
@@ -123,6 +141,24 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
     }
   }
 
+  // Take what this recipe used, at the chosen servings, out of the pantry
+  const markCooked = async () => {
+    if (!user) return
+
+    try {
+      setCooking(true)
+      const changed = await mealPlanService.cookRecipe(user.id, recipe.id, servings)
+      alert(changed > 0
+        ? `Updated ${changed} pantry item(s)`
+        : 'Nothing from your pantry was used')
+    } catch (error) {
+      console.error('Error updating pantry:', error)
+      alert('Failed to update the pantry')
+    } finally {
+      setCooking(false)
+    }
+  }
+
   const mapIngredientCategory = (category: string | null): string => {
     if (!category) return 'other'
     const mapping: Record<string, string> = {
@@ -144,7 +180,19 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
     try {
       setGeneratingUrl(true)
 
-      let instacartUrl = instacartService.getCachedUrl(
+      const healthFilters = new Map(ingredients.map(ing => [
+        ing.id,
+        profile
+          ? Allergens.healthFiltersFor(ingredientText(ing), profile, ing.health_filters || [])
+          : ing.health_filters || [],
+      ]))
+      // The cached page is shared by everyone who opens this recipe, so a
+      // page filtered for this family's diet isn't read from or saved to it
+      const familyFiltered = ingredients.some(ing =>
+        (healthFilters.get(ing.id) || []).length > (ing.health_filters || []).length
+      )
+
+      let instacartUrl = familyFiltered ? null : instacartService.getCachedUrl(
         recipe.instacart_recipe_url,
         recipe.url_expires_at
       )
@@ -163,7 +211,7 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
             quantity: ing.quantity ? parseFloat(getAdjustedQuantity(ing.quantity) || '0') : undefined,
             unit: ing.unit || undefined,
             brand_filters: ing.brand_filters || undefined,
-            health_filters: ing.health_filters || undefined,
+            health_filters: healthFilters.get(ing.id)?.length ? healthFilters.get(ing.id) : undefined,
           })),
           partner_linkback_url: instacartService.buildPartnerLinkbackUrl(),
           enable_pantry_items: true,
@@ -172,10 +220,12 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
 
         instacartUrl = response.products_link_url
 
-        await recipeService.updateRecipe(recipe.id, {
-          instacart_recipe_url: instacartUrl,
-          url_expires_at: instacartService.calculateExpiresAt(30),
-        })
+        if (!familyFiltered) {
+          await recipeService.updateRecipe(recipe.id, {
+            instacart_recipe_url: instacartUrl,
+            url_expires_at: instacartService.calculateExpiresAt(30),
+          })
+        }
       }
 
       window.open(instacartUrl, '_blank')
@@ -189,6 +239,20 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
 
   const pantryItems = ingredients.filter(ing => ing.is_pantry_item)
   const mainIngredients = ingredients.filter(ing => !ing.is_pantry_item)
+  const recipeConflicts = profile
+    ? Allergens.checkAll(ingredients.map(ingredientText), profile)
+    : []
+
+  const renderConflicts = (ingredient: RecipeIngredient) => {
+    const conflicts = conflictsFor(ingredient)
+    if (conflicts.length === 0) return null
+    return (
+      <p className="text-xs text-red-600 flex items-center mt-0.5">
+        <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+        Contains {Allergens.describe(conflicts)}
+      </p>
+    )
+  }
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -263,6 +327,18 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
 
           <div>
             <h3 className="text-xl font-semibold text-gray-900 mb-4">Ingredients</h3>
+            {recipeConflicts.length > 0 && (
+              <div className="flex items-start space-x-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+                <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-red-800">
+                  <p className="font-medium">Not safe for everyone in your family</p>
+                  <p>
+                    This recipe contains {Allergens.describe(recipeConflicts)}. Those ingredients
+                    have been left off your shopping list selection.
+                  </p>
+                </div>
+              </div>
+            )}
             {loading ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="w-6 h-6 text-green-500 animate-spin" />
@@ -289,6 +365,7 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
                               : ''}
                             {ingredient.display_text}
                           </p>
+                          {renderConflicts(ingredient)}
                         </div>
                       </div>
                     ))}
@@ -317,6 +394,7 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
                                 : ''}
                               {ingredient.display_text}
                             </p>
+                            {renderConflicts(ingredient)}
                           </div>
                         </div>
                       ))}
@@ -359,6 +437,20 @@ export function RecipeDetailModal({ recipe, onClose, onIngredientsAdded }: Recip
               </span>
             </button>
 
+            <button
+              onClick={markCooked}
+              disabled={cooking || ingredients.length === 0}
+              className="flex items-center justify-center space-x-2 px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Take the ingredients out of your pantry"
+            >
+              {cooking ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <ChefHat className="w-5 h-5" />
+              )}
+              <span>I cooked this</span>
+            </button>
+
             <InstacartButton
               variant="dark"
               text="Get Recipe Ingredients"
@@ -16,6 +16,8 @@ import { useAuth } from '../hooks/useAuth';
 import { googleCalendarService } from '../services/googleCalendar';
 import { useCalendarSync } from '../hooks/useCalendarSync';
 import { measurementPreferencesService } from '../services/measurementPreferencesService';
+import { birthdayService } from '../services/birthdays';
+import { FamilyAge } from '../utils/familyAge';
 import type { UserMeasurementPreferences } from '../lib/supabase';
 
 export function Settings() {
@@ -197,6 +199,10 @@ export function Settings() {
     }
 
     try {
+      // The birthday event and reminders would otherwise outlive the member
+      const member = familyMembers.find(m => m.id === memberId);
+      if (member) await birthdayService.removeBirthday(member);
+
       const { error } = await supabase
         .from('family_members')
         .delete()
@@ -649,9 +655,9 @@ export function Settings() {
                       <div className="flex-1">
                         <div className="flex items-center space-x-2 sm:space-x-3 mb-1 flex-wrap">
                           <h3 className="font-semibold text-gray-900 text-sm sm:text-base">{member.name}</h3>
-                          {member.age && (
+                          {FamilyAge.label(member) && (
                             <span className="px-1.5 py-0.5 sm:px-2 sm:py-1 bg-rose-100 text-rose-700 rounded-full text-xs sm:text-sm font-medium">
-                              Age {member.age}
+                              Age {FamilyAge.label(member)}
                             </span>
                           )}
                           {member.gender && (
@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, ShoppingCart, Gift, Repeat, Star, ExternalLink, ChefHat, Send, Package, Filter, Store } from 'lucide-react';
+import { Plus, ShoppingCart, Gift, Repeat, ExternalLink, ChefHat, Send, Package, Filter, Store, AlertTriangle, CalendarDays, Archive } from 'lucide-react';
 import { ShoppingForm } from './forms/ShoppingForm';
-import { ShoppingItem, FamilyMember, Recipe, supabase, ProviderName, UserPreferredRetailer } from '../lib/supabase';
+import { ShoppingItem, FamilyMember, Recipe, supabase, ProviderName, UserPreferredRetailer, PantryItem } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { RecipeBrowser } from './RecipeBrowser';
 import { RecipeDetailModal } from './RecipeDetailModal';
 import { SendToProviderModal } from './SendToProviderModal';
 import { instacartShoppingService } from '../services/instacartShoppingService';
 import { InstacartButton } from './InstacartButton';
+import { GiftPlanner } from './GiftPlanner';
+import { AutoReorders } from './AutoReorders';
+import { MealPlanner } from './MealPlanner';
+import { Pantry } from './Pantry';
+import { pantryService } from '../services/pantry';
+import { autoReorderService, ReorderRun } from '../services/autoReorders';
+import { Allergens } from '../utils/allergens';
 
 export function Shopping() {
   const { user } = useAuth();
@@ -23,12 +30,15 @@ export function Shopping() {
   const [sendProvider, setSendProvider] = useState<ProviderName>(null);
   const [sendingToProvider, setSendingToProvider] = useState(false);
   const [preferredRetailer, setPreferredRetailer] = useState<UserPreferredRetailer | null>(null);
+  const [reorderRun, setReorderRun] = useState<ReorderRun | null>(null);
+  const [expiringPantry, setExpiringPantry] = useState<PantryItem[]>([]);
 
   useEffect(() => {
     if (user?.id) {
-      fetchShoppingList();
+      runAutoReorders();
       fetchFamilyMembers();
       fetchPreferredRetailer();
+      fetchExpiringPantry();
     } else {
       setLoading(false);
     }
@@ -54,6 +64,19 @@ export function Shopping() {
     }
   };
 
+  // Put due staples on the list before showing it
+  const runAutoReorders = async () => {
+    if (!user?.id) return;
+
+    try {
+      const run = await autoReorderService.generateDueItems(user.id);
+      if (run.created.length > 0) setReorderRun(run);
+    } catch (error) {
+      console.error('Error running auto reorders:', error);
+    }
+    await fetchShoppingList();
+  };
+
   const fetchFamilyMembers = async () => {
     if (!user?.id) return;
 
@@ -72,6 +95,11 @@ export function Shopping() {
     }
   };
 
+  const fetchExpiringPantry = async () => {
+    if (!user?.id) return;
+    setExpiringPantry(pantryService.expiringSoon(await pantryService.getItems(user.id)));
+  };
+
   const fetchPreferredRetailer = async () => {
     if (!user?.id) return;
 
@@ -105,6 +133,20 @@ export function Shopping() {
             : i
         )
       );
+
+      if (!item.completed) {
+        autoReorderService.onItemCompleted(item)
+          .catch(error => console.error('Error updating auto-reorder:', error));
+      }
+
+      const stocked = await pantryService.onShoppingItemCompleted(item, !item.completed);
+      setShoppingList(prev =>
+        prev.map(i =>
+          i.id === itemId
+            ? { ...i, pantry_item_id: item.completed ? null : stocked?.id ?? i.pantry_item_id }
+            : i
+        )
+      );
     }
   };
 
@@ -129,6 +171,8 @@ export function Shopping() {
     setSelectedItems(new Set());
   };
 
+  const dietaryProfile = Allergens.profileFor(familyMembers);
+
   const getFilteredItems = () => {
     if (providerFilter === 'all') {
       return shoppingList.filter(item => !item.completed);
@@ -194,27 +238,6 @@ export function Shopping() {
     }
   };
 
-  const giftSuggestions = [
-    {
-      id: 1,
-      event: 'Jessica\'s Birthday Party',
-      age: 7,
-      gender: 'Girl',
-      budget: '$15-25',
-      suggestions: [
-        { name: 'Art Supplies Set', price: '$19.99', rating: 4.8, link: '#' },
-        { name: 'Princess Dress-up Kit', price: '$24.99', rating: 4.6, link: '#' },
-        { name: 'Children\'s Book Collection', price: '$16.99', rating: 4.9, link: '#' }
-      ]
-    }
-  ];
-
-  const autoReorders = [
-    { item: 'Huggies Size 3', nextOrder: 'March 20', frequency: 'Every 2 weeks', price: '$42.99' },
-    { item: 'Formula Powder', nextOrder: 'March 18', frequency: 'Weekly', price: '$28.99' },
-    { item: 'Organic Milk', nextOrder: 'March 22', frequency: 'Every 3 days', price: '$6.99' }
-  ];
-
   return (
     <div className="h-screen overflow-y-auto pb-20 sm:pb-24">
       {/* Header */}
@@ -237,6 +260,8 @@ export function Shopping() {
           {[
             { id: 'list', label: 'Shopping List', icon: ShoppingCart },
             { id: 'recipes', label: 'Recipes', icon: ChefHat },
+            { id: 'meals', label: 'Meal Plan', icon: CalendarDays },
+            { id: 'pantry', label: 'Pantry', icon: Archive },
             { id: 'gifts', label: 'Gift Ideas', icon: Gift },
             { id: 'auto', label: 'Auto-Reorder', icon: Repeat }
           ].map((tab) => (
@@ -261,6 +286,43 @@ export function Shopping() {
         {/* Shopping List Tab */}
         {activeTab === 'list' && (
           <div className="space-y-4">
+            {reorderRun && (
+              <div className="bg-green-50 border border-green-200 rounded-xl p-3 flex items-start justify-between">
+                <div className="text-sm text-green-800">
+                  <p>
+                    <Repeat className="w-4 h-4 inline mr-1" />
+                    Added {reorderRun.created.length} staple{reorderRun.created.length === 1 ? '' : 's'} that {reorderRun.created.length === 1 ? 'was' : 'were'} due: {reorderRun.created.map(item => item.item).join(', ')}
+                  </p>
+                  {reorderRun.instacartUrl && (
+                    <a
+                      href={reorderRun.instacartUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center space-x-1 mt-1 font-medium text-green-700 hover:text-green-900"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      <span>Open Instacart cart</span>
+                    </a>
+                  )}
+                </div>
+                <button onClick={() => setReorderRun(null)} className="text-green-600 hover:text-green-800 text-sm">
+                  Dismiss
+                </button>
+              </div>
+            )}
+
+            {expiringPantry.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 flex items-start justify-between">
+                <p className="text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 inline mr-1" />
+                  Use soon from the pantry: {expiringPantry.map(item => item.name).join(', ')}
+                </p>
+                <button onClick={() => setActiveTab('pantry')} className="text-amber-700 hover:text-amber-900 text-sm whitespace-nowrap ml-2">
+                  View pantry
+                </button>
+              </div>
+            )}
+
             {/* Provider Filter Tabs */}
             <div className="bg-white border border-gray-200 rounded-xl p-2">
               <div className="flex flex-wrap gap-2">
@@ -340,6 +402,7 @@ export function Shopping() {
               <div className="space-y-3">
                 {getFilteredItems().map((item) => {
                   const providerBadge = item.provider_name ? getProviderBadge(item.provider_name) : null;
+                  const allergens = Allergens.check(item.item, dietaryProfile);
 
                   return (
                     <div
@@ -414,6 +477,15 @@ export function Shopping() {
                                 Urgent
                               </div>
                             )}
+                            {allergens.length > 0 && (
+                              <div
+                                className="inline-flex items-center space-x-1 px-2 py-1 bg-amber-100 text-amber-800 rounded-full text-xs font-medium"
+                                title="Instacart will be asked for a safe alternative where it can filter for one"
+                              >
+                                <AlertTriangle className="w-3 h-3" />
+                                <span>Contains {Allergens.describe(allergens)}</span>
+                              </div>
+                            )}
                             {item.provider_metadata?.cart_url && (
                               <a
                                 href={item.provider_metadata.cart_url}
@@ -464,91 +536,30 @@ export function Shopping() {
           <RecipeBrowser onRecipeSelect={(recipe) => setSelectedRecipe(recipe)} />
         )}
 
-        {/* Gift Ideas Tab */}
-        {activeTab === 'gifts' && (
-          <div className="space-y-6">
-            {giftSuggestions.map((eventGifts) => (
-              <div key={eventGifts.id} className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
-                <div className="mb-4">
-                  <h3 className="text-base sm:text-lg font-semibold text-gray-900">{eventGifts.event}</h3>
-                  <div className="flex items-center space-x-2 sm:space-x-4 text-xs sm:text-sm text-gray-600 mt-1">
-                    <span>Age: {eventGifts.age}</span>
-                    <span>Gender: {eventGifts.gender}</span>
-                    <span>Budget: {eventGifts.budget}</span>
-                  </div>
-                </div>
+        {/* Meal Plan Tab */}
+        {activeTab === 'meals' && (
+          <MealPlanner
+            onShoppingListChange={fetchShoppingList}
+            onRecipeSelect={(recipe) => setSelectedRecipe(recipe)}
+          />
+        )}
 
-                <div className="space-y-3">
-                  {eventGifts.suggestions.map((gift, index) => (
-                    <div key={index} className="flex items-center space-x-3 sm:space-x-4 p-2 sm:p-3 bg-gray-50 rounded-lg">
-                      <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-pink-400 to-purple-400 rounded-lg flex items-center justify-center">
-                        <Gift className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
-                      </div>
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900 text-sm sm:text-base">{gift.name}</h4>
-                        <div className="flex items-center space-x-2 text-xs sm:text-sm text-gray-600">
-                          <span className="font-semibold text-green-600">{gift.price}</span>
-                          <div className="flex items-center space-x-1">
-                            <Star className="w-2 h-2 sm:w-3 sm:h-3 fill-yellow-400 text-yellow-400" />
-                            <span>{gift.rating}</span>
-                          </div>
-                        </div>
-                      </div>
-                      <button className="px-3 sm:px-4 py-1.5 sm:py-2 bg-purple-500 text-white rounded-lg text-xs sm:text-sm font-medium hover:bg-purple-600 transition-colors flex items-center space-x-1">
-                        <ExternalLink className="w-2 h-2 sm:w-3 sm:h-3" />
-                        <span>Buy</span>
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            ))}
+        {/* Pantry Tab */}
+        {activeTab === 'pantry' && (
+          <Pantry onRecipeSelect={(recipe) => setSelectedRecipe(recipe)} />
+        )}
 
-            <div className="text-center py-8">
-              <p className="text-sm sm:text-base text-gray-600 mb-4">No upcoming events requiring gifts</p>
-              <button className="px-4 sm:px-6 py-2 sm:py-3 bg-gradient-to-r from-pink-400 to-purple-500 text-white rounded-xl font-medium hover:shadow-lg transition-all text-sm sm:text-base">
-                Browse Gift Ideas
-              </button>
-            </div>
-          </div>
+        {/* Gift Ideas Tab */}
+        {activeTab === 'gifts' && (
+          <GiftPlanner
+            onShoppingListChange={fetchShoppingList}
+            retailerKey={preferredRetailer?.retailer_key}
+          />
         )}
 
         {/* Auto-Reorder Tab */}
         {activeTab === 'auto' && (
-          <div className="space-y-4">
-            <div className="bg-green-50 border border-green-200 rounded-xl p-3 sm:p-4 mb-4 sm:mb-6">
-              <h3 className="font-medium text-green-900 mb-2 text-sm sm:text-base">Smart Reordering Active</h3>
-              <p className="text-xs sm:text-sm text-green-700">
-                We automatically reorder essentials based on your family's usage patterns
-              </p>
-            </div>
-
-            {autoReorders.map((item, index) => (
-              <div key={index} className="bg-white border border-gray-200 rounded-xl p-3 sm:p-4">
-                <div className="flex items-center justify-between mb-3">
-                  <h3 className="font-semibold text-gray-900 text-sm sm:text-base">{item.item}</h3>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-base sm:text-lg font-bold text-green-600">{item.price}</span>
-                    <div className="w-6 h-3 sm:w-8 sm:h-4 bg-green-500 rounded-full relative">
-                      <div className="w-2 h-2 sm:w-3 sm:h-3 bg-white rounded-full absolute top-0.5 right-0.5 shadow"></div>
-                    </div>
-                  </div>
-                </div>
-                <div className="text-xs sm:text-sm text-gray-600 space-y-1">
-                  <p><span className="font-medium">Next order:</span> {item.nextOrder}</p>
-                  <p><span className="font-medium">Frequency:</span> {item.frequency}</p>
-                </div>
-                <div className="flex space-x-2 mt-3 flex-wrap gap-1">
-                  <button className="px-2 sm:px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-xs sm:text-sm hover:bg-gray-200 transition-colors">
-                    Order Now
-                  </button>
-                  <button className="px-2 sm:px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-xs sm:text-sm hover:bg-gray-200 transition-colors">
-                    Edit Schedule
-                  </button>
-                </div>
-              </div>
-            ))}
-          </div>
+          <AutoReorders onShoppingListChange={fetchShoppingList} />
         )}
       </div>
 
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { Settings, Save, X } from 'lucide-react';
 import { useCalendarSync } from '../hooks/useCalendarSync';
 import { calendarSyncService } from '../services/calendarSync';
+import type { ConflictPolicy } from '../services/calendarSync';
+import { googleCalendarService } from '../services/googleCalendar';
+import type { GoogleCalendarListEntry } from '../services/googleCalendar';
 import { useAuth } from '../hooks/useAuth';
 
 interface SyncSettingsProps {
@@ -15,6 +18,11 @@ export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
   const [localSyncEnabled, setLocalSyncEnabled] = useState(syncEnabled);
   const [localSyncFrequency, setLocalSyncFrequency] = useState(syncFrequencyMinutes);
   const [syncDirection, setSyncDirection] = useState<'bidirectional' | 'google_to_local' | 'local_to_google'>('bidirectional');
+  const [autoResolve, setAutoResolve] = useState(false);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('newest');
+  const [calendars, setCalendars] = useState<GoogleCalendarListEntry[]>([]);
+  const [syncCalendarIds, setSyncCalendarIds] = useState<string[]>(['primary']);
+  const [writeCalendarId, setWriteCalendarId] = useState('primary');
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
@@ -25,8 +33,16 @@ export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
           setLocalSyncEnabled(prefs.sync_enabled);
           setLocalSyncFrequency(prefs.sync_frequency_minutes);
           setSyncDirection(prefs.sync_direction);
+          setAutoResolve(prefs.auto_resolve_conflicts);
+          setConflictPolicy(prefs.conflict_policy ?? 'newest');
+          setSyncCalendarIds(prefs.sync_calendar_ids?.length ? prefs.sync_calendar_ids : ['primary']);
+          setWriteCalendarId(prefs.write_calendar_id || 'primary');
         }
       });
+
+      googleCalendarService.listCalendars()
+        .then(setCalendars)
+        .catch(() => setCalendars([]));
     }
   }, [isOpen, user?.id]);
 
@@ -37,6 +53,10 @@ export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
         sync_enabled: localSyncEnabled,
         sync_frequency_minutes: localSyncFrequency,
         sync_direction: syncDirection,
+        auto_resolve_conflicts: autoResolve,
+        conflict_policy: conflictPolicy,
+        sync_calendar_ids: syncCalendarIds,
+        write_calendar_id: writeCalendarId,
       });
 
       if (success) {
@@ -52,8 +72,16 @@ export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
     }
   };
 
+  const toggleCalendar = (calendarId: string) => {
+    setSyncCalendarIds(prev =>
+      prev.includes(calendarId) ? prev.filter(id => id !== calendarId) : [...prev, calendarId]
+    );
+  };
+
   if (!isOpen) return null;
 
+  const writableCalendars = calendars.filter(c => c.accessRole === 'owner' || c.accessRole === 'writer');
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl w-full max-w-md">
@@ -175,6 +203,74 @@ export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
               </div>
             </div>
 
+            {/* Calendars */}
+            {calendars.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Google calendars to import
+                </label>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {calendars.map((calendar) => (
+                    <label key={calendar.id} className="flex items-center space-x-3 cursor-pointer p-2 rounded-lg hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={syncCalendarIds.includes(calendar.id) || calendar.id === writeCalendarId}
+                        disabled={calendar.id === writeCalendarId}
+                        onChange={() => toggleCalendar(calendar.id)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: calendar.backgroundColor || undefined }} />
+                      <span className="text-sm text-gray-900 truncate">{calendar.summary}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <label className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                  Add new events to
+                </label>
+                <select
+                  value={writeCalendarId}
+                  onChange={(e) => setWriteCalendarId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {writableCalendars.map((calendar) => (
+                    <option key={calendar.id} value={calendar.id}>{calendar.summary}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Events you create here are added to this calendar. It is always imported.
+                </p>
+              </div>
+            )}
+
+            {/* Conflict Handling */}
+            <div>
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoResolve}
+                  onChange={(e) => setAutoResolve(e.target.checked)}
+                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <div>
+                  <span className="font-medium text-gray-900">Resolve conflicts automatically</span>
+                  <p className="text-sm text-gray-500">
+                    Edits to different fields are always merged. This decides fields changed on both sides.
+                  </p>
+                </div>
+              </label>
+              <select
+                value={conflictPolicy}
+                onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+                disabled={!autoResolve}
+                className="mt-2 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <option value="newest">Most recent change wins</option>
+                <option value="local">This app wins</option>
+                <option value="google">Google Calendar wins</option>
+              </select>
+            </div>
+
             {/* Save Button */}
             <div className="flex space-x-3 pt-4">
               <button
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, CheckSquare, User, Calendar, Clock, Star, Filter, Trophy, Target } from 'lucide-react';
+import { Plus, CheckSquare, User, Calendar, Clock, Star, Filter, Trophy, Target, Repeat } from 'lucide-react';
 import { TaskForm } from './forms/TaskForm';
 import { Task, FamilyMember, supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { recurringItemService } from '../services/recurringItems';
+import { RecurrenceRule } from '../utils/recurrenceRule';
 
 export function Tasks() {
   const { user } = useAuth();
@@ -24,6 +26,7 @@ export function Tasks() {
   const fetchTasks = async () => {
     try {
       setLoading(true);
+      await recurringItemService.generateDueOccurrences(user.id);
       const { data: tasksData, error } = await supabase
         .from('tasks')
         .select(`
@@ -109,6 +112,11 @@ export function Tasks() {
       setTasks(prev => prev.map(task => 
         task.id === taskId ? updatedTask : task
       ));
+
+      if (newStatus === 'completed' && updatedTask.recurrence_rule) {
+        const nextTask = await recurringItemService.onTaskCompleted(updatedTask);
+        if (nextTask) fetchTasks();
+      }
     } catch (error) {
       console.error('Error updating task status:', error);
       alert('Error updating task. Please try again.');
@@ -341,6 +349,13 @@ export function Tasks() {
                         </div>
                       )}
 
+                      {task.recurrence_rule && (
+                        <div className="flex items-center space-x-1">
+                          <Repeat className="w-3 h-3 sm:w-4 sm:h-4" />
+                          <span>{RecurrenceRule.describe(task.recurrence_rule)}</span>
+                        </div>
+                      )}
+
                       <span className={`px-1.5 py-0.5 sm:px-2 sm:py-1 rounded-full text-xs font-medium border ${getStatusColor(task.status || 'pending')}`}>
                         {task.status?.replace('_', ' ')}
                       </span>
@@ -3,6 +3,8 @@ import { MessageCircle, Upload, X, Calendar, MapPin, Clock, Users, CheckCircle,
 import { supabase, Event } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { openaiService } from '../services/openai';
+import { eventActionService } from '../services/eventActions';
+import { calendarContextService } from '../services/calendarContext';
 
 interface WhatsAppIntegrationProps {
   isOpen: boolean;
@@ -24,8 +26,9 @@ export function WhatsAppIntegration({ isOpen, onClose, onEventCreated }: WhatsAp
     setParsedEvent(null);
 
     try {
-      // Use AI to parse the WhatsApp message
-      const result = await openaiService.parseWhatsAppMessage(messageText);
+      // Use AI to parse the WhatsApp message, reading its dates in the user's timezone
+      const timeZone = user ? await calendarContextService.getTimeZone(user.id) : undefined;
+      const result = await openaiService.parseWhatsAppMessage(messageText, { timeZone });
       
       if (result.isEvent && result.eventDetails) {
         setParsedEvent({
@@ -33,6 +36,7 @@ export function WhatsAppIntegration({ isOpen, onClose, onEventCreated }: WhatsAp
           description: messageText,
           event_date: result.eventDetails.date || '',
           start_time: result.eventDetails.time || '',
+          ...(result.eventDetails.endTime && { end_time: result.eventDetails.endTime }),
           location: result.eventDetails.location || '',
           event_type: 'party',
           participants: [],
@@ -89,6 +93,8 @@ export function WhatsAppIntegration({ isOpen, onClose, onEventCreated }: WhatsAp
 
       if (error) throw error;
 
+      await eventActionService.suggestForEvent(newEvent);
+
       // Also save the WhatsApp message
       await supabase
         .from('whatsapp_messages')
@@ -243,7 +249,10 @@ export function WhatsAppIntegration({ isOpen, onClose, onEventCreated }: WhatsAp
                   {parsedEvent.start_time && (
                     <div className="flex items-center space-x-2">
                       <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500" />
-                      <span>{parsedEvent.start_time}</span>
+                      <span>
+                        {parsedEvent.start_time.slice(0, 5)}
+                        {parsedEvent.end_time && ` – ${parsedEvent.end_time.slice(0, 5)}`}
+                      </span>
                     </div>
                   )}
                   
@@ -1,7 +1,24 @@
 import React, { useState } from 'react'
-import { X, Calendar, Clock, MapPin, Users } from 'lucide-react'
-import { supabase, Event } from '../../lib/supabase'
+import { X, Calendar, Clock, MapPin, Users, Repeat, Search } from 'lucide-react'
+import { supabase, Event, RecurrenceEditScope } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
+import { recurringEventService } from '../../services/recurringEvents'
+import { calendarContextService, CandidateSlot } from '../../services/calendarContext'
+import { RecurrenceRule, RecurrenceOptions, EMPTY_RECURRENCE_OPTIONS } from '../../utils/recurrenceRule'
+import { RecurrenceFields } from './RecurrenceFields'
+import { TimeZone } from '../../utils/timeZone'
+import { eventActionService } from '../../services/eventActions'
+
+// Length of the event being planned; an hour when it has no end yet
+function plannedMinutes(startTime: string, endTime: string): number {
+  if (!startTime || !endTime) return 60
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number)
+    return h * 60 + m
+  }
+  const minutes = toMinutes(endTime) - toMinutes(startTime)
+  return minutes > 0 ? minutes : minutes + 24 * 60
+}
 
 interface EventFormProps {
   defaultDate?: string
@@ -13,6 +30,13 @@ interface EventFormProps {
 export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormProps) {
   const { user } = useAuth()
   const [loading, setLoading] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions>(EMPTY_RECURRENCE_OPTIONS)
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('this')
+  const [suggestedSlots, setSuggestedSlots] = useState<CandidateSlot[] | null>(null)
+  const [findingSlots, setFindingSlots] = useState(false)
+  const isRecurringEdit = !!event && recurringEventService.isRecurring(event)
+  // Edited single occurrences don't carry the series rule, so they can't change it
+  const isOccurrenceOverride = !!event?.recurrence_parent_id
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -41,6 +65,8 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
         rsvp_required: event.rsvp_required || false,
         rsvp_status: event.rsvp_status || 'pending'
       })
+      setRecurrence(RecurrenceRule.toOptions(event.recurrence_rule))
+      setEditScope('this')
     } else if (defaultDate) {
       setFormData(prev => ({
         ...prev,
@@ -60,9 +86,41 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
         rsvp_required: false,
         rsvp_status: 'pending'
       })
+      setRecurrence(EMPTY_RECURRENCE_OPTIONS)
     }
   }, [event, defaultDate])
 
+  const findTimes = async () => {
+    if (!user) return
+
+    setFindingSlots(true)
+    try {
+      const slots = await calendarContextService.findAvailableSlots(user.id, {
+        startDate: formData.event_date || TimeZone.utcToZoned(Date.now(), TimeZone.local()).date,
+        durationMinutes: plannedMinutes(formData.start_time, formData.end_time),
+        participants: formData.participants.split(',').map(p => p.trim()).filter(p => p),
+        preferredTime: formData.start_time || undefined,
+        excludeEventId: event?.id
+      })
+      setSuggestedSlots(slots)
+    } catch (error) {
+      console.error('Error finding free times:', error)
+      setSuggestedSlots([])
+    } finally {
+      setFindingSlots(false)
+    }
+  }
+
+  const applySlot = (slot: CandidateSlot) => {
+    setFormData({
+      ...formData,
+      event_date: slot.date,
+      start_time: slot.start.slice(0, 5),
+      end_time: slot.end.slice(0, 5)
+    })
+    setSuggestedSlots(null)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!user) return
@@ -75,7 +133,14 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
         end_time: formData.end_time || null,
         user_id: user.id,
         participants: formData.participants.split(',').map(p => p.trim()).filter(p => p),
-        source: 'manual' as const
+        source: 'manual' as const,
+        ...(isOccurrenceOverride ? {} : { recurrence_rule: RecurrenceRule.fromOptions(recurrence, formData.event_date) })
+      }
+
+      if (event && isRecurringEdit) {
+        await recurringEventService.updateOccurrence(user.id, event, editScope, eventData)
+        onSaved()
+        return
       }
 
       let result
@@ -96,6 +161,10 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
 
       if (result.error) throw result.error
 
+      if (!event) {
+        await eventActionService.suggestForEvent(result.data)
+      }
+
       onSaved()
     } catch (error) {
       console.error('Error saving event:', error)
@@ -107,6 +176,33 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
 
   return (
     <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+            {isRecurringEdit && (
+              <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg">
+                <p className="text-xs sm:text-sm font-medium text-purple-800 mb-2">
+                  <Repeat className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
+                  This is a recurring event. Apply changes to:
+                </p>
+                <div className="flex flex-col space-y-1">
+                  {([
+                    ['this', 'This event'],
+                    ['future', 'This and following events'],
+                    ['all', 'All events']
+                  ] as [RecurrenceEditScope, string][]).map(([scope, label]) => (
+                    <label key={scope} className="flex items-center text-xs sm:text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        name="recurrence-edit-scope"
+                        checked={editScope === scope}
+                        onChange={() => setEditScope(scope)}
+                        className="mr-2 text-purple-600 focus:ring-purple-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                 Event Title *
@@ -195,6 +291,45 @@ export function EventForm({ defaultDate, event, onCancel, onSaved }: EventFormPr
               </div>
             </div>
 
+            <div>
+              <button
+                type="button"
+                onClick={findTimes}
+                disabled={findingSlots}
+                className="flex items-center text-xs sm:text-sm text-purple-600 hover:text-purple-700 disabled:opacity-50"
+              >
+                <Search className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                {findingSlots ? 'Looking for free times...' : 'Find a time that works for everyone'}
+              </button>
+
+              {suggestedSlots && (
+                <div className="mt-2 space-y-1">
+                  {suggestedSlots.length === 0 ? (
+                    <p className="text-xs sm:text-sm text-gray-500">No free time found in the week from this date.</p>
+                  ) : (
+                    suggestedSlots.map(slot => (
+                      <button
+                        key={`${slot.date}-${slot.start}`}
+                        type="button"
+                        onClick={() => applySlot(slot)}
+                        className="block w-full text-left px-3 py-2 border border-purple-200 rounded-lg text-xs sm:text-sm text-gray-700 hover:bg-purple-50 transition-colors"
+                      >
+                        {calendarContextService.formatSlot(slot)}
+                      </button>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+
+            {!isOccurrenceOverride && !(isRecurringEdit && editScope === 'this') && (
+              <RecurrenceFields
+                value={recurrence}
+                onChange={setRecurrence}
+                minDate={formData.event_date}
+              />
+            )}
+
             <div>
               <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                 <MapPin className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
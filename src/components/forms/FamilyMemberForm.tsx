@@ -1,7 +1,9 @@
 import React, { useState } from 'react'
-import { X, User, Heart, School } from 'lucide-react'
+import { X, User, Heart, School, Clock, Cake } from 'lucide-react'
 import { supabase, FamilyMember } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
+import { birthdayService } from '../../services/birthdays'
+import { FamilyAge } from '../../utils/familyAge'
 
 interface FamilyMemberFormProps {
   isOpen: boolean
@@ -16,12 +18,16 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
   const [error, setError] = useState('')
   const [formData, setFormData] = useState({
     name: '',
+    birth_date: '',
+    birthday_reminder_days: '7',
     age: '',
     gender: 'Other',
     allergies: '',
     medical_notes: '',
     school: '',
-    grade: ''
+    grade: '',
+    day_start_time: '',
+    day_end_time: ''
   })
 
   // Update form data when editMember changes
@@ -29,23 +35,31 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
     if (editMember) {
       setFormData({
         name: editMember.name || '',
-        age: editMember.age?.toString() || '',
+        birth_date: editMember.birth_date || '',
+        birthday_reminder_days: (editMember.birthday_reminder_days ?? 7).toString(),
+        age: FamilyAge.ageOn(editMember)?.toString() || '',
         gender: editMember.gender || 'Other',
         allergies: editMember.allergies?.join(', ') || '',
         medical_notes: editMember.medical_notes || '',
         school: editMember.school || '',
-        grade: editMember.grade || ''
+        grade: editMember.grade || '',
+        day_start_time: editMember.day_start_time?.slice(0, 5) || '',
+        day_end_time: editMember.day_end_time?.slice(0, 5) || ''
       })
     } else {
       // Reset form for new member
       setFormData({
         name: '',
+        birth_date: '',
+        birthday_reminder_days: '7',
         age: '',
         gender: 'Other',
         allergies: '',
         medical_notes: '',
         school: '',
-        grade: ''
+        grade: '',
+        day_start_time: '',
+        day_end_time: ''
       })
     }
   }, [editMember])
@@ -61,11 +75,26 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
         throw new Error('You must be logged in to add family members.')
       }
 
+      if (formData.birth_date && !FamilyAge.isValidBirthDate(formData.birth_date)) {
+        throw new Error('Birth date must be in the past.')
+      }
+
+      // The stored age is a snapshot of the day it was saved; it's counted up from age_as_of
+      const today = FamilyAge.today()
+      const age = formData.birth_date
+        ? FamilyAge.ageOn({ birth_date: formData.birth_date }, today)
+        : formData.age ? parseInt(formData.age.toString()) : null
+
       const memberData = {
         ...formData,
         user_id: user.id,
-        age: formData.age ? parseInt(formData.age.toString()) : null,
-        allergies: formData.allergies.split(',').map(a => a.trim()).filter(a => a)
+        birth_date: formData.birth_date || null,
+        birthday_reminder_days: Math.min(60, Math.max(0, parseInt(formData.birthday_reminder_days) || 0)),
+        age,
+        age_as_of: age !== null ? today : null,
+        allergies: formData.allergies.split(',').map(a => a.trim()).filter(a => a),
+        day_start_time: formData.day_start_time || null,
+        day_end_time: formData.day_end_time || null
       }
 
       let result
@@ -90,19 +119,25 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
         throw result.error
       }
 
+      const savedMember = await birthdayService.syncBirthday(result.data, editMember)
+
       // Call the callback with the saved member
-      onMemberCreated(result.data)
+      onMemberCreated(savedMember)
       onClose()
       
       // Reset form
       setFormData({
         name: '',
+        birth_date: '',
+        birthday_reminder_days: '7',
         age: '',
         gender: 'Other',
         allergies: '',
         medical_notes: '',
         school: '',
-        grade: ''
+        grade: '',
+        day_start_time: '',
+        day_end_time: ''
       })
     } catch (error) {
       console.error('Error saving family member:', error)
@@ -153,20 +188,54 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                  <Cake className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
+                  Birth Date
+                </label>
+                <input
+                  type="date"
+                  max={FamilyAge.today()}
+                  value={formData.birth_date}
+                  onChange={(e) => setFormData({ ...formData, birth_date: e.target.value })}
+                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                />
+              </div>
               <div>
                 <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                   Age
                 </label>
                 <input
-                  type="number"
+                  type={formData.birth_date ? 'text' : 'number'}
                   min="0"
-                  max="25"
-                  value={formData.age}
+                  max="130"
+                  value={formData.birth_date ? FamilyAge.label({ birth_date: formData.birth_date }) ?? '' : formData.age}
                   onChange={(e) => setFormData({ ...formData, age: e.target.value })}
-                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                  disabled={!!formData.birth_date}
+                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base disabled:bg-gray-50 disabled:text-gray-500"
                   placeholder="Age"
                 />
               </div>
+            </div>
+
+            {formData.birth_date && (
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                  Birthday Reminder (days before)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={formData.birthday_reminder_days}
+                  onChange={(e) => setFormData({ ...formData, birthday_reminder_days: e.target.value })}
+                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                />
+                <p className="text-xs text-gray-500 mt-1">Their birthday goes on the calendar every year</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
               <div>
                 <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                   Gender
@@ -225,6 +294,28 @@ export function FamilyMemberForm({ isOpen, onClose, onMemberCreated, editMember
               />
             </div>
 
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                <Clock className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
+                Available Hours
+              </label>
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                <input
+                  type="time"
+                  value={formData.day_start_time}
+                  onChange={(e) => setFormData({ ...formData, day_start_time: e.target.value })}
+                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                />
+                <input
+                  type="time"
+                  value={formData.day_end_time}
+                  onChange={(e) => setFormData({ ...formData, day_end_time: e.target.value })}
+                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">e.g. after school until bedtime; leave empty to use yours</p>
+            </div>
+
             <div>
               <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                 Medical Notes
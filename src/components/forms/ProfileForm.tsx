@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { X, User, Mail, Heart } from 'lucide-react'
+import { X, User, Mail, Heart, Clock } from 'lucide-react'
 import { supabase, Profile } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
 
@@ -17,7 +17,11 @@ export function ProfileForm({ isOpen, onClose, onProfileUpdated }: ProfileFormPr
   const [formData, setFormData] = useState({
     full_name: '',
     user_type: 'Mom' as 'Mom' | 'Dad' | 'Guardian' | 'Other',
-    ai_personality: 'Friendly' as 'Friendly' | 'Professional' | 'Humorous'
+    ai_personality: 'Friendly' as 'Friendly' | 'Professional' | 'Humorous',
+    day_start_time: '08:00',
+    day_end_time: '20:00',
+    event_buffer_minutes: '15',
+    travel_buffer_minutes: '30'
   })
 
   // Load current profile data when form opens
@@ -46,7 +50,11 @@ export function ProfileForm({ isOpen, onClose, onProfileUpdated }: ProfileFormPr
         setFormData({
           full_name: profile.full_name || '',
           user_type: profile.user_type || 'Mom',
-          ai_personality: profile.ai_personality || 'Friendly'
+          ai_personality: profile.ai_personality || 'Friendly',
+          day_start_time: profile.day_start_time?.slice(0, 5) || '08:00',
+          day_end_time: profile.day_end_time?.slice(0, 5) || '20:00',
+          event_buffer_minutes: String(profile.event_buffer_minutes ?? 15),
+          travel_buffer_minutes: String(profile.travel_buffer_minutes ?? 30)
         })
       }
     } catch (error: any) {
@@ -72,6 +80,10 @@ export function ProfileForm({ isOpen, onClose, onProfileUpdated }: ProfileFormPr
         full_name: formData.full_name,
         user_type: formData.user_type,
         ai_personality: formData.ai_personality,
+        day_start_time: formData.day_start_time,
+        day_end_time: formData.day_end_time,
+        event_buffer_minutes: parseInt(formData.event_buffer_minutes) || 0,
+        travel_buffer_minutes: parseInt(formData.travel_buffer_minutes) || 0,
         updated_at: new Date().toISOString()
       }
 
@@ -195,6 +207,58 @@ export function ProfileForm({ isOpen, onClose, onProfileUpdated }: ProfileFormPr
                 <p className="text-xs text-gray-500 mt-1">This affects how your AI assistant communicates with you</p>
               </div>
 
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                  <Clock className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
+                  Available Hours
+                </label>
+                <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                  <input
+                    type="time"
+                    value={formData.day_start_time}
+                    onChange={(e) => setFormData({ ...formData, day_start_time: e.target.value })}
+                    className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                  />
+                  <input
+                    type="time"
+                    value={formData.day_end_time}
+                    onChange={(e) => setFormData({ ...formData, day_end_time: e.target.value })}
+                    className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Free times are only suggested within these hours</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                    Buffer (min)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="240"
+                    value={formData.event_buffer_minutes}
+                    onChange={(e) => setFormData({ ...formData, event_buffer_minutes: e.target.value })}
+                    className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                    Travel buffer (min)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="240"
+                    value={formData.travel_buffer_minutes}
+                    onChange={(e) => setFormData({ ...formData, travel_buffer_minutes: e.target.value })}
+                    className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">Time kept free around events, and around events that have a location</p>
+
               <div className="flex space-x-2 sm:space-x-3 pt-3 sm:pt-4">
                 <button
                   type="button"
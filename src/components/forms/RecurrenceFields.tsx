@@ -0,0 +1,141 @@
+import { Repeat } from 'lucide-react'
+import { RecurrenceOptions, Weekday } from '../../utils/recurrenceRule'
+
+const WEEKDAY_BUTTONS: [Weekday, string][] = [
+  ['SU', 'S'], ['MO', 'M'], ['TU', 'T'], ['WE', 'W'], ['TH', 'T'], ['FR', 'F'], ['SA', 'S']
+]
+
+// Spelled out in full so Tailwind picks the classes up
+const ACCENTS = {
+  purple: { input: 'focus:ring-purple-500', selected: 'bg-purple-500 text-white' },
+  orange: { input: 'focus:ring-orange-500', selected: 'bg-orange-500 text-white' }
+}
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceOptions
+  onChange: (value: RecurrenceOptions) => void
+  // Earliest allowed "ends on" date, normally the series start
+  minDate?: string
+  accent?: keyof typeof ACCENTS
+}
+
+/**
+ * "Repeats" picker shared by the event, reminder and task forms.
+ */
+export function RecurrenceFields({ value, onChange, minDate, accent = 'purple' }: RecurrenceFieldsProps) {
+  const inputClass = `border border-gray-300 rounded-lg focus:ring-2 ${ACCENTS[accent].input} focus:border-transparent`
+
+  const toggleWeekday = (weekday: Weekday) => {
+    onChange({
+      ...value,
+      weekdays: value.weekdays.includes(weekday)
+        ? value.weekdays.filter(d => d !== weekday)
+        : [...value.weekdays, weekday]
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+        <Repeat className="w-3 h-3 sm:w-4 sm:h-4 inline mr-1" />
+        Repeats
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+        <select
+          value={value.frequency}
+          onChange={(e) => onChange({ ...value, frequency: e.target.value as RecurrenceOptions['frequency'] })}
+          className={`w-full px-3 py-2 sm:px-4 ${inputClass} text-sm sm:text-base`}
+        >
+          <option value="">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+          <option value="YEARLY">Yearly</option>
+        </select>
+        {value.frequency && (
+          <div className="flex items-center space-x-2 text-xs sm:text-sm text-gray-700">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: parseInt(e.target.value, 10) || 1 })}
+              className={`w-16 px-2 py-2 ${inputClass}`}
+            />
+            <span>
+              {{ DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[value.frequency]}
+              {value.interval > 1 ? 's' : ''}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {value.frequency === 'WEEKLY' && (
+        <div className="flex space-x-1">
+          {WEEKDAY_BUTTONS.map(([weekday, label]) => (
+            <button
+              key={weekday}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${
+                value.weekdays.includes(weekday)
+                  ? ACCENTS[accent].selected
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.frequency === 'MONTHLY' && (
+        <select
+          value={value.monthlyBy}
+          onChange={(e) => onChange({ ...value, monthlyBy: e.target.value as RecurrenceOptions['monthlyBy'] })}
+          className={`w-full px-3 py-2 sm:px-4 ${inputClass} text-sm sm:text-base`}
+        >
+          <option value="monthday">On the same day of the month</option>
+          <option value="weekday">On the same weekday (e.g. 2nd Tuesday)</option>
+        </select>
+      )}
+
+      {value.frequency && (
+        <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-700">
+          <span>Ends</span>
+          <select
+            value={value.ends}
+            onChange={(e) => onChange({ ...value, ends: e.target.value as RecurrenceOptions['ends'] })}
+            className={`px-2 py-2 ${inputClass}`}
+          >
+            <option value="never">Never</option>
+            <option value="count">After</option>
+            <option value="until">On date</option>
+          </select>
+          {value.ends === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => onChange({ ...value, count: parseInt(e.target.value, 10) || 1 })}
+                className={`w-16 px-2 py-2 ${inputClass}`}
+              />
+              <span>times</span>
+            </>
+          )}
+          {value.ends === 'until' && (
+            <input
+              type="date"
+              value={value.until}
+              min={minDate || undefined}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              className={`px-2 py-2 ${inputClass}`}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { X, Bell, Calendar, Clock, User, AlertTriangle } from 'lucide-react';
 import { supabase, Reminder, FamilyMember } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
+import { RecurrenceRule, RecurrenceOptions, EMPTY_RECURRENCE_OPTIONS } from '../../utils/recurrenceRule';
+import { FamilyAge } from '../../utils/familyAge';
+import { RecurrenceFields } from './RecurrenceFields';
 
 interface ReminderFormProps {
   isOpen: boolean;
@@ -27,10 +30,11 @@ export function ReminderForm({
     reminder_date: editReminder?.reminder_date || '',
     reminder_time: editReminder?.reminder_time || '',
     priority: editReminder?.priority || 'medium',
-    family_member_id: editReminder?.family_member_id || preselectedMember?.id || '',
-    recurring: editReminder?.recurring || false,
-    recurring_pattern: editReminder?.recurring_pattern || ''
+    family_member_id: editReminder?.family_member_id || preselectedMember?.id || ''
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions>(
+    RecurrenceRule.toOptions(editReminder?.recurrence_rule)
+  );
 
   // Load family members when form opens
   React.useEffect(() => {
@@ -48,10 +52,9 @@ export function ReminderForm({
         reminder_date: editReminder.reminder_date || '',
         reminder_time: editReminder.reminder_time || '',
         priority: editReminder.priority || 'medium',
-        family_member_id: editReminder.family_member_id || '',
-        recurring: editReminder.recurring || false,
-        recurring_pattern: editReminder.recurring_pattern || ''
+        family_member_id: editReminder.family_member_id || ''
       });
+      setRecurrence(RecurrenceRule.toOptions(editReminder.recurrence_rule));
     } else if (preselectedMember) {
       setFormData(prev => ({
         ...prev,
@@ -84,6 +87,7 @@ export function ReminderForm({
 
     setLoading(true);
     try {
+      const recurrenceRule = RecurrenceRule.fromOptions(recurrence, formData.reminder_date);
       const reminderData = {
         title: formData.title,
         description: formData.description || '',
@@ -91,8 +95,8 @@ export function ReminderForm({
         reminder_time: formData.reminder_time || null,
         priority: formData.priority,
         family_member_id: formData.family_member_id || null,
-        recurring: formData.recurring,
-        recurring_pattern: formData.recurring ? formData.recurring_pattern || null : null,
+        recurring: !!recurrenceRule,
+        recurrence_rule: recurrenceRule,
         user_id: user.id,
         completed: false
       };
@@ -123,10 +127,9 @@ export function ReminderForm({
         reminder_date: '',
         reminder_time: '',
         priority: 'medium',
-        family_member_id: preselectedMember?.id || '',
-        recurring: false,
-        recurring_pattern: ''
+        family_member_id: preselectedMember?.id || ''
       });
+      setRecurrence(EMPTY_RECURRENCE_OPTIONS);
     } catch (error) {
       console.error('Error saving reminder:', error);
       alert(`Error saving reminder: ${error.message || 'Please try again.'}`);
@@ -239,38 +242,19 @@ export function ReminderForm({
                   <option value="">General reminder</option>
                   {familyMembers.map((member) => (
                     <option key={member.id} value={member.id}>
-                      {member.name} {member.age && `(${member.age})`}
+                      {member.name} {FamilyAge.label(member) && `(${FamilyAge.label(member)})`}
                     </option>
                   ))}
                 </select>
               </div>
             </div>
 
-            <div className="space-y-2 sm:space-y-3">
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={formData.recurring}
-                  onChange={(e) => setFormData({ ...formData, recurring: e.target.checked })}
-                  className="w-3 h-3 sm:w-4 sm:h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
-                />
-                <span className="ml-2 text-xs sm:text-sm text-gray-700">Recurring reminder</span>
-              </label>
-
-              {formData.recurring && (
-                <select
-                  value={formData.recurring_pattern}
-                  onChange={(e) => setFormData({ ...formData, recurring_pattern: e.target.value })}
-                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent text-sm sm:text-base"
-                >
-                  <option value="">Select frequency</option>
-                  <option value="daily">Daily</option>
-                  <option value="weekly">Weekly</option>
-                  <option value="monthly">Monthly</option>
-                  <option value="yearly">Yearly</option>
-                </select>
-              )}
-            </div>
+            <RecurrenceFields
+              value={recurrence}
+              onChange={setRecurrence}
+              minDate={formData.reminder_date}
+              accent="orange"
+            />
 
             <div className="flex space-x-2 sm:space-x-3 pt-3 sm:pt-4">
               <button
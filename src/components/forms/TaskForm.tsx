@@ -2,6 +2,9 @@ import React, { useState } from 'react'
 import { X, CheckSquare, User, Calendar, Clock, Star, Hash } from 'lucide-react'
 import { supabase, Task, FamilyMember } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
+import { RecurrenceRule, RecurrenceOptions, EMPTY_RECURRENCE_OPTIONS } from '../../utils/recurrenceRule'
+import { FamilyAge } from '../../utils/familyAge'
+import { RecurrenceFields } from './RecurrenceFields'
 
 interface TaskFormProps {
   isOpen: boolean
@@ -23,10 +26,11 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
     due_date: editTask?.due_date || '',
     due_time: editTask?.due_time || '',
     points: editTask?.points || 0,
-    notes: editTask?.notes || '',
-    recurring: editTask?.recurring || false,
-    recurring_pattern: editTask?.recurring_pattern || ''
+    notes: editTask?.notes || ''
   })
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions>(
+    RecurrenceRule.toOptions(editTask?.recurrence_rule)
+  )
 
   // Load family members when form opens
   React.useEffect(() => {
@@ -59,6 +63,11 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
 
     setLoading(true)
     try {
+      // Undated recurring tasks start their series today
+      const recurrenceRule = RecurrenceRule.fromOptions(
+        recurrence,
+        formData.due_date || new Date().toISOString().split('T')[0]
+      )
       const taskData = {
         title: formData.title,
         description: formData.description || '',
@@ -69,8 +78,8 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
         due_time: formData.due_time || null,
         points: formData.points || 0,
         notes: formData.notes || '',
-        recurring: formData.recurring,
-        recurring_pattern: formData.recurring ? formData.recurring_pattern || null : null,
+        recurring: !!recurrenceRule,
+        recurrence_rule: recurrenceRule,
         user_id: user.id,
         status: 'pending' as const
       }
@@ -110,10 +119,9 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
         due_date: '',
         due_time: '',
         points: 0,
-        notes: '',
-        recurring: false,
-        recurring_pattern: ''
+        notes: ''
       })
+      setRecurrence(EMPTY_RECURRENCE_OPTIONS)
     } catch (error) {
       console.error('Error saving task:', error)
       alert(`Error saving task: ${error.message || 'Please try again.'}`)
@@ -217,7 +225,7 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
                 <option value="">No assignment</option>
                 {familyMembers.map((member) => (
                   <option key={member.id} value={member.id}>
-                    {member.name} {member.age && `(${member.age})`}
+                    {member.name} {FamilyAge.label(member) && `(${FamilyAge.label(member)})`}
                   </option>
                 ))}
               </select>
@@ -283,31 +291,11 @@ export function TaskForm({ isOpen, onClose, onTaskCreated, editTask }: TaskFormP
               />
             </div>
 
-            <div className="space-y-2 sm:space-y-3">
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={formData.recurring}
-                  onChange={(e) => setFormData({ ...formData, recurring: e.target.checked })}
-                  className="w-3 h-3 sm:w-4 sm:h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
-                />
-                <span className="ml-2 text-xs sm:text-sm text-gray-700">Recurring task</span>
-              </label>
-
-              {formData.recurring && (
-                <select
-                  value={formData.recurring_pattern}
-                  onChange={(e) => setFormData({ ...formData, recurring_pattern: e.target.value })}
-                  className="w-full px-3 py-2 sm:px-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"
-                >
-                  <option value="">Select frequency</option>
-                  <option value="daily">Daily</option>
-                  <option value="weekly">Weekly</option>
-                  <option value="monthly">Monthly</option>
-                  <option value="yearly">Yearly</option>
-                </select>
-              )}
-            </div>
+            <RecurrenceFields
+              value={recurrence}
+              onChange={setRecurrence}
+              minDate={formData.due_date}
+            />
 
             <div className="flex space-x-2 sm:space-x-3 pt-3 sm:pt-4">
               <button
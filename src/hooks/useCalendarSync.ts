@@ -1,9 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
 import { syncOrchestrator } from '../services/syncOrchestrator';
+import { syncScheduler } from '../services/syncScheduler';
 import { calendarSyncService } from '../services/calendarSync';
-import type { SyncResult, SyncConflict } from '../services/calendarSync';
+import type { SyncResult, SyncConflict, SyncField, ConflictPolicy } from '../services/calendarSync';
 import { useAuth } from './useAuth';
 
+// Floor between scheduled checks, so a run skipped because another device
+// holds the lease doesn't turn into a busy loop
+const MIN_CHECK_INTERVAL_MS = 60000;
+
 export function useCalendarSync() {
   const { user } = useAuth();
   const [isSyncing, setIsSyncing] = useState(false);
@@ -14,7 +20,6 @@ export function useCalendarSync() {
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [nextSyncTime, setNextSyncTime] = useState<Date | null>(null);
 
-  const syncTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastSyncAttemptRef = useRef<Date | null>(null);
 
   /**
@@ -30,6 +35,8 @@ export function useCalendarSync() {
       if (prefs.last_sync_at) {
         setLastSyncTime(new Date(prefs.last_sync_at));
       }
+      // No scheduled time yet means due now
+      setNextSyncTime(prefs.sync_enabled ? new Date(prefs.next_sync_at ?? Date.now()) : null);
     }
   }, [user?.id]);
 
@@ -66,7 +73,9 @@ export function useCalendarSync() {
     lastSyncAttemptRef.current = new Date();
 
     try {
-      const result = await syncOrchestrator.performFullSync(user.id);
+      const result = await syncScheduler.runIfDue(user.id, { force: true });
+      if (!result) return;
+
       setLastSyncResult(result);
       setLastSyncTime(new Date());
 
@@ -92,8 +101,35 @@ export function useCalendarSync() {
       return errorResult;
     } finally {
       setIsSyncing(false);
+      await loadSyncPreferences();
+    }
+  }, [user?.id, isSyncing, loadPendingConflicts, loadSyncPreferences]);
+
+  /**
+   * Run a scheduled sync if it is due. The scheduler re-checks against the
+   * stored schedule, so a run another tab or device just did isn't repeated.
+   */
+  const runScheduledSync = useCallback(async () => {
+    if (!user?.id || isSyncing) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncScheduler.runIfDue(user.id);
+      if (result) {
+        console.log('⏰ Scheduled sync finished');
+        setLastSyncResult(result);
+        setLastSyncTime(new Date());
+        if (result.conflictsDetected > 0) {
+          await loadPendingConflicts();
+        }
+      }
+    } catch (error) {
+      console.error('❌ Scheduled sync failed:', error);
+    } finally {
+      setIsSyncing(false);
+      await loadSyncPreferences();
     }
-  }, [user?.id, isSyncing, loadPendingConflicts]);
+  }, [user?.id, isSyncing, loadPendingConflicts, loadSyncPreferences]);
 
   /**
    * Update sync preferences
@@ -103,11 +139,20 @@ export function useCalendarSync() {
       sync_enabled?: boolean;
       sync_frequency_minutes?: number;
       sync_direction?: 'bidirectional' | 'google_to_local' | 'local_to_google';
+      auto_resolve_conflicts?: boolean;
+      conflict_policy?: ConflictPolicy;
+      sync_calendar_ids?: string[];
+      write_calendar_id?: string;
     }
   ) => {
     if (!user?.id) return false;
 
-    const success = await calendarSyncService.updateUserSyncPreferences(user.id, updates);
+    // A new frequency reschedules the next run from now
+    const nextSyncAt = updates.sync_frequency_minutes !== undefined
+      ? { next_sync_at: new Date(Date.now() + updates.sync_frequency_minutes * 60000).toISOString() }
+      : {};
+
+    const success = await calendarSyncService.updateUserSyncPreferences(user.id, { ...updates, ...nextSyncAt });
 
     if (success) {
       if (updates.sync_enabled !== undefined) {
@@ -116,17 +161,19 @@ export function useCalendarSync() {
       if (updates.sync_frequency_minutes !== undefined) {
         setSyncFrequencyMinutes(updates.sync_frequency_minutes);
       }
+      await loadSyncPreferences();
     }
 
     return success;
-  }, [user?.id]);
+  }, [user?.id, loadSyncPreferences]);
 
   /**
    * Resolve a conflict
    */
   const resolveConflict = useCallback(async (
     conflictId: string,
-    resolution: 'keep_local' | 'keep_google' | 'merge'
+    resolution: 'keep_local' | 'keep_google' | 'merge',
+    choices?: Partial<Record<SyncField, 'local' | 'google'>>
   ) => {
     if (!user?.id) return false;
 
@@ -138,7 +185,13 @@ export function useCalendarSync() {
 
       // If resolution was chosen, apply it
       const conflict = pendingConflicts.find(c => c.id === conflictId);
-      if (conflict) {
+      if (conflict?.conflict_type === 'deletion') {
+        if (resolution !== 'merge') {
+          await syncOrchestrator.resolveDeletionConflict(user.id, conflict, resolution);
+        }
+      } else if (conflict?.conflicting_fields?.length) {
+        await syncOrchestrator.resolveModificationConflict(user.id, conflict, resolution, choices);
+      } else if (conflict) {
         if (resolution === 'keep_google') {
           // Update local event with Google data
           await syncOrchestrator.syncSingleEvent(user.id, conflict.google_event_id, 'google_to_local');
@@ -153,76 +206,56 @@ export function useCalendarSync() {
   }, [user?.id, pendingConflicts]);
 
   /**
-   * Calculate next sync time
+   * Scheduled sync check. Hidden or offline tabs leave the run to someone
+   * else (or to later). Kept in a ref so the listeners below see the latest
+   * schedule without being torn down and re-added every time it changes.
    */
-  const calculateNextSyncTime = useCallback(() => {
-    if (!lastSyncTime || !syncEnabled) {
-      setNextSyncTime(null);
-      return;
-    }
+  const checkScheduledSyncRef = useRef<() => void>(() => {});
 
-    const next = new Date(lastSyncTime);
-    next.setMinutes(next.getMinutes() + syncFrequencyMinutes);
-    setNextSyncTime(next);
-  }, [lastSyncTime, syncEnabled, syncFrequencyMinutes]);
+  useEffect(() => {
+    checkScheduledSyncRef.current = () => {
+      if (document.visibilityState !== 'visible' || !navigator.onLine) return;
+      if (nextSyncTime && nextSyncTime.getTime() > Date.now()) return;
+      void runScheduledSync();
+    };
+  }, [nextSyncTime, runScheduledSync]);
 
   /**
-   * Check if sync is needed
+   * Check when the next run is due
    */
-  const checkSyncNeeded = useCallback(() => {
-    if (!syncEnabled || !user?.id || isSyncing) return false;
-
-    // Don't sync if we just attempted (minimum 5 minutes between automatic syncs)
-    if (lastSyncAttemptRef.current) {
-      const timeSinceLastAttempt = Date.now() - lastSyncAttemptRef.current.getTime();
-      if (timeSinceLastAttempt < 300000) { // Wait at least 5 minutes between attempts
-        return false;
-      }
-    }
-
-    if (!lastSyncTime) return true;
+  useEffect(() => {
+    if (!syncEnabled || !user?.id) return;
 
-    const now = new Date();
-    const timeSinceLastSync = now.getTime() - lastSyncTime.getTime();
-    const syncIntervalMs = syncFrequencyMinutes * 60 * 1000;
+    const delay = nextSyncTime ? nextSyncTime.getTime() - Date.now() : 0;
+    const timer = setTimeout(() => checkScheduledSyncRef.current(), Math.max(delay, MIN_CHECK_INTERVAL_MS));
 
-    return timeSinceLastSync >= syncIntervalMs;
-  }, [syncEnabled, user?.id, isSyncing, lastSyncTime, syncFrequencyMinutes]);
+    return () => clearTimeout(timer);
+  }, [syncEnabled, user?.id, nextSyncTime]);
 
   /**
-   * Setup periodic sync timer
+   * Also check when the tab becomes visible, when the browser comes back
+   * online, and when the calendar-sync-scheduler edge function nudges after
+   * its server-side run. Subscribed once per user.
    */
   useEffect(() => {
-    if (!syncEnabled || !user?.id) {
-      if (syncTimerRef.current) {
-        clearInterval(syncTimerRef.current);
-        syncTimerRef.current = null;
-      }
-      return;
-    }
+    if (!syncEnabled || !user?.id) return;
 
-    // Check every minute if sync is needed
-    syncTimerRef.current = setInterval(() => {
-      if (checkSyncNeeded()) {
-        console.log('⏰ Automatic sync triggered');
-        performSync();
-      }
-    }, 60000); // Check every minute
+    const check = () => checkScheduledSyncRef.current();
+
+    document.addEventListener('visibilitychange', check);
+    window.addEventListener('online', check);
+
+    const channel = supabase
+      ?.channel(`calendar-sync:${user.id}`)
+      .on('broadcast', { event: 'sync_due' }, check)
+      .subscribe();
 
     return () => {
-      if (syncTimerRef.current) {
-        clearInterval(syncTimerRef.current);
-        syncTimerRef.current = null;
-      }
+      document.removeEventListener('visibilitychange', check);
+      window.removeEventListener('online', check);
+      if (channel) void supabase?.removeChannel(channel);
     };
-  }, [syncEnabled, user?.id, checkSyncNeeded, performSync]);
-
-  /**
-   * Update next sync time when dependencies change
-   */
-  useEffect(() => {
-    calculateNextSyncTime();
-  }, [calculateNextSyncTime]);
+  }, [syncEnabled, user?.id]);
 
   /**
    * Load preferences and conflicts on mount
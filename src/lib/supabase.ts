@@ -59,8 +59,21 @@ export interface FamilyMember {
   id: UUID
   user_id: UUID
   name: string
+  age?: number | null // as given when added; superseded by birth_date
+  age_as_of?: string | null // YYYY-MM-DD the age was recorded, so it can be counted up
+  birth_date?: string | null // YYYY-MM-DD
+  birthday_reminder_days?: number | null // days before the birthday to be reminded
+  birthday_event_id?: UUID | null // yearly birthday event
+  birthday_reminder_series_id?: UUID | null // yearly "birthday coming up" reminder
+  gender?: 'Boy' | 'Girl' | 'Other' | null
+  allergies?: string[] | null
+  medical_notes?: string | null
+  school?: string | null
+  grade?: string | null
   relationship?: string | null
   avatar_url?: string | null
+  day_start_time?: string | null // HH:MM:SS earliest time they can be booked; null follows the user
+  day_end_time?: string | null // HH:MM:SS
   created_at?: string
   updated_at?: string
 }
@@ -73,16 +86,44 @@ export interface Event {
   event_date: string // YYYY-MM-DD
   start_time?: string | null // HH:MM:SS
   end_time?: string | null // HH:MM:SS
+  end_date?: string | null // YYYY-MM-DD last day of a multi-day or overnight event
+  timezone?: string | null // IANA zone of the date/time fields; null means the profile's
   location?: string | null
   participants?: string[] | null
   event_type?: string | null
   rsvp_required?: boolean | null
   rsvp_status?: 'pending' | 'yes' | 'no' | 'maybe' | null
-  source?: 'whatsapp' | 'manual' | 'ai' | null
+  source?: 'whatsapp' | 'manual' | 'ai' | 'calendar_sync' | 'ics_import' | 'ics_feed' | null
+  external_uid?: string | null // iCalendar UID for imported events
+  feed_id?: UUID | null // subscribed feed of a read-only event
+  google_calendar_id?: string | null // Google calendar an imported event came from
+  calendar_color?: string | null // color of that calendar
+  recurrence_rule?: string | null // RFC 5545 RRULE body, e.g. FREQ=WEEKLY;BYDAY=TU
+  recurrence_exceptions?: string[] | null // YYYY-MM-DD occurrences removed from the series
+  recurrence_parent_id?: UUID | null // set on an edited single occurrence
+  recurrence_original_date?: string | null // YYYY-MM-DD occurrence the override replaces
   created_at?: string
   updated_at?: string
 }
 
+export interface CalendarFeed {
+  id: UUID
+  user_id: UUID
+  name: string
+  url: string
+  color?: string | null
+  enabled?: boolean | null
+  refresh_interval_minutes?: number | null
+  etag?: string | null
+  last_modified?: string | null
+  last_refreshed_at?: string | null
+  last_error?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type RecurrenceEditScope = 'this' | 'future' | 'all'
+
 export interface Reminder {
   id: UUID
   user_id: UUID
@@ -93,7 +134,9 @@ export interface Reminder {
   priority?: 'low' | 'medium' | 'high' | null
   completed?: boolean | null
   recurring?: boolean | null
-  recurring_pattern?: string | null
+  recurring_pattern?: string | null // legacy free text, superseded by recurrence_rule
+  recurrence_rule?: string | null // RRULE body; completing the row spawns the next occurrence
+  recurrence_series_id?: UUID | null // shared by every row of the series
   family_member_id?: UUID | null
   created_at?: string
   updated_at?: string
@@ -111,7 +154,9 @@ export interface Task {
   due_date?: string | null
   due_time?: string | null
   recurring?: boolean | null
-  recurring_pattern?: string | null
+  recurring_pattern?: string | null // legacy free text, superseded by recurrence_rule
+  recurrence_rule?: string | null // RRULE body; completing the row spawns the next occurrence
+  recurrence_series_id?: UUID | null // shared by every row of the series
   points?: number | null
   notes?: string | null
   completed_at?: string | null
@@ -138,6 +183,97 @@ export interface Contact {
   updated_at?: string
 }
 
+export type EventActionType = 'buy_gift' | 'rsvp' | 'schedule_ride' | 'set_reminder'
+export type RideDirection = 'to' | 'from'
+
+export interface EventAction {
+  id: UUID
+  user_id: UUID
+  event_id: UUID
+  action_type: EventActionType
+  action_status: 'pending' | 'completed' | 'cancelled'
+  due_date?: string | null // YYYY-MM-DD; for ride legs, the occurrence date
+  notes?: string | null
+  ride_direction?: RideDirection | null
+  driver_family_member_id?: UUID | null
+  driver_contact_id?: UUID | null
+  passengers?: string[] | null
+  carpool_id?: UUID | null // carpool that generated the leg
+  created_at?: string
+  updated_at?: string
+}
+
+export interface CarpoolDriver {
+  id: UUID
+  user_id: UUID
+  carpool_id: UUID
+  family_member_id?: UUID | null // exactly one of family_member_id and contact_id is set
+  contact_id?: UUID | null
+  position: number
+  created_at?: string
+}
+
+export interface Carpool {
+  id: UUID
+  user_id: UUID
+  event_id: UUID
+  name: string
+  directions: RideDirection[]
+  passengers?: string[] | null
+  start_date: string // YYYY-MM-DD first occurrence in the rotation
+  active?: boolean | null
+  carpool_drivers?: CarpoolDriver[]
+  created_at?: string
+  updated_at?: string
+}
+
+export type GiftStatus = 'planning' | 'chosen' | 'bought' | 'wrapped' | 'given'
+
+export interface GiftIdea {
+  title: string
+  description?: string | null
+  estimated_price?: number | null
+  category?: string | null
+  source: 'ai' | 'heuristic'
+}
+
+export interface GiftSuggestion {
+  id: UUID
+  user_id: UUID
+  event_id?: UUID | null
+  recipient_name: string
+  recipient_age?: number | null
+  recipient_gender?: 'Boy' | 'Girl' | 'Other' | null
+  budget_min?: number | null
+  budget_max?: number | null
+  interests?: string | null
+  suggestions: GiftIdea[]
+  chosen_gift?: GiftIdea | null
+  status: GiftStatus
+  shopping_item_id?: UUID | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface AutoReorder {
+  id: UUID
+  user_id: UUID
+  item_name: string
+  frequency_days: number
+  last_ordered?: string | null // date the item last went on the shopping list
+  next_order_date: string
+  price?: number | null
+  active?: boolean | null
+  quantity?: number | null
+  category?: string | null
+  send_to_instacart?: boolean | null
+  learn_cadence?: boolean | null
+  last_completed?: string | null // date the item was last ticked off
+  shopping_item_id?: UUID | null
+  created_at?: string
+  updated_at?: string
+}
+
 export interface Profile {
   id: UUID
   email: string
@@ -145,6 +281,11 @@ export interface Profile {
   user_type?: 'Mom' | 'Dad' | 'Guardian' | 'Other' | null
   onboarding_completed?: boolean | null
   ai_personality?: 'Friendly' | 'Professional' | 'Humorous' | null
+  timezone?: string | null // IANA zone, e.g. America/Chicago
+  day_start_time?: string | null // HH:MM:SS start of the hours free time is searched in
+  day_end_time?: string | null // HH:MM:SS
+  event_buffer_minutes?: number | null // gap kept before and after events
+  travel_buffer_minutes?: number | null // gap kept around events that have a location
   created_at?: string
   updated_at?: string
 }
@@ -180,6 +321,7 @@ export interface ShoppingItem {
   provider_metadata?: ProviderMetadata | null
   provider_synced_at?: string | null
   urgent?: boolean | null
+  pantry_item_id?: UUID | null
   created_at?: string
   updated_at?: string
 }
@@ -227,6 +369,54 @@ export interface UserSavedRecipe {
   saved_at?: string
 }
 
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack'
+
+export interface MealPlan {
+  id: UUID
+  user_id: UUID
+  recipe_id: UUID
+  plan_date: string
+  meal_slot: MealSlot
+  servings: number
+  notes?: string | null
+  shopping_generated_at?: string | null
+  cooked_at?: string | null
+  created_at?: string
+  updated_at?: string
+  recipe?: Recipe
+}
+
+export interface PantryItem {
+  id: UUID
+  user_id: UUID
+  name: string
+  quantity: number
+  unit?: string | null
+  category?: string | null
+  expires_on?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type AssistantEntityType = 'event' | 'task' | 'shopping_item' | 'family_member' | 'reminder'
+
+// Something an assistant turn created or changed, so "it" can refer back to it
+export interface AssistantEntity {
+  type: AssistantEntityType
+  id: UUID
+  label: string
+}
+
+export interface AssistantMessage {
+  id: UUID
+  user_id: UUID
+  role: 'user' | 'assistant' | 'summary'
+  content: string
+  entities: AssistantEntity[]
+  summarized_at?: string | null
+  created_at?: string
+}
+
 export interface InstacartIngredient {
   name: string
   display_text?: string
@@ -258,6 +448,7 @@ export interface InstacartShoppingListItem {
   quantity?: number
   unit?: string
   category?: string
+  health_filters?: string[]
 }
 
 export interface InstacartShoppingListRequest {
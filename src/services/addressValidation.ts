@@ -105,6 +105,33 @@ export const addressValidationService = {
     }
   },
 
+  /**
+   * Coordinates for free text such as an event location. Null when there is
+   * no API key, no network or no match.
+   */
+  async geocode(query: string): Promise<{ latitude: number; longitude: number } | null> {
+    if (!GOOGLE_MAPS_API_KEY || !query.trim()) return null
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return null
+
+    try {
+      const response = await fetch(
+        `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
+          query
+        )}&key=${GOOGLE_MAPS_API_KEY}`
+      )
+      if (!response.ok) return null
+
+      const data: GoogleGeocodingResponse = await response.json()
+      if (data.status !== 'OK' || data.results.length === 0) return null
+
+      const { lat, lng } = data.results[0].geometry.location
+      return { latitude: lat, longitude: lng }
+    } catch (error) {
+      console.error('Geocoding error:', error)
+      return null
+    }
+  },
+
   formatAddressString(
     streetAddress: string,
     apartmentUnit: string | undefined,
@@ -1,174 +1,186 @@
 import { supabase, Reminder, ShoppingItem, UUID, Task, Event as DbEvent, FamilyMember } from '../lib/supabase';
+import type { AssistantEntity, AssistantEntityType } from '../lib/supabase';
 import { openaiService } from './openai';
+import { assistantTools } from './assistantTools';
+import type { IntentType } from './assistantTools';
 import { ICalendarProvider, LocalCalendarProvider, CalendarEventInput } from './calendarProvider';
 import { calendarContextService } from './calendarContext';
+import type { CalendarContext } from './calendarContext';
+import type { TravelWarning } from './travelTime';
+import { eventActionService } from './eventActions';
+import { recurringItemService } from './recurringItems';
+import { autoReorderService } from './autoReorders';
+import { pantryService } from './pantry';
+import { assistantUndoService, UNDO_WINDOW_MINUTES } from './assistantUndo';
+import { conversationMemoryService } from './conversationMemory';
+import type { ConversationContext } from './conversationMemory';
+import type { ColumnRevert, RowSnapshot } from './assistantUndo';
+import { birthdayService } from './birthdays';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+import type { NaturalDateOptions } from '../utils/naturalDate';
+import { FamilyAge } from '../utils/familyAge';
 
 /** Central brain for "Sara" — routes natural language to concrete app actions. */
 export interface AIAction {
-  type: 'calendar' | 'reminder' | 'shopping' | 'shopping_query' | 'shopping_update' | 'shopping_delete' | 'task' | 'family' | 'family_query' | 'family_update' | 'family_delete' | 'chat';
+  type: 'calendar' | 'reminder' | 'shopping' | 'shopping_query' | 'shopping_update' | 'shopping_delete' | 'task' | 'family' | 'family_query' | 'family_update' | 'family_delete' | 'chat' | 'plan';
   success: boolean;
   message: string;
   data?: unknown;
+  // For a message that asked for several things: each one's outcome, in order
+  steps?: AIAction[];
+  // Set while Sara waits for a yes/no or a pick from a list of matches
+  confirmation?: { options: string[] };
+  // Lets the chat offer an Undo button for this change
+  undoId?: string;
+  // What this created or changed, so a follow-up's "it" can refer to it
+  entity?: AssistantEntity;
 }
 
-type IntentType = 'calendar' | 'calendar_query' | 'calendar_update' | 'calendar_delete' | 'reminder' | 'shopping' | 'shopping_query' | 'shopping_update' | 'shopping_delete' | 'task' | 'task_query' | 'task_update' | 'task_delete' | 'family' | 'family_query' | 'family_update' | 'family_delete' | 'chat';
-
 interface IntentResult {
   type: IntentType;
   details?: Record<string, unknown>;
+  // Set when the model picked a tool but its arguments didn't validate
+  error?: string;
+  action?: string;
 }
 
 /** ---- Shared helpers ---------------------------------------------------- */
-function toISODate(input?: string | number | Date | unknown): string | null {
-  if (!input) return null;
-  const s = String(input).trim();
-  
-  // Already ISO-like YYYY-MM-DD
-  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (m) return m[0];
-  
-  // Basic MM/DD or M/D this year
-  const m2 = s.match(/^(\d{1,2})[\/-](\d{1,2})$/);
-  if (m2) {
-    const year = new Date().getFullYear();
-    const mm = String(Math.max(1, Math.min(12, parseInt(m2[1], 10)))).padStart(2, '0');
-    const dd = String(Math.max(1, Math.min(31, parseInt(m2[2], 10)))).padStart(2, '0');
-    return `${year}-${mm}-${dd}`;
-  }
-  
-  // Natural words "today" / "tomorrow"
-  const lower = s.toLowerCase();
-  if (lower === 'today') {
-    return new Date().toISOString().split('T')[0];
-  }
-  if (lower === 'tomorrow') {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    return d.toISOString().split('T')[0];
-  }
-  
-  // Try parsing Date(...) and format to YYYY-MM-DD
-  const d = new Date(s);
-  if (!Number.isNaN(d.getTime())) {
-    return d.toISOString().split('T')[0];
-  }
-  
-  return null;
+function coerceInt(n: unknown, fallback: number | null = null): number | null {
+  const v = Number.parseInt(String(n ?? ''), 10);
+  return Number.isFinite(v) ? v : fallback;
 }
 
-function toISOTime(input?: string | number | Date | unknown): string | null {
+/**
+ * Accepts "every Tuesday"-style text or an RRULE body. Returns the rule and the
+ * first occurrence date (the given date, else the first match from today).
+ */
+function toRecurrence(input: unknown, date: string | null, dateOptions: NaturalDateOptions = {}): { rule: string; firstDate: string } | null {
   if (!input) return null;
   const s = String(input).trim();
-  
-  // "14:30" or "14"
-  const m = s.match(/^(\d{2}):(\d{2})$/);
-  if (m) {
-    const hh = String(Math.max(0, Math.min(23, parseInt(m[1], 10)))).padStart(2, '0');
-    const mm = String(Math.max(0, Math.min(59, parseInt(m[2], 10)))).padStart(2, '0');
-    return `${hh}:${mm}:00`;
-  }
-  
-  // "2pm", "2 pm", "2:30pm"
-  const ampm = s.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/i);
-  if (ampm) {
-    let h = Math.max(1, Math.min(12, parseInt(ampm[1], 10)));
-    const m2 = Math.max(0, Math.min(59, ampm[2] ? parseInt(ampm[2], 10) : 0));
-    const suffix = ampm[3].toLowerCase();
-    if (suffix === 'pm' && h !== 12) h += 12;
-    if (suffix === 'am' && h === 12) h = 0;
-    const hh = String(h).padStart(2, '0');
-    const mm = String(m2).padStart(2, '0');
-    return `${hh}:${mm}:00`;
-  }
-  
-  // "14" or "14:30"
-  const m2 = s.match(/^(\d{1,2})(?::(\d{2}))?$/);
-  if (m2) {
-    const h = Math.max(0, Math.min(23, parseInt(m2[1], 10)));
-    const mm2 = Math.max(0, Math.min(59, m2[2] ? parseInt(m2[2], 10) : 0));
-    return `${String(h).padStart(2, '0')}:${String(mm2).padStart(2, '0')}:00`;
-  }
-  
-  const d = new Date(s);
-  if (!Number.isNaN(d.getTime())) {
-    return d.toISOString().split('T')[1]?.slice(0, 8) || null;
-  }
-  
-  return null;
+  const parsed = /^(RRULE:)?FREQ=/i.test(s) ? RecurrenceRule.parse(s) : RecurrenceRule.fromText(s);
+  if (!parsed) return null;
+
+  const today = NaturalDate.today(dateOptions);
+  const firstDate = date ?? RecurrenceRule.next(parsed, today, RecurrenceRule.addDays(today, -1));
+  if (!firstDate) return null;
+
+  return { rule: RecurrenceRule.serialize(parsed), firstDate };
 }
 
-function coerceInt(n: unknown, fallback: number | null = null): number | null {
-  const v = Number.parseInt(String(n ?? ''), 10);
-  return Number.isFinite(v) ? v : fallback;
+// "every tuesday", "every other week", "daily" ... as typed by the user
+const RECURRENCE_PHRASE = /\b(?:every\s+(?:other\s+|\d+\s+)?[a-z]+(?:\s*(?:,|and)\s*[a-z]+day)*|daily|weekly|monthly|yearly|annually)\b/;
+
+/**
+ * A delete, or a change whose search term matched several rows, held until
+ * the user says which one (or that they're sure)
+ */
+interface PendingAction {
+  intent: IntentType;
+  details: Record<string, unknown>;
+  // What the request could mean; a single one only needs a yes
+  candidates: Array<{ id: string; label: string }>;
+  prompt: string;
+  expiresAt: number;
 }
 
+const PENDING_MINUTES = 5;
+// The whole reply, so "ok add milk" is a new request rather than a yes
+const CONFIRM_PHRASE = /^(?:yes|yeah|yep|sure|ok(?:ay)?|confirm(?:ed)?|do it|go ahead|please do)(?:,? please)?[.!\s]*$/;
+const CANCEL_PHRASE = /^(?:no|nope|cancel|stop|never ?mind|don'?t|keep it|leave it)\b/;
+const UNDO_PHRASE = /^(?:undo|undo (?:that|it|the last (?:one|change))|take (?:that|it) back|revert (?:that|it))$/;
+// "move it to 4pm", "delete that one"
+const REFERENCE_PHRASE = /^(?:it|that|this|them|him|her|that one|this one|the same(?: one)?|(?:that|this|the) (?:event|appointment|meeting|task|chore|item|one|reminder))$/i;
+
+// What an update or delete's "it" can stand for
+const REFERENCE_TYPES: Partial<Record<IntentType, AssistantEntityType>> = {
+  calendar_update: 'event',
+  calendar_delete: 'event',
+  event_checklist: 'event',
+  task_update: 'task',
+  task_delete: 'task',
+  shopping_update: 'shopping_item',
+  shopping_delete: 'shopping_item',
+  family_update: 'family_member',
+  family_delete: 'family_member'
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
 /** ---- AI parsing -------------------------------------------------------- */
-async function classifyMessage(message: string, calendarSummary: string): Promise<IntentResult> {
-  const today = new Date().toISOString().split('T')[0];
+/**
+ * Turn a message into the intents it asks for, in the order asked. Usually
+ * one, but "add milk and remind me to call the plumber" is two.
+ */
+async function classifyMessage(message: string, calendarSummary: string, conversation?: ConversationContext, recentEntities: AssistantEntity[] = [], dateOptions: NaturalDateOptions = {}): Promise<IntentResult[]> {
+  const today = NaturalDate.today(dateOptions);
+  const weekday = new Date(`${today}T12:00:00`).toLocaleDateString('en-US', { weekday: 'long' });
 
   console.log('🤖 Classifying message:', message);
 
-  const systemPrompt = `You are a smart assistant that classifies user messages into actions.
-Return ONLY valid JSON with this exact format: {"type": "calendar|calendar_query|calendar_update|calendar_delete|reminder|shopping|shopping_query|shopping_update|shopping_delete|task|task_query|task_update|task_delete|family|family_query|family_update|family_delete|chat", "details": {...}}
+  const systemPrompt = `You are Sara, an assistant for a family organizer app. Today is ${weekday}, ${today}.
+When the user asks for something one of the tools can do, call that tool with the details they gave.
+If they ask for several things, call a tool for each one, in the order they asked.
+Leave out anything they didn't say rather than guessing. For questions, advice or small talk, answer without a tool.
+When they say "it", "that" or "too", work out from the conversation what they mean and use its name.
 
 Current Calendar Context:
-${calendarSummary}
-
-For shopping creation: {"type": "shopping", "details": {"title": "item name", "category": "dairy|produce|meat|bakery|baby|household|other", "quantity": 1, "urgent": false}}
-For shopping queries: {"type": "shopping_query", "details": {"query_type": "all|pending|completed|search", "search_term": "keyword"}}
-For shopping updates: {"type": "shopping_update", "details": {"search_term": "item to find", "updates": {"completed": true|false, "quantity": number, "urgent": true|false}}}
-For shopping deletion: {"type": "shopping_delete", "details": {"search_term": "item to delete"}}
-
-For family member creation: {"type": "family", "details": {"name": "person name", "age": number, "gender": "Boy|Girl|Other", "relationship": "description"}}
-For family queries: {"type": "family_query", "details": {"query_type": "all|search", "search_term": "name"}}
-For family updates: {"type": "family_update", "details": {"search_term": "name to find", "updates": {"age": number, "school": "school name", "grade": "grade level"}}}
-For family deletion: {"type": "family_delete", "details": {"search_term": "name to delete"}}
-
-For reminders: {"type": "reminder", "details": {"title": "reminder text", "date": "YYYY-MM-DD", "time": "HH:MM:SS"}}
-For calendar creation: {"type": "calendar", "details": {"title": "event name", "date": "YYYY-MM-DD", "time": "HH:MM:SS", "location": "place"}}
-For calendar queries: {"type": "calendar_query", "details": {"query_type": "today|week|availability|search|next", "date": "YYYY-MM-DD", "search_term": "keyword"}}
-For calendar updates: {"type": "calendar_update", "details": {"search_term": "event to find", "updates": {"date": "new date", "time": "new time", "location": "new location"}}}
-For calendar deletion: {"type": "calendar_delete", "details": {"search_term": "event to delete", "date": "YYYY-MM-DD"}}
-For task creation: {"type": "task", "details": {"title": "task name", "category": "chores|homework|sports|music|health|social|other", "priority": "low|medium|high", "assigned_to": "person name", "date": "YYYY-MM-DD", "time": "HH:MM:SS"}}
-For task queries: {"type": "task_query", "details": {"query_type": "all|pending|in_progress|completed|search|assigned_to", "search_term": "keyword", "assigned_to": "person name"}}
-For task updates: {"type": "task_update", "details": {"search_term": "task to find", "updates": {"status": "pending|in_progress|completed|cancelled", "priority": "low|medium|high", "date": "new date"}}}
-For task deletion: {"type": "task_delete", "details": {"search_term": "task to delete"}}
-For chat: {"type": "chat", "details": {"query": "user question"}}
-
-Examples:
-"add milk to shopping list" -> {"type": "shopping", "details": {"title": "milk", "category": "dairy", "quantity": 1}}
-"what's on my shopping list" -> {"type": "shopping_query", "details": {"query_type": "all"}}
-"mark milk as bought" -> {"type": "shopping_update", "details": {"search_term": "milk", "updates": {"completed": true}}}
-"remove bread from shopping list" -> {"type": "shopping_delete", "details": {"search_term": "bread"}}
-"add my daughter Emma age 8" -> {"type": "family", "details": {"name": "Emma", "age": 8, "gender": "Girl"}}
-"who's in my family" -> {"type": "family_query", "details": {"query_type": "all"}}
-"update Emma's age to 9" -> {"type": "family_update", "details": {"search_term": "Emma", "updates": {"age": 9}}}
-"remind me to call mom tomorrow at 3pm" -> {"type": "reminder", "details": {"title": "call mom", "date": "tomorrow", "time": "15:00:00"}}
-"schedule dentist appointment next Friday" -> {"type": "calendar", "details": {"title": "dentist appointment", "date": "next Friday"}}
-"what's on my calendar today" -> {"type": "calendar_query", "details": {"query_type": "today"}}
-"create task to clean room" -> {"type": "task", "details": {"title": "clean room", "category": "chores"}}
-"what tasks do I have" -> {"type": "task_query", "details": {"query_type": "all"}}`;
+${calendarSummary}${conversation?.summary ? `
 
-  try {
-    const response = await openaiService.chat([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: `Today is ${today}. Classify: "${message}"` }
-    ]);
+Earlier in this conversation:
+${conversation.summary}` : ''}${recentEntities.length > 0 ? `
 
-    console.log('🤖 AI classification response:', response);
+Recently added or changed: ${recentEntities.map(e => `${e.type.replace('_', ' ')} "${e.label}"`).join(', ')}` : ''}`;
 
-    // Extract JSON from response
-    const payload = JSON.parse(response) as IntentResult;
-    console.log('🎯 Parsed intent:', payload);
-    return payload;
+  let choice: Awaited<ReturnType<typeof openaiService.chooseTools>>;
+  try {
+    choice = await openaiService.chooseTools([
+      { role: 'system', content: systemPrompt },
+      ...(conversation?.recent ?? []),
+      { role: 'user', content: message }
+    ], assistantTools.chatDefinitions());
   } catch (e: unknown) {
     console.error('❌ LLM classify failed, using fallback:', (e instanceof Error ? e.message : String(e)));
-    return fallbackClassify(message);
+    return fallbackClassifyAll(message, dateOptions);
   }
+
+  const { calls, reply } = choice;
+  // It already answered; handleChatAction passes the answer on rather than asking again
+  if (calls.length === 0) return [{ type: 'chat', details: { query: message, reply } }];
+
+  console.log('🤖 AI tool calls:', calls);
+
+  return calls.map(call => {
+    const result = assistantTools.validate(call.name, call.arguments);
+    if (!result.ok) {
+      console.warn('⚠️ Tool call failed validation:', call.name, result.error);
+      return { type: 'chat', error: result.error, action: result.tool?.action };
+    }
+
+    console.log('🎯 Parsed intent:', result.intent, result.details);
+    return { type: result.intent, details: result.details };
+  });
+}
+
+// Where a typed message likely moves on to another request
+const CLAUSE_BREAK = /\s*(?:;|,\s*(?:and\s+)?(?:then\s+)?|\s+and\s+then\s+|\s+and\s+(?=(?:remind|add|put|schedule|create|move|cancel|delete|remove|mark|set|buy)\b))\s*/i;
+
+/**
+ * Split a message into requests for the fallback classifier. Only splits
+ * when every part is recognisably its own request, so "milk, eggs and
+ * bread" stays one shopping item.
+ */
+function fallbackClassifyAll(message: string, dateOptions: NaturalDateOptions = {}): IntentResult[] {
+  const clauses = message.split(CLAUSE_BREAK).map(c => c.trim()).filter(Boolean);
+  if (clauses.length > 1) {
+    const intents = clauses.map(clause => fallbackClassify(clause, dateOptions));
+    if (intents.every(intent => intent.type !== 'chat')) return intents;
+  }
+  return [fallbackClassify(message, dateOptions)];
 }
 
 /** Simpler fallback classifier so app still works without LLM. */
-function fallbackClassify(message: string): IntentResult {
+function fallbackClassify(message: string, dateOptions: NaturalDateOptions = {}): IntentResult {
   const lower = message.toLowerCase();
   
   console.log('🔄 Using fallback classification for:', lower);
@@ -193,32 +205,36 @@ function fallbackClassify(message: string): IntentResult {
   
   // Reminder patterns
   if (/\bremind\s+me\b/.test(lower) || /\bset\s+(?:a\s+)?reminder\b/.test(lower)) {
-    const titleMatch = lower.match(/remind\s+me\s+to\s+([^.!?]+)|set\s+(?:a\s+)?reminder\s+(?:to\s+)?([^.!?]+)/);
+    const recurrence = lower.match(RECURRENCE_PHRASE)?.[0];
+    const when = NaturalDate.parse(recurrence ? lower.replace(recurrence, ' ') : lower, dateOptions);
+    const titleMatch = when.rest.match(/remind\s+me\s+(?:\S+\s+)?to\s+([^.!?]+)|set\s+(?:a\s+)?reminder\s+(?:to\s+)?([^.!?]+)/);
     const title = titleMatch?.[1]?.trim() || titleMatch?.[2]?.trim() || message;
     
-    const date = toISODate(lower.match(/\b(today|tomorrow|\d{1,2}[/\-]\d{1,2}(?:[/\-]\d{2,4})?|\d{4}-\d{2}-\d{2})\b/)?.[0]);
-    const time = toISOTime(lower.match(/\b(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}(?::\d{2})?)\b/)?.[0]);
-    
-    return { type: 'reminder', details: { title, date, time } };
+    return { type: 'reminder', details: { title, date: when.date, time: when.time, recurrence } };
   }
   
+  // Event checklist patterns, before tasks since "to do" is a task word too
+  const checklistMatch = lower.match(/\b(?:need to do|to-?dos?|checklist)\s+(?:for|before)\s+(?:the\s+|my\s+)?([^.!?]+)/);
+  if (checklistMatch) {
+    const searchTerm = checklistMatch[1].replace(/^\w+day's\s+/, '').trim();
+    return { type: 'event_checklist', details: { search_term: searchTerm } };
+  }
+
   // Task patterns
   if (/\b(task|todo|to\s+do|assign)\b/.test(lower) || /\bcreate\s+(?:a\s+)?task\b/.test(lower)) {
-    const titleMatch = lower.match(/(?:create|add|make)\s+(?:a\s+)?(?:new\s+)?task\s+(?:called|named)?\s*([^.!?]+)|^(.+)$/);
+    const when = NaturalDate.parse(lower, dateOptions);
+    const titleMatch = when.rest.match(/(?:create|add|make)\s+(?:a\s+)?(?:new\s+)?task\s+(?:called|named)?\s*([^.!?]+)|^(.+)$/);
     const title = titleMatch?.[1]?.trim() || titleMatch?.[2]?.trim() || message;
+    const recurrence = lower.match(RECURRENCE_PHRASE)?.[0];
     
-    const date = toISODate(lower.match(/\b(today|tomorrow|\d{4}-\d{2}-\d{2}|\d{1,2}[/\-]\d{1,2}(?:[/\-]\d{2,4})?)\b/)?.[0]);
-    const time = toISOTime(lower.match(/\b(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}(?::\d{2})?)\b/)?.[0]);
-    
-    return { type: 'task', details: { title, date, time } };
+    return { type: 'task', details: { title, date: when.date, time: when.time, recurrence } };
   }
   
-  // Calendar patterns
-  if (/\b(event|meeting|appointment|schedule)\b/.test(lower) || /\bon\s+\d/.test(lower)) {
-    const date = toISODate(lower.match(/\b(today|tomorrow|\d{4}-\d{2}-\d{2}|\d{1,2}[/\-]\d{1,2}(?:[/\-]\d{2,4})?)\b/)?.[0]);
-    const time = toISOTime(lower.match(/\b(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}(?::\d{2})?)\b/)?.[0]);
-    
-    return { type: 'calendar', details: { title: message, date, time } };
+  // Calendar patterns, or anything with both a day and a time
+  const when = NaturalDate.parse(message, dateOptions);
+  if (/\b(event|meeting|appointment|schedule)\b/.test(lower) || /\bon\s+\d/.test(lower) || (when.date && when.time)) {
+    const title = when.rest.replace(/^(?:schedule|add|put|create|book)\s+(?:an?\s+)?/i, '') || message;
+    return { type: 'calendar', details: { title, date: when.date, time: when.time, end_time: when.endTime } };
   }
   
   console.log('🗣️ No specific pattern matched, treating as chat');
@@ -228,6 +244,7 @@ function fallbackClassify(message: string): IntentResult {
 /** ---- Main service ------------------------------------------------------ */
 class AIAssistantService {
   private calendarProvider: ICalendarProvider;
+  private pending = new Map<UUID, PendingAction[]>();
 
   constructor(provider?: ICalendarProvider) {
     this.calendarProvider = provider ?? new LocalCalendarProvider();
@@ -237,53 +254,66 @@ class AIAssistantService {
     this.calendarProvider = provider;
   }
 
-  /** Entry point for a user's message */
+  /**
+   * Entry point for a user's message. The turn is saved to the stored
+   * conversation, which also supplies the history when none is passed.
+   */
   async processUserMessage(message: string, userId: UUID, conversationHistory?: Array<{role: 'user' | 'assistant', content: string}>): Promise<AIAction> {
     console.log('🎯 Processing user message:', message, 'for user:', userId);
 
+    let conversation: ConversationContext = { summary: null, recent: [] };
     try {
+      conversation = await conversationMemoryService.getContext(userId);
+    } catch (err: unknown) {
+      console.error('❌ Loading conversation failed:', err instanceof Error ? err.message : err);
+    }
+    if (conversationHistory) conversation = { ...conversation, recent: conversationHistory.slice(-10) };
+
+    const result = await this.respond(message, userId, conversation);
+
+    const entities = [result, ...(result.steps ?? [])]
+      .map(action => action.entity)
+      .filter((entity): entity is AssistantEntity => !!entity);
+    await conversationMemoryService.record(userId, message, result.message, entities);
+
+    return result;
+  }
+
+  private async respond(message: string, userId: UUID, conversation: ConversationContext): Promise<AIAction> {
+    try {
+      // Answers to "which one?" / "are you sure?" and undo don't need the model
+      const reply = message.trim().toLowerCase().replace(/[.!]+$/, '');
+      if (UNDO_PHRASE.test(reply)) return this.undo(userId);
+
+      const [waiting] = this.pendingFor(userId);
+      if (waiting) {
+        const answer = this.parseAnswer(reply, waiting);
+        if (answer) return this.resolvePending(userId, answer);
+        // They've moved on to something else
+        this.pending.delete(userId);
+      }
+
       const calendarContext = await calendarContextService.getCalendarContext(userId);
-      const intent = await classifyMessage(message, calendarContext.summary);
-      console.log('🧠 Classified intent:', intent);
-
-      switch (intent.type) {
-        case 'calendar':
-          return this.handleCalendarAction(intent.details || {}, userId);
-        case 'calendar_query':
-          return this.handleCalendarQuery(intent.details || {}, userId, calendarContext);
-        case 'calendar_update':
-          return this.handleCalendarUpdate(intent.details || {}, userId);
-        case 'calendar_delete':
-          return this.handleCalendarDelete(intent.details || {}, userId);
-        case 'reminder':
-          return this.handleReminderAction(intent.details || {}, userId);
-        case 'shopping':
-          return this.handleShoppingAction(intent.details || {}, userId);
-        case 'shopping_query':
-          return this.handleShoppingQuery(intent.details || {}, userId);
-        case 'shopping_update':
-          return this.handleShoppingUpdate(intent.details || {}, userId);
-        case 'shopping_delete':
-          return this.handleShoppingDelete(intent.details || {}, userId);
-        case 'task':
-          return this.handleTaskAction(intent.details || {}, userId);
-        case 'task_query':
-          return this.handleTaskQuery(intent.details || {}, userId);
-        case 'task_update':
-          return this.handleTaskUpdate(intent.details || {}, userId);
-        case 'task_delete':
-          return this.handleTaskDelete(intent.details || {}, userId);
-        case 'family':
-          return this.handleFamilyAction(intent.details || {}, userId);
-        case 'family_query':
-          return this.handleFamilyQuery(intent.details || {}, userId);
-        case 'family_update':
-          return this.handleFamilyUpdate(intent.details || {}, userId);
-        case 'family_delete':
-          return this.handleFamilyDelete(intent.details || {}, userId);
-        default:
-          return this.handleChatAction(intent.details || {}, message, calendarContext, conversationHistory);
+      const recentEntities = await conversationMemoryService.recentEntities(userId);
+      const dateOptions = await this.dateOptions(userId);
+      const plan = await classifyMessage(message, calendarContext.summary, conversation, recentEntities, dateOptions);
+      console.log('🧠 Classified intents:', plan);
+
+      // Don't start on a plan with a step that can't be done as asked
+      const invalid = plan.filter(intent => intent.error);
+      if (invalid.length > 0) {
+        const problems = invalid.map(intent => `${intent.action ?? 'do that'} (${intent.error})`).join('; ');
+        return {
+          type: 'chat',
+          success: false,
+          message: `${plan.length > 1 ? "I haven't done any of that yet. " : ''}I couldn't ${problems} because some details didn't make sense. Could you say it another way?`
+        };
+      }
+
+      if (plan.length === 1) {
+        return this.runIntent(plan[0], userId, message, calendarContext, conversation);
       }
+      return this.runPlan(plan, userId, message, calendarContext);
     } catch (err: unknown) {
       console.error('❌ processUserMessage error:', err instanceof Error ? err.message : err);
       return {
@@ -294,6 +324,332 @@ class AIAssistantService {
     }
   }
 
+  /**
+   * Run a tool call from the voice session. Arguments are validated against
+   * the same schemas as the text assistant's; a violation comes back as a
+   * failed action naming the problem, so the model can ask or try again.
+   */
+  async runTool(name: string, args: unknown, userId: UUID): Promise<AIAction> {
+    const result = assistantTools.validate(name, args);
+    if (!result.ok) {
+      console.warn('⚠️ Tool call failed validation:', name, result.error);
+      return {
+        type: 'chat',
+        success: false,
+        message: `Invalid arguments for ${name}: ${result.error}`
+      };
+    }
+
+    try {
+      const calendarContext = result.intent === 'calendar_query'
+        ? await calendarContextService.getCalendarContext(userId)
+        : undefined;
+      return await this.runIntent({ type: result.intent, details: result.details }, userId, '', calendarContext);
+    } catch (err: unknown) {
+      console.error('❌ runTool error:', err instanceof Error ? err.message : err);
+      return {
+        type: 'chat',
+        success: false,
+        message: `Error: ${err instanceof Error ? err.message : String(err)}`
+      };
+    }
+  }
+
+  /**
+   * Run each step of a multi-part request in order. The steps don't depend
+   * on each other, so one failing doesn't stop or undo the rest; the result
+   * lists every step's outcome and says plainly which ones didn't happen.
+   */
+  private async runPlan(plan: IntentResult[], userId: UUID, message: string, calendarContext: CalendarContext): Promise<AIAction> {
+    const steps: AIAction[] = [];
+
+    for (const intent of plan) {
+      try {
+        steps.push(await this.runIntent(intent, userId, message, calendarContext));
+      } catch (err: unknown) {
+        console.error('❌ Plan step error:', intent.type, err instanceof Error ? err.message : err);
+        steps.push({
+          type: 'chat',
+          success: false,
+          message: `Something went wrong with this step: ${err instanceof Error ? err.message : 'Unknown error'}`
+        });
+      }
+    }
+
+    const done = steps.filter(step => step.success).length;
+    const waiting = steps.filter(step => step.confirmation).length;
+    const failed = steps.length - done - waiting;
+    const summary = done === steps.length
+      ? `Done — all ${steps.length} things you asked for:`
+      : [
+        `${done} of ${steps.length} done.`,
+        failed > 0 ? `${failed === 1 ? "One thing didn't" : `${failed} things didn't`} work.` : '',
+        waiting > 0 ? `${waiting === 1 ? 'One needs' : `${waiting} need`} an answer from you first.` : ''
+      ].filter(Boolean).join(' ');
+
+    return {
+      type: 'plan',
+      success: done === steps.length,
+      message: [summary, ...steps.map((step, i) => `${i + 1}. ${step.success || step.confirmation ? '' : '❌ '}${step.message}`)].join('\n'),
+      steps,
+      confirmation: steps.find(step => step.confirmation)?.confirmation
+    };
+  }
+
+  /**
+   * Run one intent, first pointing an update or delete of "it" at the last
+   * thing of that kind the conversation touched, then remembering what this
+   * one touched for the next.
+   */
+  private async runIntent(intent: IntentResult, userId: UUID, message: string, calendarContext?: CalendarContext, conversation?: ConversationContext): Promise<AIAction> {
+    const resolved = await this.resolveReference(intent, userId);
+    const result = await this.dispatchIntent(resolved, userId, message, calendarContext, conversation);
+
+    if (result.success && resolved.type.endsWith('_delete') && resolved.details?.target_id) {
+      await conversationMemoryService.forget(userId, String(resolved.details.target_id));
+    } else if (result.entity) {
+      conversationMemoryService.touch(userId, [result.entity]);
+    }
+    return result;
+  }
+
+  private async resolveReference(intent: IntentResult, userId: UUID): Promise<IntentResult> {
+    const type = REFERENCE_TYPES[intent.type];
+    const details = intent.details || {};
+    if (!type || details.target_id) return intent;
+
+    const term = String(details.search_term || '').trim();
+    if (term && !REFERENCE_PHRASE.test(term)) return intent;
+
+    const entity = await conversationMemoryService.lastEntity(userId, type);
+    if (!entity) return intent;
+
+    console.log(`🔗 "${term || '(none)'}" refers to ${type} "${entity.label}"`);
+    return { ...intent, details: { ...details, target_id: entity.id, search_term: entity.label } };
+  }
+
+  private async dispatchIntent(intent: IntentResult, userId: UUID, message: string, calendarContext?: CalendarContext, conversation?: ConversationContext): Promise<AIAction> {
+    switch (intent.type) {
+      case 'calendar':
+        return this.handleCalendarAction(intent.details || {}, userId);
+      case 'calendar_query':
+        return this.handleCalendarQuery(intent.details || {}, userId, calendarContext);
+      case 'calendar_update':
+        return this.handleCalendarUpdate(intent.details || {}, userId);
+      case 'calendar_delete':
+        return this.handleCalendarDelete(intent.details || {}, userId);
+      case 'event_checklist':
+        return this.handleEventChecklistQuery(intent.details || {}, userId);
+      case 'reminder':
+        return this.handleReminderAction(intent.details || {}, userId);
+      case 'shopping':
+        return this.handleShoppingAction(intent.details || {}, userId);
+      case 'shopping_query':
+        return this.handleShoppingQuery(intent.details || {}, userId);
+      case 'shopping_update':
+        return this.handleShoppingUpdate(intent.details || {}, userId);
+      case 'shopping_delete':
+        return this.handleShoppingDelete(intent.details || {}, userId);
+      case 'task':
+        return this.handleTaskAction(intent.details || {}, userId);
+      case 'task_query':
+        return this.handleTaskQuery(intent.details || {}, userId);
+      case 'task_update':
+        return this.handleTaskUpdate(intent.details || {}, userId);
+      case 'task_delete':
+        return this.handleTaskDelete(intent.details || {}, userId);
+      case 'family':
+        return this.handleFamilyAction(intent.details || {}, userId);
+      case 'family_query':
+        return this.handleFamilyQuery(intent.details || {}, userId);
+      case 'family_update':
+        return this.handleFamilyUpdate(intent.details || {}, userId);
+      case 'family_delete':
+        return this.handleFamilyDelete(intent.details || {}, userId);
+      case 'confirm':
+        return this.resolvePending(userId, {
+          confirm: Boolean(intent.details?.confirm),
+          choice: typeof intent.details?.choice === 'number' ? intent.details.choice : undefined
+        });
+      case 'undo':
+        return this.undo(userId);
+      default:
+        return this.handleChatAction(intent.details || {}, message, calendarContext, conversation?.recent, conversation?.summary);
+    }
+  }
+
+  /** Undo the latest assistant change, or a particular one from the chat's Undo button */
+  async undo(userId: UUID, undoId?: string): Promise<AIAction> {
+    try {
+      const entry = await assistantUndoService.undo(userId, undoId);
+      if (!entry) {
+        return {
+          type: 'chat',
+          success: false,
+          message: `There's nothing for me to undo. I can only take back changes from the last ${UNDO_WINDOW_MINUTES} minutes.`
+        };
+      }
+      return { type: 'chat', success: true, message: `↩️ Undone — ${entry.description}.` };
+    } catch (error) {
+      console.error('❌ Undo error:', error);
+      return {
+        type: 'chat',
+        success: false,
+        message: `I couldn't undo that: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Hold a destructive or ambiguous action until the user answers. With one
+   * candidate it asks for a yes; with several it lists them to pick from.
+   * Several can queue up when a multi-part request has more than one.
+   */
+  private askToConfirm(userId: UUID, type: AIAction['type'], intent: IntentType, details: Record<string, unknown>, candidates: Array<{ id: string; label: string }>, question: string): AIAction {
+    const prompt = candidates.length > 1
+      ? `${question}\n${candidates.map((c, i) => `${i + 1}. ${c.label}`).join('\n')}\nReply with the number, or "cancel".`
+      : `${question} Say "yes" to go ahead or "no" to leave it.`;
+
+    const pending: PendingAction = { intent, details, candidates, prompt, expiresAt: Date.now() + PENDING_MINUTES * 60_000 };
+    this.pending.set(userId, [...this.pendingFor(userId), pending]);
+
+    return { type, success: false, message: prompt, confirmation: this.confirmationOptions(pending) };
+  }
+
+  private pendingFor(userId: UUID): PendingAction[] {
+    const now = Date.now();
+    const queue = (this.pending.get(userId) || []).filter(p => p.expiresAt > now);
+    this.pending.set(userId, queue);
+    return queue;
+  }
+
+  private confirmationOptions(pending: PendingAction): { options: string[] } {
+    return { options: pending.candidates.length > 1 ? pending.candidates.map(c => c.label) : [] };
+  }
+
+  /** Read a typed reply to the waiting question; null when it's about something else */
+  private parseAnswer(reply: string, pending: PendingAction): { confirm: boolean; choice?: number } | null {
+    if (CANCEL_PHRASE.test(reply)) return { confirm: false };
+
+    const number = reply.match(/^(?:#|number |option |the )?(\d+)(?:st|nd|rd|th)?(?: one)?$/);
+    if (number) return { confirm: true, choice: Number(number[1]) };
+
+    const ordinal = reply.match(/^(?:the )?(\w+)(?: one)?$/);
+    if (ordinal && ordinal[1] === 'last') return { confirm: true, choice: pending.candidates.length };
+    if (ordinal && ORDINALS.includes(ordinal[1])) return { confirm: true, choice: ORDINALS.indexOf(ordinal[1]) + 1 };
+
+    if (CONFIRM_PHRASE.test(reply)) return { confirm: true };
+
+    // "the one on Saturday", "soccer practice"
+    const named = pending.candidates
+      .map((c, i) => ({ i, label: c.label.toLowerCase() }))
+      .filter(c => reply.length > 2 && c.label.includes(reply.replace(/^the (?:one )?(?:on |at )?/, '')));
+    return named.length === 1 ? { confirm: true, choice: named[0].i + 1 } : null;
+  }
+
+  /** Go ahead with (or drop) the oldest waiting action, then ask the next question if there is one */
+  private async resolvePending(userId: UUID, answer: { confirm: boolean; choice?: number }): Promise<AIAction> {
+    const [pending, ...rest] = this.pendingFor(userId);
+    if (!pending) {
+      return { type: 'chat', success: false, message: "There's nothing waiting for an answer." };
+    }
+
+    if (!answer.confirm) {
+      this.pending.set(userId, rest);
+      return this.withNextQuestion({ type: 'chat', success: true, message: "OK, I've left it as it is." }, rest);
+    }
+
+    const target = answer.choice !== undefined
+      ? pending.candidates[answer.choice - 1]
+      : pending.candidates.length === 1 ? pending.candidates[0] : undefined;
+    if (!target) {
+      return {
+        type: 'chat',
+        success: false,
+        message: `Which one? Reply with a number from 1 to ${pending.candidates.length}, or "cancel".`,
+        confirmation: this.confirmationOptions(pending)
+      };
+    }
+
+    this.pending.set(userId, rest);
+    const result = await this.runIntent({ type: pending.intent, details: { ...pending.details, target_id: target.id, confirmed: true } }, userId, '');
+    return this.withNextQuestion(result, this.pendingFor(userId));
+  }
+
+  private withNextQuestion(result: AIAction, queue: PendingAction[]): AIAction {
+    if (queue.length === 0 || result.confirmation) return result;
+    return { ...result, message: `${result.message}\n\n${queue[0].prompt}`, confirmation: this.confirmationOptions(queue[0]) };
+  }
+
+  /** The row picked from a list of matches, else every row matching the search term */
+  /** "Today" and "tomorrow" are the user's, not this device's */
+  private async dateOptions(userId: UUID): Promise<NaturalDateOptions> {
+    return { timeZone: await calendarContextService.getTimeZone(userId) };
+  }
+
+  private async findMatches<T>(table: string, column: string, userId: UUID, details: Record<string, unknown>): Promise<T[]> {
+    const query = supabase.from(table).select('*').eq('user_id', userId);
+    const { data, error } = details.target_id
+      ? await query.eq('id', String(details.target_id))
+      : await query.ilike(column, `%${String(details.search_term || '')}%`);
+
+    if (error) throw error;
+    return (data || []) as T[];
+  }
+
+  private async findEvents(userId: UUID, details: Record<string, unknown>): Promise<DbEvent[]> {
+    return details.target_id
+      ? this.findMatches<DbEvent>('events', 'title', userId, details)
+      : calendarContextService.searchEvents(userId, String(details.search_term || ''));
+  }
+
+  private describeEvent(event: DbEvent): string {
+    return `${event.title} on ${event.event_date}${event.start_time ? ` at ${event.start_time.slice(0, 5)}` : ''}`;
+  }
+
+  private describeTask(task: Task): string {
+    return `${task.title}${task.due_date ? ` (due ${task.due_date})` : ''}`;
+  }
+
+  private describeShoppingItem(item: ShoppingItem): string {
+    return `${item.item}${(item.quantity ?? 1) > 1 ? ` x${item.quantity}` : ''}${item.completed ? ' (bought)' : ''}`;
+  }
+
+  private describeMember(member: FamilyMember): string {
+    return `${member.name}${member.relationship ? ` (${member.relationship})` : member.age !== null && member.age !== undefined ? ` (${member.age})` : ''}`;
+  }
+
+  /** An event and everything deleting it takes with it, for undo */
+  private async snapshotEvent(event: DbEvent): Promise<{ restore: RowSnapshot[]; revert: ColumnRevert[] }> {
+    const overrides = await assistantUndoService.snapshot('events', 'recurrence_parent_id', [event.id]);
+    const eventIds = [event.id, ...overrides.rows.map(row => row.id)];
+    const carpools = await assistantUndoService.snapshot('carpools', 'event_id', eventIds);
+    const birthdays = await assistantUndoService.snapshot('family_members', 'birthday_event_id', [event.id]);
+    // Deleting leaves these as tombstones that sync would act on: it would
+    // delete the Google copy and push the restored event as a new one
+    const syncMappings = await assistantUndoService.snapshot('calendar_sync_mappings', 'local_event_id', eventIds);
+
+    return {
+      restore: [
+        { table: 'events', rows: [event] },
+        overrides,
+        await assistantUndoService.snapshot('calendar_feed_mappings', 'local_event_id', eventIds),
+        await assistantUndoService.snapshot('event_actions', 'event_id', eventIds),
+        await assistantUndoService.snapshot('gift_suggestions', 'event_id', eventIds),
+        carpools,
+        await assistantUndoService.snapshot('carpool_drivers', 'carpool_id', carpools.rows.map(row => row.id)),
+      ],
+      revert: [
+        ...birthdays.rows.map(row => ({ table: 'family_members', id: row.id, values: { birthday_event_id: event.id } })),
+        ...syncMappings.rows.map(row => ({
+          table: 'calendar_sync_mappings',
+          id: row.id,
+          values: { local_event_id: (row as Record<string, unknown>).local_event_id },
+        })),
+      ],
+    };
+  }
+
   /** Direct calendar event creation with structured data (for voice AI, etc.) */
   async createCalendarEvent(details: Record<string, unknown>, userId: UUID): Promise<AIAction> {
     return this.handleCalendarAction(details, userId);
@@ -334,9 +690,10 @@ class AIAssistantService {
     console.log('📅 Creating calendar event with details:', details);
 
     const title = String(details.title ?? 'New event');
-    const date = toISODate(details.date);
-    const start_time = toISOTime(details.time || details.start_time);
-    const end_time = toISOTime(details.end_time);
+    const dateOptions = await this.dateOptions(userId);
+    const date = NaturalDate.date(details.date, dateOptions);
+    const start_time = NaturalDate.time(details.time || details.start_time, dateOptions);
+    const end_time = NaturalDate.time(details.end_time, dateOptions);
     const participants = Array.isArray(details.participants)
       ? details.participants.map((p: unknown) => String(p))
       : null;
@@ -350,7 +707,15 @@ class AIAssistantService {
       };
     }
 
-    const conflictCheck = await calendarContextService.checkConflicts(userId, date, start_time, end_time);
+    const conflictCheck = await calendarContextService.checkConflicts(
+      userId,
+      date,
+      start_time,
+      end_time,
+      undefined,
+      location,
+      title
+    );
     if (conflictCheck.hasConflict) {
       const conflictNames = conflictCheck.conflictingEvents.map(e => e.title).join(', ');
       let message = `⚠️ Schedule conflict detected! You already have: ${conflictNames} at that time.`;
@@ -390,11 +755,20 @@ class AIAssistantService {
         timeMsg = ` at ${start_time.slice(0,5)}`;
       }
 
+      let checklistMsg = '';
+      if (result.provider === 'local' && !result.duplicate && result.raw) {
+        const suggested = await eventActionService.suggestForEvent(result.raw as DbEvent);
+        if (suggested.length > 0) {
+          checklistMsg = `\n\n📝 I added a checklist: ${suggested.map(a => eventActionService.label(a)).join(', ')}.`;
+        }
+      }
+
       return {
         type: 'calendar',
         success: true,
-        message: `✅ Scheduled: ${title} on ${date}${timeMsg}`,
-        data: result
+        message: `✅ Scheduled: ${title} on ${date}${timeMsg}` + checklistMsg + this.formatTravelWarnings(conflictCheck.travelWarnings),
+        data: result,
+        entity: result.id ? { type: 'event', id: result.id, label: title } : undefined
       };
     } catch (error) {
       console.error('❌ Calendar creation error:', error);
@@ -406,6 +780,59 @@ class AIAssistantService {
     }
   }
 
+  // Saved anyway; the user decides whether the travel is worth worrying about
+  private formatTravelWarnings(warnings: TravelWarning[]): string {
+    if (warnings.length === 0) return '';
+    return '\n\n🚗 Heads up: ' + warnings.map(w => w.message).join('\n🚗 ');
+  }
+
+  /** Event Checklists */
+  private async handleEventChecklistQuery(details: Record<string, unknown>, userId: UUID): Promise<AIAction> {
+    const searchTerm = String(details.search_term || '').trim();
+    const dateOptions = await this.dateOptions(userId);
+    const date = details.date ? NaturalDate.date(details.date, dateOptions) : null;
+    const today = NaturalDate.today(dateOptions);
+
+    try {
+      let candidates: DbEvent[] = [];
+      if (date) {
+        const words = searchTerm.toLowerCase().split(/\s+/).filter(Boolean);
+        const onDate = await calendarContextService.getEventsForDate(userId, date);
+        candidates = onDate.filter(e => words.length === 0 || words.some(w => e.title.toLowerCase().includes(w)));
+        if (candidates.length === 0) candidates = onDate;
+      }
+      if (candidates.length === 0 && searchTerm) {
+        const found = await calendarContextService.searchEvents(userId, searchTerm);
+        candidates = found.filter(e => e.event_date >= today);
+      }
+
+      if (candidates.length === 0) {
+        return {
+          type: 'calendar',
+          success: false,
+          message: `I couldn't find an upcoming event${searchTerm ? ` matching "${searchTerm}"` : ''}. Which event do you mean?`
+        };
+      }
+
+      const event = candidates[0];
+      const actions = await eventActionService.getActions(event);
+
+      return {
+        type: 'calendar',
+        success: true,
+        message: eventActionService.formatChecklist(event, actions),
+        data: { event, actions }
+      };
+    } catch (error) {
+      console.error('❌ Event checklist query error:', error);
+      return {
+        type: 'calendar',
+        success: false,
+        message: `Failed to load the checklist: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /** Calendar Queries */
   private async handleCalendarQuery(details: Record<string, unknown>, userId: UUID, context: any): Promise<AIAction> {
     console.log('🔍 Querying calendar with details:', details);
@@ -451,7 +878,40 @@ class AIAssistantService {
         }
 
         case 'availability': {
-          const date = toISODate(details.date) || new Date().toISOString().split('T')[0];
+          const dateOptions = await this.dateOptions(userId);
+          const date = NaturalDate.date(details.date, dateOptions) || NaturalDate.today(dateOptions);
+          const duration = coerceInt(details.duration_minutes);
+          const endDate = NaturalDate.date(details.end_date, dateOptions);
+          const participants = Array.isArray(details.participants)
+            ? details.participants.map(String).filter(Boolean)
+            : [];
+
+          if (duration || endDate || participants.length > 0) {
+            const slots = await calendarContextService.findAvailableSlots(userId, {
+              startDate: date,
+              endDate: endDate ?? undefined,
+              durationMinutes: duration && duration > 0 ? duration : 60,
+              participants,
+              preferredTime: NaturalDate.time(details.time, dateOptions) ?? undefined,
+            });
+            const who = participants.length > 0 ? ` for you and ${participants.join(', ')}` : '';
+
+            if (slots.length === 0) {
+              return {
+                type: 'calendar',
+                success: true,
+                message: `I couldn't find a free time${who} in that range. Try a shorter meeting or more days.`,
+                data: { slots }
+              };
+            }
+            return {
+              type: 'calendar',
+              success: true,
+              message: `Here are the best times${who}:\n${calendarContextService.formatSlotsAsNaturalLanguage(slots)}`,
+              data: { slots }
+            };
+          }
+
           const availability = await calendarContextService.checkAvailability(userId, { date });
 
           if (availability.available) {
@@ -549,7 +1009,7 @@ class AIAssistantService {
     const searchTerm = String(details.search_term || '');
     const updates = details.updates as Record<string, unknown> || {};
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'calendar',
         success: false,
@@ -558,7 +1018,7 @@ class AIAssistantService {
     }
 
     try {
-      const events = await calendarContextService.searchEvents(userId, searchTerm);
+      const events = await this.findEvents(userId, details);
       if (events.length === 0) {
         return {
           type: 'calendar',
@@ -568,30 +1028,27 @@ class AIAssistantService {
       }
 
       if (events.length > 1) {
-        const formatted = calendarContextService.formatEventsAsNaturalLanguage(events);
-        return {
-          type: 'calendar',
-          success: false,
-          message: `Multiple events found matching "${searchTerm}". Please be more specific:\n${formatted}`,
-          data: { events }
-        };
+        return this.askToConfirm(userId, 'calendar', 'calendar_update', details,
+          events.map(e => ({ id: e.id, label: this.describeEvent(e) })),
+          `I found ${events.length} events matching "${searchTerm}". Which one should I change?`);
       }
 
       const event = events[0];
       const updatePayload: any = {};
 
+      const dateOptions = await this.dateOptions(userId);
       if (updates.date) {
-        const newDate = toISODate(updates.date);
+        const newDate = NaturalDate.date(updates.date, dateOptions);
         if (newDate) updatePayload.event_date = newDate;
       }
 
       if (updates.time || updates.start_time) {
-        const newTime = toISOTime(updates.time || updates.start_time);
+        const newTime = NaturalDate.time(updates.time || updates.start_time, dateOptions);
         if (newTime) updatePayload.start_time = newTime;
       }
 
       if (updates.end_time) {
-        const newEndTime = toISOTime(updates.end_time);
+        const newEndTime = NaturalDate.time(updates.end_time, dateOptions);
         if (newEndTime) updatePayload.end_time = newEndTime;
       }
 
@@ -611,7 +1068,8 @@ class AIAssistantService {
         };
       }
 
-      if (updatePayload.event_date || updatePayload.start_time || updatePayload.end_time) {
+      let travelWarnings: TravelWarning[] = [];
+      if (updatePayload.event_date || updatePayload.start_time || updatePayload.end_time || updatePayload.location) {
         const checkDate = updatePayload.event_date || event.event_date;
         const checkTime = updatePayload.start_time || event.start_time;
         const checkEndTime = updatePayload.end_time || event.end_time;
@@ -620,8 +1078,11 @@ class AIAssistantService {
           checkDate,
           checkTime,
           checkEndTime,
-          event.id
+          event.id,
+          updatePayload.location || event.location,
+          updatePayload.title || event.title
         );
+        travelWarnings = conflictCheck.travelWarnings;
 
         if (conflictCheck.hasConflict) {
           const conflictNames = conflictCheck.conflictingEvents.map(e => e.title).join(', ');
@@ -643,11 +1104,18 @@ class AIAssistantService {
 
       if (error) throw error;
 
+      const undo = assistantUndoService.record(userId, {
+        description: `"${event.title}" is back to how it was`,
+        revert: [{ table: 'events', id: event.id, values: assistantUndoService.previousValues(event, updatePayload) }]
+      });
+
       return {
         type: 'calendar',
         success: true,
-        message: `✅ Updated "${event.title}" successfully!`,
-        data: { event: data }
+        message: `✅ Updated "${event.title}" successfully!` + this.formatTravelWarnings(travelWarnings),
+        data: { event: data },
+        undoId: undo.id,
+        entity: { type: 'event', id: event.id, label: data?.title ?? event.title }
       };
     } catch (error) {
       console.error('❌ Calendar update error:', error);
@@ -664,9 +1132,10 @@ class AIAssistantService {
     console.log('🗑️ Deleting calendar event with details:', details);
 
     const searchTerm = String(details.search_term || '');
-    const date = details.date ? toISODate(details.date) : null;
+    const dateOptions = await this.dateOptions(userId);
+    const date = details.date ? NaturalDate.date(details.date, dateOptions) : null;
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'calendar',
         success: false,
@@ -675,13 +1144,10 @@ class AIAssistantService {
     }
 
     try {
-      let events: DbEvent[];
+      let events = await this.findEvents(userId, details);
 
-      if (date) {
-        const allEvents = await calendarContextService.searchEvents(userId, searchTerm);
-        events = allEvents.filter(e => e.event_date === date);
-      } else {
-        events = await calendarContextService.searchEvents(userId, searchTerm);
+      if (date && !details.target_id) {
+        events = events.filter(e => e.event_date === date);
       }
 
       if (events.length === 0) {
@@ -693,16 +1159,19 @@ class AIAssistantService {
       }
 
       if (events.length > 1) {
-        const formatted = calendarContextService.formatEventsAsNaturalLanguage(events);
-        return {
-          type: 'calendar',
-          success: false,
-          message: `Multiple events found. Please be more specific about which event to delete:\n${formatted}`,
-          data: { events }
-        };
+        return this.askToConfirm(userId, 'calendar', 'calendar_delete', details,
+          events.map(e => ({ id: e.id, label: this.describeEvent(e) })),
+          `I found ${events.length} events matching "${searchTerm}". Which one should I delete?`);
       }
 
       const event = events[0];
+      if (!details.confirmed) {
+        return this.askToConfirm(userId, 'calendar', 'calendar_delete', details,
+          [{ id: event.id, label: this.describeEvent(event) }],
+          `Delete "${this.describeEvent(event)}" from your calendar?`);
+      }
+
+      const snapshot = await this.snapshotEvent(event);
       const { error } = await supabase
         .from('events')
         .delete()
@@ -710,11 +1179,14 @@ class AIAssistantService {
 
       if (error) throw error;
 
+      const undo = assistantUndoService.record(userId, { description: `"${event.title}" is back on your calendar`, ...snapshot });
+
       return {
         type: 'calendar',
         success: true,
-        message: `✅ Deleted "${event.title}" from your calendar.`,
-        data: { event }
+        message: `✅ Deleted "${event.title}" from your calendar. Say "undo" to bring it back.`,
+        data: { event },
+        undoId: undo.id
       };
     } catch (error) {
       console.error('❌ Calendar delete error:', error);
@@ -731,8 +1203,10 @@ class AIAssistantService {
     console.log('⏰ Creating reminder with details:', details);
     
     const title = String(details.title ?? 'Reminder');
-    const date = toISODate(details.date);
-    const time = toISOTime(details.time);
+    const dateOptions = await this.dateOptions(userId);
+    const recurrence = toRecurrence(details.recurrence, NaturalDate.date(details.date, dateOptions), dateOptions);
+    const date = recurrence?.firstDate ?? NaturalDate.date(details.date, dateOptions);
+    const time = NaturalDate.time(details.time, dateOptions);
 
     if (!date) {
       return { 
@@ -751,7 +1225,9 @@ class AIAssistantService {
           reminder_date: date, 
           reminder_time: time,
           priority: 'medium',
-          completed: false
+          completed: false,
+          recurring: !!recurrence,
+          recurrence_rule: recurrence?.rule ?? null
         }])
         .select()
         .single();
@@ -765,8 +1241,11 @@ class AIAssistantService {
       return { 
         type: 'reminder', 
         success: true, 
-        message: `✅ Reminder set for ${date}${time ? ' at ' + time.slice(0,5) : ''}: ${title}`, 
-        data 
+        message: recurrence
+          ? `✅ Repeating reminder set (${RecurrenceRule.describe(recurrence.rule).toLowerCase()}${time ? ' at ' + time.slice(0,5) : ''}), starting ${date}: ${title}`
+          : `✅ Reminder set for ${date}${time ? ' at ' + time.slice(0,5) : ''}: ${title}`, 
+        data,
+        entity: { type: 'reminder', id: data.id, label: title }
       };
     } catch (error) {
       console.error('❌ Reminder creation error:', error);
@@ -810,7 +1289,8 @@ class AIAssistantService {
         type: 'shopping', 
         success: true, 
         message: `✅ Added to shopping list: ${title}${quantity > 1 ? ` x${quantity}` : ''}`, 
-        data 
+        data,
+        entity: { type: 'shopping_item', id: data.id, label: title }
       };
     } catch (error) {
       console.error('❌ Shopping item creation error:', error);
@@ -828,8 +1308,10 @@ class AIAssistantService {
 
     const title = String(details.title ?? 'New task');
     const description = details.description ? String(details.description) : null;
-    const due_date = toISODate(details.date);
-    const due_time = toISOTime(details.time);
+    const dateOptions = await this.dateOptions(userId);
+    const recurrence = toRecurrence(details.recurrence, NaturalDate.date(details.date, dateOptions), dateOptions);
+    const due_date = recurrence?.firstDate ?? NaturalDate.date(details.date, dateOptions);
+    const due_time = NaturalDate.time(details.time, dateOptions);
     const p = details.priority ? details.priority.toString().toLowerCase() : undefined;
     const priority = (p === 'low' || p === 'medium' || p === 'high') ? p : 'medium';
     const category = String(details.category ?? 'other');
@@ -864,7 +1346,9 @@ class AIAssistantService {
           category,
           points,
           notes,
-          assigned_to
+          assigned_to,
+          recurring: !!recurrence,
+          recurrence_rule: recurrence?.rule ?? null
         }])
         .select(`
           *,
@@ -880,6 +1364,7 @@ class AIAssistantService {
       console.log('✅ Task created successfully:', data);
 
       let message = `✅ Task created: ${title}`;
+      if (recurrence) message += ` (${RecurrenceRule.describe(recurrence.rule).toLowerCase()})`;
       if (due_date) message += ` due ${due_date}`;
       if ((data as any).assigned_family_member) {
         message += ` assigned to ${(data as any).assigned_family_member.name}`;
@@ -889,7 +1374,8 @@ class AIAssistantService {
         type: 'task',
         success: true,
         message,
-        data
+        data,
+        entity: { type: 'task', id: data.id, label: title }
       };
     } catch (error) {
       console.error('❌ Task creation error:', error);
@@ -984,7 +1470,7 @@ class AIAssistantService {
     const searchTerm = String(details.search_term || '');
     const updates = details.updates as Record<string, unknown> || {};
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'task',
         success: false,
@@ -993,15 +1479,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: tasks, error: searchError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('title', `%${searchTerm}%`);
-
-      if (searchError) throw searchError;
+      const tasks = await this.findMatches<Task>('tasks', 'title', userId, details);
 
-      if (!tasks || tasks.length === 0) {
+      if (tasks.length === 0) {
         return {
           type: 'task',
           success: false,
@@ -1010,13 +1490,9 @@ class AIAssistantService {
       }
 
       if (tasks.length > 1) {
-        const taskList = tasks.map((t: any) => t.title).join(', ');
-        return {
-          type: 'task',
-          success: false,
-          message: `Multiple tasks found matching "${searchTerm}": ${taskList}. Please be more specific.`,
-          data: { tasks }
-        };
+        return this.askToConfirm(userId, 'task', 'task_update', details,
+          tasks.map(t => ({ id: t.id, label: this.describeTask(t) })),
+          `I found ${tasks.length} tasks matching "${searchTerm}". Which one should I change?`);
       }
 
       const task = tasks[0];
@@ -1035,13 +1511,14 @@ class AIAssistantService {
       if (updates.notes) updatePayload.notes = String(updates.notes);
       if (updates.points !== undefined) updatePayload.points = coerceInt(updates.points, 0);
 
+      const dateOptions = await this.dateOptions(userId);
       if (updates.date || updates.due_date) {
-        const newDate = toISODate(updates.date || updates.due_date);
+        const newDate = NaturalDate.date(updates.date || updates.due_date, dateOptions);
         if (newDate) updatePayload.due_date = newDate;
       }
 
       if (updates.time || updates.due_time) {
-        const newTime = toISOTime(updates.time || updates.due_time);
+        const newTime = NaturalDate.time(updates.time || updates.due_time, dateOptions);
         if (newTime) updatePayload.due_time = newTime;
       }
 
@@ -1078,11 +1555,26 @@ class AIAssistantService {
 
       if (updateError) throw updateError;
 
+      let message = `✅ Updated task "${task.title}" successfully!`;
+      let nextTask: Task | null = null;
+      if (updatePayload.status === 'completed' && updatedTask.recurrence_rule) {
+        nextTask = await recurringItemService.onTaskCompleted(updatedTask);
+        if (nextTask?.due_date) message += ` Next one is due ${nextTask.due_date}.`;
+      }
+
+      const undo = assistantUndoService.record(userId, {
+        description: `"${task.title}" is back to how it was`,
+        revert: [{ table: 'tasks', id: task.id, values: assistantUndoService.previousValues(task, updatePayload) }],
+        remove: nextTask ? [{ table: 'tasks', id: nextTask.id }] : []
+      });
+
       return {
         type: 'task',
         success: true,
-        message: `✅ Updated task "${task.title}" successfully!`,
-        data: { task: updatedTask }
+        message,
+        data: { task: updatedTask },
+        undoId: undo.id,
+        entity: { type: 'task', id: task.id, label: updatedTask.title }
       };
     } catch (error) {
       console.error('❌ Task update error:', error);
@@ -1100,7 +1592,7 @@ class AIAssistantService {
 
     const searchTerm = String(details.search_term || '');
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'task',
         success: false,
@@ -1109,15 +1601,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: tasks, error: searchError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('title', `%${searchTerm}%`);
+      const tasks = await this.findMatches<Task>('tasks', 'title', userId, details);
 
-      if (searchError) throw searchError;
-
-      if (!tasks || tasks.length === 0) {
+      if (tasks.length === 0) {
         return {
           type: 'task',
           success: false,
@@ -1126,16 +1612,18 @@ class AIAssistantService {
       }
 
       if (tasks.length > 1) {
-        const taskList = tasks.map((t: any) => t.title).join(', ');
-        return {
-          type: 'task',
-          success: false,
-          message: `Multiple tasks found matching "${searchTerm}": ${taskList}. Please be more specific.`,
-          data: { tasks }
-        };
+        return this.askToConfirm(userId, 'task', 'task_delete', details,
+          tasks.map(t => ({ id: t.id, label: this.describeTask(t) })),
+          `I found ${tasks.length} tasks matching "${searchTerm}". Which one should I delete?`);
       }
 
       const task = tasks[0];
+      if (!details.confirmed) {
+        return this.askToConfirm(userId, 'task', 'task_delete', details,
+          [{ id: task.id, label: this.describeTask(task) }],
+          `Delete the task "${task.title}"?`);
+      }
+
       const { error: deleteError } = await supabase
         .from('tasks')
         .delete()
@@ -1143,11 +1631,17 @@ class AIAssistantService {
 
       if (deleteError) throw deleteError;
 
+      const undo = assistantUndoService.record(userId, {
+        description: `"${task.title}" is back on your task list`,
+        restore: [{ table: 'tasks', rows: [task] }]
+      });
+
       return {
         type: 'task',
         success: true,
-        message: `✅ Deleted task "${task.title}" from your list.`,
-        data: { task }
+        message: `✅ Deleted task "${task.title}" from your list. Say "undo" to bring it back.`,
+        data: { task },
+        undoId: undo.id
       };
     } catch (error) {
       console.error('❌ Task delete error:', error);
@@ -1228,7 +1722,7 @@ class AIAssistantService {
     const searchTerm = String(details.search_term || '');
     const updates = details.updates as Record<string, unknown> || {};
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'shopping_update',
         success: false,
@@ -1237,15 +1731,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: items, error: searchError } = await supabase
-        .from('shopping_lists')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('item', `%${searchTerm}%`);
-
-      if (searchError) throw searchError;
+      const items = await this.findMatches<ShoppingItem>('shopping_lists', 'item', userId, details);
 
-      if (!items || items.length === 0) {
+      if (items.length === 0) {
         return {
           type: 'shopping_update',
           success: false,
@@ -1254,13 +1742,9 @@ class AIAssistantService {
       }
 
       if (items.length > 1) {
-        const itemList = items.map((item: any) => item.item).join(', ');
-        return {
-          type: 'shopping_update',
-          success: false,
-          message: `Multiple items found matching "${searchTerm}": ${itemList}. Please be more specific.`,
-          data: { items }
-        };
+        return this.askToConfirm(userId, 'shopping_update', 'shopping_update', details,
+          items.map(item => ({ id: item.id, label: this.describeShoppingItem(item) })),
+          `I found ${items.length} items matching "${searchTerm}". Which one should I change?`);
       }
 
       const item = items[0];
@@ -1289,11 +1773,35 @@ class AIAssistantService {
 
       if (updateError) throw updateError;
 
+      let message = `✅ Updated "${item.item}" successfully!`;
+      if (updatePayload.completed && !item.completed) {
+        const reorder = await autoReorderService.onItemCompleted(updatedItem);
+        if (reorder) message += ` I'll put it back on the list around ${reorder.next_order_date}.`;
+      }
+      const completionChanged = updatePayload.completed !== undefined && !!updatePayload.completed !== !!item.completed;
+      if (completionChanged) {
+        await pantryService.onShoppingItemCompleted(updatedItem, !!updatePayload.completed);
+      }
+
+      const undo = assistantUndoService.record(userId, {
+        description: `"${item.item}" is back to how it was`,
+        revert: [{ table: 'shopping_lists', id: item.id, values: assistantUndoService.previousValues(item, updatePayload) }],
+        after: completionChanged
+          ? async () => {
+            // Take back the pantry restock (or put it back) to match
+            const { data: reverted } = await supabase.from('shopping_lists').select('*').eq('id', item.id).single();
+            if (reverted) await pantryService.onShoppingItemCompleted(reverted, !!item.completed);
+          }
+          : undefined
+      });
+
       return {
         type: 'shopping_update',
         success: true,
-        message: `✅ Updated "${item.item}" successfully!`,
-        data: { item: updatedItem }
+        message,
+        data: { item: updatedItem },
+        undoId: undo.id,
+        entity: { type: 'shopping_item', id: item.id, label: updatedItem.item }
       };
     } catch (error) {
       console.error('❌ Shopping update error:', error);
@@ -1311,7 +1819,7 @@ class AIAssistantService {
 
     const searchTerm = String(details.search_term || '');
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'shopping_delete',
         success: false,
@@ -1320,15 +1828,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: items, error: searchError } = await supabase
-        .from('shopping_lists')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('item', `%${searchTerm}%`);
-
-      if (searchError) throw searchError;
+      const items = await this.findMatches<ShoppingItem>('shopping_lists', 'item', userId, details);
 
-      if (!items || items.length === 0) {
+      if (items.length === 0) {
         return {
           type: 'shopping_delete',
           success: false,
@@ -1337,16 +1839,22 @@ class AIAssistantService {
       }
 
       if (items.length > 1) {
-        const itemList = items.map((item: any) => item.item).join(', ');
-        return {
-          type: 'shopping_delete',
-          success: false,
-          message: `Multiple items found matching "${searchTerm}": ${itemList}. Please be more specific.`,
-          data: { items }
-        };
+        return this.askToConfirm(userId, 'shopping_delete', 'shopping_delete', details,
+          items.map(item => ({ id: item.id, label: this.describeShoppingItem(item) })),
+          `I found ${items.length} items matching "${searchTerm}". Which one should I remove?`);
       }
 
       const item = items[0];
+      if (!details.confirmed) {
+        return this.askToConfirm(userId, 'shopping_delete', 'shopping_delete', details,
+          [{ id: item.id, label: this.describeShoppingItem(item) }],
+          `Remove "${this.describeShoppingItem(item)}" from your shopping list?`);
+      }
+
+      const overrides = await assistantUndoService.snapshot('measurement_overrides', 'shopping_list_id', [item.id]);
+      const gifts = await assistantUndoService.snapshot('gift_suggestions', 'shopping_item_id', [item.id]);
+      const reorders = await assistantUndoService.snapshot('auto_reorders', 'shopping_item_id', [item.id]);
+
       const { error: deleteError } = await supabase
         .from('shopping_lists')
         .delete()
@@ -1354,11 +1862,22 @@ class AIAssistantService {
 
       if (deleteError) throw deleteError;
 
+      const undo = assistantUndoService.record(userId, {
+        description: `"${item.item}" is back on your shopping list`,
+        restore: [{ table: 'shopping_lists', rows: [item] }, overrides],
+        revert: [...gifts.rows, ...reorders.rows].map(row => ({
+          table: gifts.rows.includes(row) ? 'gift_suggestions' : 'auto_reorders',
+          id: row.id,
+          values: { shopping_item_id: item.id }
+        }))
+      });
+
       return {
         type: 'shopping_delete',
         success: true,
-        message: `✅ Removed "${item.item}" from your shopping list.`,
-        data: { item }
+        message: `✅ Removed "${item.item}" from your shopping list. Say "undo" to bring it back.`,
+        data: { item },
+        undoId: undo.id
       };
     } catch (error) {
       console.error('❌ Shopping delete error:', error);
@@ -1375,7 +1894,11 @@ class AIAssistantService {
     console.log('👨‍👩‍👧‍👦 Creating family member with details:', details);
 
     const name = String(details.name ?? 'Family Member');
-    const age = coerceInt(details.age, null);
+    const today = FamilyAge.today();
+    const birthDate = details.birth_date && FamilyAge.isValidBirthDate(String(details.birth_date))
+      ? String(details.birth_date)
+      : null;
+    const age = birthDate ? FamilyAge.ageOn({ birth_date: birthDate }, today) : coerceInt(details.age, null);
     const gender = details.gender ? String(details.gender) : 'Other';
     const relationship = details.relationship ? String(details.relationship) : null;
 
@@ -1393,7 +1916,9 @@ class AIAssistantService {
         .insert([{
           user_id: userId,
           name,
+          birth_date: birthDate,
           age,
+          age_as_of: age !== null ? today : null,
           gender,
           ...(relationship && { medical_notes: `Relationship: ${relationship}` })
         }])
@@ -1406,11 +1931,14 @@ class AIAssistantService {
       }
 
       console.log('👨‍👩‍👧‍👦 Family member created successfully:', data);
+      const member = birthDate ? await birthdayService.syncBirthday(data) : data;
       return {
         type: 'family',
         success: true,
-        message: `✅ Added ${name}${age ? ` (age ${age})` : ''} to your family!`,
-        data
+        message: `✅ Added ${name}${age !== null ? ` (age ${FamilyAge.label(member)})` : ''} to your family!` +
+          (birthDate ? ` 🎂 I put their birthday on the calendar.` : ''),
+        data: member,
+        entity: { type: 'family_member', id: member.id, label: member.name }
       };
     } catch (error) {
       console.error('❌ Family member creation error:', error);
@@ -1454,15 +1982,22 @@ class AIAssistantService {
       }
 
       let message = `You have ${members.length} family member${members.length > 1 ? 's' : ''}:\n`;
-      members.forEach((member: any, i: number) => {
+      members.forEach((member: FamilyMember, i: number) => {
+        const age = FamilyAge.label(member);
         message += `${i + 1}. ${member.name}`;
-        if (member.age) message += ` (age ${member.age})`;
+        if (age) message += ` (age ${age})`;
+        if (member.birth_date) message += ` - birthday ${FamilyAge.nextBirthday(member.birth_date).slice(5)}`;
         if (member.gender && member.gender !== 'Other') message += ` - ${member.gender}`;
         if (member.school) message += ` - ${member.school}`;
         if (member.grade) message += ` (${member.grade})`;
         message += '\n';
       });
 
+      const upcoming = birthdayService.upcoming(members, 30);
+      if (upcoming.length > 0) {
+        message += `\n🎂 Coming up: ${upcoming.map(b => `${b.member.name} turns ${b.turning} on ${b.date}`).join(', ')}`;
+      }
+
       return {
         type: 'family_query',
         success: true,
@@ -1486,7 +2021,7 @@ class AIAssistantService {
     const searchTerm = String(details.search_term || '');
     const updates = details.updates as Record<string, unknown> || {};
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'family_update',
         success: false,
@@ -1495,15 +2030,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: members, error: searchError } = await supabase
-        .from('family_members')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('name', `%${searchTerm}%`);
-
-      if (searchError) throw searchError;
+      const members = await this.findMatches<FamilyMember>('family_members', 'name', userId, details);
 
-      if (!members || members.length === 0) {
+      if (members.length === 0) {
         return {
           type: 'family_update',
           success: false,
@@ -1512,20 +2041,31 @@ class AIAssistantService {
       }
 
       if (members.length > 1) {
-        const memberList = members.map((m: any) => m.name).join(', ');
-        return {
-          type: 'family_update',
-          success: false,
-          message: `Multiple family members found matching "${searchTerm}": ${memberList}. Please be more specific.`,
-          data: { members }
-        };
+        return this.askToConfirm(userId, 'family_update', 'family_update', details,
+          members.map(m => ({ id: m.id, label: this.describeMember(m) })),
+          `I found ${members.length} family members matching "${searchTerm}". Which one should I update?`);
       }
 
       const member = members[0];
       const updatePayload: any = { updated_at: new Date().toISOString() };
 
       if (updates.name) updatePayload.name = String(updates.name);
-      if (updates.age !== undefined) updatePayload.age = coerceInt(updates.age, null);
+      if (updates.birth_date !== undefined) {
+        const birthDate = updates.birth_date ? String(updates.birth_date) : null;
+        if (birthDate && !FamilyAge.isValidBirthDate(birthDate)) {
+          return {
+            type: 'family_update',
+            success: false,
+            message: `"${birthDate}" doesn't look like a birth date. Please give it as YYYY-MM-DD.`
+          };
+        }
+        updatePayload.birth_date = birthDate;
+        updatePayload.age = birthDate ? FamilyAge.ageOn({ birth_date: birthDate }) : member.age;
+        updatePayload.age_as_of = FamilyAge.today();
+      } else if (updates.age !== undefined) {
+        updatePayload.age = coerceInt(updates.age, null);
+        updatePayload.age_as_of = FamilyAge.today();
+      }
       if (updates.gender) updatePayload.gender = String(updates.gender);
       if (updates.school) updatePayload.school = String(updates.school);
       if (updates.grade) updatePayload.grade = String(updates.grade);
@@ -1554,11 +2094,24 @@ class AIAssistantService {
 
       if (updateError) throw updateError;
 
+      const syncedMember = await birthdayService.syncBirthday(updatedMember, member);
+
+      const undo = assistantUndoService.record(userId, {
+        description: `${member.name}'s details are back to how they were`,
+        revert: [{ table: 'family_members', id: member.id, values: assistantUndoService.previousValues(member, updatePayload) }],
+        after: async () => {
+          const { data: reverted } = await supabase.from('family_members').select('*').eq('id', member.id).single();
+          if (reverted) await birthdayService.syncBirthday(reverted, syncedMember);
+        }
+      });
+
       return {
         type: 'family_update',
         success: true,
         message: `✅ Updated ${member.name}'s information successfully!`,
-        data: { member: updatedMember }
+        data: { member: syncedMember },
+        undoId: undo.id,
+        entity: { type: 'family_member', id: member.id, label: syncedMember.name }
       };
     } catch (error) {
       console.error('❌ Family update error:', error);
@@ -1576,7 +2129,7 @@ class AIAssistantService {
 
     const searchTerm = String(details.search_term || '');
 
-    if (!searchTerm) {
+    if (!searchTerm && !details.target_id) {
       return {
         type: 'family_delete',
         success: false,
@@ -1585,15 +2138,9 @@ class AIAssistantService {
     }
 
     try {
-      const { data: members, error: searchError } = await supabase
-        .from('family_members')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('name', `%${searchTerm}%`);
+      const members = await this.findMatches<FamilyMember>('family_members', 'name', userId, details);
 
-      if (searchError) throw searchError;
-
-      if (!members || members.length === 0) {
+      if (members.length === 0) {
         return {
           type: 'family_delete',
           success: false,
@@ -1602,16 +2149,25 @@ class AIAssistantService {
       }
 
       if (members.length > 1) {
-        const memberList = members.map((m: any) => m.name).join(', ');
-        return {
-          type: 'family_delete',
-          success: false,
-          message: `Multiple family members found matching "${searchTerm}": ${memberList}. Please be more specific.`,
-          data: { members }
-        };
+        return this.askToConfirm(userId, 'family_delete', 'family_delete', details,
+          members.map(m => ({ id: m.id, label: this.describeMember(m) })),
+          `I found ${members.length} family members matching "${searchTerm}". Which one should I remove?`);
       }
 
       const member = members[0];
+      if (!details.confirmed) {
+        return this.askToConfirm(userId, 'family_delete', 'family_delete', details,
+          [{ id: member.id, label: this.describeMember(member) }],
+          `Remove ${member.name} from your family?${member.birth_date ? ' Their birthday event and reminders will go too.' : ''}`);
+      }
+
+      // Tasks and reminders just lose the link; carpool driver slots go with the member
+      const tasks = await assistantUndoService.snapshot('tasks', 'assigned_to', [member.id]);
+      const reminders = await assistantUndoService.snapshot('reminders', 'family_member_id', [member.id]);
+      const drivers = await assistantUndoService.snapshot('carpool_drivers', 'family_member_id', [member.id]);
+
+      await birthdayService.removeBirthday(member);
+
       const { error: deleteError } = await supabase
         .from('family_members')
         .delete()
@@ -1619,11 +2175,26 @@ class AIAssistantService {
 
       if (deleteError) throw deleteError;
 
+      // The birthday event is gone, so it's rebuilt rather than restored
+      const restored = { ...member, birthday_event_id: null, birthday_reminder_series_id: null };
+      const undo = assistantUndoService.record(userId, {
+        description: `${member.name} is back in your family list`,
+        restore: [{ table: 'family_members', rows: [restored] }, drivers],
+        revert: [
+          ...tasks.rows.map(row => ({ table: 'tasks', id: row.id, values: { assigned_to: member.id } })),
+          ...reminders.rows.map(row => ({ table: 'reminders', id: row.id, values: { family_member_id: member.id } }))
+        ],
+        after: async () => {
+          await birthdayService.syncBirthday(restored);
+        }
+      });
+
       return {
         type: 'family_delete',
         success: true,
-        message: `✅ Removed ${member.name} from your family list.`,
-        data: { member }
+        message: `✅ Removed ${member.name} from your family list. Say "undo" to bring them back.`,
+        data: { member },
+        undoId: undo.id
       };
     } catch (error) {
       console.error('❌ Family delete error:', error);
@@ -1636,12 +2207,18 @@ class AIAssistantService {
   }
 
   /** Chat - Handle general conversation */
-  private async handleChatAction(details: Record<string, unknown>, originalMessage: string, calendarContext?: any, conversationHistory?: Array<{role: 'user' | 'assistant', content: string}>): Promise<AIAction> {
+  private async handleChatAction(details: Record<string, unknown>, originalMessage: string, calendarContext?: any, conversationHistory?: Array<{role: 'user' | 'assistant', content: string}>, conversationSummary?: string | null): Promise<AIAction> {
     console.log('💬 Handling chat message:', originalMessage);
+
+    if (typeof details.reply === 'string' && details.reply) {
+      return { type: 'chat', success: true, message: details.reply, data: { query: originalMessage } };
+    }
+
     console.log('💬 Conversation history length:', conversationHistory?.length || 0);
 
     try {
-      const contextInfo = calendarContext ? `\n\nCurrent Calendar Context:\n${calendarContext.summary}` : '';
+      const contextInfo = (calendarContext ? `\n\nCurrent Calendar Context:\n${calendarContext.summary}` : '') +
+        (conversationSummary ? `\n\nEarlier in this conversation:\n${conversationSummary}` : '');
 
       const messages: Array<{role: 'system' | 'user' | 'assistant', content: string}> = [
         {
@@ -1655,6 +2232,7 @@ You have full access to the user's calendar, tasks, shopping list, and family me
 CALENDAR:
 - Answer questions about their schedule ("What's on my calendar today?")
 - Check availability ("Am I free tomorrow afternoon?")
+- Find a time that works for everyone ("Find an hour for me and Emma this week")
 - Find specific events ("When is my dentist appointment?")
 - Create new events ("Schedule a meeting tomorrow at 2pm")
 - Update existing events ("Move my dentist appointment to next week")
@@ -0,0 +1,425 @@
+import { z } from 'zod';
+
+/** What Sara can be asked to do; each maps to one handler in the assistant. */
+export type IntentType = 'calendar' | 'calendar_query' | 'calendar_update' | 'calendar_delete' | 'event_checklist' | 'reminder' | 'shopping' | 'shopping_query' | 'shopping_update' | 'shopping_delete' | 'task' | 'task_query' | 'task_update' | 'task_delete' | 'family' | 'family_query' | 'family_update' | 'family_delete' | 'confirm' | 'undo' | 'chat';
+
+export interface AssistantTool {
+  // Function name the model calls, shared by the text and voice channels
+  name: string;
+  intent: IntentType;
+  description: string;
+  // What Sara was trying to do, for "I couldn't <action>" messages
+  action: string;
+  schema: z.ZodTypeAny;
+  // Turns validated arguments into the details the intent handler reads
+  toDetails?: (args: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export type ToolCallResult =
+  | { ok: true; tool: AssistantTool; intent: IntentType; details: Record<string, unknown> }
+  | { ok: false; tool?: AssistantTool; error: string };
+
+type JsonSchema = Record<string, unknown>;
+
+const SHOPPING_CATEGORIES = ['dairy', 'produce', 'meat', 'bakery', 'baby', 'beverages', 'frozen', 'household', 'snacks', 'health', 'pantry', 'other'] as const;
+const TASK_CATEGORIES = ['chores', 'homework', 'sports', 'music', 'health', 'social', 'other'] as const;
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+const TASK_STATUSES = ['pending', 'in_progress', 'completed', 'cancelled'] as const;
+const GENDERS = ['Boy', 'Girl', 'Other'] as const;
+
+const text = (description: string) => z.string().trim().min(1).describe(description);
+const date = (description: string) => text(`${description}, as YYYY-MM-DD or natural language like "tomorrow", "next Friday", "the 2nd Tuesday of May"`);
+const time = (description: string) => text(`${description}, as HH:MM or natural language like "2pm", "14:30", "noon", "after school"`);
+const searchTerm = (description: string) => text(description);
+const recurrence = (description: string) => text(`${description}, e.g. "every Tuesday", "daily", "every other week". Only include when it repeats`);
+
+/** An updates object that has to change at least one thing */
+const updates = <T extends z.ZodRawShape>(shape: T) => z.object(shape)
+  .refine(value => Object.values(value).some(v => v !== undefined), { message: 'Say at least one thing to change' })
+  .describe('The fields to change');
+
+const TOOLS: AssistantTool[] = [
+  {
+    name: 'create_calendar_event',
+    intent: 'calendar',
+    description: 'Create a new calendar event/meeting/appointment',
+    action: 'add that event',
+    schema: z.object({
+      title: text('The title/name of the event'),
+      date: date('The date'),
+      start_time: time('The start time').optional(),
+      end_time: time('The end time').optional(),
+      location: text('The location of the event').optional(),
+      participants: z.array(z.string()).describe('List of participants').optional(),
+    }),
+  },
+  {
+    name: 'query_calendar',
+    intent: 'calendar_query',
+    description: 'Query the calendar for events, check availability or find a free time',
+    action: 'check the calendar',
+    schema: z.object({
+      query_type: z.enum(['today', 'week', 'availability', 'search', 'next'])
+        .describe('today (today\'s events), week (upcoming events), availability (check if free or find a time), search (find specific events), next (next upcoming event)'),
+      date: date('Date to check, or the first day to look in when finding a time').optional(),
+      search_term: text('Search term to find events (for search queries)').optional(),
+      end_date: date('Last day to look in when finding a time').optional(),
+      duration_minutes: z.number().int().positive().describe('How long a free slot is needed, when finding a time').optional(),
+      participants: z.array(z.string()).describe('Family members who all need to be free, when finding a time').optional(),
+      time: time('Preferred time of day, when finding a time').optional(),
+    }),
+  },
+  {
+    name: 'update_calendar_event',
+    intent: 'calendar_update',
+    description: 'Update an existing calendar event',
+    action: 'change that event',
+    schema: z.object({
+      search_term: searchTerm('Term to find the event to update'),
+      updates: updates({
+        date: date('New date').optional(),
+        start_time: time('New start time').optional(),
+        end_time: time('New end time').optional(),
+        location: text('New location').optional(),
+        title: text('New title').optional(),
+      }),
+    }),
+  },
+  {
+    name: 'delete_calendar_event',
+    intent: 'calendar_delete',
+    description: 'Delete a calendar event',
+    action: 'delete that event',
+    schema: z.object({
+      search_term: searchTerm('Term to find the event to delete'),
+      date: date('Date of the event, helps narrow it down').optional(),
+    }),
+  },
+  {
+    name: 'event_checklist',
+    intent: 'event_checklist',
+    description: 'List what is still left to do before an event',
+    action: 'check that event\'s checklist',
+    schema: z.object({
+      search_term: searchTerm('Name of the event'),
+      date: date('Date of the event').optional(),
+    }),
+  },
+  {
+    name: 'create_reminder',
+    intent: 'reminder',
+    description: 'Set a reminder for a specific date and time',
+    action: 'set that reminder',
+    schema: z.object({
+      title: text('What to be reminded about'),
+      date: date('Date for the reminder').optional(),
+      time: time('Time for the reminder').optional(),
+      recurrence: recurrence('How often it repeats').optional(),
+    }),
+  },
+  {
+    name: 'add_shopping_item',
+    intent: 'shopping',
+    description: 'Add an item to the shopping list',
+    action: 'add that to the shopping list',
+    schema: z.object({
+      title: text('The item to add'),
+      category: z.enum(SHOPPING_CATEGORIES).describe('Category of the item').optional(),
+      quantity: z.number().int().positive().describe('How many to buy').optional(),
+    }),
+  },
+  {
+    name: 'query_shopping_list',
+    intent: 'shopping_query',
+    description: 'List what is on the shopping list',
+    action: 'check the shopping list',
+    schema: z.object({
+      query_type: z.enum(['all', 'pending', 'completed', 'search']).describe('Which items to list'),
+      search_term: text('Keyword to find items (for search queries)').optional(),
+    }),
+  },
+  {
+    name: 'update_shopping_item',
+    intent: 'shopping_update',
+    description: 'Change an item on the shopping list, e.g. mark it as bought',
+    action: 'change that shopping item',
+    schema: z.object({
+      search_term: searchTerm('Item to find'),
+      updates: updates({
+        completed: z.boolean().describe('Whether it has been bought').optional(),
+        quantity: z.number().int().positive().describe('New quantity').optional(),
+        urgent: z.boolean().describe('Whether it is needed urgently').optional(),
+        category: z.enum(SHOPPING_CATEGORIES).describe('New category').optional(),
+        notes: text('New notes').optional(),
+      }),
+    }),
+  },
+  {
+    name: 'remove_shopping_item',
+    intent: 'shopping_delete',
+    description: 'Remove an item from the shopping list',
+    action: 'remove that from the shopping list',
+    schema: z.object({
+      search_term: searchTerm('Item to remove'),
+    }),
+  },
+  {
+    name: 'create_task',
+    intent: 'task',
+    description: 'Create a new task or todo item for family members',
+    action: 'create that task',
+    schema: z.object({
+      title: text('The title/name of the task'),
+      description: text('Detailed description of the task').optional(),
+      category: z.enum(TASK_CATEGORIES).describe('Category of the task').optional(),
+      priority: z.enum(PRIORITIES).describe('Priority level of the task').optional(),
+      assigned_to: text('Name of family member to assign this task to').optional(),
+      date: date('Due date').optional(),
+      time: time('Due time').optional(),
+      points: z.number().int().min(0).describe('Points awarded for completing this task').optional(),
+      notes: text('Additional notes or instructions for the task').optional(),
+      recurrence: recurrence('How often the task repeats').optional(),
+    }),
+  },
+  {
+    name: 'query_tasks',
+    intent: 'task_query',
+    description: 'Query and list tasks, optionally filtered by status, assigned member, or search term',
+    action: 'look up tasks',
+    schema: z.object({
+      query_type: z.enum(['all', 'pending', 'in_progress', 'completed', 'cancelled', 'search', 'assigned_to'])
+        .describe('all, a status, search (by term) or assigned_to (by family member)'),
+      search_term: text('Search term to find specific tasks (for search queries)').optional(),
+      assigned_to: text('Name of family member to filter tasks by (for assigned_to queries)').optional(),
+    }),
+  },
+  {
+    name: 'update_task',
+    intent: 'task_update',
+    description: 'Update an existing task',
+    action: 'change that task',
+    schema: z.object({
+      search_term: searchTerm('Term to find the task to update (task title or part of it)'),
+      updates: updates({
+        title: text('New title').optional(),
+        description: text('New description').optional(),
+        category: z.enum(TASK_CATEGORIES).describe('New category').optional(),
+        priority: z.enum(PRIORITIES).describe('New priority').optional(),
+        status: z.enum(TASK_STATUSES).describe('New status').optional(),
+        assigned_to: text('Name of family member to reassign to').optional(),
+        date: date('New due date').optional(),
+        time: time('New due time').optional(),
+        points: z.number().int().min(0).describe('New points value').optional(),
+        notes: text('New notes').optional(),
+      }),
+    }),
+  },
+  {
+    name: 'complete_task',
+    intent: 'task_update',
+    description: 'Mark a task as completed',
+    action: 'complete that task',
+    schema: z.object({
+      search_term: searchTerm('Term to find the task to complete (task title or part of it)'),
+    }),
+    toDetails: args => ({ search_term: args.search_term, updates: { status: 'completed' } }),
+  },
+  {
+    name: 'delete_task',
+    intent: 'task_delete',
+    description: 'Delete a task',
+    action: 'delete that task',
+    schema: z.object({
+      search_term: searchTerm('Term to find the task to delete (task title or part of it)'),
+    }),
+  },
+  {
+    name: 'add_family_member',
+    intent: 'family',
+    description: 'Add someone to the family',
+    action: 'add that family member',
+    schema: z.object({
+      name: text('Their name'),
+      birth_date: date('Their birthday. Only include when a full birthday is given').optional(),
+      age: z.number().int().min(0).max(130).describe('Their age, when no birthday is given').optional(),
+      gender: z.enum(GENDERS).optional(),
+      relationship: text('How they are related, e.g. "daughter"').optional(),
+    }),
+  },
+  {
+    name: 'query_family',
+    intent: 'family_query',
+    description: 'List family members or look one up',
+    action: 'look up the family',
+    schema: z.object({
+      query_type: z.enum(['all', 'search']),
+      search_term: text('Name to look up (for search queries)').optional(),
+    }),
+  },
+  {
+    name: 'update_family_member',
+    intent: 'family_update',
+    description: 'Change a family member\'s details',
+    action: 'update that family member',
+    schema: z.object({
+      search_term: searchTerm('Name of the family member'),
+      updates: updates({
+        name: text('New name').optional(),
+        birth_date: date('Their birthday').optional(),
+        age: z.number().int().min(0).max(130).describe('Their age, when no birthday is given').optional(),
+        gender: z.enum(GENDERS).optional(),
+        school: text('School name').optional(),
+        grade: text('Grade level').optional(),
+        allergies: z.array(z.string()).describe('Allergies').optional(),
+        medical_notes: text('Medical notes').optional(),
+      }),
+    }),
+  },
+  {
+    name: 'remove_family_member',
+    intent: 'family_delete',
+    description: 'Remove someone from the family',
+    action: 'remove that family member',
+    schema: z.object({
+      search_term: searchTerm('Name of the family member to remove'),
+    }),
+  },
+  {
+    name: 'confirm_pending_action',
+    intent: 'confirm',
+    description: 'Answer Sara\'s last question about a delete or change she asked to confirm, or about which of several matches was meant',
+    action: 'go ahead with that',
+    schema: z.object({
+      confirm: z.boolean().describe('true to go ahead, false to cancel'),
+      choice: z.number().int().positive().describe('Number of the match the user picked from the list Sara read out').optional(),
+    }),
+  },
+  {
+    name: 'undo_last_action',
+    intent: 'undo',
+    description: 'Undo the last thing Sara deleted or changed, within a few minutes of doing it',
+    action: 'undo that',
+    schema: z.object({}),
+  },
+];
+
+/**
+ * The one list of things Sara can do, used by both the text assistant and
+ * the realtime voice session.
+ *
+ * The model picks a tool and fills in its arguments; they're checked against
+ * the tool's zod schema before anything runs, so a wrong or missing argument
+ * is reported back instead of being guessed at.
+ */
+export class AssistantToolRegistry {
+  private tools: Map<string, AssistantTool>;
+
+  constructor(tools: AssistantTool[]) {
+    this.tools = new Map(tools.map(tool => [tool.name, tool]));
+  }
+
+  get(name: string): AssistantTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): AssistantTool[] {
+    return [...this.tools.values()];
+  }
+
+  /** Tool definitions in the chat completions format */
+  chatDefinitions() {
+    return this.list().map(tool => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: this.toJsonSchema(tool.schema) },
+    }));
+  }
+
+  /** Tool definitions in the realtime session format */
+  realtimeDefinitions() {
+    return this.list().map(tool => ({
+      type: 'function' as const,
+      name: tool.name,
+      description: tool.description,
+      parameters: this.toJsonSchema(tool.schema),
+    }));
+  }
+
+  /**
+   * Check a tool call from the model. Arguments may be the raw JSON string
+   * the API returns or an already parsed object; nulls are treated as not
+   * given.
+   */
+  validate(name: string, args: unknown): ToolCallResult {
+    const tool = this.tools.get(name);
+    if (!tool) return { ok: false, error: `Unknown tool "${name}"` };
+
+    let parsedArgs = args;
+    if (typeof args === 'string') {
+      try {
+        parsedArgs = args.trim() ? JSON.parse(args) : {};
+      } catch {
+        return { ok: false, tool, error: 'The arguments were not valid JSON' };
+      }
+    }
+
+    const result = tool.schema.safeParse(this.dropNulls(parsedArgs ?? {}));
+    if (!result.success) {
+      return { ok: false, tool, error: this.describeIssues(result.error) };
+    }
+
+    const details = result.data as Record<string, unknown>;
+    return { ok: true, tool, intent: tool.intent, details: tool.toDetails ? tool.toDetails(details) : details };
+  }
+
+  private describeIssues(error: z.ZodError): string {
+    return error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+  }
+
+  private dropNulls(value: unknown): unknown {
+    if (Array.isArray(value)) return value.filter(v => v !== null).map(v => this.dropNulls(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, this.dropNulls(v)]));
+    }
+    return value;
+  }
+
+  /** Enough of JSON Schema for the zod types the tools use */
+  private toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const described = (json: JsonSchema) => (schema.description ? { ...json, description: schema.description } : json);
+
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+      return described(this.toJsonSchema(schema.unwrap()));
+    }
+    if (schema instanceof z.ZodEffects) {
+      return described(this.toJsonSchema(schema.innerType()));
+    }
+    if (schema instanceof z.ZodObject) {
+      const shape = schema.shape as z.ZodRawShape;
+      const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+      return described({
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, this.toJsonSchema(value)])),
+        ...(required.length > 0 ? { required } : {}),
+      });
+    }
+    if (schema instanceof z.ZodArray) {
+      return described({ type: 'array', items: this.toJsonSchema(schema.element) });
+    }
+    if (schema instanceof z.ZodEnum) {
+      return described({ type: 'string', enum: schema.options });
+    }
+    if (schema instanceof z.ZodNumber) {
+      return described({ type: schema.isInt ? 'integer' : 'number' });
+    }
+    if (schema instanceof z.ZodBoolean) {
+      return described({ type: 'boolean' });
+    }
+    return described({ type: 'string' });
+  }
+}
+
+export const assistantTools = new AssistantToolRegistry(TOOLS);
@@ -0,0 +1,129 @@
+import { supabase } from '../lib/supabase';
+
+/** Rows of one table to put back as they were */
+export interface RowSnapshot {
+  table: string;
+  rows: Array<{ id: string }>;
+}
+
+/** Columns to set back on rows that still exist */
+export interface ColumnRevert {
+  table: string;
+  id: string;
+  values: Record<string, unknown>;
+}
+
+/** A row the change created, to delete again */
+export interface RowRef {
+  table: string;
+  id: string;
+}
+
+export interface UndoEntry {
+  id: string;
+  // What undoing it does, e.g. '"Soccer practice" is back on your calendar'
+  description: string;
+  createdAt: number;
+  expiresAt: number;
+  // Re-inserted in order, so parents come before their children
+  restore: RowSnapshot[];
+  revert: ColumnRevert[];
+  remove: RowRef[];
+  // Anything derived that has to be rebuilt afterwards, e.g. a birthday event
+  after?: () => Promise<void>;
+}
+
+export type UndoChange = Pick<UndoEntry, 'description'> & Partial<Pick<UndoEntry, 'restore' | 'revert' | 'remove' | 'after'>>;
+
+// How long an assistant change can be undone for
+export const UNDO_WINDOW_MINUTES = 10;
+
+const MAX_ENTRIES_PER_USER = 20;
+
+/**
+ * A short-lived log of what the assistant deleted or changed, so "undo"
+ * can put it back.
+ *
+ * Entries live in memory for UNDO_WINDOW_MINUTES; they're for taking back a
+ * misheard command straight away, not for history. A delete records the row
+ * and the rows that cascade with it, an update records the columns it
+ * overwrote and any rows it created along the way.
+ */
+export class AssistantUndoService {
+  private entries = new Map<string, UndoEntry[]>();
+
+  record(userId: string, change: UndoChange): UndoEntry {
+    const now = Date.now();
+    const entry: UndoEntry = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      description: change.description,
+      createdAt: now,
+      expiresAt: now + UNDO_WINDOW_MINUTES * 60_000,
+      restore: change.restore ?? [],
+      revert: change.revert ?? [],
+      remove: change.remove ?? [],
+      after: change.after,
+    };
+
+    this.entries.set(userId, [...this.active(userId), entry].slice(-MAX_ENTRIES_PER_USER));
+    return entry;
+  }
+
+  /** The most recent change that can still be undone */
+  latest(userId: string): UndoEntry | null {
+    const entries = this.active(userId);
+    return entries[entries.length - 1] ?? null;
+  }
+
+  /**
+   * Put back one change (the latest if no id is given). Returns what was
+   * undone, or null when there's nothing (left) to undo.
+   */
+  async undo(userId: string, entryId?: string): Promise<UndoEntry | null> {
+    const entries = this.active(userId);
+    const entry = entryId ? entries.find(e => e.id === entryId) : entries[entries.length - 1];
+    if (!entry) return null;
+
+    for (const row of entry.remove) {
+      const { error } = await supabase.from(row.table).delete().eq('id', row.id);
+      if (error) throw error;
+    }
+
+    for (const snapshot of entry.restore) {
+      if (snapshot.rows.length === 0) continue;
+      const { error } = await supabase.from(snapshot.table).upsert(snapshot.rows);
+      if (error) throw error;
+    }
+
+    for (const change of entry.revert) {
+      const { error } = await supabase.from(change.table).update(change.values).eq('id', change.id);
+      if (error) throw error;
+    }
+
+    await entry.after?.();
+
+    this.entries.set(userId, entries.filter(e => e.id !== entry.id));
+    return entry;
+  }
+
+  /** Load rows of a table whose column is one of the given values */
+  async snapshot(table: string, column: string, values: string[]): Promise<RowSnapshot> {
+    if (values.length === 0) return { table, rows: [] };
+
+    const { data, error } = await supabase.from(table).select('*').in(column, values);
+    if (error) throw error;
+    return { table, rows: data || [] };
+  }
+
+  /** The previous values of just the columns an update is about to change */
+  previousValues(row: object, changes: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.keys(changes).map(key => [key, (row as Record<string, unknown>)[key] ?? null]));
+  }
+
+  private active(userId: string): UndoEntry[] {
+    const now = Date.now();
+    return (this.entries.get(userId) || []).filter(entry => entry.expiresAt > now);
+  }
+}
+
+export const assistantUndoService = new AssistantUndoService();
@@ -0,0 +1,270 @@
+import { supabase } from '../lib/supabase';
+import type { AutoReorder, ShoppingItem } from '../lib/supabase';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+import { instacartShoppingService } from './instacartShoppingService';
+
+export interface NewAutoReorder {
+  item_name: string;
+  frequency_days: number;
+  next_order_date?: string;
+  price?: number | null;
+  quantity?: number;
+  category?: string;
+  send_to_instacart?: boolean;
+  learn_cadence?: boolean;
+}
+
+export interface ReorderRun {
+  created: ShoppingItem[];
+  // Set when due items went to Instacart
+  instacartUrl: string | null;
+}
+
+// How much a newly observed gap between completions moves frequency_days
+const LEARNING_WEIGHT = 0.4;
+// Gaps outside this range are a forgotten tick or a double tap, not a cadence
+const MIN_LEARNED_DAYS = 1;
+const MAX_LEARNED_DAYS = 180;
+
+/**
+ * Staples that are bought on a schedule.
+ *
+ * A due rule puts its item on the shopping list once and links it; the next
+ * order is counted from when that item is ticked off, and the gap between
+ * tick-offs nudges the rule's frequency towards how fast the family really
+ * goes through it.
+ */
+export class AutoReorderService {
+  async getRules(userId: string): Promise<AutoReorder[]> {
+    const { data, error } = await supabase
+      .from('auto_reorders')
+      .select('*')
+      .eq('user_id', userId)
+      .order('next_order_date', { ascending: true });
+
+    if (error) {
+      console.error('Error loading auto reorders:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async createRule(userId: string, rule: NewAutoReorder): Promise<AutoReorder> {
+    const { data, error } = await supabase
+      .from('auto_reorders')
+      .insert([{
+        user_id: userId,
+        item_name: rule.item_name.trim(),
+        frequency_days: Math.max(1, Math.round(rule.frequency_days)),
+        next_order_date: rule.next_order_date || NaturalDate.today(),
+        price: rule.price ?? null,
+        quantity: rule.quantity ?? 1,
+        category: rule.category || 'household',
+        send_to_instacart: rule.send_to_instacart ?? false,
+        learn_cadence: rule.learn_cadence ?? true,
+        active: true,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateRule(ruleId: string, changes: Partial<AutoReorder>): Promise<AutoReorder> {
+    const { data, error } = await supabase
+      .from('auto_reorders')
+      .update(changes)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('auto_reorders')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Put every due staple on the shopping list. Items already waiting on the
+   * list are not added twice, but are flagged urgent once the rule is overdue.
+   * Due items from rules set to use Instacart are sent to the primary retailer.
+   */
+  async generateDueItems(userId: string): Promise<ReorderRun> {
+    const run: ReorderRun = { created: [], instacartUrl: null };
+    const date = NaturalDate.today();
+
+    const { data: rules, error } = await supabase
+      .from('auto_reorders')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .lte('next_order_date', date);
+
+    if (error) {
+      console.error('Error loading due auto reorders:', error);
+      return run;
+    }
+
+    const openItems = await this.getOpenItems((rules || []).map((r: AutoReorder) => r.shopping_item_id));
+    const toInstacart: ShoppingItem[] = [];
+
+    for (const rule of (rules || []) as AutoReorder[]) {
+      const overdue = rule.next_order_date < date;
+      const open = rule.shopping_item_id ? openItems.get(rule.shopping_item_id) : undefined;
+
+      try {
+        if (open) {
+          if (overdue && !open.urgent) {
+            await supabase.from('shopping_lists').update({ urgent: true }).eq('id', open.id);
+          }
+          continue;
+        }
+
+        const item = await this.addToList(rule, overdue);
+        run.created.push(item);
+        if (rule.send_to_instacart) toInstacart.push(item);
+      } catch (ruleError) {
+        console.error(`Error reordering ${rule.item_name}:`, ruleError);
+      }
+    }
+
+    if (toInstacart.length > 0) {
+      try {
+        const primary = await instacartShoppingService.getPrimaryRetailer(userId);
+        const response = await instacartShoppingService.sendToInstacart(toInstacart, primary?.retailer_key);
+        run.instacartUrl = response.products_link_url;
+      } catch (sendError) {
+        // The items are on the list either way; they can be sent by hand
+        console.error('Error sending auto reorders to Instacart:', sendError);
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * Put a staple on the list now, whatever its schedule says
+   */
+  async orderNow(rule: AutoReorder): Promise<ShoppingItem> {
+    return this.addToList(rule, false);
+  }
+
+  /**
+   * Called when a shopping item is ticked off. If it is a staple (the
+   * rule's own item, or one added by hand with the same name) the next order
+   * is scheduled from today and the cadence is learned from the gap since
+   * the previous tick-off.
+   */
+  async onItemCompleted(item: ShoppingItem): Promise<AutoReorder | null> {
+    const { data: rules, error } = await supabase
+      .from('auto_reorders')
+      .select('*')
+      .eq('user_id', item.user_id)
+      .eq('active', true);
+
+    if (error) {
+      console.error('Error loading auto reorders:', error);
+      return null;
+    }
+
+    const name = item.item.trim().toLowerCase();
+    const rule = (rules || []).find((r: AutoReorder) => r.shopping_item_id === item.id) ||
+      (rules || []).find((r: AutoReorder) => r.item_name.trim().toLowerCase() === name);
+    if (!rule) return null;
+
+    const date = NaturalDate.today();
+    if (rule.last_completed === date) return rule;
+
+    const frequency = this.learnFrequency(rule, date);
+
+    try {
+      return await this.updateRule(rule.id, {
+        frequency_days: frequency,
+        last_completed: date,
+        next_order_date: RecurrenceRule.addDays(date, frequency),
+        shopping_item_id: null,
+      });
+    } catch (updateError) {
+      console.error('Error updating auto reorder:', updateError);
+      return null;
+    }
+  }
+
+  /**
+   * Blend the gap since the last tick-off into the rule's frequency
+   */
+  learnFrequency(rule: Pick<AutoReorder, 'frequency_days' | 'last_completed' | 'learn_cadence'>, completedOn: string): number {
+    if (!rule.learn_cadence || !rule.last_completed) return rule.frequency_days;
+
+    const gap = RecurrenceRule.daysBetween(rule.last_completed, completedOn);
+    if (gap < MIN_LEARNED_DAYS || gap > MAX_LEARNED_DAYS) return rule.frequency_days;
+
+    return Math.max(1, Math.round(rule.frequency_days * (1 - LEARNING_WEIGHT) + gap * LEARNING_WEIGHT));
+  }
+
+  describeFrequency(days: number): string {
+    if (days === 1) return 'Every day';
+    if (days === 7) return 'Weekly';
+    if (days % 7 === 0) return `Every ${days / 7} weeks`;
+    return `Every ${days} days`;
+  }
+
+  private async addToList(rule: AutoReorder, urgent: boolean): Promise<ShoppingItem> {
+    const date = NaturalDate.today();
+
+    const { data: item, error } = await supabase
+      .from('shopping_lists')
+      .insert([{
+        user_id: rule.user_id,
+        item: rule.item_name,
+        category: rule.category || 'household',
+        quantity: rule.quantity ?? 1,
+        notes: 'Auto-reorder',
+        completed: false,
+        urgent,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Until it is ticked off, assume it lasts another full cycle
+    await this.updateRule(rule.id, {
+      shopping_item_id: item.id,
+      last_ordered: date,
+      next_order_date: RecurrenceRule.addDays(date, rule.frequency_days),
+    });
+
+    return item;
+  }
+
+  private async getOpenItems(itemIds: (string | null | undefined)[]): Promise<Map<string, ShoppingItem>> {
+    const ids = itemIds.filter((id): id is string => !!id);
+    if (ids.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .select('*')
+      .in('id', ids)
+      .eq('completed', false);
+
+    if (error) {
+      console.error('Error loading reorder items:', error);
+      return new Map();
+    }
+
+    return new Map((data || []).map((item: ShoppingItem) => [item.id, item]));
+  }
+}
+
+export const autoReorderService = new AutoReorderService();
@@ -0,0 +1,213 @@
+import { supabase } from '../lib/supabase';
+import type { FamilyMember } from '../lib/supabase';
+import { FamilyAge } from '../utils/familyAge';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+
+export interface UpcomingBirthday {
+  member: FamilyMember;
+  date: string;
+  turning: number;
+}
+
+const DEFAULT_REMINDER_DAYS = 7;
+
+/**
+ * Yearly birthday events and "birthday coming up" reminders for family
+ * members with a birth date.
+ *
+ * The event is one series starting on the birth date, so the calendar shows
+ * every birthday. The reminder is a recurring reminder series that spawns
+ * next year's row once this year's is done.
+ */
+export class BirthdayService {
+  /**
+   * Create or refresh a member's birthday event and reminder after their
+   * birth date, name or reminder lead time changed. Members without a birth
+   * date lose both. Passing the member as it was before the edit skips the
+   * work when none of that changed. Returns the member with its links updated.
+   */
+  async syncBirthday(member: FamilyMember, previous?: FamilyMember | null): Promise<FamilyMember> {
+    if (!member.birth_date) {
+      return this.removeBirthday(member);
+    }
+
+    const unchanged = previous &&
+      previous.birth_date === member.birth_date &&
+      previous.name === member.name &&
+      previous.birthday_reminder_days === member.birthday_reminder_days;
+    if (unchanged && member.birthday_event_id && member.birthday_reminder_series_id) {
+      return member;
+    }
+
+    try {
+      const eventId = await this.upsertEvent(member);
+      const seriesId = await this.replaceReminder(member);
+
+      if (eventId === member.birthday_event_id && seriesId === member.birthday_reminder_series_id) {
+        return member;
+      }
+
+      const { data, error } = await supabase
+        .from('family_members')
+        .update({ birthday_event_id: eventId, birthday_reminder_series_id: seriesId })
+        .eq('id', member.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error(`Error syncing ${member.name}'s birthday:`, error);
+      return member;
+    }
+  }
+
+  /**
+   * Delete a member's birthday event and any reminders still to come
+   */
+  async removeBirthday(member: FamilyMember): Promise<FamilyMember> {
+    if (!member.birthday_event_id && !member.birthday_reminder_series_id) return member;
+
+    try {
+      if (member.birthday_event_id) {
+        await supabase.from('events').delete().eq('id', member.birthday_event_id);
+      }
+      await this.deletePendingReminders(member.birthday_reminder_series_id);
+
+      const { data, error } = await supabase
+        .from('family_members')
+        .update({ birthday_event_id: null, birthday_reminder_series_id: null })
+        .eq('id', member.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error(`Error removing ${member.name}'s birthday:`, error);
+      return member;
+    }
+  }
+
+  /**
+   * Fill in birthdays for members that got a birth date without going
+   * through syncBirthday (e.g. an older client or a direct import)
+   */
+  async syncMissing(userId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('family_members')
+      .select('*')
+      .eq('user_id', userId)
+      .not('birth_date', 'is', null)
+      .is('birthday_event_id', null);
+
+    if (error) {
+      console.error('Error loading family birthdays:', error);
+      return 0;
+    }
+
+    for (const member of (data || []) as FamilyMember[]) {
+      await this.syncBirthday(member);
+    }
+    return (data || []).length;
+  }
+
+  upcoming(members: FamilyMember[], days: number, from: string = FamilyAge.today()): UpcomingBirthday[] {
+    const last = RecurrenceRule.addDays(from, days);
+
+    return members
+      .filter(member => !!member.birth_date)
+      .map(member => {
+        const date = FamilyAge.nextBirthday(member.birth_date as string, from);
+        return { member, date, turning: FamilyAge.ageOn(member, date) ?? 0 };
+      })
+      .filter(birthday => birthday.date <= last)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async upsertEvent(member: FamilyMember): Promise<string> {
+    const birthDate = member.birth_date as string;
+    const event = {
+      title: `${member.name}'s birthday`,
+      event_date: birthDate,
+      start_time: null,
+      end_time: null,
+      event_type: 'birthday',
+      participants: [member.name],
+      recurrence_rule: FamilyAge.birthdayRule(birthDate),
+    };
+
+    if (member.birthday_event_id) {
+      const { data, error } = await supabase
+        .from('events')
+        .update(event)
+        .eq('id', member.birthday_event_id)
+        .select('id');
+
+      if (error) throw error;
+      if (data && data.length > 0) return member.birthday_event_id;
+      // Deleted from the calendar, so make a new one
+    }
+
+    const { data, error } = await supabase
+      .from('events')
+      .insert([{ ...event, user_id: member.user_id, source: 'manual' }])
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  /**
+   * Reminders can't be moved in place once spawned, so the upcoming one is
+   * replaced and a fresh series started from the next birthday
+   */
+  private async replaceReminder(member: FamilyMember): Promise<string> {
+    await this.deletePendingReminders(member.birthday_reminder_series_id);
+
+    const today = FamilyAge.today();
+    const leadDays = member.birthday_reminder_days ?? DEFAULT_REMINDER_DAYS;
+    let birthday = FamilyAge.nextBirthday(member.birth_date as string, today);
+    if (RecurrenceRule.addDays(birthday, -leadDays) < today) {
+      birthday = FamilyAge.nextBirthday(member.birth_date as string, RecurrenceRule.addDays(birthday, 1));
+    }
+
+    const { data, error } = await supabase
+      .from('reminders')
+      .insert([{
+        user_id: member.user_id,
+        title: leadDays === 0
+          ? `🎂 It's ${member.name}'s birthday today`
+          : `🎂 ${member.name}'s birthday is in ${leadDays} day${leadDays === 1 ? '' : 's'}`,
+        description: 'Time to sort out a gift and plans.',
+        reminder_date: RecurrenceRule.addDays(birthday, -leadDays),
+        priority: 'medium',
+        completed: false,
+        recurring: true,
+        recurrence_rule: 'FREQ=YEARLY',
+        family_member_id: member.id,
+      }])
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    await supabase.from('reminders').update({ recurrence_series_id: data.id }).eq('id', data.id);
+    return data.id;
+  }
+
+  private async deletePendingReminders(seriesId: string | null | undefined): Promise<void> {
+    if (!seriesId) return;
+
+    const { error } = await supabase
+      .from('reminders')
+      .delete()
+      .eq('recurrence_series_id', seriesId)
+      .eq('completed', false);
+
+    if (error) throw error;
+  }
+}
+
+export const birthdayService = new BirthdayService();
@@ -1,5 +1,10 @@
 import { supabase } from '../lib/supabase';
 import type { Event as DbEvent } from '../lib/supabase';
+import { recurringEventService } from './recurringEvents';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { TimeZone } from '../utils/timeZone';
+import { travelTimeService } from './travelTime';
+import type { TravelWarning } from './travelTime';
 
 export interface CalendarContext {
   todayEvents: DbEvent[];
@@ -22,10 +27,54 @@ export interface AvailabilityQuery {
   endTime?: string;
 }
 
+export interface SlotSearchQuery {
+  startDate: string;
+  endDate?: string; // inclusive; defaults to a week from startDate
+  durationMinutes: number;
+  // Family members, as named in event participants, who must be free too
+  participants?: string[];
+  preferredTime?: string; // HH:MM; slots closer to it rank higher
+  excludeEventId?: string; // the event being rescheduled
+  limit?: number;
+}
+
+export interface CandidateSlot {
+  date: string;
+  start: string; // HH:MM:SS
+  end: string; // HH:MM:SS
+  score: number; // higher is better
+}
+
+export interface AvailabilityHours {
+  dayStart: number; // minutes after midnight
+  dayEnd: number;
+  bufferMinutes: number;
+  travelBufferMinutes: number;
+}
+
+// Minutes from midnight of the first searched day
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_HOURS: AvailabilityHours = {
+  dayStart: 8 * 60,
+  dayEnd: 20 * 60,
+  bufferMinutes: 15,
+  travelBufferMinutes: 30,
+};
+
+const DEFAULT_SEARCH_DAYS = 7;
+const SLOT_STEP_MINUTES = 30;
+const DEFAULT_SLOT_LIMIT = 5;
+
 export interface ConflictCheck {
   hasConflict: boolean;
   conflictingEvents: DbEvent[];
   suggestions: string[];
+  // Neighbouring events too far away to reach in time; not counted as a conflict
+  travelWarnings: TravelWarning[];
 }
 
 export class CalendarContextService {
@@ -39,22 +88,8 @@ export class CalendarContextService {
     pastDate.setDate(pastDate.getDate() - 3);
     const past = pastDate.toISOString().split('T')[0];
 
-    const [todayResult, upcomingResult, pastResult] = await Promise.all([
-      supabase
-        .from('events')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('event_date', today)
-        .order('start_time', { ascending: true }),
-
-      supabase
-        .from('events')
-        .select('*')
-        .eq('user_id', userId)
-        .gt('event_date', today)
-        .lte('event_date', future)
-        .order('event_date', { ascending: true })
-        .order('start_time', { ascending: true }),
+    const [rangeEvents, pastResult] = await Promise.all([
+      this.getEventsForDateRange(userId, today, future),
 
       supabase
         .from('events')
@@ -66,8 +101,8 @@ export class CalendarContextService {
         .limit(5)
     ]);
 
-    const todayEvents = todayResult.data || [];
-    const upcomingEvents = upcomingResult.data || [];
+    const todayEvents = rangeEvents.filter(e => e.event_date === today);
+    const upcomingEvents = rangeEvents.filter(e => e.event_date > today);
     const recentPastEvents = pastResult.data || [];
 
     const todayBusySlots = this.extractBusySlots(todayEvents);
@@ -84,13 +119,23 @@ export class CalendarContextService {
     };
   }
 
+  /**
+   * Events overlapping [startDate, endDate], with recurring series expanded
+   * into one entry per occurrence.
+   */
   async getEventsForDateRange(userId: string, startDate: string, endDate: string): Promise<DbEvent[]> {
     const { data, error } = await supabase
       .from('events')
       .select('*')
       .eq('user_id', userId)
-      .gte('event_date', startDate)
-      .lte('event_date', endDate)
+      .or(
+        `and(event_date.gte.${startDate},event_date.lte.${endDate}),` +
+        // Multi-day events that started earlier and run into the range
+        `and(event_date.lt.${startDate},end_date.gte.${startDate}),` +
+        `and(recurrence_rule.not.is.null,event_date.lte.${endDate}),` +
+        // Overrides moved out of the range still hide their original occurrence
+        `and(recurrence_original_date.gte.${startDate},recurrence_original_date.lte.${endDate})`
+      )
       .order('event_date', { ascending: true })
       .order('start_time', { ascending: true });
 
@@ -99,23 +144,11 @@ export class CalendarContextService {
       return [];
     }
 
-    return data || [];
+    return recurringEventService.expandEvents(data || [], startDate, endDate);
   }
 
   async getEventsForDate(userId: string, date: string): Promise<DbEvent[]> {
-    const { data, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('event_date', date)
-      .order('start_time', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching events for date:', error);
-      return [];
-    }
-
-    return data || [];
+    return this.getEventsForDateRange(userId, date, date);
   }
 
   async checkAvailability(userId: string, query: AvailabilityQuery): Promise<{
@@ -123,18 +156,13 @@ export class CalendarContextService {
     events: DbEvent[];
     freeSlots: TimeSlot[];
   }> {
-    const events = await this.getEventsForDate(userId, query.date);
-
-    if (events.length === 0) {
-      return {
-        available: true,
-        events: [],
-        freeSlots: [{ start: '00:00:00', end: '23:59:59' }],
-      };
-    }
+    const [events, hours] = await Promise.all([
+      this.getEventsForDate(userId, query.date),
+      this.getAvailabilityHours(userId),
+    ]);
 
     const busySlots = this.extractBusySlots(events);
-    const freeSlots = this.calculateFreeSlots(busySlots, query.date);
+    const freeSlots = this.calculateFreeSlots(busySlots, query.date, hours);
 
     if (!query.startTime || !query.endTime) {
       return {
@@ -160,12 +188,138 @@ export class CalendarContextService {
     };
   }
 
+  /**
+   * Ranked times across a date range when the user and the given family
+   * members are all free: inside everybody's hours, clear of their events
+   * by the user's buffer (a longer one around events with a location).
+   * Earlier days, times near the preferred one and slots with room to spare
+   * rank higher. Returned slots don't overlap.
+   */
+  async findAvailableSlots(userId: string, query: SlotSearchQuery): Promise<CandidateSlot[]> {
+    const { startDate, durationMinutes } = query;
+    const endDate = query.endDate ?? RecurrenceRule.addDays(startDate, DEFAULT_SEARCH_DAYS - 1);
+    const participants = (query.participants ?? []).map(p => p.trim().toLowerCase()).filter(Boolean);
+
+    const [hours, events] = await Promise.all([
+      this.getAvailabilityHours(userId, participants),
+      // From the day before for overnight events running into the range
+      this.getEventsForDateRange(userId, RecurrenceRule.addDays(startDate, -1), endDate),
+    ]);
+
+    const busy = events
+      .filter(event => event.id !== query.excludeEventId && this.blocksParticipants(event, participants))
+      .map(event => this.busyInterval(event, startDate, hours))
+      .filter((interval): interval is Interval => interval !== null);
+
+    const now = TimeZone.utcToZoned(Date.now(), TimeZone.local());
+    const earliest = RecurrenceRule.daysBetween(startDate, now.date) * 1440 + this.timeToMinutes(now.time);
+    const preferred = query.preferredTime ? this.timeToMinutes(query.preferredTime) : null;
+
+    const candidates: { slot: CandidateSlot; interval: Interval }[] = [];
+    const days = RecurrenceRule.daysBetween(startDate, endDate);
+
+    for (let day = 0; day <= days; day++) {
+      const open = { start: Math.max(day * 1440 + hours.dayStart, earliest), end: day * 1440 + hours.dayEnd };
+
+      for (const gap of this.subtractIntervals(open, busy)) {
+        const starts = new Set<number>();
+        const firstStart = Math.ceil(gap.start / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+        for (let start = firstStart; start + durationMinutes <= gap.end; start += SLOT_STEP_MINUTES) {
+          starts.add(start);
+        }
+        if (preferred !== null) {
+          const start = day * 1440 + preferred;
+          if (start >= gap.start && start + durationMinutes <= gap.end) starts.add(start);
+        }
+
+        for (const start of starts) {
+          candidates.push({
+            slot: {
+              date: RecurrenceRule.addDays(startDate, day),
+              start: this.minutesToTime(start),
+              end: this.minutesToTime(start + durationMinutes),
+              score: this.scoreSlot(day, start, durationMinutes, gap, preferred),
+            },
+            interval: { start, end: start + durationMinutes },
+          });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.slot.score - a.slot.score || a.interval.start - b.interval.start);
+
+    const picked: { slot: CandidateSlot; interval: Interval }[] = [];
+    for (const candidate of candidates) {
+      if (picked.length >= (query.limit ?? DEFAULT_SLOT_LIMIT)) break;
+      const { interval } = candidate;
+      if (picked.some(p => interval.start < p.interval.end && interval.end > p.interval.start)) continue;
+      picked.push(candidate);
+    }
+
+    return picked.map(candidate => candidate.slot);
+  }
+
+  /**
+   * The hours free time is searched in: the user's, narrowed to the hours
+   * of any family member named in `participants`
+   */
+  async getAvailabilityHours(userId: string, participants: string[] = []): Promise<AvailabilityHours> {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('day_start_time, day_end_time, event_buffer_minutes, travel_buffer_minutes')
+      .eq('id', userId)
+      .maybeSingle();
+
+    const hours: AvailabilityHours = {
+      dayStart: profile?.day_start_time ? this.timeToMinutes(profile.day_start_time) : DEFAULT_HOURS.dayStart,
+      dayEnd: profile?.day_end_time ? this.timeToMinutes(profile.day_end_time) : DEFAULT_HOURS.dayEnd,
+      bufferMinutes: profile?.event_buffer_minutes ?? DEFAULT_HOURS.bufferMinutes,
+      travelBufferMinutes: profile?.travel_buffer_minutes ?? DEFAULT_HOURS.travelBufferMinutes,
+    };
+
+    if (participants.length === 0) return hours;
+
+    const { data: members } = await supabase
+      .from('family_members')
+      .select('name, day_start_time, day_end_time')
+      .eq('user_id', userId);
+
+    for (const member of members || []) {
+      if (!participants.includes(member.name.trim().toLowerCase())) continue;
+      if (member.day_start_time) hours.dayStart = Math.max(hours.dayStart, this.timeToMinutes(member.day_start_time));
+      if (member.day_end_time) hours.dayEnd = Math.min(hours.dayEnd, this.timeToMinutes(member.day_end_time));
+    }
+
+    return hours;
+  }
+
+  /**
+   * The user's home timezone, for events that don't name their own and for
+   * reading "today" and "tomorrow". Taken from this browser and saved to the
+   * profile the first time it's needed.
+   */
+  async getTimeZone(userId: string): Promise<string> {
+    const { data } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (TimeZone.isValid(data?.timezone)) return data.timezone;
+
+    const timeZone = TimeZone.local();
+    await supabase.from('profiles').update({ timezone: timeZone }).eq('id', userId);
+    return timeZone;
+  }
+
   async checkConflicts(
     userId: string,
     date: string,
     startTime: string | null,
     endTime: string | null,
-    excludeEventId?: string
+    excludeEventId?: string,
+    location?: string | null,
+    title?: string
   ): Promise<ConflictCheck> {
     const events = await this.getEventsForDate(userId, date);
     const relevantEvents = events.filter(e => e.id !== excludeEventId);
@@ -175,9 +329,16 @@ export class CalendarContextService {
         hasConflict: false,
         conflictingEvents: [],
         suggestions: [],
+        travelWarnings: [],
       };
     }
 
+    const travelWarnings = await travelTimeService.checkTravel(
+      userId,
+      { id: excludeEventId, title, event_date: date, start_time: startTime, end_time: endTime, location },
+      relevantEvents
+    );
+
     const newStart = this.timeToMinutes(startTime);
     const newEnd = endTime ? this.timeToMinutes(endTime) : newStart + 60;
 
@@ -197,6 +358,7 @@ export class CalendarContextService {
         hasConflict: false,
         conflictingEvents: [],
         suggestions: [],
+        travelWarnings,
       };
     }
 
@@ -208,6 +370,7 @@ export class CalendarContextService {
       hasConflict: true,
       conflictingEvents,
       suggestions,
+      travelWarnings,
     };
   }
 
@@ -262,14 +425,15 @@ export class CalendarContextService {
       .sort((a, b) => this.timeToMinutes(a.start) - this.timeToMinutes(b.start));
   }
 
-  private calculateFreeSlots(busySlots: TimeSlot[], date: string): TimeSlot[] {
+  private calculateFreeSlots(busySlots: TimeSlot[], date: string, hours: AvailabilityHours = DEFAULT_HOURS): TimeSlot[] {
+    const workDayStart = this.minutesToTime(hours.dayStart);
+    const workDayEnd = this.minutesToTime(hours.dayEnd);
+
     if (busySlots.length === 0) {
-      return [{ start: '08:00:00', end: '20:00:00' }];
+      return [{ start: workDayStart, end: workDayEnd }];
     }
 
     const freeSlots: TimeSlot[] = [];
-    const workDayStart = '08:00:00';
-    const workDayEnd = '20:00:00';
 
     const firstBusyStart = busySlots[0].start;
     if (this.timeToMinutes(firstBusyStart) > this.timeToMinutes(workDayStart)) {
@@ -295,6 +459,72 @@ export class CalendarContextService {
     );
   }
 
+  /**
+   * With participants named, only events that involve one of them or
+   * nobody in particular (the user's own) get in the way
+   */
+  private blocksParticipants(event: DbEvent, participants: string[]): boolean {
+    if (participants.length === 0 || !event.participants?.length) return true;
+    return event.participants.some(name => participants.includes(name.trim().toLowerCase()));
+  }
+
+  /**
+   * Time an event keeps the user busy, buffer included, in minutes from
+   * midnight of `rangeStart` on this device's clock. All-day events don't
+   * make anyone busy.
+   */
+  private busyInterval(event: DbEvent, rangeStart: string, hours: AvailabilityHours): Interval | null {
+    if (!event.start_time) return null;
+
+    let lastDay = event.end_date ?? event.event_date;
+    if (!event.end_date && event.end_time && event.end_time.slice(0, 5) < event.start_time.slice(0, 5)) {
+      lastDay = RecurrenceRule.addDays(event.event_date, 1);
+    }
+
+    const start = this.toLocalClock(event, event.event_date, event.start_time);
+    const end = event.end_time ? this.toLocalClock(event, lastDay, event.end_time) : null;
+
+    const startMinutes = RecurrenceRule.daysBetween(rangeStart, start.date) * 1440 + this.timeToMinutes(start.time);
+    const endMinutes = end
+      ? RecurrenceRule.daysBetween(rangeStart, end.date) * 1440 + this.timeToMinutes(end.time)
+      : startMinutes + 60;
+    const buffer = event.location ? hours.travelBufferMinutes : hours.bufferMinutes;
+
+    return { start: startMinutes - buffer, end: endMinutes + buffer };
+  }
+
+  private toLocalClock(event: DbEvent, date: string, time: string): { date: string; time: string } {
+    const local = TimeZone.local();
+    if (!TimeZone.isValid(event.timezone) || event.timezone === local) return { date, time };
+    return TimeZone.utcToZoned(TimeZone.zonedToUtc(date, time, event.timezone), local);
+  }
+
+  // Parts of `range` not covered by any of `busy`
+  private subtractIntervals(range: Interval, busy: Interval[]): Interval[] {
+    const gaps: Interval[] = [];
+    let cursor = range.start;
+
+    for (const interval of [...busy].sort((a, b) => a.start - b.start)) {
+      if (interval.end <= cursor) continue;
+      if (interval.start >= range.end) break;
+      if (interval.start > cursor) gaps.push({ start: cursor, end: interval.start });
+      cursor = Math.max(cursor, interval.end);
+    }
+
+    if (cursor < range.end) gaps.push({ start: cursor, end: range.end });
+    return gaps;
+  }
+
+  private scoreSlot(day: number, start: number, durationMinutes: number, gap: Interval, preferred: number | null): number {
+    let score = 100 - day * 5;
+    if (preferred !== null) {
+      score -= Math.abs((start % 1440) - preferred) / 15;
+    }
+    // Room to spare on both sides makes a slot easier to keep
+    const slack = Math.min(start - gap.start, gap.end - start - durationMinutes, 60);
+    return Math.round((score + slack / 10) * 10) / 10;
+  }
+
   private generateContextSummary(todayEvents: DbEvent[], upcomingEvents: DbEvent[], today: string): string {
     const parts: string[] = [];
 
@@ -365,6 +595,12 @@ export class CalendarContextService {
     return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}:00`;
   }
 
+  // Minutes past the midnight of some day to that day's HH:MM:SS
+  private minutesToTime(minutes: number): string {
+    const inDay = ((minutes % 1440) + 1440) % 1440;
+    return `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}:00`;
+  }
+
   private formatTime(time: string): string {
     const [hours, minutes] = time.split(':').map(Number);
     const period = hours >= 12 ? 'PM' : 'AM';
@@ -372,6 +608,19 @@ export class CalendarContextService {
     return `${displayHours}:${String(minutes).padStart(2, '0')} ${period}`;
   }
 
+  formatSlot(slot: CandidateSlot): string {
+    const date = new Date(`${slot.date}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+    return `${date}, ${this.formatTime(slot.start)} - ${this.formatTime(slot.end)}`;
+  }
+
+  formatSlotsAsNaturalLanguage(slots: CandidateSlot[]): string {
+    return slots.map((slot, index) => `${index + 1}. ${this.formatSlot(slot)}`).join('\n');
+  }
+
   formatEventsAsNaturalLanguage(events: DbEvent[]): string {
     if (events.length === 0) {
       return 'You have no events.';
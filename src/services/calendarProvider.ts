@@ -5,12 +5,19 @@ export type ProviderKind = 'local' | 'google';
 export interface CalendarEventInput {
 title: string;
 date: string; // YYYY-MM-DD
+end_date?: string | null; // YYYY-MM-DD last day of a multi-day or overnight event
 start_time?: string | null; // HH:MM:SS
 end_time?: string | null; // HH:MM:SS
 location?: string | null;
 participants?: string[] | null;
 type?: string | null; // e.g., 'other'
 source?: string | null; // e.g., 'ai'
+description?: string | null;
+recurrence_rule?: string | null; // RRULE body
+recurrence_exceptions?: string[] | null; // YYYY-MM-DD
+recurrence_parent_id?: string | null; // set for an override of one occurrence
+recurrence_original_date?: string | null; // YYYY-MM-DD
+external_uid?: string | null; // iCalendar UID, dedupes re-imports
 }
 
 export interface CalendarCreateResult {
@@ -18,6 +25,7 @@ id: string;
 externalId?: string;
 provider: ProviderKind;
 raw?: any;
+duplicate?: boolean; // an existing row matched and nothing was inserted
 }
 
 export interface ICalendarProvider {
@@ -46,19 +54,38 @@ const participants = Array.isArray(event.participants) ? event.participants.map(
 const event_type = event.type ?? 'other';
 const source = event.source ?? 'ai';
 
-// Dedupe: same user + title + date (case-insensitive)
+// Dedupe: same external UID (and overridden occurrence), then same user + title + date (case-insensitive)
 try {
-  const { data: rows, error: selErr } = await supabase
-    .from('events')
-    .select('id, title, event_date')
-    .eq('user_id', userId)
-    .eq('event_date', event_date)
-    .ilike('title', title)
-    .limit(1);
-
-  if (!selErr && rows && rows.length > 0) {
-    const found = rows[0];
-    return { id: found.id as string, provider: 'local', raw: found };
+  if (event.external_uid) {
+    let uidQuery = supabase
+      .from('events')
+      .select('id, title, event_date')
+      .eq('user_id', userId)
+      .eq('external_uid', event.external_uid);
+    uidQuery = event.recurrence_original_date
+      ? uidQuery.eq('recurrence_original_date', event.recurrence_original_date)
+      : uidQuery.is('recurrence_original_date', null);
+
+    const { data: uidRows, error: uidErr } = await uidQuery.limit(1);
+    if (!uidErr && uidRows && uidRows.length > 0) {
+      return { id: uidRows[0].id as string, provider: 'local', raw: uidRows[0], duplicate: true };
+    }
+  }
+
+  // Overrides only ever match on UID; their title often repeats the series
+  if (!event.recurrence_parent_id) {
+    const { data: rows, error: selErr } = await supabase
+      .from('events')
+      .select('id, title, event_date')
+      .eq('user_id', userId)
+      .eq('event_date', event_date)
+      .ilike('title', title)
+      .limit(1);
+
+    if (!selErr && rows && rows.length > 0) {
+      const found = rows[0];
+      return { id: found.id as string, provider: 'local', raw: found, duplicate: true };
+    }
   }
 } catch (_e) {
   // Non-fatal; continue to attempt insert
@@ -76,6 +103,20 @@ const payload: any = {
   source,
 };
 
+// Optional columns are only sent when set so plain inserts stay unchanged
+const optional = {
+  description: event.description,
+  end_date: event.end_date,
+  recurrence_rule: event.recurrence_rule,
+  recurrence_exceptions: event.recurrence_exceptions,
+  recurrence_parent_id: event.recurrence_parent_id,
+  recurrence_original_date: event.recurrence_original_date,
+  external_uid: event.external_uid,
+};
+for (const [key, value] of Object.entries(optional)) {
+  if (value !== undefined && value !== null) payload[key] = value;
+}
+
 const { data, error } = await supabase.from('events').insert([payload]).select('*').single();
 if (error) {
   throw new Error(error.message || 'Failed to create local event.');
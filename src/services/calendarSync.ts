@@ -1,6 +1,9 @@
 import { supabase } from '../lib/supabase';
-import type { Event } from '../lib/supabase';
-import { googleCalendarService, GoogleCalendarEvent } from './googleCalendar';
+import type { ConflictPolicy, SyncField, SyncSnapshot } from '../../supabase/functions/_shared/calendarSync';
+
+// Hashing, merging and mapping are shared with the calendar-sync-scheduler function
+export { CalendarSync, SYNC_FIELDS } from '../../supabase/functions/_shared/calendarSync';
+export type { ConflictPolicy, SnapshotMerge, SyncField, SyncSnapshot } from '../../supabase/functions/_shared/calendarSync';
 
 // Types for sync system
 export interface SyncMapping {
@@ -8,12 +11,14 @@ export interface SyncMapping {
   user_id: string;
   local_event_id: string | null;
   google_event_id: string;
+  google_calendar_id: string; // calendar holding the Google copy
   sync_status: 'synced' | 'pending' | 'error';
   last_synced_at: string;
   local_hash: string | null;
   google_hash: string | null;
   sync_direction: 'bidirectional' | 'local_to_google' | 'google_to_local';
   error_message: string | null;
+  synced_snapshot: SyncSnapshot | null; // field values both sides agreed on at the last sync
   created_at: string;
   updated_at: string;
 }
@@ -23,9 +28,13 @@ export interface SyncConflict {
   user_id: string;
   local_event_id: string | null;
   google_event_id: string;
+  google_calendar_id: string;
   conflict_type: 'modification' | 'deletion';
+  deleted_side: 'local' | 'google' | null; // set on deletion conflicts
   local_event_data: any;
   google_event_data: any;
+  conflicting_fields: SyncField[] | null;
+  merged_event_data: SyncSnapshot | null;
   local_modified_at: string | null;
   google_modified_at: string | null;
   detected_at: string;
@@ -38,7 +47,7 @@ export interface SyncConflict {
 export interface SyncLog {
   id: string;
   user_id: string;
-  sync_operation: 'full_sync' | 'event_create' | 'event_update' | 'event_delete';
+  sync_operation: 'full_sync' | 'incremental_sync' | 'event_create' | 'event_update' | 'event_delete';
   sync_direction: 'local_to_google' | 'google_to_local' | 'bidirectional';
   status: 'in_progress' | 'completed' | 'failed';
   events_processed: number;
@@ -61,7 +70,14 @@ export interface UserSyncPreferences {
   auto_resolve_conflicts: boolean;
   last_sync_at: string | null;
   last_successful_sync_at: string | null;
-  sync_calendar_ids: string[];
+  sync_calendar_ids: string[]; // Google calendars imported
+  write_calendar_id: string | null; // Google calendar new local events are created in
+  sync_tokens: Record<string, string> | null; // Google nextSyncToken per calendar id
+  last_full_sync_at: string | null;
+  conflict_policy: ConflictPolicy | null; // used when auto_resolve_conflicts is on
+  next_sync_at: string | null; // next scheduled run, after any failure backoff; null means due
+  sync_lock_token: string | null; // holder of the sync lease
+  sync_lock_expires_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -77,136 +93,8 @@ export interface SyncResult {
   errors: string[];
 }
 
-// Event change detection with hash generation
+// Sync preferences, logs, mappings and conflicts
 export class CalendarSyncService {
-  /**
-   * Generate a hash for an event to detect changes
-   */
-  generateEventHash(event: Event | GoogleCalendarEvent): string {
-    // For local events
-    if ('event_date' in event) {
-      const data = {
-        title: event.title,
-        description: event.description,
-        event_date: event.event_date,
-        start_time: event.start_time,
-        end_time: event.end_time,
-        location: event.location,
-        participants: event.participants,
-        event_type: event.event_type,
-      };
-      return this.simpleHash(JSON.stringify(data));
-    }
-
-    // For Google Calendar events
-    const data = {
-      summary: event.summary,
-      description: event.description,
-      start: event.start,
-      end: event.end,
-      location: event.location,
-      attendees: event.attendees,
-    };
-    return this.simpleHash(JSON.stringify(data));
-  }
-
-  /**
-   * Simple hash function for change detection
-   */
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return hash.toString(36);
-  }
-
-  /**
-   * Convert Google Calendar event to local event format
-   */
-  googleEventToLocal(googleEvent: GoogleCalendarEvent, userId: string): Partial<Event> {
-    // Extract date and time from Google Calendar event
-    let event_date = '';
-    let start_time = null;
-    let end_time = null;
-
-    if (googleEvent.start?.date) {
-      // All-day event
-      event_date = googleEvent.start.date;
-    } else if (googleEvent.start?.dateTime) {
-      const startDateTime = new Date(googleEvent.start.dateTime);
-      event_date = startDateTime.toISOString().split('T')[0];
-      start_time = startDateTime.toTimeString().split(' ')[0];
-
-      if (googleEvent.end?.dateTime) {
-        const endDateTime = new Date(googleEvent.end.dateTime);
-        end_time = endDateTime.toTimeString().split(' ')[0];
-      }
-    }
-
-    return {
-      user_id: userId,
-      title: googleEvent.summary || 'Untitled Event',
-      description: googleEvent.description || null,
-      event_date,
-      start_time,
-      end_time,
-      location: googleEvent.location || null,
-      participants: googleEvent.attendees?.map(a => a.email || a.displayName || '') || null,
-      event_type: 'other',
-      source: 'google',
-    };
-  }
-
-  /**
-   * Convert local event to Google Calendar event format
-   */
-  localEventToGoogle(localEvent: Event): Partial<GoogleCalendarEvent> {
-    const googleEvent: Partial<GoogleCalendarEvent> = {
-      summary: localEvent.title,
-      description: localEvent.description || undefined,
-      location: localEvent.location || undefined,
-    };
-
-    // Set start and end times
-    if (localEvent.start_time) {
-      googleEvent.start = {
-        dateTime: `${localEvent.event_date}T${localEvent.start_time}`,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      };
-
-      if (localEvent.end_time) {
-        googleEvent.end = {
-          dateTime: `${localEvent.event_date}T${localEvent.end_time}`,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        };
-      }
-    } else {
-      // All-day event
-      googleEvent.start = {
-        date: localEvent.event_date,
-      };
-
-      const nextDay = new Date(localEvent.event_date);
-      nextDay.setDate(nextDay.getDate() + 1);
-      googleEvent.end = {
-        date: nextDay.toISOString().split('T')[0],
-      };
-    }
-
-    // Add attendees if any
-    if (localEvent.participants && localEvent.participants.length > 0) {
-      googleEvent.attendees = localEvent.participants.map(p => ({
-        email: p.includes('@') ? p : undefined,
-        displayName: !p.includes('@') ? p : undefined,
-      }));
-    }
-
-    return googleEvent;
-  }
-
   /**
    * Get or create user sync preferences
    */
@@ -234,6 +122,7 @@ export class CalendarSyncService {
             sync_direction: 'bidirectional',
             auto_resolve_conflicts: false,
             sync_calendar_ids: ['primary'],
+            write_calendar_id: 'primary',
           }])
           .select()
           .single();
@@ -345,6 +234,30 @@ export class CalendarSyncService {
     }
   }
 
+  /**
+   * Most recent sync logs for a user, newest first
+   */
+  async getRecentSyncLogs(userId: string, limit = 10): Promise<SyncLog[]> {
+    try {
+      const { data, error } = await supabase
+        .from('calendar_sync_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching sync logs:', error);
+        return [];
+      }
+
+      return data as SyncLog[];
+    } catch (error) {
+      console.error('Error in getRecentSyncLogs:', error);
+      return [];
+    }
+  }
+
   /**
    * Get all sync mappings for a user
    */
@@ -394,12 +307,17 @@ export class CalendarSyncService {
   /**
    * Get sync mapping by Google event ID
    */
-  async getSyncMappingByGoogleId(userId: string, googleEventId: string): Promise<SyncMapping | null> {
+  async getSyncMappingByGoogleId(
+    userId: string,
+    googleEventId: string,
+    calendarId = 'primary'
+  ): Promise<SyncMapping | null> {
     try {
       const { data, error } = await supabase
         .from('calendar_sync_mappings')
         .select('*')
         .eq('user_id', userId)
+        .eq('google_calendar_id', calendarId)
         .eq('google_event_id', googleEventId)
         .maybeSingle();
 
@@ -426,7 +344,7 @@ export class CalendarSyncService {
           ...mapping,
           updated_at: new Date().toISOString(),
         }, {
-          onConflict: 'user_id,google_event_id'
+          onConflict: 'user_id,google_calendar_id,google_event_id'
         });
 
       if (error) {
@@ -441,6 +359,28 @@ export class CalendarSyncService {
     }
   }
 
+  /**
+   * Delete a sync mapping once neither side has the event any more
+   */
+  async deleteSyncMapping(mappingId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('calendar_sync_mappings')
+        .delete()
+        .eq('id', mappingId);
+
+      if (error) {
+        console.error('Error deleting sync mapping:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteSyncMapping:', error);
+      return false;
+    }
+  }
+
   /**
    * Get all pending conflicts for a user
    */
@@ -0,0 +1,443 @@
+import { supabase } from '../lib/supabase';
+import type {
+  Carpool,
+  CarpoolDriver,
+  Contact,
+  Event as DbEvent,
+  EventAction,
+  FamilyMember,
+  RideDirection,
+} from '../lib/supabase';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+
+/**
+ * Who drives: a family member or a contact (another parent)
+ */
+export interface DriverRef {
+  family_member_id?: string | null;
+  contact_id?: string | null;
+}
+
+export interface RideLeg {
+  action: EventAction;
+  event: DbEvent; // the occurrence, with event_date set to the leg's date
+  direction: RideDirection;
+  time: string | null; // HH:MM:SS drop-off (start) or pickup (end) time
+  driverName: string | null;
+}
+
+export interface RunSheet {
+  driverKey: string; // 'member:<id>', 'contact:<id>' or 'unassigned'
+  driverName: string;
+  phone: string | null;
+  legs: RideLeg[];
+}
+
+export interface NewCarpool {
+  event_id: string;
+  name: string;
+  directions: RideDirection[];
+  passengers: string[];
+  start_date: string;
+  drivers: DriverRef[]; // in rotation order
+}
+
+// How far ahead rotating carpools fill in legs
+const GENERATE_DAYS = 28;
+
+export class CarpoolService {
+  /**
+   * Mark one direction of an event occurrence as needing a driver. Asking
+   * again for a leg that exists returns it unchanged, or reopens it if it
+   * was cancelled.
+   */
+  async requestRide(
+    userId: string,
+    occurrence: DbEvent,
+    direction: RideDirection,
+    passengers?: string[]
+  ): Promise<EventAction> {
+    const existing = await this.findLeg(occurrence.id, occurrence.event_date, direction);
+    if (existing?.action_status === 'cancelled') return this.assignDriver(existing.id, null);
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('event_actions')
+      .insert([{
+        user_id: userId,
+        event_id: occurrence.id,
+        action_type: 'schedule_ride',
+        action_status: 'pending',
+        due_date: occurrence.event_date,
+        ride_direction: direction,
+        passengers: passengers ?? occurrence.participants ?? [],
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Hand a leg to a driver, or pass null to put it back up for grabs
+   */
+  async assignDriver(legId: string, driver: DriverRef | null): Promise<EventAction> {
+    const { data, error } = await supabase
+      .from('event_actions')
+      .update({
+        driver_family_member_id: driver?.family_member_id ?? null,
+        driver_contact_id: driver?.contact_id ?? null,
+        action_status: driver ? 'completed' : 'pending',
+      })
+      .eq('id', legId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * The leg is kept as cancelled so a carpool doesn't fill it in again
+   */
+  async cancelRide(legId: string): Promise<void> {
+    const { error } = await supabase
+      .from('event_actions')
+      .update({ action_status: 'cancelled', driver_family_member_id: null, driver_contact_id: null })
+      .eq('id', legId);
+
+    if (error) throw error;
+  }
+
+  async getLegs(userId: string, startDate: string, endDate: string): Promise<RideLeg[]> {
+    const { data: actions, error } = await supabase
+      .from('event_actions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('action_type', 'schedule_ride')
+      .neq('action_status', 'cancelled')
+      .gte('due_date', startDate)
+      .lte('due_date', endDate);
+
+    if (error) {
+      console.error('Error loading ride legs:', error);
+      return [];
+    }
+    if (!actions || actions.length === 0) return [];
+
+    const eventIds = [...new Set(actions.map(a => a.event_id))];
+    const [{ data: events }, members, contacts] = await Promise.all([
+      supabase.from('events').select('*').in('id', eventIds),
+      this.getFamilyMembers(userId),
+      this.getContacts(userId),
+    ]);
+
+    const eventsById = new Map((events || []).map((e: DbEvent) => [e.id, e]));
+    const legs: RideLeg[] = [];
+
+    for (const action of actions as EventAction[]) {
+      const event = eventsById.get(action.event_id);
+      if (!event || !action.ride_direction) continue;
+
+      legs.push({
+        action,
+        event: { ...event, event_date: action.due_date || event.event_date },
+        direction: action.ride_direction,
+        time: action.ride_direction === 'to' ? event.start_time ?? null : event.end_time ?? null,
+        driverName: this.driverName(action, members, contacts),
+      });
+    }
+
+    return legs.sort((a, b) => {
+      if (a.event.event_date !== b.event.event_date) return a.event.event_date < b.event.event_date ? -1 : 1;
+      return (a.time || '99').localeCompare(b.time || '99');
+    });
+  }
+
+  /**
+   * A day's legs grouped by driver, legs still needing a driver first
+   */
+  async getRunSheets(userId: string, date: string): Promise<RunSheet[]> {
+    const [legs, members, contacts] = await Promise.all([
+      this.getLegs(userId, date, date),
+      this.getFamilyMembers(userId),
+      this.getContacts(userId),
+    ]);
+
+    const sheets = new Map<string, RunSheet>();
+    for (const leg of legs) {
+      const key = this.driverKey(leg.action);
+      if (!sheets.has(key)) {
+        const contact = contacts.find(c => c.id === leg.action.driver_contact_id);
+        sheets.set(key, {
+          driverKey: key,
+          driverName: this.driverName(leg.action, members, contacts) ?? 'Needs a driver',
+          phone: contact?.phone ?? null,
+          legs: [],
+        });
+      }
+      sheets.get(key)!.legs.push(leg);
+    }
+
+    return [...sheets.values()].sort((a, b) => {
+      if (a.driverKey === 'unassigned') return -1;
+      if (b.driverKey === 'unassigned') return 1;
+      return a.driverName.localeCompare(b.driverName);
+    });
+  }
+
+  async getCarpools(userId: string): Promise<Carpool[]> {
+    const { data, error } = await supabase
+      .from('carpools')
+      .select('*, carpool_drivers(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading carpools:', error);
+      return [];
+    }
+
+    return (data || []).map((carpool: Carpool) => ({
+      ...carpool,
+      carpool_drivers: [...(carpool.carpool_drivers || [])].sort((a, b) => a.position - b.position),
+    }));
+  }
+
+  async createCarpool(userId: string, input: NewCarpool): Promise<Carpool> {
+    if (input.drivers.length === 0) {
+      throw new Error('A carpool needs at least one driver.');
+    }
+
+    const { data: carpool, error } = await supabase
+      .from('carpools')
+      .insert([{
+        user_id: userId,
+        event_id: input.event_id,
+        name: input.name,
+        directions: input.directions,
+        passengers: input.passengers,
+        start_date: input.start_date,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { data: drivers, error: driversError } = await supabase
+      .from('carpool_drivers')
+      .insert(input.drivers.map((driver, position) => ({
+        user_id: userId,
+        carpool_id: carpool.id,
+        family_member_id: driver.family_member_id ?? null,
+        contact_id: driver.contact_id ?? null,
+        position,
+      })))
+      .select();
+
+    if (driversError) throw driversError;
+
+    const created: Carpool = { ...carpool, carpool_drivers: drivers || [] };
+    await this.generateAssignments(userId, created);
+    return created;
+  }
+
+  /**
+   * Delete a carpool along with the legs it planned from today on; past
+   * legs stay as a record of who drove
+   */
+  async deleteCarpool(carpoolId: string): Promise<void> {
+    const today = NaturalDate.today();
+
+    const { error: legsError } = await supabase
+      .from('event_actions')
+      .delete()
+      .eq('carpool_id', carpoolId)
+      .gte('due_date', today);
+
+    if (legsError) throw legsError;
+
+    const { error } = await supabase
+      .from('carpools')
+      .delete()
+      .eq('id', carpoolId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Fill in every active carpool's legs for the coming weeks
+   */
+  async generateUpcoming(userId: string): Promise<number> {
+    const carpools = await this.getCarpools(userId);
+    let assigned = 0;
+
+    for (const carpool of carpools.filter(c => c.active !== false)) {
+      try {
+        assigned += await this.generateAssignments(userId, carpool);
+      } catch (error) {
+        console.error(`Error generating legs for carpool ${carpool.id}:`, error);
+      }
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Give each occurrence of the carpool's event to the next driver in the
+   * rotation, counting occurrences from the carpool's start date so the
+   * order survives regenerating. Legs that already have a driver, including
+   * swaps made by hand, are left alone. Returns how many legs were assigned.
+   */
+  async generateAssignments(userId: string, carpool: Carpool, throughDate?: string): Promise<number> {
+    const drivers = [...(carpool.carpool_drivers || [])].sort((a, b) => a.position - b.position);
+    if (drivers.length === 0) return 0;
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', carpool.event_id)
+      .single();
+
+    if (error || !event) {
+      console.error('Error loading carpool event:', error);
+      return 0;
+    }
+
+    const today = NaturalDate.today();
+    const from = carpool.start_date > today ? carpool.start_date : today;
+    const through = throughDate ?? RecurrenceRule.addDays(today, GENERATE_DAYS);
+
+    const dates = event.recurrence_rule
+      ? RecurrenceRule.expand(event.recurrence_rule, event.event_date, from, through, event.recurrence_exceptions ?? [])
+      : [event.event_date].filter(date => date >= from && date <= through);
+    if (dates.length === 0) return 0;
+
+    const { data: existing } = await supabase
+      .from('event_actions')
+      .select('*')
+      .eq('event_id', event.id)
+      .eq('action_type', 'schedule_ride')
+      .gte('due_date', from)
+      .lte('due_date', through);
+
+    const legsByKey = new Map(
+      (existing || []).map((leg: EventAction) => [`${leg.due_date}|${leg.ride_direction}`, leg])
+    );
+    const firstTurn = event.recurrence_rule
+      ? RecurrenceRule.countBefore(event.recurrence_rule, event.event_date, carpool.start_date)
+      : 0;
+
+    let assigned = 0;
+
+    for (const date of dates) {
+      const turn = event.recurrence_rule
+        ? RecurrenceRule.countBefore(event.recurrence_rule, event.event_date, date) - firstTurn
+        : 0;
+      const driver = drivers[((turn % drivers.length) + drivers.length) % drivers.length];
+
+      for (const direction of carpool.directions) {
+        const leg = legsByKey.get(`${date}|${direction}`);
+        if (leg && (leg.driver_family_member_id || leg.driver_contact_id || leg.action_status === 'cancelled')) {
+          continue;
+        }
+
+        const fields = {
+          driver_family_member_id: driver.family_member_id ?? null,
+          driver_contact_id: driver.contact_id ?? null,
+          action_status: 'completed',
+          carpool_id: carpool.id,
+        };
+
+        const { error: saveError } = leg
+          ? await supabase.from('event_actions').update(fields).eq('id', leg.id)
+          : await supabase.from('event_actions').insert([{
+              ...fields,
+              user_id: userId,
+              event_id: event.id,
+              action_type: 'schedule_ride',
+              due_date: date,
+              ride_direction: direction,
+              passengers: carpool.passengers?.length ? carpool.passengers : event.participants ?? [],
+            }]);
+
+        if (saveError) {
+          console.error(`Error assigning ${direction} leg on ${date}:`, saveError);
+          continue;
+        }
+        assigned++;
+      }
+    }
+
+    return assigned;
+  }
+
+  driverKey(driver: Pick<EventAction, 'driver_family_member_id' | 'driver_contact_id'>): string {
+    if (driver.driver_family_member_id) return `member:${driver.driver_family_member_id}`;
+    if (driver.driver_contact_id) return `contact:${driver.driver_contact_id}`;
+    return 'unassigned';
+  }
+
+  parseDriverKey(key: string): DriverRef | null {
+    const [kind, id] = key.split(':');
+    if (kind === 'member' && id) return { family_member_id: id };
+    if (kind === 'contact' && id) return { contact_id: id };
+    return null;
+  }
+
+  describeDriver(driver: CarpoolDriver, members: FamilyMember[], contacts: Contact[]): string {
+    return this.driverName(
+      { driver_family_member_id: driver.family_member_id, driver_contact_id: driver.contact_id },
+      members,
+      contacts
+    ) ?? 'Unknown driver';
+  }
+
+  private driverName(
+    driver: Pick<EventAction, 'driver_family_member_id' | 'driver_contact_id'>,
+    members: FamilyMember[],
+    contacts: Contact[]
+  ): string | null {
+    if (driver.driver_family_member_id) {
+      return members.find(m => m.id === driver.driver_family_member_id)?.name ?? null;
+    }
+    if (driver.driver_contact_id) {
+      return contacts.find(c => c.id === driver.driver_contact_id)?.name ?? null;
+    }
+    return null;
+  }
+
+  private async findLeg(eventId: string, date: string, direction: RideDirection): Promise<EventAction | null> {
+    const { data } = await supabase
+      .from('event_actions')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('due_date', date)
+      .eq('ride_direction', direction)
+      .maybeSingle();
+
+    return data;
+  }
+
+  private async getFamilyMembers(userId: string): Promise<FamilyMember[]> {
+    const { data } = await supabase
+      .from('family_members')
+      .select('*')
+      .eq('user_id', userId);
+
+    return data || [];
+  }
+
+  private async getContacts(userId: string): Promise<Contact[]> {
+    const { data } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('user_id', userId);
+
+    return data || [];
+  }
+}
+
+export const carpoolService = new CarpoolService();
@@ -0,0 +1,231 @@
+import { supabase } from '../lib/supabase';
+import type { AssistantEntity, AssistantEntityType, AssistantMessage } from '../lib/supabase';
+import { openaiService } from './openai';
+
+export interface ConversationContext {
+  // Running summary of turns too old to send in full
+  summary: string | null;
+  recent: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export const HISTORY_PAGE_SIZE = 50;
+
+// Turns sent in full with each prompt
+const RECENT_TURNS = 10;
+// Once this many turns haven't been summarized, all but the recent ones are
+const SUMMARIZE_AFTER = 30;
+// How far back to look for what "it" last referred to
+const ENTITY_LOOKBACK = 20;
+
+/**
+ * Sara's memory of the text conversation: every turn is stored per user,
+ * older turns are folded into a summary so prompts stay small, and the
+ * last event, task, shopping item, family member and reminder a turn
+ * touched are kept so "move it to 4pm" knows what "it" is.
+ */
+export class ConversationMemoryService {
+  private lastEntities = new Map<string, Map<AssistantEntityType, AssistantEntity>>();
+
+  /** A page of the conversation, oldest first, ending before the given time */
+  async getHistory(userId: string, before?: string): Promise<AssistantMessage[]> {
+    let query = supabase
+      .from('assistant_messages')
+      .select('*')
+      .eq('user_id', userId)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE);
+
+    if (before) query = query.lt('created_at', before);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading assistant history:', error);
+      return [];
+    }
+
+    return (data || []).reverse();
+  }
+
+  /** What to send with the next prompt */
+  async getContext(userId: string): Promise<ConversationContext> {
+    const [{ data: summaries }, { data: recent }] = await Promise.all([
+      supabase
+        .from('assistant_messages')
+        .select('content')
+        .eq('user_id', userId)
+        .eq('role', 'summary')
+        .order('created_at', { ascending: false })
+        .limit(1),
+      supabase
+        .from('assistant_messages')
+        .select('role, content')
+        .eq('user_id', userId)
+        .in('role', ['user', 'assistant'])
+        .order('created_at', { ascending: false })
+        .limit(RECENT_TURNS),
+    ]);
+
+    return {
+      summary: summaries?.[0]?.content ?? null,
+      recent: ((recent || []) as ConversationContext['recent']).reverse(),
+    };
+  }
+
+  /** Store a user message and Sara's reply, with what the reply touched */
+  async record(userId: string, message: string, reply: string, entities: AssistantEntity[]): Promise<void> {
+    // Explicit times keep the reply after the message it answers
+    const at = Date.now();
+    const { error } = await supabase
+      .from('assistant_messages')
+      .insert([
+        { user_id: userId, role: 'user', content: message, created_at: new Date(at).toISOString() },
+        { user_id: userId, role: 'assistant', content: reply, entities, created_at: new Date(at + 1).toISOString() },
+      ]);
+
+    if (error) {
+      console.error('Error saving assistant conversation:', error);
+      return;
+    }
+
+    try {
+      await this.summarizeIfNeeded(userId);
+    } catch (summaryError) {
+      console.error('Error summarizing assistant conversation:', summaryError);
+    }
+  }
+
+  /** Remember what a turn created or changed, for later "it"s */
+  touch(userId: string, entities: AssistantEntity[]): void {
+    const latest = this.lastEntities.get(userId) ?? new Map<AssistantEntityType, AssistantEntity>();
+    for (const entity of entities) latest.set(entity.type, entity);
+    this.lastEntities.set(userId, latest);
+  }
+
+  /**
+   * Stop referring to something that's been deleted. It's also taken out of
+   * the stored turns, which the references are rebuilt from after a reload.
+   */
+  async forget(userId: string, entityId: string): Promise<void> {
+    const latest = this.lastEntities.get(userId);
+    if (latest) {
+      for (const [type, entity] of latest) {
+        if (entity.id === entityId) latest.delete(type);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('assistant_messages')
+      .select('id, entities')
+      .eq('user_id', userId)
+      .eq('role', 'assistant')
+      .contains('entities', [{ id: entityId }]);
+
+    if (error) {
+      console.error('Error forgetting assistant entity:', error);
+      return;
+    }
+
+    for (const row of data || []) {
+      const { error: updateError } = await supabase
+        .from('assistant_messages')
+        .update({ entities: (row.entities as AssistantEntity[]).filter(entity => entity.id !== entityId) })
+        .eq('id', row.id);
+
+      if (updateError) console.error('Error forgetting assistant entity:', updateError);
+    }
+  }
+
+  /** The last thing of a type the conversation touched */
+  async lastEntity(userId: string, type: AssistantEntityType): Promise<AssistantEntity | null> {
+    return (await this.loadEntities(userId)).get(type) ?? null;
+  }
+
+  /** The last thing of each type the conversation touched */
+  async recentEntities(userId: string): Promise<AssistantEntity[]> {
+    return Array.from((await this.loadEntities(userId)).values());
+  }
+
+  async clear(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('assistant_messages')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    this.lastEntities.delete(userId);
+  }
+
+  private async loadEntities(userId: string): Promise<Map<AssistantEntityType, AssistantEntity>> {
+    const cached = this.lastEntities.get(userId);
+    if (cached) return cached;
+
+    // First lookup since the page loaded: rebuild from the stored turns
+    const { data } = await supabase
+      .from('assistant_messages')
+      .select('entities')
+      .eq('user_id', userId)
+      .eq('role', 'assistant')
+      .order('created_at', { ascending: false })
+      .limit(ENTITY_LOOKBACK);
+
+    const latest = new Map<AssistantEntityType, AssistantEntity>();
+    for (const row of data || []) {
+      for (const entity of (row.entities || []) as AssistantEntity[]) {
+        if (!latest.has(entity.type)) latest.set(entity.type, entity);
+      }
+    }
+    this.lastEntities.set(userId, latest);
+    return latest;
+  }
+
+  /**
+   * Fold all but the recent turns into the running summary. Needs OpenAI;
+   * without it prompts just use the recent turns.
+   */
+  private async summarizeIfNeeded(userId: string): Promise<void> {
+    if (!openaiService.isConfigured()) return;
+
+    const { data: pending, error } = await supabase
+      .from('assistant_messages')
+      .select('id, role, content')
+      .eq('user_id', userId)
+      .in('role', ['user', 'assistant'])
+      .is('summarized_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    if (!pending || pending.length <= SUMMARIZE_AFTER) return;
+
+    const older = pending.slice(0, pending.length - RECENT_TURNS);
+    const { summary: previous } = await this.getContext(userId);
+
+    // Throws rather than handing back canned text, so a failed request
+    // leaves the turns unsummarized for the next try
+    const summary = await openaiService.complete([
+      {
+        role: 'system',
+        content: 'Summarize this conversation between a parent and Sara, their family organizer assistant, in under 150 words. Keep names, dates, decisions and anything the parent asked Sara to remember. Leave out greetings and small talk.'
+      },
+      {
+        role: 'user',
+        content: `${previous ? `Summary so far:\n${previous}\n\n` : ''}Conversation:\n${older.map(m => `${m.role}: ${m.content}`).join('\n')}`
+      }
+    ]);
+
+    const { error: insertError } = await supabase
+      .from('assistant_messages')
+      .insert([{ user_id: userId, role: 'summary', content: summary }]);
+
+    if (insertError) throw insertError;
+
+    const { error: markError } = await supabase
+      .from('assistant_messages')
+      .update({ summarized_at: new Date().toISOString() })
+      .in('id', older.map(m => m.id));
+
+    if (markError) throw markError;
+  }
+}
+
+export const conversationMemoryService = new ConversationMemoryService();
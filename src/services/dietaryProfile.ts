@@ -0,0 +1,35 @@
+import { supabase } from '../lib/supabase';
+import { Allergens } from '../utils/allergens';
+import type { DietaryProfile } from '../utils/allergens';
+
+const EMPTY_PROFILE: DietaryProfile = { restrictions: [], healthFilters: [] };
+
+/**
+ * Loads what the family needs to avoid, from family members' allergies and
+ * medical notes. Failures give an empty profile so shopping and recipes keep
+ * working without warnings rather than breaking.
+ */
+export class DietaryProfileService {
+  async getProfile(userId: string | undefined): Promise<DietaryProfile> {
+    if (!userId) return EMPTY_PROFILE;
+
+    const { data, error } = await supabase
+      .from('family_members')
+      .select('name, allergies, medical_notes')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error loading family allergies:', error);
+      return EMPTY_PROFILE;
+    }
+
+    return Allergens.profileFor(data || []);
+  }
+
+  async getCurrentProfile(): Promise<DietaryProfile> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return this.getProfile(user?.id);
+  }
+}
+
+export const dietaryProfileService = new DietaryProfileService();
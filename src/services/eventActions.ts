@@ -0,0 +1,165 @@
+import { supabase } from '../lib/supabase';
+import type { Event as DbEvent, EventAction, EventActionType } from '../lib/supabase';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+
+type EventKind = 'party' | 'school';
+
+interface ActionTemplate {
+  type: EventActionType;
+  daysBefore: number;
+  notes: string;
+  applies?: (event: DbEvent) => boolean;
+}
+
+// Suggested checklist per kind of event, due this many days before it
+const TEMPLATES: Record<EventKind, ActionTemplate[]> = {
+  party: [
+    {
+      type: 'rsvp',
+      daysBefore: 7,
+      notes: 'RSVP to the host',
+      applies: e => e.rsvp_status !== 'yes' && e.rsvp_status !== 'no',
+    },
+    { type: 'buy_gift', daysBefore: 3, notes: 'Buy and wrap a gift' },
+    { type: 'schedule_ride', daysBefore: 2, notes: 'Arrange a ride', applies: e => !!e.location },
+    { type: 'set_reminder', daysBefore: 1, notes: 'Remind everyone what to bring' },
+  ],
+  school: [
+    { type: 'rsvp', daysBefore: 5, notes: 'Reply to the school', applies: e => !!e.rsvp_required },
+    { type: 'schedule_ride', daysBefore: 2, notes: 'Arrange a ride', applies: e => !!e.location },
+    { type: 'set_reminder', daysBefore: 1, notes: 'Check forms, fees and what to bring' },
+  ],
+};
+
+const PARTY_WORDS = /\b(birthday|bday|party|celebration|shower)\b/i;
+const SCHOOL_WORDS = /\b(school|teacher|class|field trip|recital|parent[- ]teacher|conference|pta|open house|graduation)\b/i;
+
+const ACTION_LABELS: Record<EventActionType, string> = {
+  buy_gift: 'Buy a gift',
+  rsvp: 'RSVP',
+  schedule_ride: 'Arrange a ride',
+  set_reminder: 'Set a reminder',
+};
+
+export class EventActionService {
+  /**
+   * Add the suggested checklist for a party or school event. Action types
+   * the event already has are skipped, so calling this twice is harmless.
+   * Recurring, read-only and past events get nothing.
+   */
+  async suggestForEvent(event: DbEvent): Promise<EventAction[]> {
+    const kind = this.eventKind(event);
+    const today = NaturalDate.today();
+    if (!kind || !this.canSuggest(event)) return [];
+
+    try {
+      const existing = await this.getActions(event);
+      const existingTypes = new Set(existing.filter(a => !a.ride_direction).map(a => a.action_type));
+
+      const rows = TEMPLATES[kind]
+        .filter(template => !existingTypes.has(template.type))
+        .filter(template => !template.applies || template.applies(event))
+        .map(template => {
+          const due = RecurrenceRule.addDays(event.event_date, -template.daysBefore);
+          return {
+            user_id: event.user_id,
+            event_id: event.id,
+            action_type: template.type,
+            action_status: 'pending',
+            due_date: due < today ? today : due,
+            notes: template.notes,
+          };
+        });
+
+      if (rows.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('event_actions')
+        .insert(rows)
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error suggesting event actions:', error);
+      return [];
+    }
+  }
+
+  canSuggest(event: DbEvent): boolean {
+    const today = NaturalDate.today();
+    return !!this.eventKind(event) && !event.recurrence_rule && !event.feed_id && event.event_date >= today;
+  }
+
+  /**
+   * The event's checklist, ride legs included. For an occurrence of a
+   * series only the legs for that date are listed.
+   */
+  async getActions(event: Pick<DbEvent, 'id' | 'event_date' | 'recurrence_rule'>): Promise<EventAction[]> {
+    const { data, error } = await supabase
+      .from('event_actions')
+      .select('*')
+      .eq('event_id', event.id)
+      .neq('action_status', 'cancelled')
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Error loading event actions:', error);
+      return [];
+    }
+
+    return (data || []).filter((action: EventAction) =>
+      !action.ride_direction || !event.recurrence_rule || action.due_date === event.event_date
+    );
+  }
+
+  async setStatus(actionId: string, status: EventAction['action_status']): Promise<void> {
+    const { error } = await supabase
+      .from('event_actions')
+      .update({ action_status: status })
+      .eq('id', actionId);
+
+    if (error) throw error;
+  }
+
+  label(action: EventAction): string {
+    if (action.ride_direction) {
+      return action.ride_direction === 'to' ? 'Drop-off ride' : 'Pickup ride';
+    }
+    return action.notes?.trim() || ACTION_LABELS[action.action_type];
+  }
+
+  isOverdue(action: EventAction, today = NaturalDate.today()): boolean {
+    return action.action_status === 'pending' && !!action.due_date && action.due_date < today;
+  }
+
+  formatChecklist(event: DbEvent, actions: EventAction[]): string {
+    const pending = actions.filter(a => a.action_status === 'pending');
+    const done = actions.length - pending.length;
+
+    if (actions.length === 0) {
+      return `There's nothing on the checklist for ${event.title} (${event.event_date}).`;
+    }
+    if (pending.length === 0) {
+      return `You're all set for ${event.title} (${event.event_date}) - all ${done} item(s) are done! 🎉`;
+    }
+
+    const today = NaturalDate.today();
+    const lines = pending.map(action => {
+      const due = action.due_date ? ` (due ${action.due_date}${this.isOverdue(action, today) ? ', overdue' : ''})` : '';
+      return `• ${this.label(action)}${due}`;
+    });
+
+    return `Still to do for ${event.title} on ${event.event_date}:\n${lines.join('\n')}` +
+      (done > 0 ? `\n\n✅ ${done} already done.` : '');
+  }
+
+  private eventKind(event: DbEvent): EventKind | null {
+    if (event.event_type === 'party' || PARTY_WORDS.test(event.title)) return 'party';
+    if (event.event_type === 'school' || SCHOOL_WORDS.test(event.title)) return 'school';
+    return null;
+  }
+}
+
+export const eventActionService = new EventActionService();
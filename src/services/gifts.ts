@@ -0,0 +1,312 @@
+import { supabase } from '../lib/supabase';
+import type {
+  Event as DbEvent,
+  GiftIdea,
+  GiftStatus,
+  GiftSuggestion,
+  InstacartShoppingListResponse,
+  ShoppingItem,
+} from '../lib/supabase';
+import { openaiService } from './openai';
+import { instacartShoppingService } from './instacartShoppingService';
+
+export interface GiftRecipient {
+  event_id?: string | null;
+  recipient_name: string;
+  recipient_age?: number | null;
+  recipient_gender?: 'Boy' | 'Girl' | 'Other' | null;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  interests?: string | null;
+}
+
+interface CatalogGift {
+  title: string;
+  description: string;
+  price: number;
+  category: string;
+  minAge: number;
+  maxAge: number;
+  tags: string[];
+}
+
+const IDEA_COUNT = 6;
+// AI prices are estimates; allow a little over the budget before dropping an idea
+const BUDGET_TOLERANCE = 1.1;
+
+// Offline ideas, used when the AI is unavailable or comes back with too few
+const CATALOG: CatalogGift[] = [
+  { title: 'Soft stacking blocks', description: 'Squishy blocks for building and knocking down', price: 18, category: 'toys', minAge: 0, maxAge: 2, tags: ['building'] },
+  { title: 'Board book bundle', description: 'Sturdy picture books for little hands', price: 15, category: 'books', minAge: 0, maxAge: 3, tags: ['reading'] },
+  { title: 'Musical instrument set', description: 'Shaker, drum and xylophone', price: 25, category: 'toys', minAge: 1, maxAge: 4, tags: ['music'] },
+  { title: 'Wooden puzzle set', description: 'Chunky puzzles with knobs', price: 16, category: 'toys', minAge: 2, maxAge: 5, tags: ['puzzles'] },
+  { title: 'Play kitchen food set', description: 'Pretend fruit, veg and pans', price: 22, category: 'toys', minAge: 3, maxAge: 6, tags: ['pretend play', 'cooking'] },
+  { title: 'Art supplies set', description: 'Crayons, markers, paints and paper in a carry case', price: 20, category: 'arts & crafts', minAge: 3, maxAge: 10, tags: ['art', 'drawing', 'crafts'] },
+  { title: 'Dress-up costume', description: 'A costume in their favourite theme', price: 25, category: 'toys', minAge: 3, maxAge: 8, tags: ['pretend play', 'princess', 'superhero'] },
+  { title: 'Magnetic building tiles', description: 'Click-together tiles for 3D builds', price: 35, category: 'toys', minAge: 3, maxAge: 9, tags: ['building', 'stem'] },
+  { title: 'Early reader book set', description: 'Level 1 and 2 readers', price: 17, category: 'books', minAge: 4, maxAge: 7, tags: ['reading'] },
+  { title: 'Family board game', description: 'A quick game everyone can play', price: 20, category: 'games', minAge: 5, maxAge: 99, tags: ['games'] },
+  { title: 'LEGO set', description: 'An age-appropriate building kit', price: 30, category: 'toys', minAge: 5, maxAge: 14, tags: ['building', 'lego', 'stem'] },
+  { title: 'Slime and science kit', description: 'Experiments to do at the kitchen table', price: 22, category: 'stem', minAge: 6, maxAge: 12, tags: ['science', 'stem'] },
+  { title: 'Friendship bracelet kit', description: 'Threads, beads and instructions', price: 15, category: 'arts & crafts', minAge: 6, maxAge: 13, tags: ['crafts', 'jewelry'] },
+  { title: 'Soccer ball', description: 'A size-appropriate ball for the backyard', price: 18, category: 'sports', minAge: 4, maxAge: 14, tags: ['sports', 'soccer'] },
+  { title: 'Chapter book box set', description: 'A popular series to read together or alone', price: 28, category: 'books', minAge: 7, maxAge: 12, tags: ['reading'] },
+  { title: 'Remote control car', description: 'Rechargeable car for indoors and out', price: 35, category: 'toys', minAge: 6, maxAge: 12, tags: ['cars', 'outdoor'] },
+  { title: 'Beginner coding robot', description: 'A robot kids program with cards or an app', price: 50, category: 'stem', minAge: 7, maxAge: 13, tags: ['coding', 'stem', 'robots'] },
+  { title: 'Sketchbook and pencil set', description: 'Graded pencils and a hardback sketchbook', price: 20, category: 'arts & crafts', minAge: 8, maxAge: 99, tags: ['art', 'drawing'] },
+  { title: 'Puzzle cube set', description: 'Speed cubes in a few sizes', price: 15, category: 'games', minAge: 8, maxAge: 99, tags: ['puzzles'] },
+  { title: 'Wireless earbuds', description: 'Kid-safe volume-limited earbuds', price: 40, category: 'electronics', minAge: 10, maxAge: 99, tags: ['music', 'tech'] },
+  { title: 'Gift card', description: 'For their favourite store or app', price: 25, category: 'gift cards', minAge: 10, maxAge: 99, tags: [] },
+  { title: 'Cozy throw blanket', description: 'Soft blanket for movie nights', price: 30, category: 'home', minAge: 12, maxAge: 99, tags: ['cozy'] },
+  { title: 'Scented candle set', description: 'A trio of small candles', price: 25, category: 'home', minAge: 16, maxAge: 99, tags: ['relaxing'] },
+  { title: 'Coffee table book', description: 'A beautiful book on something they love', price: 35, category: 'books', minAge: 16, maxAge: 99, tags: ['reading', 'travel', 'cooking'] },
+];
+
+export class GiftService {
+  async getPlans(userId: string): Promise<GiftSuggestion[]> {
+    const { data, error } = await supabase
+      .from('gift_suggestions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading gift plans:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Start a gift plan with a first batch of ideas
+   */
+  async createPlan(userId: string, recipient: GiftRecipient): Promise<GiftSuggestion> {
+    const suggestions = await this.generateIdeas(recipient);
+
+    const { data, error } = await supabase
+      .from('gift_suggestions')
+      .insert([{
+        user_id: userId,
+        event_id: recipient.event_id ?? null,
+        recipient_name: recipient.recipient_name,
+        recipient_age: recipient.recipient_age ?? null,
+        recipient_gender: recipient.recipient_gender ?? null,
+        budget_min: recipient.budget_min ?? null,
+        budget_max: recipient.budget_max ?? null,
+        interests: recipient.interests ?? '',
+        suggestions,
+        status: 'planning',
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async regenerate(plan: GiftSuggestion): Promise<GiftSuggestion> {
+    return this.updatePlan(plan.id, { suggestions: await this.generateIdeas(plan) });
+  }
+
+  async chooseGift(plan: GiftSuggestion, idea: GiftIdea): Promise<GiftSuggestion> {
+    return this.updatePlan(plan.id, { chosen_gift: idea, status: 'chosen' });
+  }
+
+  /**
+   * Move a plan along. Once the gift is bought the event's "buy a gift"
+   * checklist item and the gift's shopping list item are ticked off too.
+   */
+  async setStatus(plan: GiftSuggestion, status: GiftStatus): Promise<GiftSuggestion> {
+    const updated = await this.updatePlan(plan.id, { status });
+
+    if (status === 'bought' || status === 'wrapped' || status === 'given') {
+      if (plan.event_id) {
+        const { error } = await supabase
+          .from('event_actions')
+          .update({ action_status: 'completed' })
+          .eq('event_id', plan.event_id)
+          .eq('action_type', 'buy_gift')
+          .eq('action_status', 'pending');
+
+        if (error) console.error('Error completing buy_gift action:', error);
+      }
+
+      if (plan.shopping_item_id) {
+        const { error } = await supabase
+          .from('shopping_lists')
+          .update({ completed: true })
+          .eq('id', plan.shopping_item_id);
+
+        if (error) console.error('Error completing gift shopping item:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  async deletePlan(planId: string): Promise<void> {
+    const { error } = await supabase
+      .from('gift_suggestions')
+      .delete()
+      .eq('id', planId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Put the chosen gift on the shopping list, once
+   */
+  async addToShoppingList(plan: GiftSuggestion): Promise<ShoppingItem> {
+    if (!plan.chosen_gift) {
+      throw new Error('Choose a gift first.');
+    }
+
+    if (plan.shopping_item_id) {
+      const { data } = await supabase
+        .from('shopping_lists')
+        .select('*')
+        .eq('id', plan.shopping_item_id)
+        .maybeSingle();
+
+      if (data) return data;
+    }
+
+    const { data: item, error } = await supabase
+      .from('shopping_lists')
+      .insert([{
+        user_id: plan.user_id,
+        item: plan.chosen_gift.title,
+        category: 'other',
+        quantity: 1,
+        notes: `Gift for ${plan.recipient_name}`,
+        completed: false,
+        urgent: false,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.updatePlan(plan.id, { shopping_item_id: item.id });
+    return item;
+  }
+
+  async sendToInstacart(plan: GiftSuggestion, retailerKey?: string): Promise<InstacartShoppingListResponse> {
+    const item = await this.addToShoppingList(plan);
+    return instacartShoppingService.sendSelectedToInstacart([item.id], retailerKey);
+  }
+
+  /**
+   * Who a birthday event is for and the age they turn, when the title
+   * says so ("Emma's 7th birthday party")
+   */
+  recipientFromEvent(event: Pick<DbEvent, 'title'>): { name: string | null; age: number | null } {
+    const name = event.title.match(/^\s*([A-Z][\w-]*(?:\s+[A-Z][\w-]*)?)'s?\b/)?.[1] ?? null;
+    const age = event.title.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:birthday|bday)\b/i)?.[1];
+    return { name, age: age ? Number(age) : null };
+  }
+
+  /**
+   * AI ideas that fit the budget, topped up from the offline catalog when
+   * the AI is unavailable or returns too few
+   */
+  async generateIdeas(recipient: GiftRecipient): Promise<GiftIdea[]> {
+    const ideas = (await this.aiIdeas(recipient)).filter(idea => this.fitsBudget(idea, recipient));
+
+    if (ideas.length < IDEA_COUNT / 2) {
+      const taken = new Set(ideas.map(i => i.title.toLowerCase()));
+      const extra = this.heuristicIdeas(recipient).filter(i => !taken.has(i.title.toLowerCase()));
+      ideas.push(...extra.slice(0, IDEA_COUNT - ideas.length));
+    }
+
+    return ideas.slice(0, IDEA_COUNT);
+  }
+
+  heuristicIdeas(recipient: GiftRecipient): GiftIdea[] {
+    const age = recipient.recipient_age ?? null;
+    const interests = (recipient.interests || '').toLowerCase();
+    const target = this.budgetTarget(recipient);
+
+    return CATALOG
+      .filter(gift => age === null || (age >= gift.minAge && age <= gift.maxAge))
+      .filter(gift => this.fitsBudget({ title: gift.title, estimated_price: gift.price, source: 'heuristic' }, recipient))
+      .map(gift => ({
+        gift,
+        // Interest matches first, then the closest to the middle of the budget
+        score: (gift.tags.some(tag => interests.includes(tag)) ? 100 : 0) -
+          (target !== null ? Math.abs(gift.price - target) : 0),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, IDEA_COUNT)
+      .map(({ gift }) => ({
+        title: gift.title,
+        description: gift.description,
+        estimated_price: gift.price,
+        category: gift.category,
+        source: 'heuristic' as const,
+      }));
+  }
+
+  private async aiIdeas(recipient: GiftRecipient): Promise<GiftIdea[]> {
+    const budget = recipient.budget_min || recipient.budget_max
+      ? `$${recipient.budget_min ?? 0}-${recipient.budget_max ?? 'any'}`
+      : 'no set budget';
+
+    const prompt = `Suggest ${IDEA_COUNT} birthday gift ideas. Return ONLY a JSON array of objects with this exact format:
+[{"title": "gift name", "description": "one short sentence", "estimated_price": 20, "category": "toys|books|games|arts & crafts|sports|stem|electronics|clothing|experiences|other"}]
+
+Recipient: ${recipient.recipient_name}
+Age: ${recipient.recipient_age ?? 'unknown'}
+Gender: ${recipient.recipient_gender ?? 'unknown'}
+Budget (USD): ${budget}
+Interests: ${recipient.interests || 'unknown'}
+
+Ideas must be safe and appropriate for the age and fit the budget.`;
+
+    try {
+      const response = await openaiService.chat([{ role: 'user', content: prompt }]);
+      const parsed: unknown = JSON.parse(response.slice(response.indexOf('['), response.lastIndexOf(']') + 1));
+      if (!Array.isArray(parsed)) return [];
+
+      return parsed
+        .filter((idea): idea is Record<string, unknown> => !!idea && typeof idea === 'object' && typeof idea.title === 'string')
+        .map(idea => ({
+          title: String(idea.title).slice(0, 120),
+          description: idea.description ? String(idea.description).slice(0, 300) : null,
+          estimated_price: Number.isFinite(Number(idea.estimated_price)) ? Number(idea.estimated_price) : null,
+          category: idea.category ? String(idea.category) : 'other',
+          source: 'ai' as const,
+        }));
+    } catch {
+      // No API key (the chat fallback isn't JSON) or a malformed reply
+      return [];
+    }
+  }
+
+  private fitsBudget(idea: GiftIdea, recipient: GiftRecipient): boolean {
+    if (idea.estimated_price === null || idea.estimated_price === undefined) return true;
+    if (recipient.budget_max && idea.estimated_price > recipient.budget_max * BUDGET_TOLERANCE) return false;
+    return true;
+  }
+
+  private budgetTarget(recipient: GiftRecipient): number | null {
+    const { budget_min: min, budget_max: max } = recipient;
+    if (min && max) return (min + max) / 2;
+    return max || min || null;
+  }
+
+  private async updatePlan(planId: string, changes: Partial<GiftSuggestion>): Promise<GiftSuggestion> {
+    const { data, error } = await supabase
+      .from('gift_suggestions')
+      .update(changes)
+      .eq('id', planId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const giftService = new GiftService();
@@ -18,10 +18,17 @@ export interface GoogleCalendarEvent {
     timeZone?: string;
   };
   attendees?: Array<{
-    email: string;
+    email?: string;
     displayName?: string;
     responseStatus?: string;
   }>;
+  recurrence?: string[];
+  recurringEventId?: string;
+  originalStartTime?: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
   htmlLink?: string;
   status?: string;
   created?: string;
@@ -33,8 +40,47 @@ export interface CalendarListOptions {
   timeMax?: string;
   maxResults?: number;
   q?: string;
+  // false returns recurring series as masters plus their modified/cancelled instances
+  singleEvents?: boolean;
+}
+
+export interface GoogleCalendarListEntry {
+  // 'primary' for the user's main calendar, matching the id sync has always used
+  id: string;
+  summary: string;
+  backgroundColor: string | null;
+  timeZone: string | null; // IANA zone timed events default to
+  primary: boolean;
+  accessRole: 'owner' | 'writer' | 'reader' | 'freeBusyReader';
+}
+
+export interface GoogleSyncOptions {
+  calendarId?: string;
+  // nextSyncToken from the previous run; omit for a full download
+  syncToken?: string | null;
+}
+
+export interface GoogleSyncResult {
+  events: GoogleCalendarEvent[];
+  nextSyncToken: string | null;
+  // true when every event was downloaded (no token, or the token had expired)
+  fullSync: boolean;
 }
 
+/**
+ * Google answered 410 Gone: the sync token is no longer valid and the
+ * calendar has to be downloaded in full again.
+ */
+export class SyncTokenExpiredError extends Error {
+  constructor() {
+    super('Google Calendar sync token expired');
+    this.name = 'SyncTokenExpiredError';
+  }
+}
+
+// Safety net against a listing that never stops handing out page tokens
+const MAX_SYNC_PAGES = 100;
+
 class GoogleCalendarService {
   private baseUrl: string;
   private initialized = false;
@@ -338,6 +384,10 @@ class GoogleCalendarService {
           errorData = { error: `Server error: ${errorText || response.statusText}` };
         }
 
+        if (response.status === 410 && errorData.code === 'sync_token_expired') {
+          throw new SyncTokenExpiredError();
+        }
+
         const errorMessage = errorData.error || errorData.message || errorData.details || `API call failed with status ${response.status}`;
         console.error(`❌ API call failed (${action}):`, {
           status: response.status,
@@ -377,9 +427,63 @@ class GoogleCalendarService {
     }
   }
 
-  async insertEvent(event: Partial<GoogleCalendarEvent>): Promise<GoogleCalendarEvent> {
+  /**
+   * Download changed events since `syncToken`, following every page, or all
+   * events when there is no token. An expired token falls back to a full
+   * download, reported through `fullSync`.
+   */
+  async syncEvents(options: GoogleSyncOptions = {}): Promise<GoogleSyncResult> {
+    const calendarId = options.calendarId || 'primary';
+
+    try {
+      return await this.listAllPages(calendarId, options.syncToken || null);
+    } catch (error) {
+      if (error instanceof SyncTokenExpiredError && options.syncToken) {
+        console.log('♻️ Sync token expired, falling back to a full resync');
+        return await this.listAllPages(calendarId, null);
+      }
+      console.error('❌ Failed to sync events:', error);
+      throw error;
+    }
+  }
+
+  private async listAllPages(calendarId: string, syncToken: string | null): Promise<GoogleSyncResult> {
+    const events: GoogleCalendarEvent[] = [];
+    let pageToken: string | null = null;
+
+    for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+      const data = await this.makeApiCall('syncEvents', { calendarId, syncToken, pageToken });
+      events.push(...(data.items || []));
+
+      if (!data.nextPageToken) {
+        return { events, nextSyncToken: data.nextSyncToken ?? null, fullSync: !syncToken };
+      }
+      pageToken = data.nextPageToken;
+    }
+
+    throw new Error(`Google Calendar returned more than ${MAX_SYNC_PAGES} pages of events`);
+  }
+
+  /**
+   * The user's calendars, primary first
+   */
+  async listCalendars(): Promise<GoogleCalendarListEntry[]> {
+    try {
+      const data = await this.makeApiCall('listCalendars');
+      const calendars: GoogleCalendarListEntry[] = (data.items || []).map((calendar: GoogleCalendarListEntry) => ({
+        ...calendar,
+        id: calendar.primary ? 'primary' : calendar.id,
+      }));
+      return calendars.sort((a, b) => Number(b.primary) - Number(a.primary) || a.summary.localeCompare(b.summary));
+    } catch (error) {
+      console.error('❌ Failed to list calendars:', error);
+      throw error;
+    }
+  }
+
+  async insertEvent(event: Partial<GoogleCalendarEvent>, calendarId = 'primary'): Promise<GoogleCalendarEvent> {
     try {
-      const createdEvent = await this.makeApiCall('insertEvent', { event });
+      const createdEvent = await this.makeApiCall('insertEvent', { event, calendarId });
       return createdEvent;
     } catch (error) {
       console.error('❌ Failed to create event:', error);
@@ -387,9 +491,13 @@ class GoogleCalendarService {
     }
   }
 
-  async updateEvent(eventId: string, event: Partial<GoogleCalendarEvent>): Promise<GoogleCalendarEvent> {
+  async updateEvent(
+    eventId: string,
+    event: Partial<GoogleCalendarEvent>,
+    calendarId = 'primary'
+  ): Promise<GoogleCalendarEvent> {
     try {
-      const updatedEvent = await this.makeApiCall('updateEvent', { eventId, event });
+      const updatedEvent = await this.makeApiCall('updateEvent', { eventId, event, calendarId });
       return updatedEvent;
     } catch (error) {
       console.error('❌ Failed to update event:', error);
@@ -397,9 +505,9 @@ class GoogleCalendarService {
     }
   }
 
-  async deleteEvent(eventId: string): Promise<void> {
+  async deleteEvent(eventId: string, calendarId = 'primary'): Promise<void> {
     try {
-      await this.makeApiCall('deleteEvent', { eventId });
+      await this.makeApiCall('deleteEvent', { eventId, calendarId });
     } catch (error) {
       console.error('❌ Failed to delete event:', error);
       throw error;
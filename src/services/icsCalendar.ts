@@ -0,0 +1,245 @@
+import { supabase } from '../lib/supabase';
+import type { Event as DbEvent } from '../lib/supabase';
+import { ICalendarProvider, LocalCalendarProvider, CalendarEventInput } from './calendarProvider';
+import { ICalendar, ICalEvent, ICalExportEvent } from '../utils/icalendar';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+
+export interface IcsImportResult {
+  calendarName?: string;
+  imported: number;
+  duplicates: number;
+  skipped: number;
+  warnings: string[];
+}
+
+export interface IcsExportOptions {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  familyMemberName?: string | null; // only events this person takes part in
+  calendarName?: string;
+}
+
+// Values allowed by the events.event_type check constraint
+const EVENT_TYPES = ['sports', 'party', 'meeting', 'medical', 'school', 'family', 'other'];
+
+export class IcsCalendarService {
+  /**
+   * Import the VEVENTs of an .ics file. Series are imported before their
+   * edited occurrences so overrides can point at their master row.
+   */
+  async importFile(
+    userId: string,
+    text: string,
+    provider: ICalendarProvider = new LocalCalendarProvider()
+  ): Promise<IcsImportResult> {
+    const parsed = ICalendar.parse(text);
+    const result: IcsImportResult = {
+      calendarName: parsed.calendarName,
+      imported: 0,
+      duplicates: 0,
+      skipped: 0,
+      warnings: [...parsed.warnings],
+    };
+
+    const masters = parsed.events.filter(e => !e.recurrenceId);
+    const overrides = parsed.events.filter(e => e.recurrenceId);
+    const seriesIds = new Map<string, string>();
+
+    for (const event of masters) {
+      if (event.status === 'CANCELLED') {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const created = await provider.createEvent(userId, this.toEventInput(event));
+        if (created.duplicate) result.duplicates++;
+        else result.imported++;
+        if (event.rrule) seriesIds.set(event.uid, created.id);
+      } catch (error) {
+        result.skipped++;
+        result.warnings.push(`"${event.summary}": ${error instanceof Error ? error.message : 'import failed'}`);
+      }
+    }
+
+    for (const event of overrides) {
+      const parentId = seriesIds.get(event.uid) ?? await this.findImportedSeries(userId, event.uid);
+
+      try {
+        if (!parentId) {
+          // The series itself isn't known, so keep the occurrence as a plain event
+          if (event.status === 'CANCELLED') {
+            result.skipped++;
+            continue;
+          }
+          const created = await provider.createEvent(userId, {
+            ...this.toEventInput(event),
+            recurrence_original_date: event.recurrenceId,
+          });
+          if (created.duplicate) result.duplicates++;
+          else result.imported++;
+          continue;
+        }
+
+        if (event.status === 'CANCELLED') {
+          await this.addSeriesException(parentId, event.recurrenceId!);
+          result.imported++;
+          continue;
+        }
+
+        const created = await provider.createEvent(userId, {
+          ...this.toEventInput(event),
+          recurrence_rule: null,
+          recurrence_exceptions: null,
+          recurrence_parent_id: parentId,
+          recurrence_original_date: event.recurrenceId,
+        });
+        if (created.duplicate) result.duplicates++;
+        else result.imported++;
+      } catch (error) {
+        result.skipped++;
+        result.warnings.push(`"${event.summary}": ${error instanceof Error ? error.message : 'import failed'}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Serialize a user's events in a date range (optionally one family member's)
+   * as an .ics document. Recurring series are written once with their RRULE.
+   */
+  async exportEvents(userId: string, options: IcsExportOptions): Promise<string> {
+    const { startDate, endDate } = options;
+
+    let query = supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .or(
+        `and(event_date.gte.${startDate},event_date.lte.${endDate}),` +
+        // Multi-day events that started earlier and run into the range
+        `and(event_date.lt.${startDate},end_date.gte.${startDate}),` +
+        `and(recurrence_rule.not.is.null,event_date.lte.${endDate}),` +
+        `and(recurrence_original_date.gte.${startDate},recurrence_original_date.lte.${endDate})`
+      )
+      .order('event_date', { ascending: true });
+
+    if (options.familyMemberName) {
+      query = query.contains('participants', [options.familyMemberName]);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message || 'Failed to load events for export.');
+    }
+
+    const events = (data || []) as DbEvent[];
+    const byId = new Map(events.map(e => [e.id, e]));
+    const exported: ICalExportEvent[] = [];
+
+    for (const event of events) {
+      // Skip series that have no occurrence left inside the range
+      if (event.recurrence_rule && event.event_date < startDate &&
+          RecurrenceRule.expand(event.recurrence_rule, event.event_date, startDate, endDate).length === 0) {
+        continue;
+      }
+
+      const master = event.recurrence_parent_id ? byId.get(event.recurrence_parent_id) : undefined;
+      if (event.recurrence_parent_id && !master &&
+          (event.event_date < startDate || event.event_date > endDate)) {
+        continue;
+      }
+
+      exported.push({
+        uid: this.uidFor(master ?? event),
+        summary: event.title,
+        description: event.description,
+        location: event.location,
+        date: event.event_date,
+        endDate: event.end_date,
+        startTime: event.start_time,
+        endTime: event.end_time,
+        rrule: event.recurrence_rule,
+        exdates: event.recurrence_exceptions,
+        recurrenceId: master ? event.recurrence_original_date : null,
+        recurrenceStartTime: master?.start_time,
+        categories: event.event_type && event.event_type !== 'other' ? [event.event_type] : [],
+      });
+    }
+
+    return ICalendar.serialize(exported, {
+      calendarName: options.calendarName ?? (options.familyMemberName ? `${options.familyMemberName}'s events` : 'Family calendar'),
+    });
+  }
+
+  /**
+   * Map a parsed VEVENT onto event fields. Also used for subscribed feeds.
+   */
+  toEventInput(event: ICalEvent): CalendarEventInput {
+    const participants = event.attendees
+      .map(a => a.name || a.email)
+      .filter((p): p is string => !!p);
+
+    const category = event.categories.map(c => c.toLowerCase()).find(c => EVENT_TYPES.includes(c));
+
+    return {
+      title: event.summary,
+      date: event.date,
+      // Multi-day events (school breaks, tournaments) stay one event with a last day
+      end_date: event.endDate ?? null,
+      start_time: event.startTime ?? null,
+      end_time: event.endTime ?? null,
+      location: event.location ?? null,
+      participants: participants.length > 0 ? participants : null,
+      type: category ?? 'other',
+      source: 'ics_import',
+      description: event.description ?? null,
+      recurrence_rule: event.rrule ?? null,
+      recurrence_exceptions: event.exdates.length > 0 ? event.exdates : null,
+      external_uid: event.uid,
+    };
+  }
+
+  private async findImportedSeries(userId: string, uid: string): Promise<string | null> {
+    const { data } = await supabase
+      .from('events')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('external_uid', uid)
+      .not('recurrence_rule', 'is', null)
+      .limit(1);
+
+    return data && data.length > 0 ? (data[0].id as string) : null;
+  }
+
+  private async addSeriesException(seriesId: string, date: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('recurrence_exceptions')
+      .eq('id', seriesId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Recurring event not found.');
+    }
+
+    const exceptions = new Set<string>(data.recurrence_exceptions ?? []);
+    exceptions.add(date);
+
+    const { error: updateError } = await supabase
+      .from('events')
+      .update({ recurrence_exceptions: [...exceptions].sort() })
+      .eq('id', seriesId);
+
+    if (updateError) {
+      throw new Error(updateError.message || 'Failed to cancel occurrence.');
+    }
+  }
+
+  private uidFor(event: DbEvent): string {
+    return event.external_uid || `${event.id}@busymomsassistant`;
+  }
+}
+
+export const icsCalendarService = new IcsCalendarService();
@@ -0,0 +1,216 @@
+import { readFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CalendarFeed } from '../lib/supabase';
+import type { FakeSupabase } from '../test/fakeSupabase';
+
+vi.mock('../lib/supabase', async () => {
+  const { FakeSupabase } = await import('../test/fakeSupabase');
+  return { supabase: new FakeSupabase() };
+});
+
+const { supabase } = await import('../lib/supabase');
+const { icsFeedService } = await import('./icsFeeds');
+const db = supabase as unknown as FakeSupabase;
+db.cascade('events', 'calendar_feed_mappings', 'local_event_id');
+
+const fixture = (name: string) => readFileSync(new URL(`../test/fixtures/${name}`, import.meta.url), 'utf8');
+
+/**
+ * Serves the feed at /school.ics with an ETag, and plays the ics-feed edge
+ * function at /functions/v1/ics-feed by fetching it with If-None-Match.
+ */
+let served = { body: fixture('school-feed.ics'), etag: '"v1"' };
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/school.ics') {
+      if (req.headers['if-none-match'] === served.etag) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/calendar', 'ETag': served.etag }).end(served.body);
+      return;
+    }
+
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', async () => {
+      const { url, etag } = JSON.parse(raw);
+      const response = await fetch(url, { headers: etag ? { 'If-None-Match': etag } : {} });
+      const data = response.status === 304
+        ? { notModified: true }
+        : { body: await response.text(), etag: response.headers.get('ETag'), lastModified: null };
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.stubEnv('VITE_SUPABASE_URL', baseUrl);
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'test-anon-key');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function subscribe(): Promise<CalendarFeed> {
+  const { feed } = await icsFeedService.addFeed('user-1', { url: `${baseUrl}/school.ics` });
+  // The stored row carries the validators written after reconciling
+  return db.rows('calendar_feeds').find(row => row.id === feed.id) as unknown as CalendarFeed;
+}
+
+function eventByUid(uid: string, originalDate?: string) {
+  return db.rows('events').find(row =>
+    row.external_uid === uid && (row.recurrence_original_date ?? undefined) === originalDate
+  );
+}
+
+function mappingKeys(): string[] {
+  return db.rows('calendar_feed_mappings').map(row => row.feed_event_uid as string).sort();
+}
+
+describe('icsFeedService reconciliation', () => {
+  beforeEach(() => {
+    db.reset();
+    served = { body: fixture('school-feed.ics'), etag: '"v1"' };
+  });
+
+  it('adds every feed event on subscribe, keyed by UID and RECURRENCE-ID', async () => {
+    const { feed, result } = await icsFeedService.addFeed('user-1', { url: `${baseUrl}/school.ics` });
+
+    expect(feed.name).toBe('Lincoln Elementary');
+    expect(result).toMatchObject({ added: 4, updated: 0, removed: 0, unchanged: 0 });
+    expect(mappingKeys()).toEqual([
+      'concert@school',
+      'picture-day@school',
+      'soccer@league',
+      'soccer@league#2025-11-10',
+    ]);
+
+    const series = eventByUid('soccer@league')!;
+    expect(series).toMatchObject({
+      feed_id: feed.id,
+      source: 'ics_feed',
+      event_date: '2025-11-03',
+      start_time: '16:00:00',
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=8',
+    });
+    expect(eventByUid('soccer@league', '2025-11-10')).toMatchObject({
+      event_date: '2025-11-11',
+      start_time: '17:00:00',
+      recurrence_parent_id: series.id,
+    });
+  });
+
+  it('leaves everything alone when the feed has not changed', async () => {
+    const feed = await subscribe();
+    expect(feed.etag).toBe('"v1"');
+
+    const result = await icsFeedService.refreshFeed(feed);
+
+    expect(result).toMatchObject({ notModified: true, added: 0, updated: 0, removed: 0 });
+    expect(db.rows('events')).toHaveLength(4);
+  });
+
+  it('counts unchanged events when a forced refresh re-reads the same feed', async () => {
+    const feed = await subscribe();
+
+    const result = await icsFeedService.refreshFeed(feed, true);
+
+    expect(result).toMatchObject({ notModified: false, added: 0, updated: 0, removed: 0, unchanged: 4 });
+  });
+
+  it('adds, updates and removes events to match the changed feed', async () => {
+    const feed = await subscribe();
+    const seriesId = eventByUid('soccer@league')!.id;
+    const overrideId = eventByUid('soccer@league', '2025-11-10')!.id;
+    const concert = { ...eventByUid('concert@school')! };
+
+    served = { body: fixture('school-feed-updated.ics'), etag: '"v2"' };
+    const result = await icsFeedService.refreshFeed(feed);
+
+    // Series (new cancelled date) and override (new time) updated, book fair
+    // added, picture day removed, concert untouched
+    expect(result).toMatchObject({ added: 1, updated: 2, removed: 1, unchanged: 1 });
+
+    expect(eventByUid('soccer@league')).toMatchObject({
+      id: seriesId,
+      recurrence_exceptions: ['2025-11-17'],
+    });
+    expect(eventByUid('soccer@league', '2025-11-10')).toMatchObject({
+      id: overrideId,
+      start_time: '18:00:00',
+      recurrence_parent_id: seriesId,
+    });
+    expect(eventByUid('concert@school')).toEqual(concert);
+    expect(eventByUid('picture-day@school')).toBeUndefined();
+    expect(eventByUid('book-fair@school')).toMatchObject({ event_date: '2025-11-24', start_time: null });
+
+    // The cancelled occurrence is an exception on the series, not a mapping of its own
+    expect(mappingKeys()).toEqual([
+      'book-fair@school',
+      'concert@school',
+      'soccer@league',
+      'soccer@league#2025-11-10',
+    ]);
+    expect(db.rows('calendar_feeds')[0]).toMatchObject({ etag: '"v2"', last_error: null });
+  });
+
+  it('removes an edited occurrence once the feed drops it', async () => {
+    const feed = await subscribe();
+
+    served = {
+      body: fixture('school-feed.ics').replace(
+        /BEGIN:VEVENT\r\nUID:soccer@league\r\nRECURRENCE-ID[\s\S]*?END:VEVENT\r\n/,
+        ''
+      ),
+      etag: '"v3"',
+    };
+    const result = await icsFeedService.refreshFeed(feed);
+
+    expect(result).toMatchObject({ added: 0, updated: 0, removed: 1, unchanged: 3 });
+    expect(eventByUid('soccer@league', '2025-11-10')).toBeUndefined();
+    expect(mappingKeys()).not.toContain('soccer@league#2025-11-10');
+  });
+
+  it('keeps a multi-day event as one event with its last day', async () => {
+    served = {
+      body: fixture('school-feed.ics').replace('END:VCALENDAR', [
+        'BEGIN:VEVENT',
+        'UID:thanksgiving@school',
+        'DTSTART;VALUE=DATE:20251124',
+        'DTEND;VALUE=DATE:20251129',
+        'SUMMARY:Thanksgiving break',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:camp@school',
+        'DTSTART:20251107T180000',
+        'DTEND:20251109T120000',
+        'SUMMARY:Camping trip',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n')),
+      etag: '"v1"',
+    };
+    await subscribe();
+
+    expect(eventByUid('thanksgiving@school')).toMatchObject({
+      event_date: '2025-11-24',
+      end_date: '2025-11-28',
+      start_time: null,
+      recurrence_rule: null,
+    });
+    expect(eventByUid('camp@school')).toMatchObject({
+      event_date: '2025-11-07',
+      end_date: '2025-11-09',
+      start_time: '18:00:00',
+      end_time: '12:00:00',
+    });
+  });
+});
@@ -0,0 +1,439 @@
+import { supabase } from '../lib/supabase';
+import type { CalendarFeed, Event as DbEvent } from '../lib/supabase';
+import { getActiveSession } from '../lib/sessionHelper';
+import { CalendarSync } from './calendarSync';
+import { icsCalendarService } from './icsCalendar';
+import { ICalendar, ICalEvent } from '../utils/icalendar';
+
+export interface FeedMapping {
+  id: string;
+  user_id: string;
+  feed_id: string;
+  local_event_id: string;
+  feed_event_uid: string;
+  feed_hash: string | null;
+  last_synced_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedRefreshResult {
+  feedId: string;
+  notModified: boolean;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  warnings: string[];
+}
+
+export interface NewCalendarFeed {
+  url: string;
+  name?: string;
+  color?: string;
+  refresh_interval_minutes?: number;
+}
+
+interface FetchedFeed {
+  notModified: boolean;
+  body?: string;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+type FeedEventRow = Omit<DbEvent, 'id' | 'created_at' | 'updated_at'>;
+
+export const FEED_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#a855f7'];
+
+export class IcsFeedService {
+  async listFeeds(userId: string): Promise<CalendarFeed[]> {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching calendar feeds:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Subscribe to a feed. The feed is fetched once up front so a bad URL is
+   * reported straight away rather than on the next background refresh.
+   */
+  async addFeed(userId: string, input: NewCalendarFeed): Promise<{ feed: CalendarFeed; result: FeedRefreshResult }> {
+    const url = this.normalizeUrl(input.url);
+    const fetched = await this.fetchFeed(url);
+    const parsed = ICalendar.parse(fetched.body || '');
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .insert([{
+        user_id: userId,
+        url,
+        name: input.name?.trim() || parsed.calendarName || new URL(url).hostname,
+        color: input.color || FEED_COLORS[0],
+        refresh_interval_minutes: input.refresh_interval_minutes ?? 360,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505'
+        ? 'You are already subscribed to this calendar.'
+        : error.message || 'Failed to save calendar feed.');
+    }
+
+    const feed = data as CalendarFeed;
+    const result = await this.reconcile(feed, fetched);
+    return { feed, result };
+  }
+
+  async updateFeed(
+    feedId: string,
+    updates: Partial<Pick<CalendarFeed, 'name' | 'color' | 'enabled' | 'refresh_interval_minutes'>>
+  ): Promise<boolean> {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', feedId);
+
+    if (error) {
+      console.error('Error updating calendar feed:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Unsubscribe. The feed's events and mappings go with it (ON DELETE CASCADE).
+   */
+  async removeFeed(feedId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) {
+      console.error('Error removing calendar feed:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Re-fetch a feed and reconcile it into events. `force` skips the
+   * conditional request so an unchanged feed is still re-read.
+   */
+  async refreshFeed(feed: CalendarFeed, force = false): Promise<FeedRefreshResult> {
+    try {
+      const fetched = await this.fetchFeed(
+        feed.url,
+        force ? null : feed.etag,
+        force ? null : feed.last_modified
+      );
+      return await this.reconcile(feed, fetched);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Feed refresh failed';
+      await supabase
+        .from('calendar_feeds')
+        .update({ last_error: message, updated_at: new Date().toISOString() })
+        .eq('id', feed.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh every enabled feed whose refresh interval has passed.
+   * Returns the number of events that changed so callers know to reload.
+   */
+  async refreshDueFeeds(userId: string): Promise<number> {
+    const feeds = await this.listFeeds(userId);
+    const now = Date.now();
+    let changed = 0;
+
+    for (const feed of feeds) {
+      if (feed.enabled === false) continue;
+
+      const intervalMs = (feed.refresh_interval_minutes ?? 360) * 60 * 1000;
+      const lastRefreshed = feed.last_refreshed_at ? new Date(feed.last_refreshed_at).getTime() : 0;
+      if (now - lastRefreshed < intervalMs) continue;
+
+      try {
+        const result = await this.refreshFeed(feed);
+        changed += result.added + result.updated + result.removed;
+      } catch (error) {
+        console.error(`Error refreshing calendar feed "${feed.name}":`, error);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Bring the feed's events in line with the fetched document, using the
+   * same hash-per-mapping approach as Google sync: new VEVENTs are inserted,
+   * changed ones updated, and missing or cancelled ones deleted.
+   */
+  private async reconcile(feed: CalendarFeed, fetched: FetchedFeed): Promise<FeedRefreshResult> {
+    const result: FeedRefreshResult = {
+      feedId: feed.id,
+      notModified: fetched.notModified,
+      added: 0,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      warnings: [],
+    };
+    const refreshedAt = new Date().toISOString();
+
+    if (fetched.notModified) {
+      await supabase
+        .from('calendar_feeds')
+        .update({ last_refreshed_at: refreshedAt, last_error: null, updated_at: refreshedAt })
+        .eq('id', feed.id);
+      return result;
+    }
+
+    const parsed = ICalendar.parse(fetched.body || '');
+    result.warnings.push(...parsed.warnings);
+
+    const { data: mappingRows, error: mappingError } = await supabase
+      .from('calendar_feed_mappings')
+      .select('*')
+      .eq('feed_id', feed.id);
+
+    if (mappingError) {
+      throw new Error(mappingError.message || 'Failed to load feed mappings.');
+    }
+
+    const mappings = new Map<string, FeedMapping>(
+      ((mappingRows || []) as FeedMapping[]).map(m => [m.feed_event_uid, m])
+    );
+    const seen = new Set<string>();
+
+    const masters = parsed.events.filter(e => !e.recurrenceId && e.status !== 'CANCELLED');
+    const overrides = parsed.events.filter(e => e.recurrenceId);
+
+    // A cancelled occurrence is folded into its series' exceptions so that
+    // un-cancelling it on the next refresh is just another master update
+    const cancelledDates = new Map<string, string[]>();
+    for (const event of overrides) {
+      if (event.status !== 'CANCELLED') continue;
+      cancelledDates.set(event.uid, [...(cancelledDates.get(event.uid) ?? []), event.recurrenceId!]);
+    }
+
+    const seriesIds = new Map<string, string>();
+
+    for (const event of masters) {
+      const row = this.toEventRow(feed, event);
+      const extra = cancelledDates.get(event.uid);
+      if (extra && row.recurrence_rule) {
+        row.recurrence_exceptions = [...new Set([...(row.recurrence_exceptions ?? []), ...extra])].sort();
+      }
+
+      const localId = await this.upsert(feed, event.uid, row, mappings.get(event.uid), result);
+      seen.add(event.uid);
+      if (localId && row.recurrence_rule) seriesIds.set(event.uid, localId);
+    }
+
+    for (const event of overrides) {
+      if (event.status === 'CANCELLED') continue;
+
+      const key = `${event.uid}#${event.recurrenceId}`;
+      const parentId = seriesIds.get(event.uid);
+      const row: FeedEventRow = {
+        ...this.toEventRow(feed, event),
+        recurrence_rule: null,
+        recurrence_exceptions: null,
+        recurrence_parent_id: parentId ?? null,
+        recurrence_original_date: event.recurrenceId,
+      };
+
+      await this.upsert(feed, key, row, mappings.get(key), result);
+      seen.add(key);
+    }
+
+    // Anything we mapped before but the feed no longer has was cancelled upstream
+    const stale = [...mappings.values()].filter(m => !seen.has(m.feed_event_uid));
+    if (stale.length > 0) {
+      const { error } = await supabase
+        .from('events')
+        .delete()
+        .in('id', stale.map(m => m.local_event_id));
+
+      if (error) {
+        result.warnings.push(`Could not remove ${stale.length} cancelled event(s): ${error.message}`);
+      } else {
+        result.removed = stale.length;
+      }
+    }
+
+    await supabase
+      .from('calendar_feeds')
+      .update({
+        etag: fetched.etag ?? null,
+        last_modified: fetched.lastModified ?? null,
+        last_refreshed_at: refreshedAt,
+        last_error: null,
+        updated_at: refreshedAt,
+      })
+      .eq('id', feed.id);
+
+    return result;
+  }
+
+  /**
+   * Insert or update one feed event. Returns the local event id, or null if
+   * the write failed (the failure is recorded as a warning).
+   */
+  private async upsert(
+    feed: CalendarFeed,
+    key: string,
+    row: FeedEventRow,
+    mapping: FeedMapping | undefined,
+    result: FeedRefreshResult
+  ): Promise<string | null> {
+    // The parent id is part of the hash so a re-created series re-links its overrides
+    const hash = CalendarSync.generateEventHash(row as DbEvent) + (row.recurrence_parent_id ?? '');
+    const now = new Date().toISOString();
+
+    if (mapping) {
+      if (mapping.feed_hash === hash) {
+        result.unchanged++;
+        return mapping.local_event_id;
+      }
+
+      const { error } = await supabase
+        .from('events')
+        .update({ ...row, updated_at: now })
+        .eq('id', mapping.local_event_id);
+
+      if (error) {
+        result.warnings.push(`"${row.title}": ${error.message}`);
+        return null;
+      }
+
+      await supabase
+        .from('calendar_feed_mappings')
+        .update({ feed_hash: hash, last_synced_at: now, updated_at: now })
+        .eq('id', mapping.id);
+
+      result.updated++;
+      return mapping.local_event_id;
+    }
+
+    const { data: created, error } = await supabase
+      .from('events')
+      .insert([row])
+      .select('id')
+      .single();
+
+    if (error || !created) {
+      result.warnings.push(`"${row.title}": ${error?.message || 'import failed'}`);
+      return null;
+    }
+
+    const { error: mapError } = await supabase
+      .from('calendar_feed_mappings')
+      .insert([{
+        user_id: feed.user_id,
+        feed_id: feed.id,
+        local_event_id: created.id,
+        feed_event_uid: key,
+        feed_hash: hash,
+        last_synced_at: now,
+      }]);
+
+    if (mapError) {
+      // Without a mapping the event would be duplicated on the next refresh
+      await supabase.from('events').delete().eq('id', created.id);
+      result.warnings.push(`"${row.title}": ${mapError.message}`);
+      return null;
+    }
+
+    result.added++;
+    return created.id as string;
+  }
+
+  private toEventRow(feed: CalendarFeed, event: ICalEvent): FeedEventRow {
+    const input = icsCalendarService.toEventInput(event);
+
+    return {
+      user_id: feed.user_id,
+      feed_id: feed.id,
+      source: 'ics_feed',
+      title: input.title,
+      description: input.description ?? null,
+      event_date: input.date,
+      end_date: input.end_date ?? null,
+      start_time: input.start_time ?? null,
+      end_time: input.end_time ?? null,
+      location: input.location ?? null,
+      participants: input.participants ?? null,
+      event_type: input.type ?? 'other',
+      external_uid: event.uid,
+      recurrence_rule: input.recurrence_rule ?? null,
+      recurrence_exceptions: input.recurrence_exceptions ?? null,
+      recurrence_parent_id: null,
+      recurrence_original_date: null,
+    };
+  }
+
+  private normalizeUrl(raw: string): string {
+    const url = raw.trim().replace(/^webcals?:\/\//i, 'https://');
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+      return parsed.toString();
+    } catch {
+      throw new Error('Enter a calendar link starting with https:// or webcal://');
+    }
+  }
+
+  /**
+   * Feed hosts rarely allow CORS, so the fetch goes through the ics-feed edge function.
+   */
+  private async fetchFeed(url: string, etag?: string | null, lastModified?: string | null): Promise<FetchedFeed> {
+    const session = await getActiveSession();
+    if (!session) {
+      throw new Error('You need to be signed in to subscribe to calendars.');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !anonKey) {
+      throw new Error('Supabase is not configured.');
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/ics-feed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': anonKey
+      },
+      body: JSON.stringify({ url, etag, lastModified })
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Feed fetch failed (${response.status})`);
+    }
+
+    return {
+      notModified: !!data.notModified,
+      body: data.body,
+      etag: data.etag,
+      lastModified: data.lastModified,
+    };
+  }
+}
+
+export const icsFeedService = new IcsFeedService();
@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase'
 import type {
   ShoppingItem,
+  InstacartShoppingListItem,
   InstacartShoppingListRequest,
   InstacartShoppingListResponse,
   PurchaseStatus,
@@ -11,6 +12,9 @@ import type {
   Retailer
 } from '../lib/supabase'
 import { InstacartUnitMapper } from '../utils/instacartUnitMapper'
+import { Allergens } from '../utils/allergens'
+import type { DietaryProfile } from '../utils/allergens'
+import { dietaryProfileService } from './dietaryProfile'
 
 export class InstacartShoppingService {
   private edgeFunctionUrl: string
@@ -27,7 +31,8 @@ export class InstacartShoppingService {
       throw new Error('User must be authenticated to send items to Instacart')
     }
 
-    const formattedItems = this.formatItemsForInstacart(items)
+    const profile = await dietaryProfileService.getProfile(items[0]?.user_id)
+    const formattedItems = this.formatItemsForInstacart(items, profile)
 
     const requestBody: any = {
       action: 'create_shopping_list',
@@ -114,7 +119,11 @@ export class InstacartShoppingService {
     return this.sendToInstacart(items, retailerKey)
   }
 
-  private formatItemsForInstacart(items: ShoppingItem[]) {
+  /**
+   * Items carry the health filters the family's allergies and diets call
+   * for, so Instacart suggests e.g. gluten free flour
+   */
+  private formatItemsForInstacart(items: ShoppingItem[], profile: DietaryProfile): InstacartShoppingListItem[] {
     return items.map(item => {
       const formatted = InstacartUnitMapper.formatForInstacart(
         item.quantity,
@@ -122,11 +131,14 @@ export class InstacartShoppingService {
         item.category || undefined
       )
 
+      const healthFilters = Allergens.healthFiltersFor(item.item, profile)
+
       return {
         name: item.item,
         quantity: formatted.quantity,
         unit: formatted.unit,
         category: item.category || 'other',
+        ...(healthFilters.length > 0 ? { health_filters: healthFilters } : {}),
       }
     })
   }
@@ -0,0 +1,343 @@
+import { supabase } from '../lib/supabase';
+import type { MealPlan, MealSlot, Recipe, RecipeIngredient, ShoppingItem } from '../lib/supabase';
+import { IngredientParser } from '../utils/ingredientParser';
+import { MeasurementConverter } from '../utils/measurementConverter';
+import { pantryService } from './pantry';
+
+export interface NewMeal {
+  recipe_id: string;
+  plan_date: string;
+  meal_slot: MealSlot;
+  servings: number;
+  notes?: string | null;
+}
+
+/**
+ * One line of the shopping list for a set of meals: an ingredient summed
+ * across every recipe that uses it, scaled to the planned servings
+ */
+export interface PlannedIngredient {
+  key: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string;
+  recipes: { id: string; title: string }[];
+  // Marked as something the family probably already has
+  pantry: boolean;
+  // How much of it was taken off because it's already in the pantry
+  onHand?: number;
+}
+
+export interface ConsolidateOptions {
+  includePantry?: boolean;
+  // Leave off what the pantry already has enough of (default true)
+  subtractPantry?: boolean;
+}
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const SHOPPING_CATEGORIES = [
+  'dairy', 'produce', 'meat', 'bakery', 'baby', 'beverages',
+  'frozen', 'household', 'snacks', 'health', 'pantry',
+];
+
+// Count units that mean "one of the thing" and can be added together
+const PLAIN_COUNT_UNITS = ['each', 'item', 'piece', 'whole'];
+
+/**
+ * Recipes planned onto days and meal slots, and the shopping list they add
+ * up to.
+ *
+ * Ingredients shared by several recipes are merged: amounts in compatible
+ * units are converted to the larger unit and summed, amounts that can't be
+ * converted (a cup of cheese vs 200 g of cheese) stay separate lines.
+ */
+export class MealPlanService {
+  async getMeals(userId: string, startDate: string, endDate: string): Promise<MealPlan[]> {
+    const { data, error } = await supabase
+      .from('meal_plans')
+      .select('*, recipe:recipes(*)')
+      .eq('user_id', userId)
+      .gte('plan_date', startDate)
+      .lte('plan_date', endDate)
+      .order('plan_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading meal plans:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async addMeal(userId: string, meal: NewMeal): Promise<MealPlan> {
+    const { data, error } = await supabase
+      .from('meal_plans')
+      .insert([{
+        user_id: userId,
+        recipe_id: meal.recipe_id,
+        plan_date: meal.plan_date,
+        meal_slot: meal.meal_slot,
+        servings: Math.max(1, Math.round(meal.servings)),
+        notes: meal.notes || null,
+      }])
+      .select('*, recipe:recipes(*)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateMeal(mealId: string, changes: Partial<NewMeal>): Promise<MealPlan> {
+    const { data, error } = await supabase
+      .from('meal_plans')
+      .update(changes.servings !== undefined
+        ? { ...changes, servings: Math.max(1, Math.round(changes.servings)) }
+        : changes)
+      .eq('id', mealId)
+      .select('*, recipe:recipes(*)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async removeMeal(mealId: string): Promise<void> {
+    const { error } = await supabase
+      .from('meal_plans')
+      .delete()
+      .eq('id', mealId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * The merged ingredient list for a set of planned meals
+   */
+  async consolidate(meals: MealPlan[], options: ConsolidateOptions = {}): Promise<PlannedIngredient[]> {
+    const recipeIds = [...new Set(meals.map(meal => meal.recipe_id))];
+    if (recipeIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('recipe_ingredients')
+      .select('*')
+      .in('recipe_id', recipeIds)
+      .order('display_order', { ascending: true });
+
+    if (error) throw error;
+
+    const byRecipe = new Map<string, RecipeIngredient[]>();
+    for (const ingredient of (data || []) as RecipeIngredient[]) {
+      byRecipe.set(ingredient.recipe_id, [...(byRecipe.get(ingredient.recipe_id) || []), ingredient]);
+    }
+
+    const merged = this.mergeIngredients(meals.flatMap(meal => (byRecipe.get(meal.recipe_id) || []).map(ingredient => ({
+      ingredient,
+      recipe: meal.recipe || { id: meal.recipe_id, title: 'Recipe' } as Recipe,
+      servings: meal.servings,
+    }))));
+
+    const needed = options.includePantry ? merged : merged.filter(item => !item.pantry);
+    if (options.subtractPantry === false) return needed;
+
+    const pantry = await pantryService.getItems(meals[0].user_id);
+    return needed.flatMap(item => {
+      if (item.quantity === null) return [item];
+      const onHand = pantryService.available(pantry, item) ?? 0;
+      if (onHand <= 0) return [item];
+      if (onHand >= item.quantity) return [];
+      return [{ ...item, quantity: Math.round((item.quantity - onHand) * 100) / 100, onHand }];
+    });
+  }
+
+  /**
+   * Take a planned meal's ingredients out of the pantry and mark it cooked
+   */
+  async markCooked(meal: MealPlan): Promise<MealPlan> {
+    if (!meal.cooked_at) {
+      await this.cookRecipe(meal.user_id, meal.recipe_id, meal.servings);
+    }
+
+    const { data, error } = await supabase
+      .from('meal_plans')
+      .update({ cooked_at: meal.cooked_at ?? new Date().toISOString() })
+      .eq('id', meal.id)
+      .select('*, recipe:recipes(*)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Take a recipe's ingredients, scaled to the servings cooked, out of the
+   * pantry. Returns how many pantry items changed.
+   */
+  async cookRecipe(userId: string, recipeId: string, servings: number): Promise<number> {
+    const [{ data: recipe, error: recipeError }, { data: ingredients, error }] = await Promise.all([
+      supabase.from('recipes').select('id, title, servings').eq('id', recipeId).single(),
+      supabase.from('recipe_ingredients').select('*').eq('recipe_id', recipeId),
+    ]);
+
+    if (recipeError) throw recipeError;
+    if (error) throw error;
+
+    const used = this.mergeIngredients(((ingredients || []) as RecipeIngredient[]).map(ingredient => ({
+      ingredient,
+      recipe,
+      servings,
+    })));
+    return pantryService.consume(userId, used);
+  }
+
+  /**
+   * Scale each recipe's ingredients to its planned servings and sum the
+   * ones that are the same thing in compatible units
+   */
+  mergeIngredients(entries: { ingredient: RecipeIngredient; recipe: Pick<Recipe, 'id' | 'title' | 'servings'>; servings: number }[]): PlannedIngredient[] {
+    const lines = new Map<string, PlannedIngredient>();
+
+    for (const { ingredient, recipe, servings } of entries) {
+      const amount = this.amountOf(ingredient);
+      const scale = recipe.servings ? servings / recipe.servings : 1;
+      const quantity = amount.quantity !== null ? amount.quantity * scale : null;
+      const name = IngredientParser.normalizeName(ingredient.name || ingredient.display_text);
+      const key = `${name}|${this.unitGroup(amount.unit)}`;
+      const existing = lines.get(key);
+
+      if (!existing) {
+        lines.set(key, {
+          key,
+          name: ingredient.name.trim() || name,
+          quantity,
+          unit: amount.unit,
+          category: this.shoppingCategory(ingredient.category),
+          recipes: [{ id: recipe.id, title: recipe.title }],
+          pantry: !!ingredient.is_pantry_item,
+        });
+        continue;
+      }
+
+      if (!existing.recipes.some(r => r.id === recipe.id)) {
+        existing.recipes.push({ id: recipe.id, title: recipe.title });
+      }
+      // Only skip it as a pantry staple if every recipe says so
+      existing.pantry = existing.pantry && !!ingredient.is_pantry_item;
+
+      if (quantity === null) continue;
+      if (existing.quantity === null) {
+        existing.quantity = quantity;
+        existing.unit = amount.unit;
+        continue;
+      }
+
+      if (existing.unit && amount.unit && existing.unit !== amount.unit) {
+        // Add up in whichever unit is bigger so the total reads naturally
+        const larger = MeasurementConverter.convert(1, amount.unit, existing.unit).quantity > 1
+          ? amount.unit
+          : existing.unit;
+        existing.quantity = this.convert(existing.quantity, existing.unit, larger) + this.convert(quantity, amount.unit, larger);
+        existing.unit = larger;
+      } else {
+        existing.quantity += quantity;
+      }
+    }
+
+    return [...lines.values()]
+      .map(line => ({ ...line, quantity: line.quantity !== null ? Math.round(line.quantity * 100) / 100 : null }))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Put consolidated ingredients on the shopping list, each linked to the
+   * first recipe that needs it, and mark the meals as shopped for
+   */
+  async addToShoppingList(userId: string, meals: MealPlan[], items: PlannedIngredient[]): Promise<ShoppingItem[]> {
+    if (items.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .insert(items.map(item => {
+        const counted = this.unitGroup(item.unit).startsWith('count');
+        return {
+          user_id: userId,
+          item: item.name,
+          // quantity is a whole number of things to pick up; measured
+          // amounts go in the notes
+          quantity: counted && item.quantity ? Math.max(1, Math.ceil(item.quantity)) : 1,
+          unit: counted && item.unit && !PLAIN_COUNT_UNITS.includes(item.unit) ? item.unit : null,
+          category: item.category,
+          notes: this.describeLine(item),
+          completed: false,
+          recipe_id: item.recipes[0]?.id ?? null,
+        };
+      }))
+      .select();
+
+    if (error) throw error;
+
+    const mealIds = meals.map(meal => meal.id);
+    if (mealIds.length > 0) {
+      const { error: markError } = await supabase
+        .from('meal_plans')
+        .update({ shopping_generated_at: new Date().toISOString() })
+        .in('id', mealIds);
+
+      if (markError) console.error('Error marking meals as shopped for:', markError);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * "1 1/2 cup for Lasagna, Garlic bread"
+   */
+  describeLine(item: PlannedIngredient): string {
+    const amount = item.quantity !== null
+      ? `${MeasurementConverter.formatQuantity(item.quantity)}${item.unit ? ` ${item.unit}` : ''} `
+      : '';
+    const onHand = item.onHand
+      ? ` (${MeasurementConverter.formatQuantity(item.onHand)}${item.unit ? ` ${item.unit}` : ''} already in the pantry)`
+      : '';
+    return `${amount}for ${item.recipes.map(r => r.title).join(', ')}${onHand}`;
+  }
+
+  private amountOf(ingredient: RecipeIngredient): { quantity: number | null; unit: string | null } {
+    if (ingredient.quantity) {
+      return {
+        quantity: Number(ingredient.quantity),
+        unit: ingredient.unit ? MeasurementConverter.normalizeUnit(ingredient.unit) : null,
+      };
+    }
+
+    // Imported recipes often only have the text, e.g. "2 cloves garlic"
+    const parsed = IngredientParser.parse(ingredient.display_text || '');
+    return {
+      quantity: parsed.quantity,
+      unit: parsed.unit ?? (ingredient.unit ? MeasurementConverter.normalizeUnit(ingredient.unit) : null),
+    };
+  }
+
+  /**
+   * Which amounts can be added together: any volumes, any weights, or
+   * counts of the same kind of thing
+   */
+  private unitGroup(unit: string | null): string {
+    if (!unit || PLAIN_COUNT_UNITS.includes(unit)) return 'count';
+    const type = MeasurementConverter.getMeasurementType(unit);
+    return type === 'count' ? `count:${unit}` : type;
+  }
+
+  private convert(quantity: number, from: string, to: string): number {
+    return from === to ? quantity : MeasurementConverter.convert(quantity, from, to).quantity;
+  }
+
+  private shoppingCategory(category: string | null | undefined): string {
+    const normalized = (category || '').toLowerCase();
+    return SHOPPING_CATEGORIES.includes(normalized) ? normalized : 'other';
+  }
+}
+
+export const mealPlanService = new MealPlanService();
@@ -1,3 +1,17 @@
+import { NaturalDate } from '../utils/naturalDate';
+import type { NaturalDateOptions } from '../utils/naturalDate';
+
+export interface ParsedWhatsAppMessage {
+  isEvent: boolean;
+  eventDetails?: {
+    title: string;
+    date?: string; // YYYY-MM-DD
+    time?: string; // HH:MM:SS
+    endTime?: string;
+    location?: string;
+  };
+}
+
 class OpenAIService {
   private openai: any = null;
 
@@ -18,6 +32,10 @@ class OpenAIService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.openai;
+  }
+
   async chat(messages: Array<{ role: string; content: string }>) {
     if (!this.openai) {
       return this.getFallbackResponse(messages);
@@ -38,17 +56,68 @@ class OpenAIService {
     }
   }
 
-  async parseWhatsAppMessage(message: string): Promise<{
-    isEvent: boolean;
-    eventDetails?: {
-      title: string;
-      date?: string;
-      time?: string;
-      location?: string;
+  /**
+   * The model's reply, for callers that store or act on it. Unlike chat(),
+   * throws when OpenAI isn't available, the request fails or the reply is
+   * empty, instead of answering with canned text.
+   */
+  async complete(messages: Array<{ role: string; content: string }>): Promise<string> {
+    if (!this.openai) {
+      throw new Error('OpenAI is not configured');
+    }
+
+    const response = await this.openai.chat.completions.create({
+      model: 'gpt-3.5-turbo',
+      messages,
+      max_tokens: 500,
+      temperature: 0.7
+    });
+
+    const content: string | undefined = response.choices[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error('OpenAI returned an empty reply');
+    }
+    return content;
+  }
+
+  /**
+   * Let the model pick tools for the conversation, one call per thing asked
+   * for, in order. Returns the calls with their raw JSON arguments; when it
+   * answered in plain text instead, the calls are empty and `reply` holds
+   * the answer. Throws when OpenAI isn't available so callers can fall back
+   * to something local.
+   */
+  async chooseTools(
+    messages: Array<{ role: string; content: string }>,
+    tools: unknown[]
+  ): Promise<{ calls: Array<{ name: string; arguments: string }>; reply: string | null }> {
+    if (!this.openai) {
+      throw new Error('OpenAI is not configured');
+    }
+
+    const response = await this.openai.chat.completions.create({
+      model: 'gpt-3.5-turbo',
+      messages,
+      tools,
+      tool_choice: 'auto',
+      parallel_tool_calls: true,
+      temperature: 0.1
+    });
+
+    const message = response.choices[0]?.message;
+    const calls: Array<{ type: string; function?: { name: string; arguments?: string } }> = message?.tool_calls || [];
+    return {
+      calls: calls
+        .filter(call => call.type === 'function' && call.function)
+        .map(call => ({ name: call.function!.name, arguments: call.function!.arguments || '{}' })),
+      reply: message?.content?.trim() || null
     };
-  }> {
+  }
+
+  /** Pass the user's timezone so "today" and "this Saturday" are theirs */
+  async parseWhatsAppMessage(message: string, dateOptions: NaturalDateOptions = {}): Promise<ParsedWhatsAppMessage> {
     if (!this.openai) {
-      return this.fallbackParseWhatsApp(message);
+      return this.fallbackParseWhatsApp(message, dateOptions);
     }
 
     try {
@@ -77,17 +146,44 @@ Return format:
       const content = response.choices[0]?.message?.content;
       if (content) {
         try {
-          return JSON.parse(content);
+          return this.normalizeWhatsAppEvent(JSON.parse(content), message, dateOptions);
         } catch {
           // If JSON parsing fails, fall back to rule-based parsing
-          return this.fallbackParseWhatsApp(message);
+          return this.fallbackParseWhatsApp(message, dateOptions);
         }
       }
     } catch (error) {
       console.error('OpenAI WhatsApp parsing error:', error);
     }
 
-    return this.fallbackParseWhatsApp(message);
+    return this.fallbackParseWhatsApp(message, dateOptions);
+  }
+
+  /**
+   * The model returns dates and times as the message wrote them ("this
+   * Saturday", "2-5pm"); turn them into values an event can be saved with.
+   */
+  private normalizeWhatsAppEvent(
+    parsed: { isEvent: boolean; eventDetails?: { title: string; date?: string | null; time?: string | null; location?: string | null } },
+    message: string,
+    dateOptions: NaturalDateOptions
+  ): ParsedWhatsAppMessage {
+    if (!parsed.isEvent || !parsed.eventDetails) return { isEvent: !!parsed.isEvent };
+
+    const { title, date, time, location } = parsed.eventDetails;
+    const when = NaturalDate.parse(message, dateOptions);
+    const startTime = NaturalDate.time(time, dateOptions) ?? when.time;
+
+    return {
+      isEvent: true,
+      eventDetails: {
+        title,
+        date: NaturalDate.date(date, dateOptions) ?? when.date ?? undefined,
+        time: startTime ?? undefined,
+        endTime: (startTime === when.time && when.endTime) || undefined,
+        location: location || undefined
+      }
+    };
   }
 
   private getFallbackResponse(messages: Array<{ role: string; content: string }>): string {
@@ -116,15 +212,7 @@ Return format:
     return "I'm here to help you manage your family's schedule, tasks, and daily activities. What would you like assistance with?";
   }
 
-  private fallbackParseWhatsApp(message: string): {
-    isEvent: boolean;
-    eventDetails?: {
-      title: string;
-      date?: string;
-      time?: string;
-      location?: string;
-    };
-  } {
+  private fallbackParseWhatsApp(message: string, dateOptions: NaturalDateOptions): ParsedWhatsAppMessage {
     const lower = message.toLowerCase();
     
     // Look for event keywords
@@ -139,27 +227,8 @@ Return format:
     const sentences = message.split(/[.!?]/);
     const title = sentences[0]?.trim() || message.substring(0, 50);
     
-    // Look for dates
-    const datePatterns = [
-      /\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i,
-      /\b(\d{1,2}\/\d{1,2}\/?\d{0,4})\b/,
-      /\b(\d{1,2}-\d{1,2}-?\d{0,4})\b/,
-      /\b(today|tomorrow|next week)\b/i
-    ];
-    
-    let date = '';
-    for (const pattern of datePatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        date = match[1];
-        break;
-      }
-    }
-    
-    // Look for times
-    const timePattern = /\b(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}-\d{1,2}(?:\s*(?:am|pm))?)\b/i;
-    const timeMatch = message.match(timePattern);
-    const time = timeMatch?.[1] || '';
+    // Dates and times as YYYY-MM-DD and HH:MM:SS, ready for the event form
+    const when = NaturalDate.parse(message, dateOptions);
     
     // Look for locations
     const locationPatterns = [
@@ -170,7 +239,8 @@ Return format:
     
     let location = '';
     for (const pattern of locationPatterns) {
-      const match = message.match(pattern);
+      // Without the date and time, so "at 3pm" isn't taken for a place
+      const match = when.rest.match(pattern);
       if (match) {
         location = match[1]?.trim() || '';
         break;
@@ -181,8 +251,9 @@ Return format:
       isEvent: true,
       eventDetails: {
         title: title || 'Event',
-        date: date || undefined,
-        time: time || undefined,
+        date: when.date ?? undefined,
+        time: when.time ?? undefined,
+        endTime: when.endTime ?? undefined,
         location: location || undefined
       }
     };
@@ -1,4 +1,5 @@
 import { aiAssistantService } from './aiAssistantService';
+import { assistantTools } from './assistantTools';
 import { supabase } from "../lib/supabase";
 
 // Fallback minimal speech types (safe for TS projects without full lib.dom)
@@ -125,207 +126,7 @@ export class OpenAIRealtimeService extends Emitter {
   private emitConn(state: RTCPeerConnectionState) { this.onConnStateCb?.(state); this.emitUI({ type: 'connection.state', state }); }
 
   private getFunctionTools() {
-    return [
-      {
-        type: 'function',
-        name: 'create_calendar_event',
-        description: 'Create a new calendar event/meeting/appointment',
-        parameters: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'The title/name of the event' },
-            date: { type: 'string', description: 'The date in YYYY-MM-DD format or natural language like "today", "tomorrow"' },
-            start_time: { type: 'string', description: 'The start time in HH:MM format or natural language like "2pm", "14:30"' },
-            end_time: { type: 'string', description: 'The end time in HH:MM format or natural language like "3pm", "15:30"' },
-            location: { type: 'string', description: 'The location of the event' },
-            participants: { type: 'array', items: { type: 'string' }, description: 'List of participants' }
-          },
-          required: ['title', 'date']
-        }
-      },
-      {
-        type: 'function',
-        name: 'query_calendar',
-        description: 'Query the calendar for events or check availability',
-        parameters: {
-          type: 'object',
-          properties: {
-            query_type: {
-              type: 'string',
-              enum: ['today', 'week', 'availability', 'search', 'next'],
-              description: 'Type of query: today (today\'s events), week (upcoming events), availability (check if free), search (find specific events), next (next upcoming event)'
-            },
-            date: { type: 'string', description: 'Date to check (for availability queries)' },
-            search_term: { type: 'string', description: 'Search term to find events (for search queries)' }
-          },
-          required: ['query_type']
-        }
-      },
-      {
-        type: 'function',
-        name: 'update_calendar_event',
-        description: 'Update an existing calendar event',
-        parameters: {
-          type: 'object',
-          properties: {
-            search_term: { type: 'string', description: 'Term to find the event to update' },
-            updates: {
-              type: 'object',
-              properties: {
-                date: { type: 'string', description: 'New date' },
-                start_time: { type: 'string', description: 'New start time' },
-                end_time: { type: 'string', description: 'New end time' },
-                location: { type: 'string', description: 'New location' },
-                title: { type: 'string', description: 'New title' }
-              }
-            }
-          },
-          required: ['search_term', 'updates']
-        }
-      },
-      {
-        type: 'function',
-        name: 'delete_calendar_event',
-        description: 'Delete a calendar event',
-        parameters: {
-          type: 'object',
-          properties: {
-            search_term: { type: 'string', description: 'Term to find the event to delete' },
-            date: { type: 'string', description: 'Date of the event (optional, helps narrow down)' }
-          },
-          required: ['search_term']
-        }
-      },
-      {
-        type: 'function',
-        name: 'create_reminder',
-        description: 'Set a reminder for a specific date and time',
-        parameters: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'What to be reminded about' },
-            date: { type: 'string', description: 'Date for the reminder' },
-            time: { type: 'string', description: 'Time for the reminder' }
-          },
-          required: ['title', 'date']
-        }
-      },
-      {
-        type: 'function',
-        name: 'add_shopping_item',
-        description: 'Add an item to the shopping list',
-        parameters: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'The item to add' },
-            category: {
-              type: 'string',
-              enum: ['dairy', 'produce', 'meat', 'bakery', 'baby', 'household', 'other'],
-              description: 'Category of the item'
-            },
-            quantity: { type: 'number', description: 'How many to buy' }
-          },
-          required: ['title']
-        }
-      },
-      {
-        type: 'function',
-        name: 'create_task',
-        description: 'Create a new task or todo item for family members',
-        parameters: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'The title/name of the task' },
-            description: { type: 'string', description: 'Detailed description of the task' },
-            category: {
-              type: 'string',
-              enum: ['chores', 'homework', 'sports', 'music', 'health', 'social', 'other'],
-              description: 'Category of the task'
-            },
-            priority: {
-              type: 'string',
-              enum: ['low', 'medium', 'high'],
-              description: 'Priority level of the task'
-            },
-            assigned_to: { type: 'string', description: 'Name of family member to assign this task to' },
-            due_date: { type: 'string', description: 'Due date in YYYY-MM-DD format or natural language like "today", "tomorrow"' },
-            due_time: { type: 'string', description: 'Due time in HH:MM format or natural language like "2pm", "14:30"' },
-            points: { type: 'number', description: 'Points awarded for completing this task (for gamification)' },
-            notes: { type: 'string', description: 'Additional notes or instructions for the task' }
-          },
-          required: ['title']
-        }
-      },
-      {
-        type: 'function',
-        name: 'query_tasks',
-        description: 'Query and list tasks, optionally filtered by status, assigned member, or search term',
-        parameters: {
-          type: 'object',
-          properties: {
-            query_type: {
-              type: 'string',
-              enum: ['all', 'pending', 'in_progress', 'completed', 'cancelled', 'search', 'assigned_to'],
-              description: 'Type of query: all (all tasks), pending (pending tasks), in_progress (in progress tasks), completed (completed tasks), cancelled (cancelled tasks), search (search by term), assigned_to (filter by assigned member)'
-            },
-            search_term: { type: 'string', description: 'Search term to find specific tasks (for search queries)' },
-            assigned_to: { type: 'string', description: 'Name of family member to filter tasks by (for assigned_to queries)' }
-          },
-          required: ['query_type']
-        }
-      },
-      {
-        type: 'function',
-        name: 'update_task',
-        description: 'Update an existing task',
-        parameters: {
-          type: 'object',
-          properties: {
-            search_term: { type: 'string', description: 'Term to find the task to update (task title or part of it)' },
-            updates: {
-              type: 'object',
-              properties: {
-                title: { type: 'string', description: 'New title' },
-                description: { type: 'string', description: 'New description' },
-                category: { type: 'string', enum: ['chores', 'homework', 'sports', 'music', 'health', 'social', 'other'], description: 'New category' },
-                priority: { type: 'string', enum: ['low', 'medium', 'high'], description: 'New priority' },
-                status: { type: 'string', enum: ['pending', 'in_progress', 'completed', 'cancelled'], description: 'New status' },
-                assigned_to: { type: 'string', description: 'Name of family member to reassign to' },
-                due_date: { type: 'string', description: 'New due date' },
-                due_time: { type: 'string', description: 'New due time' },
-                points: { type: 'number', description: 'New points value' },
-                notes: { type: 'string', description: 'New notes' }
-              }
-            }
-          },
-          required: ['search_term', 'updates']
-        }
-      },
-      {
-        type: 'function',
-        name: 'complete_task',
-        description: 'Mark a task as completed',
-        parameters: {
-          type: 'object',
-          properties: {
-            search_term: { type: 'string', description: 'Term to find the task to complete (task title or part of it)' }
-          },
-          required: ['search_term']
-        }
-      },
-      {
-        type: 'function',
-        name: 'delete_task',
-        description: 'Delete a task',
-        parameters: {
-          type: 'object',
-          properties: {
-            search_term: { type: 'string', description: 'Term to find the task to delete (task title or part of it)' }
-          },
-          required: ['search_term']
-        }
-      }
-    ];
+    return assistantTools.realtimeDefinitions();
   }
 
   private configureSession() {
@@ -611,47 +412,8 @@ export class OpenAIRealtimeService extends Emitter {
     console.log('🔧 Executing function:', functionName, 'with args:', argsJson);
 
     try {
-      const args = JSON.parse(argsJson);
-      let result: any;
-
-      switch (functionName) {
-        case 'create_calendar_event':
-          result = await this.handleCreateCalendarEvent(args);
-          break;
-        case 'query_calendar':
-          result = await this.handleQueryCalendar(args);
-          break;
-        case 'update_calendar_event':
-          result = await this.handleUpdateCalendarEvent(args);
-          break;
-        case 'delete_calendar_event':
-          result = await this.handleDeleteCalendarEvent(args);
-          break;
-        case 'create_reminder':
-          result = await this.handleCreateReminder(args);
-          break;
-        case 'add_shopping_item':
-          result = await this.handleAddShoppingItem(args);
-          break;
-        case 'create_task':
-          result = await this.handleCreateTask(args);
-          break;
-        case 'query_tasks':
-          result = await this.handleQueryTasks(args);
-          break;
-        case 'update_task':
-          result = await this.handleUpdateTask(args);
-          break;
-        case 'complete_task':
-          result = await this.handleCompleteTask(args);
-          break;
-        case 'delete_task':
-          result = await this.handleDeleteTask(args);
-          break;
-        default:
-          result = { success: false, message: `Unknown function: ${functionName}` };
-      }
-
+      // Validated against the shared tool schemas before anything runs
+      const result = await aiAssistantService.runTool(functionName, argsJson, this.currentUserId!);
       this.sendFunctionResult(callId, result);
     } catch (e) {
       console.error('❌ Function execution error:', e);
@@ -681,137 +443,6 @@ export class OpenAIRealtimeService extends Emitter {
     this.dc.send(JSON.stringify(event));
     this.dc.send(JSON.stringify({ type: 'response.create' }));
   }
-
-  private async handleCreateCalendarEvent(args: any) {
-    console.log('📅 Voice AI creating calendar event with args:', args);
-
-    const details: Record<string, unknown> = {
-      title: args.title,
-      date: args.date,
-      start_time: args.start_time || args.time,
-      end_time: args.end_time,
-      location: args.location,
-      participants: args.participants
-    };
-
-    return await aiAssistantService.createCalendarEvent(details, this.currentUserId!);
-  }
-
-  private async handleQueryCalendar(args: any) {
-    let message = '';
-    switch (args.query_type) {
-      case 'today':
-        message = "what's on my calendar today";
-        break;
-      case 'week':
-        message = "what's on my calendar this week";
-        break;
-      case 'availability':
-        message = `am I free on ${args.date}`;
-        break;
-      case 'search':
-        message = `find ${args.search_term} on my calendar`;
-        break;
-      case 'next':
-        message = "what's my next event";
-        break;
-    }
-    return await aiAssistantService.processUserMessage(message, this.currentUserId!);
-  }
-
-  private async handleUpdateCalendarEvent(args: any) {
-    console.log('✏️ Voice AI updating calendar event with args:', args);
-
-    const details: Record<string, unknown> = {
-      search_term: args.search_term,
-      updates: args.updates || {}
-    };
-
-    return await aiAssistantService.updateCalendarEvent(details, this.currentUserId!);
-  }
-
-  private async handleDeleteCalendarEvent(args: any) {
-    console.log('🗑️ Voice AI deleting calendar event with args:', args);
-
-    const details: Record<string, unknown> = {
-      search_term: args.search_term,
-      date: args.date
-    };
-
-    return await aiAssistantService.deleteCalendarEvent(details, this.currentUserId!);
-  }
-
-  private async handleCreateReminder(args: any) {
-    const message = `remind me to ${args.title} on ${args.date}${args.time ? ' at ' + args.time : ''}`;
-    return await aiAssistantService.processUserMessage(message, this.currentUserId!);
-  }
-
-  private async handleAddShoppingItem(args: any) {
-    const message = `add ${args.title} to shopping list${args.quantity ? ' quantity ' + args.quantity : ''}`;
-    return await aiAssistantService.processUserMessage(message, this.currentUserId!);
-  }
-
-  private async handleCreateTask(args: any) {
-    console.log('✅ Voice AI creating task with args:', args);
-
-    const details: Record<string, unknown> = {
-      title: args.title,
-      description: args.description,
-      category: args.category,
-      priority: args.priority,
-      assigned_to: args.assigned_to,
-      date: args.due_date,
-      time: args.due_time,
-      points: args.points,
-      notes: args.notes
-    };
-
-    return await aiAssistantService.createTask(details, this.currentUserId!);
-  }
-
-  private async handleQueryTasks(args: any) {
-    console.log('📋 Voice AI querying tasks with args:', args);
-
-    const details: Record<string, unknown> = {
-      query_type: args.query_type,
-      search_term: args.search_term,
-      assigned_to: args.assigned_to
-    };
-
-    return await aiAssistantService.queryTasks(details, this.currentUserId!);
-  }
-
-  private async handleUpdateTask(args: any) {
-    console.log('✏️ Voice AI updating task with args:', args);
-
-    const details: Record<string, unknown> = {
-      search_term: args.search_term,
-      updates: args.updates || {}
-    };
-
-    return await aiAssistantService.updateTask(details, this.currentUserId!);
-  }
-
-  private async handleCompleteTask(args: any) {
-    console.log('✅ Voice AI completing task with args:', args);
-
-    const details: Record<string, unknown> = {
-      search_term: args.search_term,
-      updates: { status: 'completed' }
-    };
-
-    return await aiAssistantService.updateTask(details, this.currentUserId!);
-  }
-
-  private async handleDeleteTask(args: any) {
-    console.log('🗑️ Voice AI deleting task with args:', args);
-
-    const details: Record<string, unknown> = {
-      search_term: args.search_term
-    };
-
-    return await aiAssistantService.deleteTask(details, this.currentUserId!);
-  }
 }
 
 export const openaiRealtimeService = new OpenAIRealtimeService({
@@ -842,10 +473,12 @@ TASK MANAGEMENT:
 
 OTHER FEATURES:
 - Set reminders for important dates and times
-- Add items to shopping lists with categories
+- Add items to shopping lists with categories, check what's on the list, mark items bought or remove them
+- Look up, add and update family members
+- Say what's left to do before an event ("What do I still need for Saturday's party?")
 - Provide parenting advice and support
 
-SPEAKING STYLE: Speak at a brisk, natural conversational pace - not too slow or overly deliberate. Keep responses concise and to the point for voice interaction. Always check for schedule conflicts when creating events and proactively warn users. Use a warm, supportive tone while maintaining an efficient, natural speaking rhythm.`
+SPEAKING STYLE: Speak at a brisk, natural conversational pace - not too slow or overly deliberate. Keep responses concise and to the point for voice interaction. Always check for schedule conflicts when creating events and proactively warn users. If a tool reports invalid arguments, ask the user for what's missing instead of guessing. Deletes, and changes that match more than one item, wait for the user: read out the question the tool returns, then call confirm_pending_action with their answer. If the user says "undo", call undo_last_action. Use a warm, supportive tone while maintaining an efficient, natural speaking rhythm.`
 });
 
 export default openaiRealtimeService;
@@ -0,0 +1,244 @@
+import { supabase } from '../lib/supabase';
+import type { PantryItem, ShoppingItem } from '../lib/supabase';
+import { IngredientParser } from '../utils/ingredientParser';
+import { MeasurementConverter } from '../utils/measurementConverter';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+
+export interface NewPantryItem {
+  name: string;
+  quantity: number;
+  unit?: string | null;
+  category?: string | null;
+  expires_on?: string | null;
+}
+
+/**
+ * An amount of something a recipe or meal needs. A null quantity means
+ * "some", which can be checked for but not taken out.
+ */
+export interface PantryNeed {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface PantryMatch<T> {
+  recipe: T;
+  have: string[];
+  missing: string[];
+  // Share of the ingredients on hand, 0 to 1
+  score: number;
+}
+
+// Items expiring within this many days are flagged
+export const EXPIRING_SOON_DAYS = 3;
+
+/**
+ * What the family has in the cupboard.
+ *
+ * Items are matched to ingredients by IngredientParser.normalizeName, and
+ * amounts are only added or taken out between compatible units; an item
+ * in cans isn't touched by a recipe asking for grams of it.
+ */
+export class PantryService {
+  async getItems(userId: string): Promise<PantryItem[]> {
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error loading pantry:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add to the pantry, topping up an existing item of the same name in a
+   * compatible unit rather than creating a second one
+   */
+  async addItem(userId: string, item: NewPantryItem): Promise<PantryItem> {
+    const unit = item.unit ? MeasurementConverter.normalizeUnit(item.unit) : null;
+    const key = IngredientParser.normalizeName(item.name);
+
+    const existing = (await this.getItems(userId)).find(row =>
+      IngredientParser.normalizeName(row.name) === key &&
+      MeasurementConverter.convertIfCompatible(1, unit, row.unit ?? null) !== null
+    );
+
+    if (existing) {
+      const added = MeasurementConverter.convertIfCompatible(item.quantity, unit, existing.unit ?? null) ?? 0;
+      return this.updateItem(existing.id, {
+        quantity: this.round(Number(existing.quantity) + added),
+        ...(item.expires_on ? { expires_on: item.expires_on } : {}),
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .insert([{
+        user_id: userId,
+        name: item.name.trim(),
+        quantity: Math.max(0, this.round(item.quantity)),
+        unit,
+        category: item.category || 'pantry',
+        expires_on: item.expires_on || null,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateItem(itemId: string, changes: Partial<PantryItem>): Promise<PantryItem> {
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .update(changes.quantity !== undefined
+        ? { ...changes, quantity: Math.max(0, this.round(changes.quantity)) }
+        : changes)
+      .eq('id', itemId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async removeItem(itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('pantry_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Restock the pantry when a shopping item is ticked off, and take it back
+   * out if it's unticked again
+   */
+  async onShoppingItemCompleted(item: ShoppingItem, completed: boolean): Promise<PantryItem | null> {
+    try {
+      if (completed && !item.pantry_item_id) {
+        const stocked = await this.addItem(item.user_id, {
+          name: item.item,
+          quantity: item.quantity || 1,
+          unit: item.unit ?? null,
+          category: item.category ?? null,
+        });
+        await supabase.from('shopping_lists').update({ pantry_item_id: stocked.id }).eq('id', item.id);
+        return stocked;
+      }
+
+      if (!completed && item.pantry_item_id) {
+        const { data: stocked } = await supabase
+          .from('pantry_items')
+          .select('*')
+          .eq('id', item.pantry_item_id)
+          .maybeSingle();
+
+        await supabase.from('shopping_lists').update({ pantry_item_id: null }).eq('id', item.id);
+        if (!stocked) return null;
+
+        const removed = MeasurementConverter.convertIfCompatible(item.quantity || 1, item.unit ?? null, stocked.unit ?? null) ?? 0;
+        return this.updateItem(stocked.id, { quantity: Number(stocked.quantity) - removed });
+      }
+    } catch (error) {
+      console.error(`Error updating pantry for "${item.item}":`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Take what a recipe used out of the pantry. Returns how many pantry
+   * items changed.
+   */
+  async consume(userId: string, needs: PantryNeed[]): Promise<number> {
+    const items = await this.getItems(userId);
+    const changed = new Map<string, number>();
+
+    for (const need of needs) {
+      if (need.quantity === null) continue;
+      let remaining = need.quantity;
+
+      for (const item of this.matchingItems(items, need.name)) {
+        if (remaining <= 0) break;
+        const current = changed.get(item.id) ?? Number(item.quantity);
+        const inItemUnit = MeasurementConverter.convertIfCompatible(remaining, need.unit, item.unit ?? null);
+        if (inItemUnit === null || current <= 0) continue;
+
+        const taken = Math.min(current, inItemUnit);
+        changed.set(item.id, current - taken);
+        remaining -= MeasurementConverter.convertIfCompatible(taken, item.unit ?? null, need.unit) ?? remaining;
+      }
+    }
+
+    for (const [itemId, quantity] of changed) {
+      await this.updateItem(itemId, { quantity });
+    }
+    return changed.size;
+  }
+
+  /**
+   * How much of a need is on hand, in the need's unit. Null when the pantry
+   * has none of it in a unit that converts.
+   */
+  available(items: PantryItem[], need: PantryNeed): number | null {
+    let total: number | null = null;
+    for (const item of this.matchingItems(items, need.name)) {
+      const amount = MeasurementConverter.convertIfCompatible(Number(item.quantity), item.unit ?? null, need.unit);
+      if (amount !== null) total = (total ?? 0) + amount;
+    }
+    return total;
+  }
+
+  /**
+   * Whether an ingredient is in the pantry at all, in any amount or unit.
+   * "chicken" on the shelf covers "chicken breast" in a recipe.
+   */
+  hasIngredient(items: PantryItem[], ingredientName: string): boolean {
+    const wanted = IngredientParser.normalizeName(ingredientName);
+    return items.some(item => {
+      if (Number(item.quantity) <= 0) return false;
+      const name = IngredientParser.normalizeName(item.name);
+      return name === wanted || ` ${wanted} `.includes(` ${name} `);
+    });
+  }
+
+  expiringSoon(items: PantryItem[], days: number = EXPIRING_SOON_DAYS, from: string = NaturalDate.today()): PantryItem[] {
+    const last = RecurrenceRule.addDays(from, days);
+    return items
+      .filter(item => item.expires_on && item.expires_on <= last && Number(item.quantity) > 0)
+      .sort((a, b) => (a.expires_on as string).localeCompare(b.expires_on as string));
+  }
+
+  /**
+   * Recipes ordered by how much of them can be made from what's on hand
+   */
+  rankRecipes<T>(recipes: T[], ingredientsOf: (recipe: T) => string[], items: PantryItem[]): PantryMatch<T>[] {
+    return recipes
+      .map(recipe => {
+        const ingredients = ingredientsOf(recipe);
+        const have = ingredients.filter(name => this.hasIngredient(items, name));
+        const missing = ingredients.filter(name => !have.includes(name));
+        return { recipe, have, missing, score: ingredients.length > 0 ? have.length / ingredients.length : 0 };
+      })
+      .sort((a, b) => b.score - a.score || b.have.length - a.have.length);
+  }
+
+  private matchingItems(items: PantryItem[], name: string): PantryItem[] {
+    const key = IngredientParser.normalizeName(name);
+    return items.filter(item => IngredientParser.normalizeName(item.name) === key);
+  }
+
+  private round(quantity: number): number {
+    return Math.round(quantity * 100) / 100;
+  }
+}
+
+export const pantryService = new PantryService();
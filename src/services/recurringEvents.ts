@@ -0,0 +1,275 @@
+import { supabase } from '../lib/supabase';
+import type { Event as DbEvent, RecurrenceEditScope } from '../lib/supabase';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+
+// Columns that belong to the row rather than the event content
+const ROW_ONLY_FIELDS = ['id', 'created_at', 'updated_at'] as const;
+
+// Columns tying a row to its copy in a feed, an .ics file or Google. A row
+// split off a series is a new local event; sharing these would make
+// reconciliation and sync treat it as the master.
+const SYNC_IDENTITY_FIELDS = ['external_uid', 'feed_id', 'google_calendar_id', 'calendar_color'] as const;
+
+export class RecurringEventService {
+  /**
+   * Whether an event (or an occurrence produced by expandEvents) belongs to a series
+   */
+  isRecurring(event: Pick<DbEvent, 'recurrence_rule' | 'recurrence_parent_id'>): boolean {
+    return !!event.recurrence_rule || !!event.recurrence_parent_id;
+  }
+
+  /**
+   * Expand series masters into one row per occurrence overlapping [startDate, endDate].
+   *
+   * Occurrences keep the master's id and rule, with event_date set to the
+   * occurrence date and end_date moved along with it. Occurrences that have an override row are replaced by it.
+   */
+  expandEvents(events: DbEvent[], startDate: string, endDate: string): DbEvent[] {
+    const overriddenDates = new Map<string, Set<string>>();
+    for (const event of events) {
+      if (event.recurrence_parent_id && event.recurrence_original_date) {
+        const dates = overriddenDates.get(event.recurrence_parent_id) ?? new Set<string>();
+        dates.add(event.recurrence_original_date);
+        overriddenDates.set(event.recurrence_parent_id, dates);
+      }
+    }
+
+    const expanded: DbEvent[] = [];
+
+    for (const event of events) {
+      if (!event.recurrence_rule) {
+        if (event.event_date <= endDate && (event.end_date ?? event.event_date) >= startDate) {
+          expanded.push(event);
+        }
+        continue;
+      }
+
+      const exceptions = [
+        ...(event.recurrence_exceptions ?? []),
+        ...(overriddenDates.get(event.id) ?? []),
+      ];
+
+      // Occurrences of a multi-day series that start before the range can still run into it
+      const span = event.end_date ? Math.max(0, RecurrenceRule.daysBetween(event.event_date, event.end_date)) : 0;
+
+      const dates = RecurrenceRule.expand(
+        event.recurrence_rule,
+        event.event_date,
+        RecurrenceRule.addDays(startDate, -span),
+        endDate,
+        exceptions
+      );
+
+      for (const date of dates) {
+        expanded.push({ ...event, event_date: date, end_date: span > 0 ? RecurrenceRule.addDays(date, span) : event.end_date });
+      }
+    }
+
+    return expanded.sort((a, b) => {
+      if (a.event_date !== b.event_date) return a.event_date < b.event_date ? -1 : 1;
+      return (a.start_time || '99').localeCompare(b.start_time || '99');
+    });
+  }
+
+  /**
+   * Apply changes to an occurrence of a series.
+   *
+   * - 'this'   detaches the occurrence into an override row
+   * - 'future' splits the series at the occurrence and edits the new tail
+   * - 'all'    edits the series master (date changes shift the whole series)
+   */
+  async updateOccurrence(
+    userId: string,
+    occurrence: DbEvent,
+    scope: RecurrenceEditScope,
+    changes: Partial<DbEvent>
+  ): Promise<void> {
+    const occurrenceDate = occurrence.recurrence_original_date ?? occurrence.event_date;
+
+    if (scope === 'this') {
+      if (occurrence.recurrence_parent_id) {
+        // An override is a single event; it cannot carry its own rule
+        const overrideChanges = { ...changes };
+        delete overrideChanges.recurrence_rule;
+        delete overrideChanges.recurrence_exceptions;
+        await this.updateRow(occurrence.id, overrideChanges);
+        return;
+      }
+
+      const { error } = await supabase.from('events').insert([{
+        ...this.contentOf(occurrence),
+        // Pushed as an instance of the series, so it lives in the series' calendar
+        google_calendar_id: occurrence.google_calendar_id ?? null,
+        calendar_color: occurrence.calendar_color ?? null,
+        ...changes,
+        user_id: userId,
+        event_date: changes.event_date ?? occurrenceDate,
+        recurrence_rule: null,
+        recurrence_exceptions: null,
+        recurrence_parent_id: occurrence.id,
+        recurrence_original_date: occurrenceDate,
+      }]);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to update this occurrence.');
+      }
+      return;
+    }
+
+    const master = await this.getMaster(occurrence);
+
+    if (scope === 'all' || occurrenceDate <= master.event_date) {
+      const shift = changes.event_date
+        ? RecurrenceRule.daysBetween(occurrenceDate, changes.event_date)
+        : 0;
+      await this.updateRow(master.id, {
+        ...changes,
+        event_date: RecurrenceRule.addDays(master.event_date, shift),
+      });
+      return;
+    }
+
+    await this.splitSeries(userId, master, occurrenceDate, changes);
+  }
+
+  /**
+   * Remove an occurrence, the occurrence and everything after it, or the whole series
+   */
+  async deleteOccurrence(occurrence: DbEvent, scope: RecurrenceEditScope): Promise<void> {
+    const occurrenceDate = occurrence.recurrence_original_date ?? occurrence.event_date;
+    const master = await this.getMaster(occurrence);
+
+    if (scope === 'all' || (scope === 'future' && occurrenceDate <= master.event_date)) {
+      await this.deleteRow(master.id);
+      return;
+    }
+
+    if (scope === 'this') {
+      if (occurrence.recurrence_parent_id) {
+        await this.deleteRow(occurrence.id);
+      }
+      await this.updateRow(master.id, {
+        recurrence_exceptions: this.addException(master.recurrence_exceptions, occurrenceDate),
+      });
+      return;
+    }
+
+    await this.updateRow(master.id, {
+      recurrence_rule: RecurrenceRule.withUntil(master.recurrence_rule!, RecurrenceRule.addDays(occurrenceDate, -1)),
+      recurrence_exceptions: (master.recurrence_exceptions ?? []).filter(d => d < occurrenceDate),
+    });
+
+    const { error } = await supabase
+      .from('events')
+      .delete()
+      .eq('recurrence_parent_id', master.id)
+      .gte('recurrence_original_date', occurrenceDate);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to delete following occurrences.');
+    }
+  }
+
+  /**
+   * End the current series the day before `fromDate` and start a new one there
+   */
+  private async splitSeries(
+    userId: string,
+    master: DbEvent,
+    fromDate: string,
+    changes: Partial<DbEvent>
+  ): Promise<void> {
+    const originalRule = RecurrenceRule.parse(master.recurrence_rule);
+    if (!originalRule) {
+      throw new Error('Event does not have a valid recurrence rule.');
+    }
+
+    const ruleChanged = changes.recurrence_rule !== undefined && changes.recurrence_rule !== master.recurrence_rule;
+    let tailRule = ruleChanged ? changes.recurrence_rule : master.recurrence_rule;
+    if (!ruleChanged && originalRule.count) {
+      const remaining = originalRule.count - RecurrenceRule.countBefore(originalRule, master.event_date, fromDate);
+      tailRule = RecurrenceRule.serialize({ ...originalRule, count: Math.max(1, remaining) });
+    }
+
+    await this.updateRow(master.id, {
+      recurrence_rule: RecurrenceRule.withUntil(master.recurrence_rule!, RecurrenceRule.addDays(fromDate, -1)),
+      recurrence_exceptions: (master.recurrence_exceptions ?? []).filter(d => d < fromDate),
+    });
+
+    const { data: tail, error } = await supabase
+      .from('events')
+      .insert([{
+        ...this.contentOf(master),
+        ...changes,
+        user_id: userId,
+        event_date: changes.event_date ?? fromDate,
+        recurrence_rule: tailRule,
+        recurrence_exceptions: (master.recurrence_exceptions ?? []).filter(d => d >= fromDate),
+        recurrence_parent_id: null,
+        recurrence_original_date: null,
+      }])
+      .select('id')
+      .single();
+
+    if (error || !tail) {
+      throw new Error(error?.message || 'Failed to create the new series.');
+    }
+
+    // Overrides after the split point now belong to the new series
+    const { error: moveError } = await supabase
+      .from('events')
+      .update({ recurrence_parent_id: tail.id })
+      .eq('recurrence_parent_id', master.id)
+      .gte('recurrence_original_date', fromDate);
+
+    if (moveError) {
+      console.error('Error moving occurrence overrides to new series:', moveError);
+    }
+  }
+
+  private async getMaster(occurrence: DbEvent): Promise<DbEvent> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', occurrence.recurrence_parent_id ?? occurrence.id)
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Recurring event not found.');
+    }
+    return data as DbEvent;
+  }
+
+  private async updateRow(id: string, changes: Partial<DbEvent>): Promise<void> {
+    const { error } = await supabase.from('events').update(changes).eq('id', id);
+    if (error) {
+      throw new Error(error.message || 'Failed to update event.');
+    }
+  }
+
+  private async deleteRow(id: string): Promise<void> {
+    const { error } = await supabase.from('events').delete().eq('id', id);
+    if (error) {
+      throw new Error(error.message || 'Failed to delete event.');
+    }
+  }
+
+  private addException(exceptions: string[] | null | undefined, date: string): string[] {
+    const next = new Set(exceptions ?? []);
+    next.add(date);
+    return [...next].sort();
+  }
+
+  private contentOf(event: DbEvent): Partial<DbEvent> {
+    const content: Partial<DbEvent> = { ...event };
+    for (const field of ROW_ONLY_FIELDS) {
+      delete content[field];
+    }
+    for (const field of SYNC_IDENTITY_FIELDS) {
+      content[field] = null;
+    }
+    return content;
+  }
+}
+
+export const recurringEventService = new RecurringEventService();
@@ -0,0 +1,174 @@
+import { supabase } from '../lib/supabase';
+import type { Reminder, Task } from '../lib/supabase';
+import { RecurrenceRule } from '../utils/recurrenceRule';
+import { NaturalDate } from '../utils/naturalDate';
+
+type RecurringTable = 'reminders' | 'tasks';
+type RecurringItem = Reminder | Task;
+
+// The column holding each table's occurrence date
+const DATE_COLUMN: Record<RecurringTable, 'reminder_date' | 'due_date'> = {
+  reminders: 'reminder_date',
+  tasks: 'due_date',
+};
+
+// Columns reset on a freshly spawned occurrence
+const ROW_ONLY_FIELDS = ['id', 'created_at', 'updated_at', 'completed', 'completed_at', 'status'] as const;
+
+/**
+ * Recurring reminders and tasks.
+ *
+ * Unlike events, every occurrence is a real row so it can be completed on its
+ * own. Completing an occurrence (or letting it go overdue) spawns the next one
+ * from the series' recurrence_rule.
+ */
+export class RecurringItemService {
+  /**
+   * Mark a reminder complete and spawn its next occurrence, if any
+   */
+  async completeReminder(reminder: Reminder): Promise<Reminder | null> {
+    const { error } = await supabase
+      .from('reminders')
+      .update({ completed: true, updated_at: new Date().toISOString() })
+      .eq('id', reminder.id);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to complete reminder.');
+    }
+
+    return this.spawnNext('reminders', reminder) as Promise<Reminder | null>;
+  }
+
+  /**
+   * Spawn the next occurrence of a task that was just marked complete
+   */
+  async onTaskCompleted(task: Task): Promise<Task | null> {
+    return this.spawnNext('tasks', task) as Promise<Task | null>;
+  }
+
+  /**
+   * Make sure every recurring series has an upcoming occurrence. Series whose
+   * latest row is overdue or already completed get their next row created, so
+   * a daily reminder keeps showing up even if yesterday's was never ticked.
+   * Returns the number of occurrences created.
+   */
+  async generateDueOccurrences(userId: string): Promise<number> {
+    const today = NaturalDate.today();
+    let created = 0;
+
+    for (const table of ['reminders', 'tasks'] as RecurringTable[]) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+        .not('recurrence_rule', 'is', null);
+
+      if (error) {
+        console.error(`Error loading recurring ${table}:`, error);
+        continue;
+      }
+
+      const latestBySeries = new Map<string, RecurringItem>();
+      for (const item of (data || []) as RecurringItem[]) {
+        const key = item.recurrence_series_id ?? item.id;
+        const latest = latestBySeries.get(key);
+        if (!latest || (this.dateOf(table, item) ?? '') > (this.dateOf(table, latest) ?? '')) {
+          latestBySeries.set(key, item);
+        }
+      }
+
+      for (const item of latestBySeries.values()) {
+        if (table === 'tasks' && (item as Task).status === 'cancelled') continue;
+
+        const date = this.dateOf(table, item);
+        if (!this.isDone(table, item) && (!date || date >= today)) continue;
+
+        try {
+          if (await this.spawnNext(table, item)) created++;
+        } catch (error) {
+          console.error(`Error spawning next occurrence in ${table}:`, error);
+        }
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Insert the occurrence that follows `item`, unless the series has ended or
+   * a later occurrence already exists. Overdue items skip straight to the
+   * first occurrence on or after today.
+   */
+  private async spawnNext(table: RecurringTable, item: RecurringItem): Promise<RecurringItem | null> {
+    const rule = RecurrenceRule.parse(item.recurrence_rule);
+    if (!rule) return null;
+
+    const dateColumn = DATE_COLUMN[table];
+    const today = NaturalDate.today();
+    const anchor = this.dateOf(table, item) ?? today;
+    const yesterday = RecurrenceRule.addDays(today, -1);
+
+    const nextDate = RecurrenceRule.next(rule, anchor, anchor > yesterday ? anchor : yesterday);
+    if (!nextDate) return null;
+
+    const seriesId = item.recurrence_series_id ?? item.id;
+
+    const { data: existing, error: existingError } = await supabase
+      .from(table)
+      .select('id')
+      .eq('recurrence_series_id', seriesId)
+      .gte(dateColumn, nextDate)
+      .limit(1);
+
+    if (existingError) {
+      throw new Error(existingError.message || 'Failed to check for the next occurrence.');
+    }
+    if (existing && existing.length > 0) return null;
+
+    if (!item.recurrence_series_id) {
+      await supabase.from(table).update({ recurrence_series_id: seriesId }).eq('id', item.id);
+    }
+
+    // The next row starts its own count, so carry over what is left of COUNT
+    const nextRule = rule.count
+      ? RecurrenceRule.serialize({ ...rule, count: rule.count - RecurrenceRule.countBefore(rule, anchor, nextDate) })
+      : item.recurrence_rule;
+
+    const row: Record<string, unknown> = { ...item };
+    for (const field of ROW_ONLY_FIELDS) {
+      delete row[field];
+    }
+    delete row.assigned_family_member;
+
+    const { data, error } = await supabase
+      .from(table)
+      .insert([{
+        ...row,
+        ...(table === 'reminders' ? { completed: false } : { status: 'pending', completed_at: null }),
+        [dateColumn]: nextDate,
+        recurring: true,
+        recurrence_rule: nextRule,
+        recurrence_series_id: seriesId,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      // Another tab or device spawned the same occurrence first
+      if (error.code === '23505') return null;
+      throw new Error(error.message || 'Failed to create the next occurrence.');
+    }
+
+    return data as RecurringItem;
+  }
+
+  private dateOf(table: RecurringTable, item: RecurringItem): string | null {
+    return table === 'reminders' ? (item as Reminder).reminder_date ?? null : (item as Task).due_date ?? null;
+  }
+
+  private isDone(table: RecurringTable, item: RecurringItem): boolean {
+    return table === 'reminders' ? !!(item as Reminder).completed : (item as Task).status === 'completed';
+  }
+}
+
+export const recurringItemService = new RecurringItemService();
@@ -1,7 +1,42 @@
 import { supabase } from '../lib/supabase';
 import type { Event } from '../lib/supabase';
-import { googleCalendarService, GoogleCalendarEvent } from './googleCalendar';
-import { calendarSyncService, SyncResult } from './calendarSync';
+import { googleCalendarService, GoogleCalendarEvent, GoogleCalendarListEntry } from './googleCalendar';
+import {
+  CalendarSync,
+  calendarSyncService,
+  ConflictPolicy,
+  SyncConflict,
+  SyncField,
+  SyncMapping,
+  SyncResult,
+  SyncSnapshot,
+  UserSyncPreferences,
+} from './calendarSync';
+import { calendarContextService } from './calendarContext';
+import { TimeZone } from '../utils/timeZone';
+
+// The user's main Google calendar; the default to import and write to
+const PRIMARY_CALENDAR = 'primary';
+
+export interface SyncOptions {
+  // Ignore the stored sync tokens and download every Google event
+  fullResync?: boolean;
+}
+
+// Events downloaded from one Google calendar in this run
+interface CalendarListing {
+  calendarId: string;
+  color: string | null;
+  timeZone: string; // the calendar's zone, else the user's
+  events: GoogleCalendarEvent[];
+  nextSyncToken: string | null;
+  fullSync: boolean;
+}
+
+// Event ids are only unique within a calendar
+function listingKey(calendarId: string, eventId: string): string {
+  return `${calendarId}/${eventId}`;
+}
 
 export class SyncOrchestrator {
   private syncInProgress = false;
@@ -14,9 +49,19 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Perform a full bidirectional sync
+   * Perform a full bidirectional sync, ignoring any stored sync token
    */
   async performFullSync(userId: string): Promise<SyncResult> {
+    return this.performSync(userId, { fullResync: true });
+  }
+
+  /**
+   * Perform a bidirectional sync of every selected Google calendar. For a
+   * calendar with a stored sync token only the events changed since the last
+   * successful run are exchanged; otherwise (or when Google has expired the
+   * token) everything is downloaded again.
+   */
+  async performSync(userId: string, options: SyncOptions = {}): Promise<SyncResult> {
     if (this.syncInProgress) {
       return {
         success: false,
@@ -32,6 +77,7 @@ export class SyncOrchestrator {
 
     this.syncInProgress = true;
     const startTime = Date.now();
+    const startedAt = new Date(startTime).toISOString();
     let logId: string | null = null;
 
     const result: SyncResult = {
@@ -46,7 +92,7 @@ export class SyncOrchestrator {
     };
 
     try {
-      console.log('🔄 Starting full bidirectional sync for user:', userId);
+      console.log('🔄 Starting bidirectional sync for user:', userId);
 
       // Get user preferences
       const prefs = await calendarSyncService.getUserSyncPreferences(userId);
@@ -69,82 +115,154 @@ export class SyncOrchestrator {
         return result;
       }
 
+      const timeZone = await calendarContextService.getTimeZone(userId);
+      const calendarIds = this.calendarsToSync(prefs);
+      const writeCalendarId = prefs.write_calendar_id || PRIMARY_CALENDAR;
+      const tokenFor = (calendarId: string) =>
+        options.fullResync ? null : prefs.sync_tokens?.[calendarId] ?? null;
+
       // Create sync log
-      logId = await calendarSyncService.createSyncLog(userId, 'full_sync', prefs.sync_direction);
+      logId = await calendarSyncService.createSyncLog(
+        userId,
+        calendarIds.every(tokenFor) ? 'incremental_sync' : 'full_sync',
+        prefs.sync_direction
+      );
       if (!logId) {
         result.errors.push('Failed to create sync log');
         return result;
       }
       result.logId = logId;
 
-      // Fetch local events
-      const { data: localEvents, error: localError } = await supabase
+      // Fetch each calendar's events: changes since its stored token, or all of them.
+      // Recurring series come back as masters (with RRULEs) followed by their
+      // modified or cancelled instances, so masters are mapped first
+      const calendars = await this.calendarEntries();
+      const listings: CalendarListing[] = [];
+      for (const calendarId of calendarIds) {
+        const googleSync = await googleCalendarService.syncEvents({ calendarId, syncToken: tokenFor(calendarId) });
+        const calendarTimeZone = calendars.get(calendarId)?.timeZone;
+        listings.push({
+          calendarId,
+          color: calendars.get(calendarId)?.backgroundColor ?? null,
+          timeZone: TimeZone.isValid(calendarTimeZone) ? calendarTimeZone : timeZone,
+          events: googleSync.events.sort((a, b) => Number(!!a.recurringEventId) - Number(!!b.recurringEventId)),
+          nextSyncToken: googleSync.nextSyncToken,
+          fullSync: googleSync.fullSync,
+        });
+      }
+      const googleEventCount = listings.reduce((count, listing) => count + listing.events.length, 0);
+      const incremental = listings.every(listing => !listing.fullSync);
+
+      // Fetch local events (subscribed feed events are read-only copies and never pushed).
+      // An incremental run only needs what changed locally since the last successful run
+      let localQuery = supabase
         .from('events')
         .select('*')
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('feed_id', null);
+
+      if (incremental && prefs.last_successful_sync_at) {
+        localQuery = localQuery.gt('updated_at', prefs.last_successful_sync_at);
+      }
+
+      const { data: localEvents, error: localError } = await localQuery;
 
       if (localError) {
         result.errors.push(`Failed to fetch local events: ${localError.message}`);
         return result;
       }
 
-      // Fetch Google Calendar events (last 3 months to future 6 months)
-      const timeMin = new Date();
-      timeMin.setMonth(timeMin.getMonth() - 3);
-      const timeMax = new Date();
-      timeMax.setMonth(timeMax.getMonth() + 6);
-
-      const googleEvents = await googleCalendarService.getEvents({
-        timeMin: timeMin.toISOString(),
-        timeMax: timeMax.toISOString(),
-        maxResults: 250,
-      });
-
-      console.log(`📊 Found ${localEvents?.length || 0} local events and ${googleEvents.length} Google events`);
+      console.log(
+        `📊 ${incremental ? 'Incremental' : 'Full'} sync: ${localEvents?.length || 0} local and ${googleEventCount} Google events from ${listings.length} calendar(s) to process`
+      );
 
       // Get existing sync mappings
       const mappings = await calendarSyncService.getSyncMappings(userId);
       const mappingsByLocalId = new Map(
         mappings.filter(m => m.local_event_id).map(m => [m.local_event_id!, m])
       );
-      const mappingsByGoogleId = new Map(
-        mappings.map(m => [m.google_event_id, m])
-      );
 
       // Process events based on sync direction
       if (prefs.sync_direction === 'bidirectional' || prefs.sync_direction === 'google_to_local') {
-        const googleResult = await this.syncGoogleToLocal(
-          userId,
-          googleEvents,
-          localEvents || [],
-          mappingsByGoogleId
-        );
-        result.eventsCreated += googleResult.created;
-        result.eventsUpdated += googleResult.updated;
-        result.conflictsDetected += googleResult.conflicts;
-        result.errors.push(...googleResult.errors);
+        for (const listing of listings) {
+          const mappingsByGoogleId = new Map(
+            mappings
+              .filter(m => (m.google_calendar_id || PRIMARY_CALENDAR) === listing.calendarId)
+              .map(m => [m.google_event_id, m])
+          );
+
+          const googleResult = await this.syncGoogleToLocal(
+            userId,
+            listing,
+            localEvents || [],
+            mappingsByGoogleId,
+            timeZone,
+            prefs.auto_resolve_conflicts ? prefs.conflict_policy ?? 'newest' : null
+          );
+          result.eventsCreated += googleResult.created;
+          result.eventsUpdated += googleResult.updated;
+          result.eventsDeleted += googleResult.deleted;
+          result.conflictsDetected += googleResult.conflicts;
+          result.errors.push(...googleResult.errors);
+        }
       }
 
+      // Only move the tokens forward once every Google change has been applied,
+      // otherwise skipped or failed ones would never be offered again
+      const googleChangesApplied = prefs.sync_direction !== 'local_to_google' && !result.errors.length;
+
       if (prefs.sync_direction === 'bidirectional' || prefs.sync_direction === 'local_to_google') {
+        const googleEventsByKey = new Map(
+          listings.flatMap(listing => listing.events.map(e => [listingKey(listing.calendarId, e.id!), e]))
+        );
+        // Calendars downloaded in full; in any other an unlisted event is unchanged
+        const fullyListed = new Set(listings.filter(l => l.fullSync).map(l => l.calendarId));
+
         const localResult = await this.syncLocalToGoogle(
           userId,
           localEvents || [],
-          googleEvents,
-          mappingsByLocalId
+          googleEventsByKey,
+          mappingsByLocalId,
+          fullyListed,
+          writeCalendarId,
+          timeZone
         );
         result.eventsCreated += localResult.created;
         result.eventsUpdated += localResult.updated;
         result.conflictsDetected += localResult.conflicts;
         result.errors.push(...localResult.errors);
+
+        // Mappings whose local event is gone are tombstones of local deletions
+        const deletionResult = await this.syncLocalDeletions(
+          userId,
+          mappings.filter(m => !m.local_event_id),
+          googleEventsByKey,
+          fullyListed
+        );
+        result.eventsDeleted += deletionResult.deleted;
+        result.conflictsDetected += deletionResult.conflicts;
+        result.errors.push(...deletionResult.errors);
       }
 
-      result.eventsProcessed = (localEvents?.length || 0) + googleEvents.length;
+      result.eventsProcessed = (localEvents?.length || 0) + googleEventCount;
       result.success = result.errors.length === 0;
 
-      // Update sync preferences
+      // Update sync preferences. The successful-sync mark is the start time so
+      // local edits made while this run was in flight are picked up next time
+      const syncTokens = { ...(prefs.sync_tokens ?? {}) };
+      for (const listing of listings) {
+        if (googleChangesApplied && listing.nextSyncToken) {
+          syncTokens[listing.calendarId] = listing.nextSyncToken;
+        }
+      }
+
       await calendarSyncService.updateUserSyncPreferences(userId, {
         last_sync_at: new Date().toISOString(),
-        last_successful_sync_at: result.success ? new Date().toISOString() : prefs.last_successful_sync_at,
+        last_successful_sync_at: result.success ? startedAt : prefs.last_successful_sync_at,
+        sync_tokens: syncTokens,
+        last_full_sync_at: googleChangesApplied && listings.every(l => l.fullSync)
+          ? new Date().toISOString()
+          : prefs.last_full_sync_at,
       });
 
       // Update sync log
@@ -185,15 +303,20 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Sync Google Calendar events to local database
+   * Sync one Google calendar's events to the local database. Deleted Google
+   * events arrive as status "cancelled"; on a full run a mapped event missing
+   * from the listing altogether has been deleted as well.
    */
   private async syncGoogleToLocal(
     userId: string,
-    googleEvents: GoogleCalendarEvent[],
+    listing: CalendarListing,
     localEvents: Event[],
-    mappingsByGoogleId: Map<string, any>
-  ): Promise<{ created: number; updated: number; conflicts: number; errors: string[] }> {
-    const result = { created: 0, updated: 0, conflicts: 0, errors: [] as string[] };
+    mappingsByGoogleId: Map<string, any>,
+    timeZone: string,
+    conflictPolicy: ConflictPolicy | null = null
+  ): Promise<{ created: number; updated: number; deleted: number; conflicts: number; errors: string[] }> {
+    const result = { created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] as string[] };
+    const { calendarId, events: googleEvents } = listing;
 
     for (const googleEvent of googleEvents) {
       if (!googleEvent.id) continue;
@@ -201,9 +324,39 @@ export class SyncOrchestrator {
       try {
         const mapping = mappingsByGoogleId.get(googleEvent.id);
 
+        if (googleEvent.status === 'cancelled') {
+          if (googleEvent.recurringEventId) {
+            if (await this.applyCancelledInstance(googleEvent, mapping, mappingsByGoogleId, listing.timeZone)) {
+              result.deleted++;
+            }
+          } else if (mapping?.local_event_id) {
+            await this.applyGoogleDeletion(userId, mapping, googleEvent, result);
+          }
+          continue;
+        }
+
+        // Deleted locally - handled by syncLocalDeletions
+        if (mapping && !mapping.local_event_id) continue;
+
         if (!mapping) {
-          // New Google event - create locally
-          const localEventData = calendarSyncService.googleEventToLocal(googleEvent, userId);
+          // New Google event - create locally, tagged with its calendar
+          const localEventData = {
+            ...CalendarSync.googleEventToLocal(
+              googleEvent,
+              userId,
+              CalendarSync.googleTimeZone(googleEvent.start, listing.timeZone)
+            ),
+            google_calendar_id: calendarId,
+            calendar_color: listing.color,
+          };
+
+          if (googleEvent.recurringEventId) {
+            // Modified instance of a series - store as an override of the local master
+            const seriesMapping = mappingsByGoogleId.get(googleEvent.recurringEventId);
+            if (!seriesMapping?.local_event_id) continue;
+            localEventData.recurrence_parent_id = seriesMapping.local_event_id;
+          }
+
           const { data: newEvent, error } = await supabase
             .from('events')
             .insert([localEventData])
@@ -216,21 +369,25 @@ export class SyncOrchestrator {
           }
 
           // Create mapping
-          await calendarSyncService.upsertSyncMapping({
+          const newMapping = {
             user_id: userId,
             local_event_id: newEvent.id,
             google_event_id: googleEvent.id,
-            sync_status: 'synced',
-            local_hash: calendarSyncService.generateEventHash(newEvent),
-            google_hash: calendarSyncService.generateEventHash(googleEvent),
+            google_calendar_id: calendarId,
+            sync_status: 'synced' as const,
+            local_hash: CalendarSync.generateEventHash(newEvent),
+            google_hash: CalendarSync.generateEventHash(googleEvent),
+            synced_snapshot: CalendarSync.toSnapshot(newEvent),
             last_synced_at: new Date().toISOString(),
-          });
+          };
+          await calendarSyncService.upsertSyncMapping(newMapping);
+          mappingsByGoogleId.set(googleEvent.id, newMapping);
 
           result.created++;
           console.log(`✅ Created local event from Google: ${googleEvent.summary}`);
-        } else {
+        } else if (mapping.sync_status !== 'pending') {
           // Existing mapping - check for changes
-          const currentGoogleHash = calendarSyncService.generateEventHash(googleEvent);
+          const currentGoogleHash = CalendarSync.generateEventHash(googleEvent);
 
           if (currentGoogleHash !== mapping.google_hash) {
             // Google event changed - check local event
@@ -245,42 +402,80 @@ export class SyncOrchestrator {
               continue;
             }
 
-            const currentLocalHash = calendarSyncService.generateEventHash(localEvent);
+            const currentLocalHash = CalendarSync.generateEventHash(localEvent);
+            // Read in the local event's zone so the wall clocks compare
+            const googleSnapshot = CalendarSync.toSnapshot(
+              CalendarSync.googleEventToLocal(
+                googleEvent,
+                userId,
+                CalendarSync.eventTimeZone(localEvent, timeZone)
+              )
+            );
 
             if (currentLocalHash !== mapping.local_hash) {
-              // Both changed - conflict!
-              console.log('⚠️ Conflict detected:', googleEvent.summary);
-
-              await calendarSyncService.createConflict({
-                user_id: userId,
-                local_event_id: mapping.local_event_id,
-                google_event_id: googleEvent.id,
-                conflict_type: 'modification',
-                local_event_data: localEvent,
-                google_event_data: googleEvent,
-                local_modified_at: localEvent.updated_at,
-                google_modified_at: googleEvent.updated,
-              });
+              // Both changed - merge field by field against the last synced snapshot
+              const localSnapshot = CalendarSync.toSnapshot(localEvent);
+              const { merged, conflicting } = CalendarSync.mergeSnapshots(
+                mapping.synced_snapshot ?? null,
+                localSnapshot,
+                googleSnapshot
+              );
+
+              if (conflicting.length > 0 && !conflictPolicy) {
+                console.log('⚠️ Conflict detected:', googleEvent.summary, conflicting);
+
+                await calendarSyncService.createConflict({
+                  user_id: userId,
+                  local_event_id: mapping.local_event_id,
+                  google_event_id: googleEvent.id,
+                  google_calendar_id: calendarId,
+                  conflict_type: 'modification',
+                  local_event_data: localEvent,
+                  google_event_data: googleEvent,
+                  conflicting_fields: conflicting,
+                  merged_event_data: merged,
+                  local_modified_at: localEvent.updated_at,
+                  google_modified_at: googleEvent.updated,
+                });
+                // Shared with the local-to-Google pass, which must leave it alone too
+                mapping.sync_status = 'pending';
+                await calendarSyncService.upsertSyncMapping(mapping);
 
-              result.conflicts++;
+                result.conflicts++;
+                continue;
+              }
+
+              const winner = CalendarSync.policyWinner(conflictPolicy ?? 'newest', localEvent, googleEvent);
+              const resolved = CalendarSync.resolveFields(
+                merged,
+                localSnapshot,
+                googleSnapshot,
+                Object.fromEntries(conflicting.map(field => [field, winner]))
+              );
+              await this.applyMergedSnapshot(mapping, localEvent, resolved, timeZone);
+
+              result.updated++;
+              console.log(`🔀 Merged local and Google edits: ${googleEvent.summary}`);
             } else {
               // Only Google changed - update local
-              const localEventData = calendarSyncService.googleEventToLocal(googleEvent, userId);
-              const { error: updateError } = await supabase
+              const { data: updatedEvent, error: updateError } = await supabase
                 .from('events')
-                .update(localEventData)
-                .eq('id', mapping.local_event_id);
+                .update(CalendarSync.snapshotToEvent(googleSnapshot))
+                .eq('id', mapping.local_event_id)
+                .select()
+                .single();
 
-              if (updateError) {
-                result.errors.push(`Failed to update local event: ${updateError.message}`);
+              if (updateError || !updatedEvent) {
+                result.errors.push(`Failed to update local event: ${updateError?.message}`);
                 continue;
               }
 
               // Update mapping
               await calendarSyncService.upsertSyncMapping({
                 ...mapping,
-                local_hash: currentGoogleHash,
+                local_hash: CalendarSync.generateEventHash(updatedEvent),
                 google_hash: currentGoogleHash,
+                synced_snapshot: CalendarSync.toSnapshot(updatedEvent),
                 last_synced_at: new Date().toISOString(),
                 sync_status: 'synced',
               });
@@ -295,63 +490,426 @@ export class SyncOrchestrator {
       }
     }
 
+    if (listing.fullSync) {
+      const listedIds = new Set(googleEvents.map(e => e.id));
+      const vanished = [...mappingsByGoogleId.values()].filter(
+        m => m.local_event_id && m.sync_status !== 'pending' && !listedIds.has(m.google_event_id)
+      );
+
+      for (const mapping of vanished) {
+        try {
+          await this.applyGoogleDeletion(userId, mapping, null, result);
+        } catch (error) {
+          result.errors.push(`Error removing deleted Google event ${mapping.google_event_id}: ${error}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The Google copy of a mapped event was deleted. Delete the local event
+   * too, unless it was edited since the last sync - then ask the user.
+   */
+  private async applyGoogleDeletion(
+    userId: string,
+    mapping: SyncMapping,
+    googleEvent: GoogleCalendarEvent | null,
+    result: { deleted: number; conflicts: number; errors: string[] }
+  ): Promise<void> {
+    if (mapping.sync_status === 'pending') return; // awaiting conflict resolution
+
+    const localEvent = await this.fetchLocalEvent(mapping.local_event_id!);
+    if (!localEvent) {
+      await calendarSyncService.deleteSyncMapping(mapping.id);
+      return;
+    }
+
+    if (CalendarSync.generateEventHash(localEvent) !== mapping.local_hash) {
+      console.log('⚠️ Deletion conflict (deleted in Google, edited locally):', localEvent.title);
+
+      await calendarSyncService.createConflict({
+        user_id: userId,
+        local_event_id: localEvent.id,
+        google_event_id: mapping.google_event_id,
+        google_calendar_id: mapping.google_calendar_id,
+        conflict_type: 'deletion',
+        deleted_side: 'google',
+        local_event_data: localEvent,
+        google_event_data: googleEvent ?? { id: mapping.google_event_id, status: 'cancelled' },
+        local_modified_at: localEvent.updated_at ?? null,
+        google_modified_at: googleEvent?.updated ?? null,
+      });
+      // Shared with the local-to-Google pass, which must leave it alone too
+      mapping.sync_status = 'pending';
+      await calendarSyncService.upsertSyncMapping(mapping);
+      result.conflicts++;
+      return;
+    }
+
+    const { error } = await supabase.from('events').delete().eq('id', localEvent.id);
+    if (error) {
+      result.errors.push(`Failed to delete local event: ${error.message}`);
+      return;
+    }
+
+    await calendarSyncService.deleteSyncMapping(mapping.id);
+    result.deleted++;
+    console.log(`🗑️ Deleted local event removed from Google: ${localEvent.title}`);
+  }
+
+  /**
+   * Push local deletions to Google. `tombstones` are mappings whose local
+   * event has been deleted; if the Google copy was edited in the meantime a
+   * deletion conflict is raised instead.
+   */
+  private async syncLocalDeletions(
+    userId: string,
+    tombstones: SyncMapping[],
+    googleEventsByKey: Map<string, GoogleCalendarEvent>,
+    fullyListed: Set<string>
+  ): Promise<{ deleted: number; conflicts: number; errors: string[] }> {
+    const result = { deleted: 0, conflicts: 0, errors: [] as string[] };
+
+    for (const mapping of tombstones) {
+      if (mapping.sync_status === 'pending') continue; // awaiting conflict resolution
+
+      try {
+        const calendarId = mapping.google_calendar_id || PRIMARY_CALENDAR;
+        const googleEvent = googleEventsByKey.get(listingKey(calendarId, mapping.google_event_id));
+
+        // Gone on both sides: a full listing doesn't have it, or it was cancelled
+        if ((!googleEvent && fullyListed.has(calendarId)) || googleEvent?.status === 'cancelled') {
+          await calendarSyncService.deleteSyncMapping(mapping.id);
+          continue;
+        }
+
+        // Outside a full listing an unlisted Google event is unchanged
+        const googleChanged = !!googleEvent &&
+          CalendarSync.generateEventHash(googleEvent) !== mapping.google_hash;
+
+        if (googleChanged) {
+          console.log('⚠️ Deletion conflict (deleted locally, edited in Google):', googleEvent!.summary);
+
+          await calendarSyncService.createConflict({
+            user_id: userId,
+            local_event_id: null,
+            google_event_id: mapping.google_event_id,
+            google_calendar_id: calendarId,
+            conflict_type: 'deletion',
+            deleted_side: 'local',
+            local_event_data: {},
+            google_event_data: googleEvent,
+            local_modified_at: null,
+            google_modified_at: googleEvent!.updated ?? null,
+          });
+          await calendarSyncService.upsertSyncMapping({ ...mapping, sync_status: 'pending' });
+          result.conflicts++;
+          continue;
+        }
+
+        await googleCalendarService.deleteEvent(mapping.google_event_id, calendarId);
+        await calendarSyncService.deleteSyncMapping(mapping.id);
+        result.deleted++;
+        console.log(`🗑️ Deleted Google event removed locally: ${mapping.google_event_id}`);
+      } catch (error) {
+        result.errors.push(`Failed to delete Google event ${mapping.google_event_id}: ${error}`);
+      }
+    }
+
     return result;
   }
 
   /**
-   * Sync local events to Google Calendar
+   * Settle a modification conflict. Fields only one side edited are merged
+   * as usual; conflicting fields come from `choices` for 'merge', or all
+   * from one side for keep_local / keep_google. The result is written to
+   * both sides.
+   */
+  async resolveModificationConflict(
+    userId: string,
+    conflict: SyncConflict,
+    resolution: 'keep_local' | 'keep_google' | 'merge',
+    choices: Partial<Record<SyncField, 'local' | 'google'>> = {}
+  ): Promise<boolean> {
+    try {
+      if (!conflict.local_event_id) return false;
+
+      const localEvent = await this.fetchLocalEvent(conflict.local_event_id);
+      const mapping = await calendarSyncService.getSyncMappingByGoogleId(
+        userId,
+        conflict.google_event_id,
+        conflict.google_calendar_id
+      );
+      if (!localEvent || !mapping) return false;
+
+      // Merge again from the current local event in case it was edited since
+      const timeZone = await calendarContextService.getTimeZone(userId);
+      const localSnapshot = CalendarSync.toSnapshot(localEvent);
+      const googleSnapshot = CalendarSync.toSnapshot(
+        CalendarSync.googleEventToLocal(
+          conflict.google_event_data,
+          userId,
+          CalendarSync.eventTimeZone(localEvent, timeZone)
+        )
+      );
+      const { merged, conflicting } = CalendarSync.mergeSnapshots(
+        mapping.synced_snapshot ?? null,
+        localSnapshot,
+        googleSnapshot
+      );
+
+      const sides = Object.fromEntries(conflicting.map(field => [
+        field,
+        resolution === 'merge' ? choices[field] ?? 'local' : resolution === 'keep_google' ? 'google' : 'local',
+      ]));
+
+      await this.applyMergedSnapshot(
+        mapping,
+        localEvent,
+        CalendarSync.resolveFields(merged, localSnapshot, googleSnapshot, sides),
+        timeZone
+      );
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to resolve conflict:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Write a merged snapshot to the local event and to Google, and record
+   * it as the new common base
+   */
+  private async applyMergedSnapshot(
+    mapping: SyncMapping,
+    localEvent: Event,
+    snapshot: SyncSnapshot,
+    timeZone: string
+  ): Promise<void> {
+    const { data: updatedEvent, error } = await supabase
+      .from('events')
+      .update(CalendarSync.snapshotToEvent(snapshot))
+      .eq('id', localEvent.id)
+      .select()
+      .single();
+
+    if (error || !updatedEvent) {
+      throw new Error(`Failed to update local event: ${error?.message}`);
+    }
+
+    const updatedGoogleEvent = await googleCalendarService.updateEvent(
+      mapping.google_event_id,
+      CalendarSync.localEventToGoogle(updatedEvent, timeZone),
+      mapping.google_calendar_id
+    );
+
+    await calendarSyncService.upsertSyncMapping({
+      ...mapping,
+      local_hash: CalendarSync.generateEventHash(updatedEvent),
+      google_hash: CalendarSync.generateEventHash(updatedGoogleEvent),
+      synced_snapshot: CalendarSync.toSnapshot(updatedEvent),
+      last_synced_at: new Date().toISOString(),
+      sync_status: 'synced',
+    });
+  }
+
+  /**
+   * Settle a deletion conflict. keep_local means the local state wins: a
+   * local deletion is pushed to Google, or a locally edited event is put
+   * back into Google. keep_google is the mirror image.
+   */
+  async resolveDeletionConflict(
+    userId: string,
+    conflict: SyncConflict,
+    resolution: 'keep_local' | 'keep_google'
+  ): Promise<boolean> {
+    try {
+      const calendarId = conflict.google_calendar_id || PRIMARY_CALENDAR;
+      const mapping = await calendarSyncService.getSyncMappingByGoogleId(userId, conflict.google_event_id, calendarId);
+      const timeZone = await calendarContextService.getTimeZone(userId);
+
+      if (conflict.deleted_side === 'local') {
+        if (resolution === 'keep_local') {
+          await googleCalendarService.deleteEvent(conflict.google_event_id, calendarId);
+          if (mapping) await calendarSyncService.deleteSyncMapping(mapping.id);
+          return true;
+        }
+
+        // Restore the local event from the Google copy
+        const googleEvent = conflict.google_event_data as GoogleCalendarEvent;
+        const localEventData = {
+          ...CalendarSync.googleEventToLocal(
+            googleEvent,
+            userId,
+            CalendarSync.googleTimeZone(googleEvent.start, timeZone)
+          ),
+          google_calendar_id: calendarId,
+        };
+        if (googleEvent.recurringEventId) {
+          const seriesMapping = await calendarSyncService.getSyncMappingByGoogleId(
+            userId,
+            googleEvent.recurringEventId,
+            calendarId
+          );
+          localEventData.recurrence_parent_id = seriesMapping?.local_event_id ?? null;
+        }
+
+        const { data: restored, error } = await supabase
+          .from('events')
+          .insert([localEventData])
+          .select()
+          .single();
+
+        if (error || !restored) {
+          console.error('Failed to restore local event:', error);
+          return false;
+        }
+
+        return await calendarSyncService.upsertSyncMapping({
+          ...(mapping ?? {}),
+          user_id: userId,
+          local_event_id: restored.id,
+          google_event_id: conflict.google_event_id,
+          google_calendar_id: calendarId,
+          local_hash: CalendarSync.generateEventHash(restored),
+          google_hash: CalendarSync.generateEventHash(googleEvent),
+          synced_snapshot: CalendarSync.toSnapshot(restored),
+          last_synced_at: new Date().toISOString(),
+          sync_status: 'synced',
+        });
+      }
+
+      // Deleted in Google, edited locally
+      if (resolution === 'keep_google') {
+        if (conflict.local_event_id) {
+          await supabase.from('events').delete().eq('id', conflict.local_event_id);
+        }
+        if (mapping) await calendarSyncService.deleteSyncMapping(mapping.id);
+        return true;
+      }
+
+      // Put the local event back into Google as a new event
+      const localEvent = conflict.local_event_id ? await this.fetchLocalEvent(conflict.local_event_id) : undefined;
+      if (!localEvent) return false;
+
+      const created = await googleCalendarService.insertEvent(
+        CalendarSync.localEventToGoogle(localEvent, timeZone),
+        calendarId
+      );
+      if (mapping) await calendarSyncService.deleteSyncMapping(mapping.id);
+
+      return await calendarSyncService.upsertSyncMapping({
+        user_id: userId,
+        local_event_id: localEvent.id,
+        google_event_id: created.id!,
+        google_calendar_id: calendarId,
+        local_hash: CalendarSync.generateEventHash(localEvent),
+        google_hash: CalendarSync.generateEventHash(created),
+        synced_snapshot: CalendarSync.toSnapshot(localEvent),
+        last_synced_at: new Date().toISOString(),
+        sync_status: 'synced',
+      });
+    } catch (error) {
+      console.error('❌ Failed to resolve deletion conflict:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sync local events to Google Calendar. New events are created in
+   * `writeCalendarId`; mapped ones are updated in the calendar they live in.
+   * Only calendars in `fullyListed` were downloaded in full - for the others
+   * `googleEventsByKey` holds just what changed, so a mapped event missing
+   * from it is unchanged there rather than gone.
    */
   private async syncLocalToGoogle(
     userId: string,
     localEvents: Event[],
-    googleEvents: GoogleCalendarEvent[],
-    mappingsByLocalId: Map<string, any>
+    googleEventsByKey: Map<string, GoogleCalendarEvent>,
+    mappingsByLocalId: Map<string, any>,
+    fullyListed: Set<string>,
+    writeCalendarId: string,
+    timeZone: string
   ): Promise<{ created: number; updated: number; conflicts: number; errors: string[] }> {
     const result = { created: 0, updated: 0, conflicts: 0, errors: [] as string[] };
 
-    const googleEventsById = new Map(googleEvents.map(e => [e.id!, e]));
+    const localEventsById = new Map(localEvents.map(e => [e.id, e]));
 
-    for (const localEvent of localEvents) {
+    // Series masters first so their overrides can resolve the Google series id
+    const orderedLocalEvents = [...localEvents].sort(
+      (a, b) => Number(!!a.recurrence_parent_id) - Number(!!b.recurrence_parent_id)
+    );
+
+    for (const localEvent of orderedLocalEvents) {
       try {
         const mapping = mappingsByLocalId.get(localEvent.id);
 
         if (!mapping) {
           // New local event - create in Google Calendar
-          const googleEventData = calendarSyncService.localEventToGoogle(localEvent);
+          const googleEventData = CalendarSync.localEventToGoogle(localEvent, timeZone);
 
           try {
-            const createdGoogleEvent = await googleCalendarService.insertEvent(googleEventData);
+            let createdGoogleEvent: GoogleCalendarEvent;
+            let calendarId = writeCalendarId;
+
+            if (localEvent.recurrence_parent_id && localEvent.recurrence_original_date) {
+              // Edited occurrence - update the matching instance of the Google series
+              const master = localEventsById.get(localEvent.recurrence_parent_id)
+                ?? await this.fetchLocalEvent(localEvent.recurrence_parent_id);
+              const seriesMapping = mappingsByLocalId.get(localEvent.recurrence_parent_id);
+              if (!master || !seriesMapping) continue;
+
+              const instanceId = CalendarSync.googleInstanceId(
+                seriesMapping.google_event_id,
+                master,
+                localEvent.recurrence_original_date,
+                timeZone
+              );
+              calendarId = seriesMapping.google_calendar_id || PRIMARY_CALENDAR;
+              createdGoogleEvent = await googleCalendarService.updateEvent(instanceId, googleEventData, calendarId);
+            } else {
+              createdGoogleEvent = await googleCalendarService.insertEvent(googleEventData, calendarId);
+            }
 
             // Create mapping
-            await calendarSyncService.upsertSyncMapping({
+            const newMapping = {
               user_id: userId,
               local_event_id: localEvent.id,
               google_event_id: createdGoogleEvent.id!,
-              sync_status: 'synced',
-              local_hash: calendarSyncService.generateEventHash(localEvent),
-              google_hash: calendarSyncService.generateEventHash(createdGoogleEvent),
+              google_calendar_id: calendarId,
+              sync_status: 'synced' as const,
+              local_hash: CalendarSync.generateEventHash(localEvent),
+              google_hash: CalendarSync.generateEventHash(createdGoogleEvent),
+              synced_snapshot: CalendarSync.toSnapshot(localEvent),
               last_synced_at: new Date().toISOString(),
-            });
+            };
+            await calendarSyncService.upsertSyncMapping(newMapping);
+            mappingsByLocalId.set(localEvent.id, newMapping);
 
             result.created++;
             console.log(`✅ Created Google event from local: ${localEvent.title}`);
           } catch (error) {
             result.errors.push(`Failed to create Google event: ${error}`);
           }
-        } else {
+        } else if (mapping.sync_status !== 'pending') {
           // Existing mapping - check for changes
-          const currentLocalHash = calendarSyncService.generateEventHash(localEvent);
+          const currentLocalHash = CalendarSync.generateEventHash(localEvent);
 
           if (currentLocalHash !== mapping.local_hash) {
             // Local event changed - check Google event
-            const googleEvent = googleEventsById.get(mapping.google_event_id);
+            const calendarId = mapping.google_calendar_id || PRIMARY_CALENDAR;
+            const googleEvent = googleEventsByKey.get(listingKey(calendarId, mapping.google_event_id));
 
-            if (!googleEvent) {
+            if (!googleEvent && fullyListed.has(calendarId)) {
               result.errors.push(`Google event not found: ${mapping.google_event_id}`);
               continue;
             }
 
-            const currentGoogleHash = calendarSyncService.generateEventHash(googleEvent);
+            const currentGoogleHash = googleEvent
+              ? CalendarSync.generateEventHash(googleEvent)
+              : mapping.google_hash;
 
             if (currentGoogleHash !== mapping.google_hash) {
               // Both changed - conflict already detected in Google to local sync
@@ -359,19 +917,21 @@ export class SyncOrchestrator {
               continue;
             } else {
               // Only local changed - update Google
-              const googleEventData = calendarSyncService.localEventToGoogle(localEvent);
+              const googleEventData = CalendarSync.localEventToGoogle(localEvent, timeZone);
 
               try {
                 const updatedGoogleEvent = await googleCalendarService.updateEvent(
                   mapping.google_event_id,
-                  googleEventData
+                  googleEventData,
+                  calendarId
                 );
 
                 // Update mapping
                 await calendarSyncService.upsertSyncMapping({
                   ...mapping,
                   local_hash: currentLocalHash,
-                  google_hash: calendarSyncService.generateEventHash(updatedGoogleEvent),
+                  google_hash: CalendarSync.generateEventHash(updatedGoogleEvent),
+                  synced_snapshot: CalendarSync.toSnapshot(localEvent),
                   last_synced_at: new Date().toISOString(),
                   sync_status: 'synced',
                 });
@@ -392,6 +952,81 @@ export class SyncOrchestrator {
     return result;
   }
 
+  /**
+   * Calendars imported this run. The write calendar is always included so
+   * Google-side edits to events created from here come back.
+   */
+  private calendarsToSync(prefs: UserSyncPreferences): string[] {
+    const selected = prefs.sync_calendar_ids?.length ? prefs.sync_calendar_ids : [PRIMARY_CALENDAR];
+    return [...new Set([...selected, prefs.write_calendar_id || PRIMARY_CALENDAR])];
+  }
+
+  private async calendarEntries(): Promise<Map<string, GoogleCalendarListEntry>> {
+    try {
+      const calendars = await googleCalendarService.listCalendars();
+      return new Map(calendars.map(calendar => [calendar.id, calendar]));
+    } catch {
+      // Colors are cosmetic and zones fall back to the user's; sync carries on without them
+      return new Map();
+    }
+  }
+
+  private async fetchLocalEvent(eventId: string): Promise<Event | undefined> {
+    const { data } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    return data ?? undefined;
+  }
+
+  /**
+   * A cancelled instance of a Google series becomes an exception on the
+   * local master, replacing any local override for that occurrence
+   */
+  private async applyCancelledInstance(
+    googleEvent: GoogleCalendarEvent,
+    mapping: Partial<SyncMapping> | undefined,
+    mappingsByGoogleId: Map<string, Partial<SyncMapping>>,
+    timeZone: string
+  ): Promise<boolean> {
+    const seriesMapping = mappingsByGoogleId.get(googleEvent.recurringEventId!);
+    if (!seriesMapping?.local_event_id || !googleEvent.originalStartTime) return false;
+
+    const originalDate = CalendarSync.googleStartDate(
+      googleEvent.originalStartTime,
+      CalendarSync.googleTimeZone(googleEvent.originalStartTime, timeZone)
+    );
+
+    if (mapping?.id) {
+      // Drop the mapping with the override so it isn't taken for a local deletion
+      if (mapping.local_event_id) {
+        await supabase.from('events').delete().eq('id', mapping.local_event_id);
+      }
+      await calendarSyncService.deleteSyncMapping(mapping.id);
+      mappingsByGoogleId.delete(googleEvent.id!);
+    }
+
+    const { data: master } = await supabase
+      .from('events')
+      .select('recurrence_exceptions')
+      .eq('id', seriesMapping.local_event_id)
+      .maybeSingle();
+
+    if (!master) return false;
+
+    const exceptions: string[] = master.recurrence_exceptions ?? [];
+    if (exceptions.includes(originalDate)) return !!mapping?.id;
+
+    await supabase
+      .from('events')
+      .update({ recurrence_exceptions: [...exceptions, originalDate].sort() })
+      .eq('id', seriesMapping.local_event_id);
+
+    return true;
+  }
+
   /**
    * Sync a single event immediately
    */
@@ -419,32 +1054,43 @@ export class SyncOrchestrator {
 
         // Check if mapping exists
         const mapping = await calendarSyncService.getSyncMappingByLocalId(userId, eventId);
+        const timeZone = await calendarContextService.getTimeZone(userId);
 
         if (mapping) {
           // Update existing Google event
-          const googleEventData = calendarSyncService.localEventToGoogle(localEvent);
-          await googleCalendarService.updateEvent(mapping.google_event_id, googleEventData);
+          const googleEventData = CalendarSync.localEventToGoogle(localEvent, timeZone);
+          const updatedGoogleEvent = await googleCalendarService.updateEvent(
+            mapping.google_event_id,
+            googleEventData,
+            mapping.google_calendar_id
+          );
 
           // Update mapping
           await calendarSyncService.upsertSyncMapping({
             ...mapping,
-            local_hash: calendarSyncService.generateEventHash(localEvent),
+            local_hash: CalendarSync.generateEventHash(localEvent),
+            google_hash: CalendarSync.generateEventHash(updatedGoogleEvent),
+            synced_snapshot: CalendarSync.toSnapshot(localEvent),
             last_synced_at: new Date().toISOString(),
             sync_status: 'synced',
           });
         } else {
-          // Create new Google event
-          const googleEventData = calendarSyncService.localEventToGoogle(localEvent);
-          const createdEvent = await googleCalendarService.insertEvent(googleEventData);
+          // Create new Google event in the calendar local events are written to
+          const prefs = await calendarSyncService.getUserSyncPreferences(userId);
+          const calendarId = prefs?.write_calendar_id || PRIMARY_CALENDAR;
+          const googleEventData = CalendarSync.localEventToGoogle(localEvent, timeZone);
+          const createdEvent = await googleCalendarService.insertEvent(googleEventData, calendarId);
 
           // Create mapping
           await calendarSyncService.upsertSyncMapping({
             user_id: userId,
             local_event_id: eventId,
             google_event_id: createdEvent.id!,
+            google_calendar_id: calendarId,
             sync_status: 'synced',
-            local_hash: calendarSyncService.generateEventHash(localEvent),
-            google_hash: calendarSyncService.generateEventHash(createdEvent),
+            local_hash: CalendarSync.generateEventHash(localEvent),
+            google_hash: CalendarSync.generateEventHash(createdEvent),
+            synced_snapshot: CalendarSync.toSnapshot(localEvent),
             last_synced_at: new Date().toISOString(),
           });
         }
@@ -0,0 +1,132 @@
+import { supabase } from '../lib/supabase';
+import { calendarSyncService, SyncLog, SyncResult } from './calendarSync';
+import { syncOrchestrator } from './syncOrchestrator';
+
+// Longer than any reasonable run; it only matters when a tab dies mid-sync
+const LEASE_MS = 10 * 60 * 1000;
+
+// First retry after a failed run, doubling with each further failure
+const RETRY_BASE_MINUTES = 2;
+const RETRY_MAX_MINUTES = 240;
+
+// Runs are spread by ±20% so tabs, devices and users don't fire in lockstep
+const JITTER = 0.2;
+
+export interface ScheduledSyncOptions {
+  // Run even if the next scheduled time hasn't come yet (the sync button)
+  force?: boolean;
+}
+
+/**
+ * Decides when a user's calendar sync runs and makes sure only one runs at
+ * a time: a Web Lock covers tabs of this browser, and a lease on
+ * user_sync_preferences covers other browsers, other devices and the
+ * calendar-sync-scheduler function's server-side runs.
+ */
+export class SyncScheduler {
+  /**
+   * Run a sync if one is due. Returns null when nothing ran because it
+   * wasn't due yet or another tab or device is already syncing.
+   */
+  async runIfDue(userId: string, options: ScheduledSyncOptions = {}): Promise<SyncResult | null> {
+    return this.withTabLock(`calendar-sync:${userId}`, async () => {
+      const prefs = await calendarSyncService.getUserSyncPreferences(userId);
+      if (!prefs) return null;
+
+      if (!options.force) {
+        if (!prefs.sync_enabled) return null;
+        if (prefs.next_sync_at && new Date(prefs.next_sync_at).getTime() > Date.now()) return null;
+      }
+
+      const token = crypto.randomUUID();
+      if (!(await this.claimLease(userId, token))) {
+        console.log('⏭️ Skipping sync - another tab or device is syncing');
+        return null;
+      }
+
+      try {
+        return await syncOrchestrator.performSync(userId);
+      } finally {
+        await this.releaseLease(userId, token, prefs.sync_frequency_minutes);
+      }
+    });
+  }
+
+  /**
+   * Minutes until the next run: the user's frequency after a successful
+   * run, or an exponential backoff after consecutive failures. Jittered.
+   */
+  delayMinutes(frequencyMinutes: number, consecutiveFailures: number): number {
+    const minutes = consecutiveFailures === 0
+      ? frequencyMinutes
+      : Math.min(
+          RETRY_BASE_MINUTES * 2 ** (consecutiveFailures - 1),
+          Math.max(frequencyMinutes, RETRY_MAX_MINUTES)
+        );
+
+    return minutes * (1 - JITTER + Math.random() * 2 * JITTER);
+  }
+
+  /**
+   * Failed runs since the last completed one. Logs still marked in progress
+   * belong to a run that is going on or died; neither counts.
+   */
+  countFailures(logs: SyncLog[]): number {
+    let failures = 0;
+    for (const log of logs) {
+      if (log.status === 'completed') break;
+      if (log.status === 'failed') failures++;
+    }
+    return failures;
+  }
+
+  private async claimLease(userId: string, token: string): Promise<boolean> {
+    const now = Date.now();
+    const { data, error } = await supabase
+      .from('user_sync_preferences')
+      .update({
+        sync_lock_token: token,
+        sync_lock_expires_at: new Date(now + LEASE_MS).toISOString(),
+      })
+      .eq('user_id', userId)
+      .or(`sync_lock_expires_at.is.null,sync_lock_expires_at.lt."${new Date(now).toISOString()}"`)
+      .select('user_id');
+
+    if (error) {
+      console.error('Error claiming sync lease:', error);
+      return false;
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  private async releaseLease(userId: string, token: string, frequencyMinutes: number): Promise<void> {
+    const logs = await calendarSyncService.getRecentSyncLogs(userId);
+    const delayMs = this.delayMinutes(frequencyMinutes, this.countFailures(logs)) * 60000;
+
+    const { error } = await supabase
+      .from('user_sync_preferences')
+      .update({
+        next_sync_at: new Date(Date.now() + delayMs).toISOString(),
+        sync_lock_token: null,
+        sync_lock_expires_at: null,
+      })
+      .eq('user_id', userId)
+      .eq('sync_lock_token', token);
+
+    if (error) {
+      console.error('Error releasing sync lease:', error);
+    }
+  }
+
+  private async withTabLock<T>(name: string, run: () => Promise<T | null>): Promise<T | null> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return run();
+    }
+
+    // ifAvailable: a tab that finds the lock taken skips instead of queueing
+    return navigator.locks.request(name, { ifAvailable: true }, lock => (lock ? run() : null));
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
@@ -0,0 +1,281 @@
+import { supabase } from '../lib/supabase';
+import type { Address, Event as DbEvent } from '../lib/supabase';
+import { addressValidationService } from './addressValidation';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Door-to-door travel time between two points. Plug in a routing service
+ * with travelTimeService.setEstimator(); when it returns null or fails the
+ * straight-line estimate is used instead.
+ */
+export interface TravelTimeEstimator {
+  estimateMinutes(from: GeoPoint, to: GeoPoint, departAt?: Date): Promise<number | null>;
+}
+
+export interface TravelEstimate {
+  minutes: number;
+  distanceKm: number | null;
+  source: 'same_place' | 'estimator' | 'straight_line';
+}
+
+export interface TravelWarning {
+  from: Partial<DbEvent>;
+  to: Partial<DbEvent>;
+  availableMinutes: number; // between the end of `from` and the start of `to`
+  travelMinutes: number;
+  message: string;
+}
+
+export interface TravelLeg {
+  eventId: string;
+  fromLabel: string; // previous event's title, or the home address name
+  travelMinutes: number;
+  leaveBy: string; // HH:MM:SS
+  // The previous event ends after the leave-by time
+  tight: boolean;
+}
+
+// Roads wind; straight-line distance times this is a fair guess at road distance
+const ROAD_FACTOR = 1.4;
+const AVERAGE_SPEED_KMH = 35;
+const PARKING_MINUTES = 5;
+// Closer than this counts as the same place
+const SAME_PLACE_KM = 0.2;
+// Only an event ending this close before the next one is where the user travels from
+const CHAIN_WINDOW_MINUTES = 180;
+
+/**
+ * Works offline from the coordinates stored with saved addresses.
+ */
+export const straightLineEstimator: TravelTimeEstimator = {
+  async estimateMinutes(from, to) {
+    return straightLineMinutes(distanceKm(from, to));
+  },
+};
+
+function straightLineMinutes(km: number): number {
+  return Math.ceil((km * ROAD_FACTOR / AVERAGE_SPEED_KMH) * 60) + PARKING_MINUTES;
+}
+
+function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLon = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function normalizePlace(place: string): string {
+  return place.trim().toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ');
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(minutes: number): string {
+  const inDay = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}:00`;
+}
+
+/**
+ * Travel time between event locations, resolved through the user's saved
+ * addresses first and geocoding second.
+ */
+export class TravelTimeService {
+  private estimator: TravelTimeEstimator = straightLineEstimator;
+  private geocodeCache = new Map<string, GeoPoint | null>();
+
+  setEstimator(estimator: TravelTimeEstimator): void {
+    this.estimator = estimator;
+  }
+
+  async estimate(userId: string, from: string, to: string, departAt?: Date): Promise<TravelEstimate | null> {
+    return this.estimateBetween(await this.getAddresses(userId), from, to, departAt);
+  }
+
+  /**
+   * Neighbours of `candidate` on its day that the user can't travel between
+   * in the time left. Events without a location, or whose location can't be
+   * placed, never produce a warning.
+   */
+  async checkTravel(userId: string, candidate: Partial<DbEvent>, dayEvents: DbEvent[]): Promise<TravelWarning[]> {
+    if (!candidate.location || !candidate.start_time) return [];
+
+    const start = timeToMinutes(candidate.start_time);
+    const end = candidate.end_time ? timeToMinutes(candidate.end_time) : start + 60;
+    const located = dayEvents.filter(e => e.location && e.start_time && e.id !== candidate.id);
+
+    const before = located
+      .filter(e => this.endMinutes(e) <= start)
+      .sort((a, b) => this.endMinutes(b) - this.endMinutes(a))[0];
+    const after = located
+      .filter(e => timeToMinutes(e.start_time!) >= end)
+      .sort((a, b) => timeToMinutes(a.start_time!) - timeToMinutes(b.start_time!))[0];
+
+    const addresses = await this.getAddresses(userId);
+    const warnings: TravelWarning[] = [];
+
+    const pairs: [Partial<DbEvent>, Partial<DbEvent>, number][] = [];
+    if (before) pairs.push([before, candidate, start - this.endMinutes(before)]);
+    if (after) pairs.push([candidate, after, timeToMinutes(after.start_time!) - end]);
+
+    for (const [from, to, availableMinutes] of pairs) {
+      const travel = await this.estimateBetween(addresses, from.location!, to.location!);
+      if (!travel || travel.minutes <= availableMinutes) continue;
+
+      warnings.push({
+        from,
+        to,
+        availableMinutes,
+        travelMinutes: travel.minutes,
+        message: `You can't get from ${from.title || 'the previous event'} to ${to.title || 'the next event'} ` +
+          `in ${availableMinutes} minutes - it's about ${travel.minutes} minutes away.`,
+      });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * When to leave for each of a day's located events: from the event before
+   * it if that one ends shortly before, otherwise from the default address
+   */
+  async planDay(userId: string, events: DbEvent[]): Promise<TravelLeg[]> {
+    const addresses = await this.getAddresses(userId);
+    const home = addresses.find(a => a.is_default) ?? null;
+
+    const timed = events
+      .filter(e => e.start_time)
+      .sort((a, b) => timeToMinutes(a.start_time!) - timeToMinutes(b.start_time!));
+
+    const legs: TravelLeg[] = [];
+
+    for (const [index, event] of timed.entries()) {
+      if (!event.location) continue;
+      const start = timeToMinutes(event.start_time!);
+
+      const previous = timed
+        .slice(0, index)
+        .filter(e => e.location && this.endMinutes(e) <= start && start - this.endMinutes(e) <= CHAIN_WINDOW_MINUTES)
+        .pop();
+
+      const origin = previous?.location ?? (home ? home.display_name : null);
+      if (!origin) continue;
+
+      const travel = await this.estimateBetween(addresses, origin, event.location);
+      if (!travel || travel.minutes === 0) continue;
+
+      legs.push({
+        eventId: event.id,
+        fromLabel: previous ? previous.title : home!.display_name,
+        travelMinutes: travel.minutes,
+        leaveBy: minutesToTime(start - travel.minutes),
+        tight: !!previous && start - travel.minutes < this.endMinutes(previous),
+      });
+    }
+
+    return legs;
+  }
+
+  private async estimateBetween(
+    addresses: Address[],
+    from: string,
+    to: string,
+    departAt?: Date
+  ): Promise<TravelEstimate | null> {
+    if (normalizePlace(from) === normalizePlace(to)) {
+      return { minutes: 0, distanceKm: 0, source: 'same_place' };
+    }
+
+    const [origin, destination] = await Promise.all([
+      this.locate(addresses, from),
+      this.locate(addresses, to),
+    ]);
+    if (!origin || !destination) return null;
+
+    const km = distanceKm(origin, destination);
+    if (km < SAME_PLACE_KM) {
+      return { minutes: 0, distanceKm: km, source: 'same_place' };
+    }
+
+    if (this.estimator !== straightLineEstimator) {
+      try {
+        const minutes = await this.estimator.estimateMinutes(origin, destination, departAt);
+        if (minutes !== null) return { minutes: Math.ceil(minutes), distanceKm: km, source: 'estimator' };
+      } catch (error) {
+        console.error('Travel time estimator failed, using straight-line estimate:', error);
+      }
+    }
+
+    return { minutes: straightLineMinutes(km), distanceKm: km, source: 'straight_line' };
+  }
+
+  /**
+   * A saved address the place names ("Home", "Work", its display name or
+   * its street), else a geocoding match
+   */
+  private async locate(addresses: Address[], place: string): Promise<GeoPoint | null> {
+    const key = normalizePlace(place);
+
+    const saved = addresses.find(address =>
+      normalizePlace(address.display_name) === key ||
+      address.address_type === key ||
+      (!!address.street_address.trim() && key.includes(normalizePlace(address.street_address)))
+    );
+    const metadata = saved?.validation_metadata;
+    if (typeof metadata?.latitude === 'number' && typeof metadata?.longitude === 'number') {
+      return { latitude: metadata.latitude, longitude: metadata.longitude };
+    }
+
+    const query = saved
+      ? addressValidationService.formatAddressString(
+          saved.street_address,
+          saved.apartment_unit ?? undefined,
+          saved.city,
+          saved.state_province,
+          saved.postal_code,
+          saved.country
+        )
+      : place;
+
+    const cacheKey = normalizePlace(query);
+    if (this.geocodeCache.has(cacheKey)) {
+      return this.geocodeCache.get(cacheKey) ?? null;
+    }
+
+    const point = await addressValidationService.geocode(query);
+    // A place not found while offline may well be found later
+    if (point || typeof navigator === 'undefined' || navigator.onLine) {
+      this.geocodeCache.set(cacheKey, point);
+    }
+    return point;
+  }
+
+  private endMinutes(event: Partial<DbEvent>): number {
+    const start = timeToMinutes(event.start_time!);
+    return event.end_time ? timeToMinutes(event.end_time) : start + 60;
+  }
+
+  private async getAddresses(userId: string): Promise<Address[]> {
+    const { data, error } = await supabase
+      .from('addresses')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error loading addresses:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+export const travelTimeService = new TravelTimeService();
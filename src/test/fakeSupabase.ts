@@ -0,0 +1,163 @@
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+let nextId = 1;
+
+/**
+ * Just enough of the Supabase query builder for service tests: filters
+ * (eq, is, in, lt, lte, gte), order, limit, single, and insert / update /
+ * delete, against in-memory tables.
+ */
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: Filter[] = [];
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row[] | Row | null = null;
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private one = false;
+
+  constructor(private rows: Row[], private onDelete: (deleted: Row[]) => void) {}
+
+  select(): this {
+    return this;
+  }
+
+  insert(rows: Row[] | Row): this {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.action = 'update';
+    this.payload = patch;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  lt(column: string, value: string): this {
+    this.filters.push(row => String(row[column]) < value);
+    return this;
+  }
+
+  lte(column: string, value: string): this {
+    this.filters.push(row => String(row[column]) <= value);
+    return this;
+  }
+
+  gte(column: string, value: string): this {
+    this.filters.push(row => String(row[column]) >= value);
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.orderBy = { column, ascending: options?.ascending !== false };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.max = count;
+    return this;
+  }
+
+  single(): this {
+    this.one = true;
+    return this;
+  }
+
+  then<T1 = { data: unknown; error: null }, T2 = never>(
+    onFulfilled?: ((value: { data: unknown; error: null }) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+  }
+
+  private run(): { data: unknown; error: null } {
+    let result: Row[];
+
+    if (this.action === 'insert') {
+      const now = new Date().toISOString();
+      result = (Array.isArray(this.payload) ? this.payload : [this.payload!]).map(row => ({
+        id: `row-${nextId++}`,
+        created_at: now,
+        updated_at: now,
+        ...row,
+      }));
+      this.rows.push(...result);
+    } else {
+      result = this.rows.filter(row => this.filters.every(filter => filter(row)));
+
+      if (this.action === 'update') {
+        for (const row of result) Object.assign(row, this.payload);
+      } else if (this.action === 'delete') {
+        for (const row of result) this.rows.splice(this.rows.indexOf(row), 1);
+        this.onDelete(result);
+      }
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      result = [...result].sort((a, b) =>
+        (String(a[column]) < String(b[column]) ? -1 : String(a[column]) > String(b[column]) ? 1 : 0) * (ascending ? 1 : -1)
+      );
+    }
+    if (this.max !== null) result = result.slice(0, this.max);
+
+    const copies = result.map(row => ({ ...row }));
+    return { data: this.one ? copies[0] ?? null : copies, error: null };
+  }
+}
+
+export class FakeSupabase {
+  tables = new Map<string, Row[]>();
+  private cascades: Array<{ parent: string; child: string; column: string }> = [];
+
+  auth = {
+    getSession: async () => ({ data: { session: { access_token: 'test-token' } }, error: null }),
+  };
+
+  from(table: string): FakeQuery {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return new FakeQuery(this.tables.get(table)!, deleted => this.cascadeDelete(table, deleted));
+  }
+
+  /** Mirror an ON DELETE CASCADE foreign key */
+  cascade(parent: string, child: string, column: string): void {
+    this.cascades.push({ parent, child, column });
+  }
+
+  rows(table: string): Row[] {
+    return this.tables.get(table) ?? [];
+  }
+
+  reset(): void {
+    this.tables.clear();
+  }
+
+  private cascadeDelete(table: string, deleted: Row[]): void {
+    const ids = deleted.map(row => row.id);
+    for (const { parent, child, column } of this.cascades) {
+      if (parent !== table || ids.length === 0) continue;
+      this.from(child).delete().in(column, ids).then(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import type { FamilyMember } from '../lib/supabase'
+
+export type RestrictionKey =
+  | 'peanut' | 'tree_nut' | 'dairy' | 'egg' | 'gluten' | 'soy'
+  | 'fish' | 'shellfish' | 'sesame' | 'meat' | 'honey' | 'sugar' | 'pork'
+
+export type InstacartHealthFilter =
+  | 'ORGANIC' | 'GLUTEN_FREE' | 'FAT_FREE' | 'VEGAN' | 'KOSHER' | 'SUGAR_FREE' | 'LOW_FAT'
+
+/**
+ * One thing the family avoids, and who avoids it
+ */
+export interface DietaryRestriction {
+  key: RestrictionKey | string // a RestrictionKey, or the allergy as typed when it isn't one we know
+  label: string
+  members: string[]
+}
+
+export interface DietaryProfile {
+  restrictions: DietaryRestriction[]
+  // Instacart filters that apply to everything the family buys (e.g. KOSHER)
+  healthFilters: InstacartHealthFilter[]
+}
+
+export interface AllergenConflict {
+  key: string
+  label: string
+  members: string[]
+  term: string // the word in the ingredient that matched
+}
+
+interface RestrictionDefinition {
+  label: string
+  terms: string[]
+  // Phrases that contain a term but are safe, e.g. "eggplant" for eggs
+  safe?: string[]
+  // Filter that finds safe alternatives on Instacart
+  healthFilter?: InstacartHealthFilter
+}
+
+const RESTRICTIONS: Record<RestrictionKey, RestrictionDefinition> = {
+  peanut: {
+    label: 'peanut',
+    terms: ['peanut', 'groundnut', 'arachis', 'monkey nut', 'satay'],
+  },
+  tree_nut: {
+    label: 'tree nut',
+    terms: [
+      'nut', 'almond', 'cashew', 'walnut', 'pecan', 'hazelnut', 'pistachio', 'macadamia',
+      'brazil nut', 'pine nut', 'praline', 'marzipan', 'frangipane', 'nutella', 'gianduja',
+    ],
+    safe: ['nutmeg', 'butternut', 'water chestnut', 'coconut', 'doughnut', 'donut', 'peanut', 'groundnut', 'monkey nut', 'nut-free', 'nut free'],
+  },
+  dairy: {
+    label: 'dairy',
+    terms: [
+      'milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'whey', 'casein', 'ghee', 'lactose',
+      'buttermilk', 'parmesan', 'mozzarella', 'cheddar', 'ricotta', 'mascarpone', 'feta', 'brie',
+      'custard', 'creme fraiche', 'crème fraîche', 'paneer', 'gruyere', 'halloumi', 'ice cream',
+    ],
+    safe: [
+      'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk',
+      'cream of tartar', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter',
+      'apple butter', 'butternut', 'butter bean', 'dairy-free', 'dairy free', 'non-dairy', 'lactose-free',
+    ],
+  },
+  egg: {
+    label: 'egg',
+    terms: ['egg', 'mayonnaise', 'mayo', 'meringue', 'albumen', 'aioli'],
+    safe: ['eggplant', 'egg plant', 'egg-free', 'egg free', 'eggless'],
+  },
+  gluten: {
+    label: 'gluten',
+    terms: [
+      'gluten', 'wheat', 'flour', 'bread', 'breadcrumb', 'pasta', 'spaghetti', 'noodle', 'barley', 'rye',
+      'couscous', 'semolina', 'bulgur', 'spelt', 'malt', 'tortilla', 'pita', 'cracker', 'soy sauce', 'seitan',
+    ],
+    safe: ['buckwheat flour', 'buckwheat noodle', 'buckwheat', 'rice flour', 'almond flour', 'coconut flour', 'rice noodle', 'corn tortilla', 'tamari'],
+    healthFilter: 'GLUTEN_FREE',
+  },
+  soy: {
+    label: 'soy',
+    terms: ['soy', 'soya', 'tofu', 'edamame', 'miso', 'tempeh', 'tamari'],
+    safe: ['soy-free', 'soy free'],
+  },
+  fish: {
+    label: 'fish',
+    terms: [
+      'fish', 'salmon', 'tuna', 'cod', 'haddock', 'anchovy', 'anchovies', 'sardine', 'mackerel', 'trout',
+      'tilapia', 'halibut', 'herring', 'pollock', 'sea bass', 'snapper', 'worcestershire',
+    ],
+    safe: ['shellfish'],
+  },
+  shellfish: {
+    label: 'shellfish',
+    terms: [
+      'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop',
+      'crayfish', 'langoustine', 'squid', 'calamari', 'octopus',
+    ],
+  },
+  sesame: {
+    label: 'sesame',
+    terms: ['sesame', 'tahini', 'halva', 'halvah', 'hummus'],
+  },
+  meat: {
+    label: 'meat',
+    terms: [
+      'meat', 'chicken', 'beef', 'pork', 'lamb', 'mutton', 'bacon', 'ham', 'sausage', 'turkey', 'mince',
+      'steak', 'veal', 'duck', 'chorizo', 'prosciutto', 'salami', 'pepperoni', 'gelatin', 'gelatine', 'lard',
+    ],
+    safe: ['meatless', 'plant-based', 'beyond meat', 'vegetarian sausage', 'veggie'],
+  },
+  pork: {
+    label: 'pork',
+    terms: ['pork', 'bacon', 'ham', 'chorizo', 'prosciutto', 'salami', 'pepperoni', 'lard', 'pancetta', 'gelatin', 'gelatine'],
+  },
+  honey: {
+    label: 'honey',
+    terms: ['honey'],
+    safe: ['honeydew'],
+  },
+  sugar: {
+    label: 'sugar',
+    terms: ['sugar', 'syrup', 'honey', 'candy', 'caramel', 'frosting', 'icing', 'molasses'],
+    safe: ['sugar-free', 'sugar free', 'sugar snap', 'no added sugar'],
+    healthFilter: 'SUGAR_FREE',
+  },
+}
+
+// How people write their allergies, mapped to what to avoid
+const ALLERGY_ALIASES: Record<string, RestrictionKey[]> = {
+  nut: ['tree_nut', 'peanut'],
+  nuts: ['tree_nut', 'peanut'],
+  'tree nut': ['tree_nut'],
+  'tree nuts': ['tree_nut'],
+  peanut: ['peanut'],
+  peanuts: ['peanut'],
+  groundnut: ['peanut'],
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  dairy: ['dairy'],
+  eggs: ['egg'],
+  wheat: ['gluten'],
+  celiac: ['gluten'],
+  coeliac: ['gluten'],
+  seafood: ['fish', 'shellfish'],
+  crustacean: ['shellfish'],
+  crustaceans: ['shellfish'],
+}
+
+// Diets written in medical notes, mapped to what they avoid
+const DIETS: { pattern: RegExp; avoid: RestrictionKey[]; label: string; healthFilter?: InstacartHealthFilter }[] = [
+  { pattern: /\bvegan\b/i, avoid: ['meat', 'fish', 'shellfish', 'dairy', 'egg', 'honey'], label: 'vegan', healthFilter: 'VEGAN' },
+  { pattern: /\bvegetarian\b/i, avoid: ['meat', 'fish', 'shellfish'], label: 'vegetarian' },
+  { pattern: /\b(pescatarian|pescetarian)\b/i, avoid: ['meat'], label: 'pescatarian' },
+  { pattern: /\b(kosher)\b/i, avoid: ['pork', 'shellfish'], label: 'kosher', healthFilter: 'KOSHER' },
+  { pattern: /\bhalal\b/i, avoid: ['pork'], label: 'halal' },
+  { pattern: /\b(celiac|coeliac|gluten[- ]free)\b/i, avoid: ['gluten'], label: 'gluten-free' },
+  { pattern: /\blactose[- ]intoleran/i, avoid: ['dairy'], label: 'lactose intolerant' },
+  { pattern: /\bdiabet/i, avoid: ['sugar'], label: 'diabetic' },
+]
+
+/**
+ * Allergy and diet checks for recipes and shopping items.
+ *
+ * Allergies are matched through a synonym list per allergen (peanut also
+ * catches groundnut, dairy catches butter and cheese), with known safe
+ * phrases like "coconut milk" or "eggplant" removed before matching.
+ */
+export class Allergens {
+  /**
+   * What the family needs to avoid, from every member's allergies and the
+   * diets mentioned in their medical notes
+   */
+  static profileFor(members: Pick<FamilyMember, 'name' | 'allergies' | 'medical_notes'>[]): DietaryProfile {
+    const restrictions = new Map<string, DietaryRestriction>()
+    const healthFilters = new Set<InstacartHealthFilter>()
+
+    const add = (key: string, label: string, member: string) => {
+      const existing = restrictions.get(key)
+      if (!existing) {
+        restrictions.set(key, { key, label, members: [member] })
+      } else if (!existing.members.includes(member)) {
+        existing.members.push(member)
+      }
+    }
+
+    for (const member of members) {
+      for (const allergy of member.allergies || []) {
+        const keys = this.keysForAllergy(allergy)
+        if (keys.length > 0) {
+          keys.forEach(key => add(key, RESTRICTIONS[key].label, member.name))
+        } else if (allergy.trim()) {
+          // Not one we know; still match it literally
+          add(allergy.trim().toLowerCase(), allergy.trim().toLowerCase(), member.name)
+        }
+      }
+
+      const notes = member.medical_notes || ''
+      for (const diet of DIETS) {
+        if (!diet.pattern.test(notes)) continue
+        diet.avoid.forEach(key => add(key, `${RESTRICTIONS[key].label} (${diet.label})`, member.name))
+        if (diet.healthFilter) healthFilters.add(diet.healthFilter)
+      }
+
+      // "Allergic to shellfish", "severe sesame allergy"
+      for (const sentence of notes.split(/[.;\n]/)) {
+        if (!/allerg|intoleran|anaphyla/i.test(sentence)) continue
+        for (const key of this.keysInText(sentence)) {
+          add(key, RESTRICTIONS[key].label, member.name)
+        }
+      }
+    }
+
+    return { restrictions: [...restrictions.values()], healthFilters: [...healthFilters] }
+  }
+
+  /**
+   * Restrictions an ingredient or shopping item runs into
+   */
+  static check(text: string, profile: DietaryProfile): AllergenConflict[] {
+    const conflicts: AllergenConflict[] = []
+
+    for (const restriction of profile.restrictions) {
+      const definition = RESTRICTIONS[restriction.key as RestrictionKey]
+      const term = definition
+        ? this.findTerm(text, definition)
+        : this.findTerm(text, { label: restriction.label, terms: [restriction.key] })
+
+      if (term) {
+        conflicts.push({ key: restriction.key, label: restriction.label, members: restriction.members, term })
+      }
+    }
+
+    return conflicts
+  }
+
+  static checkAll(texts: string[], profile: DietaryProfile): AllergenConflict[] {
+    const byKey = new Map<string, AllergenConflict>()
+    for (const text of texts) {
+      for (const conflict of this.check(text, profile)) {
+        if (!byKey.has(conflict.key)) byKey.set(conflict.key, conflict)
+      }
+    }
+    return [...byKey.values()]
+  }
+
+  /**
+   * Instacart health filters for one item: the family-wide ones plus any
+   * that find a safe version of what the item conflicts with (e.g. gluten
+   * free flour)
+   */
+  static healthFiltersFor(text: string, profile: DietaryProfile, existing: string[] = []): string[] {
+    const filters = new Set<string>([...existing, ...profile.healthFilters])
+    for (const conflict of this.check(text, profile)) {
+      const filter = RESTRICTIONS[conflict.key as RestrictionKey]?.healthFilter
+      if (filter) filters.add(filter)
+    }
+    return [...filters]
+  }
+
+  /**
+   * "peanut (Emma), dairy (Jack, Mia)"
+   */
+  static describe(conflicts: AllergenConflict[]): string {
+    return conflicts.map(c => `${c.label} (${c.members.join(', ')})`).join(', ')
+  }
+
+  private static keysForAllergy(allergy: string): RestrictionKey[] {
+    const normalized = allergy.trim().toLowerCase().replace(/\s+allerg(y|ies)$/, '')
+    if (ALLERGY_ALIASES[normalized]) return ALLERGY_ALIASES[normalized]
+
+    const singular = normalized.replace(/(es|s)$/, '')
+    const direct = (Object.keys(RESTRICTIONS) as RestrictionKey[])
+      .find(key => key === normalized || key === singular || RESTRICTIONS[key].label === normalized)
+    if (direct) return [direct]
+
+    // A specific food, e.g. "cashews" or "shrimp"
+    return this.keysInText(normalized)
+  }
+
+  private static keysInText(text: string): RestrictionKey[] {
+    return (Object.keys(RESTRICTIONS) as RestrictionKey[])
+      .filter(key => key !== 'meat' && key !== 'sugar' && key !== 'honey' && key !== 'pork')
+      .filter(key => this.findTerm(text, RESTRICTIONS[key]) !== null)
+  }
+
+  private static findTerm(text: string, definition: RestrictionDefinition): string | null {
+    let lower = ` ${text.toLowerCase()} `
+    // "gluten-free pasta", "dairy free cheese"
+    const label = definition.label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    if (new RegExp(`\\b${label}[- ]free\\b`).test(lower)) return null
+
+    for (const phrase of definition.safe || []) {
+      lower = lower.split(phrase).join(' ')
+    }
+
+    for (const term of definition.terms) {
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      if (new RegExp(`\\b${escaped}(s|es)?\\b`).test(lower)) return term
+    }
+    return null
+  }
+}
@@ -0,0 +1,87 @@
+import type { FamilyMember } from '../lib/supabase'
+import { NaturalDate } from './naturalDate'
+
+type AgeSource = Pick<FamilyMember, 'birth_date' | 'age' | 'age_as_of'>
+
+/**
+ * Ages derived from a family member's birth date.
+ *
+ * Members added before birth dates existed only have the age they were
+ * given and the date it was recorded (age_as_of); their age is counted up
+ * from there so it doesn't go stale. A birth date always wins.
+ */
+export class FamilyAge {
+  static today(): string {
+    return NaturalDate.today()
+  }
+
+  /**
+   * Age in whole years on a date, or null when nothing is known
+   */
+  static ageOn(member: AgeSource, date: string = this.today()): number | null {
+    if (member.birth_date) {
+      return Math.max(0, this.yearsBetween(member.birth_date, date))
+    }
+    if (member.age === null || member.age === undefined) return null
+    if (!member.age_as_of) return member.age
+    return member.age + Math.max(0, this.yearsBetween(member.age_as_of, date))
+  }
+
+  /**
+   * "8", or "10 months" for babies with a birth date
+   */
+  static label(member: AgeSource, date: string = this.today()): string | null {
+    const age = this.ageOn(member, date)
+    if (age === null) return null
+    if (age < 2 && member.birth_date) {
+      const months = this.monthsBetween(member.birth_date, date)
+      return `${months} month${months === 1 ? '' : 's'}`
+    }
+    return String(age)
+  }
+
+  /**
+   * The birthday on or after `from`. Leap-day birthdays fall on Feb 28 in
+   * other years.
+   */
+  static nextBirthday(birthDate: string, from: string = this.today()): string {
+    const [, month, day] = birthDate.split('-').map(Number)
+    const fromYear = Number(from.slice(0, 4))
+    const thisYear = this.birthdayIn(fromYear, month, day)
+    return thisYear >= from ? thisYear : this.birthdayIn(fromYear + 1, month, day)
+  }
+
+  /**
+   * RRULE for a yearly series starting on the birth date
+   */
+  static birthdayRule(birthDate: string): string {
+    return birthDate.slice(5) === '02-29'
+      ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1'
+      : 'FREQ=YEARLY'
+  }
+
+  static isValidBirthDate(birthDate: string, today: string = this.today()): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(birthDate) &&
+      !Number.isNaN(new Date(`${birthDate}T00:00:00Z`).getTime()) &&
+      birthDate <= today &&
+      this.yearsBetween(birthDate, today) <= 130
+  }
+
+  private static birthdayIn(year: number, month: number, day: number): string {
+    const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+    const actualDay = month === 2 && day === 29 && !leap ? 28 : day
+    return `${year}-${String(month).padStart(2, '0')}-${String(actualDay).padStart(2, '0')}`
+  }
+
+  private static yearsBetween(from: string, to: string): number {
+    const [fy, fm, fd] = from.split('-').map(Number)
+    const ty = Number(to.slice(0, 4))
+    return ty - fy - (to >= this.birthdayIn(ty, fm, fd) ? 0 : 1)
+  }
+
+  private static monthsBetween(from: string, to: string): number {
+    const [fy, fm, fd] = from.split('-').map(Number)
+    const [ty, tm, td] = to.split('-').map(Number)
+    return Math.max(0, (ty - fy) * 12 + (tm - fm) - (td >= fd ? 0 : 1))
+  }
+}
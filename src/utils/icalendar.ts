@@ -0,0 +1,483 @@
+import { RecurrenceRule } from './recurrenceRule'
+import { TimeZone } from './timeZone'
+
+export interface ICalAttendee {
+  name?: string
+  email?: string
+}
+
+/**
+ * A VEVENT with its dates already converted to the target timezone.
+ */
+export interface ICalEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  date: string // YYYY-MM-DD
+  endDate?: string // YYYY-MM-DD, inclusive last day
+  startTime?: string // HH:MM:SS, absent for all-day events
+  endTime?: string // HH:MM:SS
+  allDay: boolean
+  rrule?: string // normalized RRULE body
+  exdates: string[] // YYYY-MM-DD
+  recurrenceId?: string // YYYY-MM-DD of the occurrence this VEVENT overrides
+  attendees: ICalAttendee[]
+  categories: string[]
+  status?: string
+}
+
+export interface ICalParseResult {
+  calendarName?: string
+  events: ICalEvent[]
+  warnings: string[]
+}
+
+/**
+ * An event to write out. Dates and times are wall-clock in `timeZone`.
+ */
+export interface ICalExportEvent {
+  uid: string
+  summary: string
+  description?: string | null
+  location?: string | null
+  date: string
+  endDate?: string | null // YYYY-MM-DD, inclusive last day
+  startTime?: string | null
+  endTime?: string | null
+  rrule?: string | null
+  exdates?: string[] | null
+  recurrenceId?: string | null
+  // Start time of the occurrence being overridden, when it moved
+  recurrenceStartTime?: string | null
+  categories?: string[]
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+interface ICalDateValue {
+  date: string
+  time?: string
+}
+
+// Outlook and Exchange write Windows zone names instead of IANA ids
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Atlantic Standard Time': 'America/Halifax',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'India Standard Time': 'Asia/Kolkata',
+  'UTC': 'UTC',
+}
+
+const MINUTE_MS = 60 * 1000
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS
+
+/**
+ * RFC 5545 iCalendar reader/writer for VEVENTs.
+ *
+ * Parsed date-times are converted into the target timezone (the browser's by
+ * default) because events store wall-clock dates and times without a zone.
+ */
+export class ICalendar {
+  static readonly PRODUCT_ID = '-//Busy Moms Assistant//Calendar//EN'
+
+  static parse(text: string, targetTimeZone: string = TimeZone.local()): ICalParseResult {
+    const lines = this.unfold(text)
+    const events: ICalEvent[] = []
+    const warnings: string[] = []
+    let calendarName: string | undefined
+    let current: ContentLine[] | null = null
+    let nestedDepth = 0
+
+    for (const raw of lines) {
+      const line = this.parseLine(raw)
+      if (!line) continue
+
+      if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+        current = []
+        continue
+      }
+      if (current && line.name === 'BEGIN') {
+        // VALARM and friends inside a VEVENT
+        nestedDepth++
+        continue
+      }
+      if (current && line.name === 'END' && nestedDepth > 0) {
+        nestedDepth--
+        continue
+      }
+      if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+        if (current) {
+          try {
+            const event = this.toEvent(current, targetTimeZone, warnings)
+            if (event) events.push(event)
+          } catch (error) {
+            warnings.push(`Skipped an event: ${error instanceof Error ? error.message : String(error)}`)
+          }
+        }
+        current = null
+        continue
+      }
+
+      if (current) {
+        if (nestedDepth === 0) current.push(line)
+      } else if (line.name === 'X-WR-CALNAME') {
+        calendarName = this.unescape(line.value)
+      }
+    }
+
+    return { calendarName, events, warnings }
+  }
+
+  static serialize(
+    events: ICalExportEvent[],
+    options: { calendarName?: string; timeZone?: string } = {}
+  ): string {
+    const timeZone = options.timeZone || TimeZone.local()
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-TIMEZONE:${timeZone}`,
+    ]
+    if (options.calendarName) lines.push(`X-WR-CALNAME:${this.escape(options.calendarName)}`)
+    if (events.some(event => event.startTime || event.recurrenceStartTime)) {
+      lines.push(...this.timeZoneComponent(timeZone))
+    }
+
+    for (const event of events) {
+      lines.push('BEGIN:VEVENT')
+      lines.push(`UID:${event.uid}`)
+      lines.push(`DTSTAMP:${stamp}`)
+
+      if (event.startTime) {
+        lines.push(`DTSTART;TZID=${timeZone}:${this.formatDateTime(event.date, event.startTime)}`)
+        if (event.endTime) {
+          // Overnight events without a last day end on the following day
+          const endDate = event.endDate ||
+            (event.endTime < event.startTime ? RecurrenceRule.addDays(event.date, 1) : event.date)
+          lines.push(`DTEND;TZID=${timeZone}:${this.formatDateTime(endDate, event.endTime)}`)
+        }
+      } else {
+        // DTEND is exclusive for all-day events
+        const lastDay = event.endDate || event.date
+        lines.push(`DTSTART;VALUE=DATE:${RecurrenceRule.toBasicDate(event.date)}`)
+        lines.push(`DTEND;VALUE=DATE:${RecurrenceRule.toBasicDate(RecurrenceRule.addDays(lastDay, 1))}`)
+      }
+
+      if (event.recurrenceId) {
+        const originalTime = event.recurrenceStartTime || event.startTime
+        lines.push(originalTime
+          ? `RECURRENCE-ID;TZID=${timeZone}:${this.formatDateTime(event.recurrenceId, originalTime)}`
+          : `RECURRENCE-ID;VALUE=DATE:${RecurrenceRule.toBasicDate(event.recurrenceId)}`)
+      }
+      if (event.rrule) lines.push(`RRULE:${this.exportRule(event.rrule, event.startTime, timeZone)}`)
+      for (const exdate of event.exdates ?? []) {
+        lines.push(event.startTime
+          ? `EXDATE;TZID=${timeZone}:${this.formatDateTime(exdate, event.startTime)}`
+          : `EXDATE;VALUE=DATE:${RecurrenceRule.toBasicDate(exdate)}`)
+      }
+
+      lines.push(`SUMMARY:${this.escape(event.summary)}`)
+      if (event.description) lines.push(`DESCRIPTION:${this.escape(event.description)}`)
+      if (event.location) lines.push(`LOCATION:${this.escape(event.location)}`)
+      if (event.categories && event.categories.length > 0) {
+        lines.push(`CATEGORIES:${event.categories.map(c => this.escape(c)).join(',')}`)
+      }
+      lines.push('END:VEVENT')
+    }
+
+    lines.push('END:VCALENDAR')
+    return lines.map(line => this.fold(line)).join('\r\n') + '\r\n'
+  }
+
+  /**
+   * The VTIMEZONE that TZID=`timeZone` refers to. Clients only know offsets
+   * from this, so this year's clock changes are written as yearly rules.
+   */
+  private static timeZoneComponent(timeZone: string): string[] {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`]
+    const transitions = this.transitions(timeZone, new Date().getUTCFullYear())
+
+    if (transitions.length === 0) {
+      const offset = this.formatOffset(TimeZone.offset(Date.now(), timeZone))
+      lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD')
+    }
+
+    for (const { instant, from, to } of transitions) {
+      // The onset is written on the clock in force before the change
+      const onset = new Date(instant + from).toISOString()
+      const [year, month, day] = onset.slice(0, 10).split('-').map(Number)
+      const lastOfMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+      const ordinal = day > lastOfMonth - 7 ? -1 : Math.ceil(day / 7)
+      const rule = `FREQ=YEARLY;BYMONTH=${month};BYDAY=${ordinal}${RecurrenceRule.weekdayOf(onset.slice(0, 10))}`
+      const first = RecurrenceRule.next(rule, '1970-01-01', '1969-12-31') ?? onset.slice(0, 10)
+      const kind = to > from ? 'DAYLIGHT' : 'STANDARD'
+
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:${this.formatDateTime(first, onset.slice(11, 19))}`,
+        `RRULE:${rule}`,
+        `TZOFFSETFROM:${this.formatOffset(from)}`,
+        `TZOFFSETTO:${this.formatOffset(to)}`,
+        `END:${kind}`
+      )
+    }
+
+    lines.push('END:VTIMEZONE')
+    return lines
+  }
+
+  // Instants in `year` at which the zone's offset changes, to the minute
+  private static transitions(timeZone: string, year: number): Array<{ instant: number; from: number; to: number }> {
+    const found: Array<{ instant: number; from: number; to: number }> = []
+    const end = Date.UTC(year + 1, 0, 1)
+
+    for (let week = Date.UTC(year, 0, 1); week < end; week += WEEK_MS) {
+      const from = TimeZone.offset(week, timeZone)
+      const to = TimeZone.offset(week + WEEK_MS, timeZone)
+      if (from === to) continue
+
+      let low = week
+      let high = week + WEEK_MS
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+        if (TimeZone.offset(mid, timeZone) === from) low = mid
+        else high = mid
+      }
+      if (high < end) found.push({ instant: high, from, to })
+    }
+
+    return found
+  }
+
+  private static formatOffset(offset: number): string {
+    const minutes = Math.abs(offset) / MINUTE_MS
+    const hh = String(Math.floor(minutes / 60)).padStart(2, '0')
+    const mm = String(minutes % 60).padStart(2, '0')
+    return `${offset < 0 ? '-' : '+'}${hh}${mm}`
+  }
+
+  /**
+   * UNTIL must be a UTC date-time when DTSTART has a time; stored rules keep
+   * it as an inclusive date, so it becomes the end of that day in `timeZone`.
+   */
+  private static exportRule(rule: string, startTime: string | null | undefined, timeZone: string): string {
+    if (!startTime) return rule
+    return rule.replace(/UNTIL=(\d{4})(\d{2})(\d{2})(?=;|$)/, (_, y: string, m: string, d: string) => {
+      const instant = TimeZone.zonedToUtc(`${y}-${m}-${d}`, '23:59:59', timeZone)
+      return `UNTIL=${new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`
+    })
+  }
+
+  private static toEvent(lines: ContentLine[], targetTimeZone: string, warnings: string[]): ICalEvent | null {
+    const first = (name: string) => lines.find(l => l.name === name)
+    const all = (name: string) => lines.filter(l => l.name === name)
+
+    const dtstart = first('DTSTART')
+    if (!dtstart) throw new Error('missing DTSTART')
+
+    const summary = this.unescape(first('SUMMARY')?.value ?? '').trim() || 'Untitled event'
+    const uid = first('UID')?.value.trim() || `${RecurrenceRule.toBasicDate(dtstart.value)}-${summary}`
+    const start = this.toDateValue(dtstart, targetTimeZone)
+    const allDay = !start.time
+
+    let end: ICalDateValue | undefined
+    const dtend = first('DTEND')
+    const duration = first('DURATION')
+    if (dtend) {
+      end = this.toDateValue(dtend, targetTimeZone)
+    } else if (duration) {
+      end = this.addDuration(start, duration.value)
+    }
+
+    let endDate: string | undefined
+    if (allDay && end && end.date > start.date) {
+      // DTEND is exclusive for all-day events
+      const last = RecurrenceRule.addDays(end.date, -1)
+      if (last > start.date) endDate = last
+    } else if (!allDay && end && end.date > start.date) {
+      endDate = end.date
+    }
+
+    const event: ICalEvent = {
+      uid,
+      summary,
+      date: start.date,
+      startTime: start.time,
+      endTime: allDay ? undefined : end?.time,
+      endDate,
+      allDay,
+      exdates: [],
+      attendees: [],
+      categories: [],
+    }
+
+    const description = first('DESCRIPTION')
+    if (description) event.description = this.unescape(description.value)
+    const location = first('LOCATION')
+    if (location) event.location = this.unescape(location.value)
+    const status = first('STATUS')
+    if (status) event.status = status.value.toUpperCase()
+
+    const rrule = first('RRULE')
+    if (rrule) {
+      const parsed = RecurrenceRule.parse(rrule.value)
+      if (parsed) {
+        event.rrule = RecurrenceRule.serialize(parsed)
+      } else {
+        warnings.push(`"${summary}" repeats in a way that isn't supported (${rrule.value}); imported as a single event`)
+      }
+    }
+
+    for (const exdate of all('EXDATE')) {
+      for (const value of exdate.value.split(',')) {
+        event.exdates.push(this.toDateValue({ ...exdate, value }, targetTimeZone).date)
+      }
+    }
+
+    const recurrenceId = first('RECURRENCE-ID')
+    if (recurrenceId) event.recurrenceId = this.toDateValue(recurrenceId, targetTimeZone).date
+
+    for (const attendee of all('ATTENDEE')) {
+      const email = attendee.value.replace(/^mailto:/i, '').trim()
+      event.attendees.push({
+        name: attendee.params.CN ? attendee.params.CN.replace(/^"|"$/g, '') : undefined,
+        email: email || undefined,
+      })
+    }
+
+    for (const categories of all('CATEGORIES')) {
+      event.categories.push(...categories.value.split(',').map(c => this.unescape(c).trim()).filter(Boolean))
+    }
+
+    return event
+  }
+
+  /**
+   * Convert a DTSTART-style property to a wall-clock date/time in the target zone.
+   * Floating times (no Z, no TZID) are taken as already being local.
+   */
+  private static toDateValue(line: ContentLine, targetTimeZone: string): ICalDateValue {
+    const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+    if (!match) throw new Error(`invalid date "${line.value}"`)
+
+    const [, y, m, d, hh, mm, ss, utc] = match
+    const date = `${y}-${m}-${d}`
+    if (!hh || line.params.VALUE === 'DATE') return { date }
+
+    const wallClock = { date, time: `${hh}:${mm}:${ss ?? '00'}` }
+    const sourceZone = utc ? 'UTC' : this.resolveTimeZone(line.params.TZID)
+    if (!sourceZone || sourceZone === targetTimeZone) return wallClock
+
+    const instant = TimeZone.zonedToUtc(wallClock.date, wallClock.time, sourceZone)
+    return TimeZone.utcToZoned(instant, targetTimeZone)
+  }
+
+  private static resolveTimeZone(tzid: string | undefined): string | null {
+    if (!tzid) return null
+    const name = tzid.replace(/^"|"$/g, '').replace(/^\/[^/]+\/[^/]+\//, '')
+    const candidate = WINDOWS_TIMEZONES[name] ?? name
+    return TimeZone.isValid(candidate) ? candidate : null
+  }
+
+  private static addDuration(start: ICalDateValue, duration: string): ICalDateValue | undefined {
+    const match = duration.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+    if (!match) return undefined
+
+    const [, sign, w, d, h, m, s] = match
+    const seconds = (sign === '-' ? -1 : 1) * (
+      Number(w ?? 0) * 604800 + Number(d ?? 0) * 86400 +
+      Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0)
+    )
+    const base = Date.parse(`${start.date}T${start.time ?? '00:00:00'}Z`)
+    const iso = new Date(base + seconds * 1000).toISOString()
+    return start.time ? { date: iso.slice(0, 10), time: iso.slice(11, 19) } : { date: iso.slice(0, 10) }
+  }
+
+  private static unfold(text: string): string[] {
+    return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+  }
+
+  private static parseLine(raw: string): ContentLine | null {
+    if (!raw.trim()) return null
+
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false
+    let split = -1
+    for (let i = 0; i < raw.length; i++) {
+      const ch = raw[i]
+      if (ch === '"') inQuotes = !inQuotes
+      if (ch === ':' && !inQuotes) {
+        split = i
+        break
+      }
+    }
+    if (split < 0) return null
+
+    const [name, ...paramParts] = raw.slice(0, split).split(';')
+    const params: Record<string, string> = {}
+    for (const part of paramParts) {
+      const eq = part.indexOf('=')
+      if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1)
+    }
+
+    return { name: name.toUpperCase(), params, value: raw.slice(split + 1) }
+  }
+
+  private static formatDateTime(date: string, time: string): string {
+    return `${RecurrenceRule.toBasicDate(date)}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n')
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+  }
+
+  // Lines longer than 75 octets are folded with CRLF + space
+  private static fold(line: string): string {
+    const bytes = new TextEncoder().encode(line)
+    if (bytes.length <= 75) return line
+
+    const chunks: string[] = []
+    let chunk = ''
+    let size = 0
+    for (const ch of line) {
+      const chSize = new TextEncoder().encode(ch).length
+      const limit = chunks.length === 0 ? 75 : 74
+      if (size + chSize > limit) {
+        chunks.push(chunk)
+        chunk = ''
+        size = 0
+      }
+      chunk += ch
+      size += chSize
+    }
+    chunks.push(chunk)
+    return chunks.join('\r\n ')
+  }
+}
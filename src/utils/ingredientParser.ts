@@ -216,6 +216,18 @@ export class IngredientParser {
     return parts.join(' ')
   }
 
+  /**
+   * A key for "the same thing to buy": lowercase, without preparation notes
+   * and singular, so "Onions, chopped" and "onion" match
+   */
+  static normalizeName(name: string): string {
+    const base = name.toLowerCase().split(/[,(]/)[0].replace(/\s+/g, ' ').trim()
+    return base
+      .replace(/ies$/, 'y')
+      .replace(/(ch|sh|x|s|z|o)es$/, '$1')
+      .replace(/([^su])s$/, '$1')
+  }
+
   static smartDetectUnit(ingredientName: string, category?: string): string {
     const name = ingredientName.toLowerCase()
 
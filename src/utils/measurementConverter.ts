@@ -136,6 +136,9 @@ export class MeasurementConverter {
     'slices': 'slice',
   }
 
+  // Count units that just mean "one of the thing"
+  private static readonly PLAIN_COUNT_UNITS = ['each', 'item', 'piece', 'whole']
+
   static normalizeUnit(unit: string): string {
     const normalized = unit.toLowerCase().trim()
     return this.UNIT_ALIASES[normalized] || normalized
@@ -254,6 +257,25 @@ export class MeasurementConverter {
     }
   }
 
+  /**
+   * Convert between units of the same kind, or null when that isn't
+   * possible (cups to grams, cans to cloves). No unit and "each"-style units
+   * all count whole items.
+   */
+  static convertIfCompatible(quantity: number, fromUnit: string | null, toUnit: string | null): number | null {
+    const plain = (unit: string | null) => !unit || this.PLAIN_COUNT_UNITS.includes(this.normalizeUnit(unit))
+    if (plain(fromUnit) || plain(toUnit)) {
+      return plain(fromUnit) && plain(toUnit) ? quantity : null
+    }
+
+    const from = this.normalizeUnit(fromUnit as string)
+    const to = this.normalizeUnit(toUnit as string)
+    if (from === to) return quantity
+
+    const result = this.convert(quantity, from, to)
+    return result.conversionApplied ? result.quantity : null
+  }
+
   static getDefaultUnitForSystem(measurementType: MeasurementType, system: MeasurementSystem): string {
     if (measurementType === 'volume') {
       return system === 'metric' ? 'milliliter' : 'cup'
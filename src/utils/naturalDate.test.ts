@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest'
+import { NaturalDate, type ParsedWhen } from './naturalDate'
+
+// Tuesday 2025-10-21 20:30 in Los Angeles, already the 22nd in UTC
+const options = { now: new Date('2025-10-22T03:30:00Z'), timeZone: 'America/Los_Angeles' }
+
+const parse = (text: string) => NaturalDate.parse(text, options)
+
+describe('NaturalDate.parse', () => {
+  it.each<[string, Partial<ParsedWhen>]>([
+    ['today', { date: '2025-10-21' }],
+    ['tonight', { date: '2025-10-21', time: '19:00:00' }],
+    ['tomorrow', { date: '2025-10-22' }],
+    ['the day after tomorrow', { date: '2025-10-23' }],
+    ['yesterday', { date: '2025-10-20' }],
+    ['in 3 days', { date: '2025-10-24' }],
+    ['in a couple of days', { date: '2025-10-23' }],
+    ['in two weeks', { date: '2025-11-04' }],
+    ['in a month', { date: '2025-11-21' }],
+    ['2 weeks from tomorrow', { date: '2025-11-05' }],
+  ])('reads the relative date %j', (text, expected) => {
+    expect(parse(text)).toMatchObject(expected)
+  })
+
+  it.each<[string, string]>([
+    // A weekday on its own is the next one, counting today
+    ['tuesday', '2025-10-21'],
+    ['friday', '2025-10-24'],
+    ['this Friday', '2025-10-24'],
+    ['on Mon.', '2025-10-27'],
+    // "next" is the one in next week
+    ['next friday', '2025-10-31'],
+    ['next tuesday', '2025-10-28'],
+    ['last monday', '2025-10-20'],
+    ['thurs', '2025-10-23'],
+    ['saturday', '2025-10-25'],
+    ['wednesday', '2025-10-22'],
+    ['sunday', '2025-10-26'],
+  ])('reads the weekday in %j', (text, date) => {
+    expect(parse(text).date).toBe(date)
+  })
+
+  it.each<[string, string]>([
+    ['sat on the bench', 'sat on the bench'],
+    ['picnic in the sun', 'picnic in the sun'],
+    ['wed in the garden', 'wed in the garden'],
+    ['Sun hats for the trip', 'Sun hats for the trip'],
+  ])('does not take "sat", "sun" or "wed" as a weekday in %j', (text, rest) => {
+    expect(parse(text)).toMatchObject({ date: null, rest })
+  })
+
+  it.each<[string, string | null]>([
+    ['the 2nd Tuesday of May', '2026-05-12'],
+    ['the last Friday of the month', '2025-10-31'],
+    ['first monday of next month', '2025-11-03'],
+    ['third thursday in november', '2025-11-20'],
+    ['end of the month', '2025-10-31'],
+    // Dates without a year are the next time they come round
+    ['May 5', '2026-05-05'],
+    ['december 25th', '2025-12-25'],
+    ['the 5th of november', '2025-11-05'],
+    ['5 March', '2026-03-05'],
+    ['the 15th', '2025-11-15'],
+    ['the 31st', '2025-10-31'],
+    ['3/14', '2026-03-14'],
+    ['feb 29', '2028-02-29'],
+    ['Dec 3, 2027', '2027-12-03'],
+    ['12/1/2025', '2025-12-01'],
+    ['10-25-25', '2025-10-25'],
+    ['2025-11-02', '2025-11-02'],
+    ['feb 30', null],
+    ['I may be late', null],
+    ['the march for science', null],
+  ])('reads the calendar date %j', (text, date) => {
+    expect(parse(text).date).toBe(date)
+  })
+
+  it.each<[string, string, string]>([
+    ['this weekend', '2025-10-25', '2025-10-26'],
+    ['next weekend', '2025-11-01', '2025-11-02'],
+    ['next week', '2025-10-27', '2025-11-02'],
+    ['next month', '2025-11-01', '2025-11-30'],
+    ['friday to sunday', '2025-10-24', '2025-10-26'],
+    ['from May 3 through May 5', '2026-05-03', '2026-05-05'],
+  ])('reads the span %j', (text, date, endDate) => {
+    expect(parse(text)).toMatchObject({ date, endDate })
+  })
+
+  it.each<[string, string]>([
+    // Bare hours: 1 to 6 are the afternoon, 7 to 11 the morning
+    ['at 1', '13:00:00'],
+    ['at 3', '15:00:00'],
+    ['at 6', '18:00:00'],
+    ['at 7', '07:00:00'],
+    ['at 9', '09:00:00'],
+    ['at 11', '11:00:00'],
+    ['at 12', '12:00:00'],
+    ['at 3:30', '15:30:00'],
+    ["5 o'clock", '17:00:00'],
+    ['half past 3', '15:30:00'],
+    ['quarter past 9', '09:15:00'],
+    // Written so there's only one reading
+    ['15:45', '15:45:00'],
+    ['09:30', '09:30:00'],
+    ['at 6am', '06:00:00'],
+    ['at 9pm', '21:00:00'],
+    ['10:15 a.m.', '10:15:00'],
+    ['12am', '00:00:00'],
+    ['12pm', '12:00:00'],
+    ['7 in the morning', '07:00:00'],
+    ['8 at night', '20:00:00'],
+    ['noon', '12:00:00'],
+    ['midnight', '00:00:00'],
+    ['after school', '15:30:00'],
+    ['bedtime', '20:00:00'],
+  ])('reads the time in %j', (text, time) => {
+    expect(parse(text).time).toBe(time)
+  })
+
+  it.each<[string, string, string]>([
+    ['from 3 to 5', '15:00:00', '17:00:00'],
+    ['3-5pm', '15:00:00', '17:00:00'],
+    ['from 9 to 11', '09:00:00', '11:00:00'],
+    ['between 2 and 4', '14:00:00', '16:00:00'],
+    ['11 to 1pm', '11:00:00', '13:00:00'],
+    ['10am to 1', '10:00:00', '13:00:00'],
+    ['3pm-4:30pm', '15:00:00', '16:30:00'],
+    ['noon to 2pm', '12:00:00', '14:00:00'],
+  ])('reads the time range %j', (text, time, endTime) => {
+    expect(parse(text)).toMatchObject({ time, endTime })
+  })
+
+  it.each<[string, Partial<ParsedWhen>]>([
+    ['buy 3 apples', { date: null, time: null, rest: 'buy 3 apples' }],
+    ['3 to 5 days', { time: null }],
+    ['for 90 minutes', { time: null, durationMinutes: 90 }],
+  ])('finds no time in %j', (text, expected) => {
+    expect(parse(text)).toMatchObject(expected)
+  })
+
+  it.each<[string, Partial<ParsedWhen>]>([
+    ['at 3pm for 2 hours', { time: '15:00:00', endTime: '17:00:00', durationMinutes: 120 }],
+    ['for an hour and a half at 4pm', { time: '16:00:00', endTime: '17:30:00', durationMinutes: 90 }],
+    ['for half an hour', { durationMinutes: 30 }],
+    ['for 1.5 hours', { durationMinutes: 90 }],
+    ['a 2-hour meeting at 10am', { durationMinutes: 120, endTime: '12:00:00' }],
+  ])('reads the duration in %j', (text, expected) => {
+    expect(parse(text)).toMatchObject(expected)
+  })
+
+  it.each<[string, Partial<ParsedWhen>]>([
+    ['dinner at 7 tonight', { date: '2025-10-21', time: '19:00:00', rest: 'dinner' }],
+    ['tomorrow morning', { date: '2025-10-22', time: '09:00:00' }],
+    ['friday afternoon', { date: '2025-10-24', time: '14:00:00' }],
+    ['pick up kids after school tomorrow', { date: '2025-10-22', time: '15:30:00', rest: 'pick up kids' }],
+    ['remind me tomorrow at 8am to call grandma', { date: '2025-10-22', time: '08:00:00', rest: 'remind me to call grandma' }],
+    ['Dentist on 11/4 at 2:15pm', { date: '2025-11-04', time: '14:15:00', rest: 'Dentist' }],
+    [
+      'Soccer practice next Friday from 3 to 4:30pm at the park',
+      { date: '2025-10-31', time: '15:00:00', endTime: '16:30:00', rest: 'Soccer practice at the park' },
+    ],
+    ['saturday 10pm to 2am', { date: '2025-10-25', endDate: '2025-10-26', time: '22:00:00', endTime: '02:00:00' }],
+  ])('splits %j into when and what', (text, expected) => {
+    expect(parse(text)).toMatchObject(expected)
+  })
+})
+
+describe('NaturalDate in a timezone', () => {
+  it.each<[string, string, string]>([
+    // Either side of midnight in Los Angeles, both on the 22nd in UTC
+    ['2025-10-22T06:59:00Z', 'America/Los_Angeles', '2025-10-21'],
+    ['2025-10-22T07:00:00Z', 'America/Los_Angeles', '2025-10-22'],
+    // The same instant is already the next day east of UTC
+    ['2025-10-22T06:59:00Z', 'Asia/Tokyo', '2025-10-22'],
+    ['2025-10-21T14:59:00Z', 'Asia/Tokyo', '2025-10-21'],
+    ['2025-10-21T15:00:00Z', 'Asia/Tokyo', '2025-10-22'],
+  ])('at %s "today" in %s is %s', (now, timeZone, date) => {
+    expect(NaturalDate.today({ now: new Date(now), timeZone })).toBe(date)
+  })
+
+  it('reads "tomorrow" from the zone\'s date, not UTC\'s', () => {
+    const lateEvening = { now: new Date('2025-10-22T06:30:00Z'), timeZone: 'America/Los_Angeles' }
+    expect(NaturalDate.parse('tomorrow', lateEvening).date).toBe('2025-10-22')
+    expect(NaturalDate.parse('tomorrow', { ...lateEvening, timeZone: 'UTC' }).date).toBe('2025-10-23')
+  })
+
+  it.each<[string, string, Partial<ParsedWhen>]>([
+    ['in 2 hours', '2025-10-22T03:30:00Z', { date: '2025-10-21', time: '22:30:00' }],
+    ['in 4 hours', '2025-10-22T03:30:00Z', { date: '2025-10-22', time: '00:30:00' }],
+    ['in 30 minutes', '2025-10-22T06:45:00Z', { date: '2025-10-22', time: '00:15:00' }],
+    // 01:30 PST, an hour later the clocks have jumped to 03:30 PDT
+    ['in 1 hour', '2025-03-09T09:30:00Z', { date: '2025-03-09', time: '03:30:00' }],
+    // 01:30 PDT, an hour later the clocks show 01:30 again in PST
+    ['in 1 hour', '2025-11-02T08:30:00Z', { date: '2025-11-02', time: '01:30:00' }],
+    ['in 2 hours', '2025-11-02T08:30:00Z', { date: '2025-11-02', time: '02:30:00' }],
+  ])('reads %j at %s on the zone\'s clock', (text, now, expected) => {
+    expect(NaturalDate.parse(text, { now: new Date(now), timeZone: 'America/Los_Angeles' })).toMatchObject(expected)
+  })
+
+  it.each<[string, string]>([
+    ['tomorrow', '2025-03-09'],
+    ['in a week', '2025-03-15'],
+    ['next sunday', '2025-03-16'],
+  ])('counts %j in calendar days over spring-forward', (text, date) => {
+    // Saturday 2025-03-08 23:30 in Los Angeles, the night before the clocks go forward
+    const options = { now: new Date('2025-03-09T07:30:00Z'), timeZone: 'America/Los_Angeles' }
+    expect(NaturalDate.parse(text, options).date).toBe(date)
+  })
+})
+
+describe('NaturalDate.date', () => {
+  it.each<[unknown, string | null]>([
+    ['2025-10-30', '2025-10-30'],
+    ['2025-10-30T23:30', '2025-10-30'],
+    ['October 30, 2025', '2025-10-30'],
+    ['5-3', '2026-05-03'],
+    ['tomorrow', '2025-10-22'],
+    ['next friday', '2025-10-31'],
+    ['3', null],
+    ['', null],
+    [null, null],
+  ])('turns %j into %j', (input, expected) => {
+    expect(NaturalDate.date(input, options)).toBe(expected)
+  })
+})
+
+describe('NaturalDate.time', () => {
+  it.each<[unknown, string | null]>([
+    // A bare value is a time, so the same 1 to 6 / 7 to 11 rule applies
+    ['3', '15:00:00'],
+    ['9', '09:00:00'],
+    ['14', '14:00:00'],
+    ['14:30', '14:30:00'],
+    ['2:30 pm', '14:30:00'],
+    ['after school', '15:30:00'],
+    ['2025-10-30T15:00:00', '15:00:00'],
+    ['x', null],
+  ])('turns %j into %j', (input, expected) => {
+    expect(NaturalDate.time(input, options)).toBe(expected)
+  })
+})
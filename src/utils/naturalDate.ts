@@ -0,0 +1,659 @@
+import { RecurrenceRule } from './recurrenceRule'
+import { TimeZone } from './timeZone'
+
+/**
+ * When a piece of text says something happens. Any part it doesn't mention
+ * is null.
+ */
+export interface ParsedWhen {
+  date: string | null // YYYY-MM-DD
+  time: string | null // HH:MM:SS
+  // From ranges ("Friday to Sunday", "3 to 5pm"), spans ("this weekend")
+  // and durations
+  endDate: string | null
+  endTime: string | null
+  // "for 2 hours", whether or not there's a start time
+  durationMinutes: number | null
+  // The text with the date and time phrases taken out, e.g. for a title
+  rest: string
+}
+
+export interface NaturalDateOptions {
+  // Defaults to the current time
+  now?: Date
+  // Which timezone "today" is in; defaults to the device's
+  timeZone?: string
+}
+
+interface DateRule {
+  pattern: RegExp
+  resolve: (match: RegExpMatchArray, today: string) => string | null
+  // Last day of phrases that cover several, e.g. "this weekend"
+  end?: (match: RegExpMatchArray, start: string) => string
+}
+
+interface TimeRule {
+  pattern: RegExp
+  // Minutes after midnight
+  resolve: (match: RegExpMatchArray, evening: boolean) => number | null
+}
+
+interface ClockTime {
+  hour: number
+  minute: number
+  meridiem: 'am' | 'pm' | null
+  // Written so it can only mean one time: "15:00", "09:30", "noon"
+  exact: boolean
+}
+
+interface Found<T> {
+  value: T
+  match: RegExpMatchArray
+  index: number
+}
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4, may: 5, june: 6, jun: 6,
+  july: 7, jul: 7, august: 8, aug: 8, september: 9, sept: 9, sep: 9, october: 10, oct: 10,
+  november: 11, nov: 11, december: 12, dec: 12,
+}
+
+// "sat", "sun" and "wed" are left out; they're words too often
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, mon: 1, tuesday: 2, tues: 2, tue: 2, wednesday: 3,
+  thursday: 4, thurs: 4, thur: 4, thu: 4, friday: 5, fri: 5, saturday: 6,
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, fifth: 5, '5th': 5, last: -1,
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, 'a couple of': 2, 'a couple': 2, 'a few': 3,
+}
+
+const RELATIVE_DAYS: Record<string, number> = {
+  yesterday: -1, today: 0, tonight: 0, tomorrow: 1, tmrw: 1, tmr: 1,
+}
+
+const alternation = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|')
+
+const MONTH = alternation(Object.keys(MONTHS))
+const WEEKDAY = alternation(Object.keys(WEEKDAYS))
+const ORDINAL = alternation(Object.keys(ORDINALS))
+const COUNT = `\\d+|${alternation(Object.keys(NUMBER_WORDS)).replace(/ /g, '\\s+')}`
+const AMOUNT = `\\d+(?:\\.\\d+)?|${COUNT}`
+const MERIDIEM = '[ap]\\.?m\\.?|in\\s+the\\s+(?:morning|afternoon|evening)|at\\s+night'
+const CLOCK = `(?:\\d{1,2}(?::\\d{2})?(?:\\s*o['’]?clock)?(?:\\s*(?:${MERIDIEM}))?|noon|midday|midnight)`
+// Numbers followed by these are amounts, not times: "3 to 5 days"
+const NOT_TIME = '(?!\\s*(?:days?|weeks?|months?|years?|hours?|hrs?|minutes?|mins?)\\b)'
+const HOUR_UNIT = 'hours?|hrs?|h'
+const MINUTE_UNIT = 'minutes?|mins?|m'
+
+// "2025-05-03T15:00" with no offset is already a wall-clock time
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?$/
+
+const MASK = '\u0000'
+const MAX_ATTEMPTS = 10
+
+/**
+ * Dates and times as people say them: "next Friday", "in 3 days", "the 2nd
+ * Tuesday of May", "this weekend", "noon", "after school", "3 to 5pm",
+ * "for 2 hours".
+ *
+ * "Today" is read in the given timezone (the device's by default), so a
+ * late-evening "today" doesn't roll over to tomorrow's UTC date.
+ * Interpretations that need a choice:
+ * - A weekday on its own, or with "this", is the next one, counting today;
+ *   "next Friday" is the Friday of next week (weeks start on Monday).
+ * - Dates without a year ("May 5", "3/14", "the 15th") are the next time
+ *   that date comes round.
+ * - An hour without am/pm from 1 to 6 is the afternoon and 7 to 11 the
+ *   morning, matching when family plans usually happen; "15:00" and
+ *   "09:30" are taken as written.
+ * - A bare number only counts as a time after "at", "by" or "around", so
+ *   "buy 3 apples" has no time in it.
+ */
+export class NaturalDate {
+  private static readonly DATE_RULES: DateRule[] = [
+    {
+      pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+      resolve: m => NaturalDate.ymd(+m[1], +m[2], +m[3]),
+    },
+    {
+      pattern: /(?<![\d/.:-])(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?(?![\d/])/,
+      resolve: (m, today) => NaturalDate.monthDay(+m[1], +m[2], m[3], today),
+    },
+    {
+      // With a dash the year is required; "3-5" is more likely a time range
+      pattern: /(?<![\d/.:-])(\d{1,2})-(\d{1,2})-(\d{2,4})(?![\d-])/,
+      resolve: (m, today) => NaturalDate.monthDay(+m[1], +m[2], m[3], today),
+    },
+    {
+      pattern: /\b(?:the\s+)?day\s+after\s+tomorrow\b/,
+      resolve: (_, today) => RecurrenceRule.addDays(today, 2),
+    },
+    {
+      pattern: /\b(?:the\s+)?day\s+before\s+yesterday\b/,
+      resolve: (_, today) => RecurrenceRule.addDays(today, -2),
+    },
+    {
+      pattern: /\b(today|tonight|tomorrow|tmrw|tmr|yesterday)\b/,
+      resolve: (m, today) => RecurrenceRule.addDays(today, RELATIVE_DAYS[m[1]]),
+    },
+    {
+      pattern: new RegExp(`\\bin\\s+(${COUNT})\\s+(day|week|fortnight|month|year)s?\\b`),
+      resolve: (m, today) => NaturalDate.shift(today, NaturalDate.count(m[1]), m[2]),
+    },
+    {
+      pattern: new RegExp(`\\b(${COUNT})\\s+(day|week|fortnight|month|year)s?\\s+from\\s+(now|today|tomorrow)\\b`),
+      resolve: (m, today) => NaturalDate.shift(RecurrenceRule.addDays(today, m[3] === 'tomorrow' ? 1 : 0), NaturalDate.count(m[1]), m[2]),
+    },
+    {
+      pattern: new RegExp(`\\b(?:the\\s+)?(${ORDINAL})\\s+(${WEEKDAY})\\s+(?:of|in)\\s+(?:(this|next)\\s+month|the\\s+month|(${MONTH})(?:\\s+(\\d{4}))?)\\b`),
+      resolve: (m, today) => NaturalDate.nthWeekdayPhrase(m, today),
+    },
+    {
+      pattern: new RegExp(`\\b(${MONTH})\\.?\\s+(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b(?!\\s*(?::|${MERIDIEM}))`),
+      resolve: (m, today) => NaturalDate.monthDay(MONTHS[m[1]], +m[2], m[3], today),
+    },
+    {
+      pattern: new RegExp(`\\b(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})\\b\\.?(?:,?\\s+(\\d{4})\\b)?`),
+      resolve: (m, today) => NaturalDate.monthDay(MONTHS[m[2]], +m[1], m[3], today),
+    },
+    {
+      pattern: /\bthe\s+(\d{1,2})(?:st|nd|rd|th)\b/,
+      resolve: (m, today) => NaturalDate.dayOfMonth(+m[1], today),
+    },
+    {
+      pattern: new RegExp(`\\b(?:(this\\s+coming|this|coming|next|last|past)\\s+)?(${WEEKDAY})\\b\\.?`),
+      resolve: (m, today) => NaturalDate.weekday(WEEKDAYS[m[2]], m[1]?.replace(/\s+/g, ' '), today),
+    },
+    {
+      pattern: /\b(?:(this|next|coming)\s+)?weekend\b/,
+      resolve: (m, today) => NaturalDate.weekend(today, m[1] === 'next'),
+      end: (_, start) => RecurrenceRule.weekdayOf(start) === 'SU' ? start : RecurrenceRule.addDays(start, 1),
+    },
+    {
+      pattern: /\b(this|next)\s+(week|month|year)\b/,
+      resolve: (m, today) => NaturalDate.period(today, m[2], m[1] === 'next'),
+      end: (m, start) => NaturalDate.periodEnd(start, m[2]),
+    },
+    {
+      pattern: /\b(?:the\s+)?end\s+of\s+(?:(the|this|next)\s+)?month\b/,
+      resolve: (m, today) => NaturalDate.periodEnd(m[1] === 'next' ? NaturalDate.shift(today, 1, 'month') : today, 'month'),
+    },
+  ]
+
+  private static readonly TIME_RULES: TimeRule[] = [
+    {
+      pattern: new RegExp(`\\b(half|quarter)\\s+(past|after|to|before)\\s+(\\d{1,2}|noon|midnight)(?:\\s*(${MERIDIEM}))?(?![\\w:])`),
+      resolve: (m, evening) => {
+        const base = NaturalDate.clock(`${m[3]}${m[4] ? ` ${m[4]}` : ''}`)
+        if (!base) return null
+        const offset = (m[1] === 'half' ? 30 : 15) * (m[2] === 'to' || m[2] === 'before' ? -1 : 1)
+        return (NaturalDate.minutes(base, evening) + offset + 1440) % 1440
+      },
+    },
+    {
+      pattern: new RegExp(`(?:\\b(at|by|around|about|@)\\s*)?(?<![\\w/:.-])(${CLOCK})(?![\\w:])${NOT_TIME}`),
+      resolve: (m, evening) => {
+        const clock = NaturalDate.clock(m[2])
+        // A lone number needs an "at" to be a time
+        if (!clock || (!m[1] && !clock.meridiem && !clock.exact && !/:|clock/.test(m[2]))) return null
+        return NaturalDate.minutes(clock, evening)
+      },
+    },
+  ]
+
+  private static readonly NAMED_TIMES: Array<[RegExp, string]> = [
+    [/\bafter\s+school\b/, '15:30'],
+    [/\bbefore\s+school\b/, '07:30'],
+    [/\bafter\s+work\b/, '17:30'],
+    [/\bafter\s+lunch\b/, '13:00'],
+    [/\b(?:at\s+)?lunch\s*time\b|\bat\s+lunch\b/, '12:00'],
+    [/\b(?:at\s+)?(?:dinner|supper)\s*time\b|\b(?:at|after)\s+(?:dinner|supper)\b/, '18:00'],
+    [/\b(?:at\s+)?bed\s*time\b/, '20:00'],
+    [/\b(?:first\s+thing|early)\s+in\s+the\s+morning\b|\bfirst\s+thing\b/, '08:00'],
+    [/\b(?:this\s+|in\s+the\s+)?morning\b/, '09:00'],
+    [/\b(?:this\s+|in\s+the\s+)?afternoon\b/, '14:00'],
+    [/\b(?:this\s+|in\s+the\s+)?evening\b/, '18:00'],
+    [/\bat\s+night\b/, '19:00'],
+    [/\b(?:by\s+)?(?:the\s+)?end\s+of\s+(?:the\s+)?day\b|\beod\b/, '17:00'],
+  ]
+
+  static today(options: NaturalDateOptions = {}): string {
+    return this.zoned(options).date
+  }
+
+  /**
+   * Find the date, time, range and duration in free text such as
+   * "dentist next Friday from 3 to 4:30pm".
+   */
+  static parse(text: string, options: NaturalDateOptions = {}): ParsedWhen {
+    const today = this.today(options)
+    const chars = text.toLowerCase().split('')
+    const result: ParsedWhen = { date: null, time: null, endDate: null, endTime: null, durationMinutes: null, rest: '' }
+
+    // "in 2 hours" fixes both the date and the time
+    const later = this.find(chars, [new RegExp(`\\bin\\s+(${AMOUNT}|half\\s+an)\\s+(${HOUR_UNIT}|${MINUTE_UNIT})\\b`)], match => {
+      const amount = match[1].startsWith('half') ? 0.5 : this.amount(match[1])
+      if (amount === null) return null
+      const minutes = Math.round(amount * (match[2].startsWith('h') ? 60 : 1))
+      return this.zoned({ ...options, now: new Date(this.now(options).getTime() + minutes * 60_000) })
+    })
+    if (later) {
+      result.date = later.value.date
+      result.time = `${later.value.time.slice(0, 5)}:00`
+    }
+
+    const start = result.date ? null : this.find(chars, this.DATE_RULES, (match, rule) => {
+      const date = rule.resolve(match, today)
+      return date ? { date, rule } : null
+    })
+    const evening = !!start && /\btonight\b/.test(start.match[0])
+    if (start) {
+      result.date = start.value.date
+      result.endDate = start.value.rule.end?.(start.match, start.value.date) ?? null
+
+      // "Friday to Sunday": the end is read from the start, not today
+      const after = start.index + start.match[0].length
+      const joiner = chars.slice(after).join('').match(/^\s*(?:-|–|to|through|thru|until|till)\s*/)
+      if (joiner) {
+        const endAt = after + joiner[0].length
+        const end = this.find(chars, this.DATE_RULES, (match, rule) => rule.resolve(match, start.value.date), endAt)
+        if (end && end.value >= start.value.date) {
+          result.endDate = end.value
+          this.mask(chars, after, joiner[0].length)
+        }
+      }
+    }
+
+    if (!result.time) {
+      this.parseTime(chars, evening, result)
+    }
+
+    const duration = this.find(chars, [
+      /\bfor\s+(?:an?\s+|one\s+)?hour\s+and\s+a\s+half\b/,
+      /\bfor\s+half\s+an?\s+hour\b/,
+      new RegExp(`\\bfor\\s+(${AMOUNT})\\s*(${HOUR_UNIT}|${MINUTE_UNIT})\\b(\\s+and\\s+a\\s+half)?`),
+      new RegExp(`\\b(${AMOUNT})[\\s-](hours?|hrs?|minutes?|mins?)[\\s-]long\\b`),
+      new RegExp(`\\b(\\d+(?:\\.\\d+)?)-(hour|hr|minute|min)\\b`),
+    ], match => {
+      if (!match[1]) return /half\s+an?\s+hour$/.test(match[0]) ? 30 : 90
+      const amount = this.amount(match[1])
+      if (amount === null) return null
+      return Math.round((amount + (match[3] ? 0.5 : 0)) * (match[2].startsWith('h') ? 60 : 1))
+    })
+    if (duration && duration.value > 0) {
+      result.durationMinutes = duration.value
+      if (result.time && !result.endTime) {
+        const end = this.toMinutes(result.time) + duration.value
+        result.endTime = this.formatTime(end % 1440)
+        if (result.date && end >= 1440) result.endDate = RecurrenceRule.addDays(result.date, Math.floor(end / 1440))
+      }
+    }
+
+    result.rest = this.rest(text, chars)
+    return result
+  }
+
+  /**
+   * A date as YYYY-MM-DD from anything that says one: "2025-05-03",
+   * "5/3", "tomorrow", "next Friday", a Date or a timestamp.
+   */
+  static date(input: unknown, options: NaturalDateOptions = {}): string | null {
+    if (input instanceof Date || typeof input === 'number') {
+      const instant = new Date(input).getTime()
+      return Number.isNaN(instant) ? null : this.zoned({ ...options, now: new Date(instant) }).date
+    }
+
+    const s = String(input ?? '').trim()
+    if (!s) return null
+
+    const local = s.match(LOCAL_DATE_TIME)
+    if (local) return local[1]
+
+    // A lone "5-3" is a date, even though in a sentence it would be a range
+    const dashed = s.match(/^(\d{1,2})-(\d{1,2})$/)
+    if (dashed) return this.monthDay(+dashed[1], +dashed[2], undefined, this.today(options))
+
+    const parsed = this.parse(s, options).date
+    if (parsed) return parsed
+
+    // Anything else Date understands, as long as it has a year
+    const instant = /\d{4}/.test(s) ? Date.parse(s) : NaN
+    return Number.isNaN(instant) ? null : this.zoned({ ...options, now: new Date(instant) }).date
+  }
+
+  /**
+   * A time as HH:MM:SS from anything that says one: "14:30", "2:30pm",
+   * "3", "noon", "after school", a Date or a timestamp.
+   */
+  static time(input: unknown, options: NaturalDateOptions = {}): string | null {
+    if (input instanceof Date || typeof input === 'number') {
+      const instant = new Date(input).getTime()
+      return Number.isNaN(instant) ? null : this.zoned({ ...options, now: new Date(instant) }).time
+    }
+
+    const s = String(input ?? '').trim()
+    if (!s) return null
+
+    const local = s.match(LOCAL_DATE_TIME)
+    if (local) return `${local[2]}:00`
+
+    // On its own a number is clearly meant as a time
+    const parsed = this.parse(/^\d{1,2}(?::\d{2})?$/.test(s) ? `at ${s}` : s, options).time
+    if (parsed) return parsed
+
+    const instant = /\d{4}.*T|\d{4}.*\d:\d{2}/.test(s) ? Date.parse(s) : NaN
+    return Number.isNaN(instant) ? null : this.zoned({ ...options, now: new Date(instant) }).time
+  }
+
+  private static parseTime(chars: string[], evening: boolean, result: ParsedWhen): void {
+    const range = this.find(chars, [
+      new RegExp(`(?:\\b(from|between|at|@)\\s*)?(?<![\\w/:.-])(${CLOCK})\\s*(-|–|to|until|till|and)\\s*(${CLOCK})(?![\\w:])${NOT_TIME}`),
+    ], match => this.timeRange(match, evening))
+
+    if (range) {
+      result.time = this.formatTime(range.value[0])
+      result.endTime = this.formatTime(range.value[1])
+      if (result.date && !result.endDate && range.value[1] < range.value[0]) {
+        result.endDate = RecurrenceRule.addDays(result.date, 1)
+      }
+      return
+    }
+
+    const single = this.find(chars, this.TIME_RULES, (match, rule) => rule.resolve(match, evening))
+    if (single) {
+      result.time = this.formatTime(single.value)
+      return
+    }
+
+    const named = this.find(chars, this.NAMED_TIMES.map(([pattern]) => pattern), (_, pattern) =>
+      this.NAMED_TIMES.find(([p]) => p === pattern)?.[1] ?? null
+    )
+    if (named) {
+      result.time = `${named.value}:00`
+    } else if (evening) {
+      result.time = '19:00:00'
+    }
+  }
+
+  private static timeRange(match: RegExpMatchArray, evening: boolean): [number, number] | null {
+    const [, prefix, startText, joiner, endText] = match
+    if (joiner === 'and' && prefix !== 'between') return null
+
+    const start = this.clock(startText)
+    const end = this.clock(endText)
+    if (!start || !end) return null
+
+    // "3 to 5" could be anything; "3 to 5pm", "from 3 to 5" or "3:00-5:00" can't
+    const clear = !!prefix || !!start.meridiem || !!end.meridiem || start.exact || end.exact || /:/.test(startText + endText)
+    if (!clear) return null
+
+    let endMinutes = this.minutes(end, evening)
+    let startMinutes: number
+
+    if (!start.meridiem && !start.exact && end.meridiem) {
+      // "11 to 1pm" is 11am; "3 to 5pm" is 3pm
+      startMinutes = this.minutes({ ...start, meridiem: end.meridiem }, evening)
+      if (startMinutes > endMinutes) startMinutes -= 720
+    } else {
+      startMinutes = this.minutes(start, evening)
+      if (!end.meridiem && !end.exact) {
+        // "11am to 1" is 1pm
+        endMinutes = this.minutes({ ...end, meridiem: start.hour >= 12 || startMinutes >= 720 ? 'pm' : 'am' }, evening)
+        if (endMinutes <= startMinutes && endMinutes + 720 < 1440) endMinutes += 720
+      }
+    }
+
+    return [startMinutes, endMinutes]
+  }
+
+  /**
+   * Run rules over the text (from `from` on), keeping the earliest match
+   * that resolves, and blank it out so later searches don't see it again.
+   */
+  private static find<R extends RegExp | { pattern: RegExp }, T>(
+    chars: string[],
+    rules: R[],
+    resolve: (match: RegExpMatchArray, rule: R) => T | null,
+    from = 0
+  ): Found<T> | null {
+    const original = [...chars]
+    const skipped: Array<[number, number]> = []
+    let found: Found<T> | null = null
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && !found; attempt++) {
+      const text = chars.join('')
+      let best: { rule: R; match: RegExpMatchArray; index: number } | null = null
+
+      for (const rule of rules) {
+        const pattern = rule instanceof RegExp ? rule : rule.pattern
+        const match = text.slice(from).match(pattern)
+        if (!match || match.index === undefined) continue
+        const index = from + match.index
+        if (!best || index < best.index || (index === best.index && match[0].length > best.match[0].length)) {
+          best = { rule, match, index }
+        }
+      }
+
+      // A range's end has to follow its joiner directly
+      if (!best || (from > 0 && best.index !== from)) break
+
+      const value = resolve(best.match, best.rule)
+      if (value !== null) {
+        found = { value, match: best.match, index: best.index }
+      } else {
+        // Didn't make sense (e.g. February 30th); look past it
+        skipped.push([best.index, best.match[0].length])
+        this.mask(chars, best.index, best.match[0].length)
+      }
+    }
+
+    for (const [index, length] of skipped) {
+      for (let i = index; i < index + length; i++) chars[i] = original[i]
+    }
+    if (found) this.mask(chars, found.index, found.match[0].length)
+    return found
+  }
+
+  private static mask(chars: string[], index: number, length: number): void {
+    for (let i = index; i < index + length; i++) chars[i] = MASK
+  }
+
+  private static rest(text: string, chars: string[]): string {
+    const kept = chars.map((c, i) => (c === MASK ? MASK : text[i])).join('')
+    return kept
+      .replace(new RegExp(`\\b(?:on|at|by|from|between|around|about|for|until|till|in|starting)\\s*(?=${MASK})`, 'gi'), '')
+      .replace(new RegExp(`${MASK}+`, 'g'), ' ')
+      .replace(/\s+([,.!?])/g, '$1')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s,.;:-]+|[\s,;:-]+$/g, '')
+  }
+
+  private static clock(token: string): ClockTime | null {
+    const t = token.trim()
+    if (t === 'noon' || t === 'midday') return { hour: 12, minute: 0, meridiem: 'pm', exact: true }
+    if (t === 'midnight') return { hour: 0, minute: 0, meridiem: 'am', exact: true }
+
+    const m = t.match(/^(\d{1,2})(?::(\d{2}))?(?:\s*o['’]?clock)?\s*(.*)$/)
+    if (!m) return null
+
+    const hour = parseInt(m[1], 10)
+    const minute = m[2] ? parseInt(m[2], 10) : 0
+    if (minute > 59) return null
+
+    const suffix = m[3].trim()
+    if (suffix) {
+      if (hour < 1 || hour > 12) return null
+      const meridiem = /^a\.?m|morning/.test(suffix) ? 'am' : 'pm'
+      return { hour, minute, meridiem, exact: false }
+    }
+
+    if (hour > 23) return null
+    // "09:30", "15:00" and "0:15" say exactly which hour
+    const exact = hour === 0 || hour > 12 || (!!m[2] && m[1].startsWith('0'))
+    return { hour, minute, meridiem: null, exact }
+  }
+
+  // Minutes after midnight, guessing the half of the day if it isn't given
+  private static minutes(clock: ClockTime, evening: boolean): number {
+    let hour = clock.hour
+    if (clock.meridiem === 'pm' && hour < 12) hour += 12
+    else if (clock.meridiem === 'am' && hour === 12) hour = 0
+    else if (!clock.meridiem && !clock.exact && hour < 12 && hour > 0 && (evening || hour <= 6)) hour += 12
+    return hour * 60 + clock.minute
+  }
+
+  private static formatTime(minutes: number): string {
+    const m = ((minutes % 1440) + 1440) % 1440
+    return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}:00`
+  }
+
+  private static toMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number)
+    return h * 60 + m
+  }
+
+  private static count(word: string): number {
+    return this.amount(word) ?? 1
+  }
+
+  private static amount(word: string): number | null {
+    const w = word.replace(/\s+/g, ' ').trim()
+    if (/^\d+(?:\.\d+)?$/.test(w)) return parseFloat(w)
+    return NUMBER_WORDS[w] ?? null
+  }
+
+  private static ymd(year: number, month: number, day: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > this.daysInMonth(year, month)) return null
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  }
+
+  private static daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate()
+  }
+
+  private static monthDay(month: number, day: number, year: string | undefined, today: string): string | null {
+    if (year) return this.ymd(year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10), month, day)
+
+    const thisYear = parseInt(today.slice(0, 4), 10)
+    const date = this.ymd(thisYear, month, day)
+    if (date && date >= today) return date
+    // Already past (or Feb 29 outside a leap year): the next one
+    for (let y = thisYear + 1; y <= thisYear + 8; y++) {
+      const next = this.ymd(y, month, day)
+      if (next) return next
+    }
+    return null
+  }
+
+  private static dayOfMonth(day: number, today: string): string | null {
+    let [year, month] = today.split('-').map(Number)
+    for (let i = 0; i < 12; i++) {
+      const date = this.ymd(year, month, day)
+      if (date && date >= today) return date
+      month = month === 12 ? 1 : month + 1
+      if (month === 1) year++
+    }
+    return null
+  }
+
+  private static shift(date: string, amount: number, unit: string): string {
+    switch (unit) {
+      case 'day': return RecurrenceRule.addDays(date, amount)
+      case 'week': return RecurrenceRule.addDays(date, amount * 7)
+      case 'fortnight': return RecurrenceRule.addDays(date, amount * 14)
+      default: {
+        const [y, m, d] = date.split('-').map(Number)
+        const months = unit === 'year' ? amount * 12 : amount
+        const total = y * 12 + (m - 1) + months
+        const year = Math.floor(total / 12)
+        const month = (total % 12) + 1
+        return this.ymd(year, month, Math.min(d, this.daysInMonth(year, month)))!
+      }
+    }
+  }
+
+  private static weekdayIndex(date: string): number {
+    return RecurrenceRule.WEEKDAYS.indexOf(RecurrenceRule.weekdayOf(date))
+  }
+
+  private static weekday(target: number, modifier: string | undefined, today: string): string {
+    const current = this.weekdayIndex(today)
+    if (modifier === 'last' || modifier === 'past') {
+      return RecurrenceRule.addDays(today, -(((current - target + 7) % 7) || 7))
+    }
+    if (modifier === 'next') {
+      // Monday of next week, then on to the day
+      const nextMonday = RecurrenceRule.addDays(today, ((1 - current + 7) % 7) || 7)
+      return RecurrenceRule.addDays(nextMonday, (target - 1 + 7) % 7)
+    }
+    return RecurrenceRule.addDays(today, (target - current + 7) % 7)
+  }
+
+  private static weekend(today: string, next: boolean): string {
+    const current = this.weekdayIndex(today)
+    // On a Sunday, "this weekend" is the one we're in
+    const saturday = current === 0 ? RecurrenceRule.addDays(today, -1) : RecurrenceRule.addDays(today, 6 - current)
+    if (next) return RecurrenceRule.addDays(saturday, 7)
+    return saturday < today ? today : saturday
+  }
+
+  private static period(today: string, unit: string, next: boolean): string {
+    if (!next) return today
+    if (unit === 'week') return this.weekday(1, 'next', today)
+    const [y, m] = today.split('-').map(Number)
+    return unit === 'month' ? this.shift(`${y}-${String(m).padStart(2, '0')}-01`, 1, 'month') : `${y + 1}-01-01`
+  }
+
+  private static periodEnd(start: string, unit: string): string {
+    const [y, m] = start.split('-').map(Number)
+    if (unit === 'week') return RecurrenceRule.addDays(start, (7 - this.weekdayIndex(start)) % 7)
+    if (unit === 'month') return this.ymd(y, m, this.daysInMonth(y, m))!
+    return `${y}-12-31`
+  }
+
+  // "the 2nd Tuesday of May", "the last Friday of the month"
+  private static nthWeekdayPhrase(m: RegExpMatchArray, today: string): string | null {
+    const ordinal = ORDINALS[m[1]]
+    const target = WEEKDAYS[m[2]]
+    const [year, month] = today.split('-').map(Number)
+
+    if (m[4]) {
+      const named = MONTHS[m[4]]
+      if (m[5]) return this.nthWeekday(parseInt(m[5], 10), named, target, ordinal)
+      const date = this.nthWeekday(year, named, target, ordinal)
+      return date && date >= today ? date : this.nthWeekday(year + 1, named, target, ordinal)
+    }
+
+    const nextMonth = this.shift(`${year}-${String(month).padStart(2, '0')}-01`, 1, 'month').split('-').map(Number)
+    if (m[3] === 'next') return this.nthWeekday(nextMonth[0], nextMonth[1], target, ordinal)
+
+    const date = this.nthWeekday(year, month, target, ordinal)
+    if (m[3] === 'this' || (date && date >= today)) return date
+    return this.nthWeekday(nextMonth[0], nextMonth[1], target, ordinal)
+  }
+
+  private static nthWeekday(year: number, month: number, target: number, ordinal: number): string | null {
+    if (ordinal === -1) {
+      const last = this.ymd(year, month, this.daysInMonth(year, month))!
+      return RecurrenceRule.addDays(last, -((this.weekdayIndex(last) - target + 7) % 7))
+    }
+    const first = this.ymd(year, month, 1)!
+    const day = 1 + ((target - this.weekdayIndex(first) + 7) % 7) + (ordinal - 1) * 7
+    return this.ymd(year, month, day)
+  }
+
+  private static now(options: NaturalDateOptions): Date {
+    return options.now ?? new Date()
+  }
+
+  private static zoned(options: NaturalDateOptions) {
+    const timeZone = TimeZone.isValid(options.timeZone) ? options.timeZone : TimeZone.local()
+    return TimeZone.utcToZoned(this.now(options).getTime(), timeZone)
+  }
+}
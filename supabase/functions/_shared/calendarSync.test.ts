@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest'
+import { CalendarSync, type GoogleEvent, type SyncEvent } from './calendarSync.ts'
+import { TimeZone } from './timeZone.ts'
+
+const timed = (start: string, end: string, timeZone?: string): GoogleEvent => ({
+  id: 'google-1',
+  summary: 'Swim lesson',
+  start: { dateTime: start, timeZone },
+  end: { dateTime: end, timeZone },
+})
+
+const localEvent = (fields: Partial<SyncEvent>): SyncEvent => ({
+  id: 'local-1',
+  user_id: 'user-1',
+  title: 'Swim lesson',
+  event_date: '2025-06-10',
+  event_type: 'other',
+  ...fields,
+})
+
+describe('CalendarSync.googleEventToLocal', () => {
+  it.each([
+    // Negative offset: New York
+    ['spring-forward in New York', '2025-03-09T01:30:00-05:00', '2025-03-09T03:30:00-04:00', 'America/New_York', '01:30:00', '03:30:00'],
+    ['fall-back in New York, first 1:30 to second', '2025-11-02T01:30:00-04:00', '2025-11-02T01:30:00-05:00', 'America/New_York', '01:30:00', '01:30:00'],
+    // Positive offset: Sydney
+    ['spring-forward in Sydney', '2025-10-05T01:30:00+10:00', '2025-10-05T03:30:00+11:00', 'Australia/Sydney', '01:30:00', '03:30:00'],
+    ['fall-back in Sydney, first 2:30 to second', '2025-04-06T02:30:00+11:00', '2025-04-06T02:30:00+10:00', 'Australia/Sydney', '02:30:00', '02:30:00'],
+  ])('keeps the wall clock across %s', (_, start, end, timeZone, startTime, endTime) => {
+    const local = CalendarSync.googleEventToLocal(timed(start, end, timeZone), 'user-1')
+
+    expect(local).toMatchObject({
+      event_date: start.slice(0, 10),
+      end_date: null,
+      start_time: startTime,
+      end_time: endTime,
+      timezone: timeZone,
+    })
+  })
+
+  it('reads an event in its own zone when it differs from the user\'s', () => {
+    const tokyo = timed('2025-06-10T09:00:00+09:00', '2025-06-10T10:00:00+09:00', 'Asia/Tokyo')
+    const local = CalendarSync.googleEventToLocal(
+      tokyo,
+      'user-1',
+      CalendarSync.googleTimeZone(tokyo.start, 'America/Los_Angeles')
+    )
+
+    expect(local).toMatchObject({ event_date: '2025-06-10', start_time: '09:00:00', end_time: '10:00:00', timezone: 'Asia/Tokyo' })
+  })
+
+  it('reads a zoneless event on the given clock, moving the date when needed', () => {
+    const local = CalendarSync.googleEventToLocal(
+      timed('2025-06-10T09:00:00+09:00', '2025-06-10T10:00:00+09:00'),
+      'user-1',
+      'America/Los_Angeles'
+    )
+
+    expect(local).toMatchObject({ event_date: '2025-06-09', start_time: '17:00:00', end_time: '18:00:00', timezone: 'America/Los_Angeles' })
+  })
+
+  it('sets end_date for a timed event that runs past midnight', () => {
+    const local = CalendarSync.googleEventToLocal(
+      timed('2025-12-31T22:00:00+11:00', '2026-01-01T01:00:00+11:00', 'Australia/Sydney'),
+      'user-1'
+    )
+
+    expect(local).toMatchObject({ event_date: '2025-12-31', end_date: '2026-01-01', start_time: '22:00:00', end_time: '01:00:00' })
+  })
+
+  it.each([
+    ['a single all-day event', '2025-12-24', '2025-12-25', null],
+    ['a multi-day all-day event, Google\'s end being exclusive', '2025-12-24', '2025-12-27', '2025-12-26'],
+    ['an all-day event over a DST change', '2025-11-01', '2025-11-03', '2025-11-02'],
+  ])('maps %s', (_, start, end, endDate) => {
+    const local = CalendarSync.googleEventToLocal(
+      { id: 'google-1', summary: 'Winter break', start: { date: start }, end: { date: end } },
+      'user-1',
+      'America/New_York'
+    )
+
+    expect(local).toMatchObject({ event_date: start, end_date: endDate, start_time: null, end_time: null })
+  })
+
+  it('dates an edited instance by its original start in the given zone', () => {
+    const local = CalendarSync.googleEventToLocal(
+      {
+        ...timed('2025-03-10T10:00:00-04:00', '2025-03-10T11:00:00-04:00', 'America/New_York'),
+        recurringEventId: 'series-1',
+        originalStartTime: { dateTime: '2025-03-10T09:00:00-04:00', timeZone: 'America/New_York' },
+      },
+      'user-1'
+    )
+
+    expect(local.recurrence_original_date).toBe('2025-03-10')
+  })
+})
+
+describe('CalendarSync.localEventToGoogle', () => {
+  it.each([
+    ['on a spring-forward day in New York', '2025-03-09', 'America/New_York'],
+    ['on a fall-back day in New York', '2025-11-02', 'America/New_York'],
+    ['on a spring-forward day in Sydney', '2025-10-05', 'Australia/Sydney'],
+    ['on a fall-back day in Sydney', '2025-04-06', 'Australia/Sydney'],
+  ])('sends the wall clock and zone %s so Google applies the DST rules', (_, date, timeZone) => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({ event_date: date, start_time: '01:30:00', end_time: '03:30:00', timezone: timeZone }),
+      'UTC'
+    )
+
+    expect(google.start).toEqual({ dateTime: `${date}T01:30:00`, timeZone })
+    expect(google.end).toEqual({ dateTime: `${date}T03:30:00`, timeZone })
+  })
+
+  it('uses the event\'s own zone over the user\'s', () => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({ start_time: '09:00:00', end_time: '10:00:00', timezone: 'Asia/Tokyo' }),
+      'America/Los_Angeles'
+    )
+
+    expect(google.start).toEqual({ dateTime: '2025-06-10T09:00:00', timeZone: 'Asia/Tokyo' })
+  })
+
+  it('falls back to the user\'s zone for an event without one', () => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({ start_time: '09:00:00', end_time: '10:00:00', timezone: null }),
+      'America/Los_Angeles'
+    )
+
+    expect(google.start).toEqual({ dateTime: '2025-06-10T09:00:00', timeZone: 'America/Los_Angeles' })
+  })
+
+  it('ends an overnight event on the next day', () => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({ event_date: '2025-12-31', start_time: '22:00:00', end_time: '01:00:00', timezone: 'Australia/Sydney' })
+    )
+
+    expect(google.end).toEqual({ dateTime: '2026-01-01T01:00:00', timeZone: 'Australia/Sydney' })
+  })
+
+  it.each([
+    ['a single all-day event', null, '2025-12-25'],
+    ['a multi-day all-day event', '2025-12-26', '2025-12-27'],
+  ])('gives %s an exclusive end date', (_, endDate, googleEnd) => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({ event_date: '2025-12-24', end_date: endDate, start_time: null, end_time: null })
+    )
+
+    expect(google.start).toEqual({ date: '2025-12-24' })
+    expect(google.end).toEqual({ date: googleEnd })
+  })
+
+  it('writes exceptions of a timed series at the start time in the event\'s zone', () => {
+    const google = CalendarSync.localEventToGoogle(
+      localEvent({
+        event_date: '2025-03-03',
+        start_time: '09:00:00',
+        end_time: '10:00:00',
+        timezone: 'America/New_York',
+        recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO',
+        recurrence_exceptions: ['2025-03-10'],
+      }),
+      'Australia/Sydney'
+    )
+
+    expect(google.recurrence).toEqual([
+      'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      'EXDATE;TZID=America/New_York:20250310T090000',
+    ])
+  })
+})
+
+describe('CalendarSync.googleInstanceId', () => {
+  const master = (timeZone: string) => localEvent({ event_date: '2025-03-03', start_time: '09:00:00', timezone: timeZone })
+
+  it.each([
+    ['before spring-forward in New York', 'America/New_York', '2025-03-03', 'series-1_20250303T140000Z'],
+    ['after spring-forward in New York', 'America/New_York', '2025-03-10', 'series-1_20250310T130000Z'],
+    ['before fall-back in Sydney', 'Australia/Sydney', '2025-04-05', 'series-1_20250404T220000Z'],
+    ['after fall-back in Sydney', 'Australia/Sydney', '2025-04-07', 'series-1_20250406T230000Z'],
+  ])('uses the UTC start of the occurrence %s', (_, timeZone, originalDate, expected) => {
+    expect(CalendarSync.googleInstanceId('series-1', master(timeZone), originalDate)).toBe(expected)
+  })
+
+  it('uses the date for an all-day series', () => {
+    const allDay = localEvent({ event_date: '2025-03-03', start_time: null })
+    expect(CalendarSync.googleInstanceId('series-1', allDay, '2025-03-10')).toBe('series-1_20250310')
+  })
+})
+
+describe('round trip', () => {
+  it.each([
+    ['America/New_York', '2025-03-09', '01:30:00', '03:30:00'],
+    ['America/New_York', '2025-11-02', '00:30:00', '01:15:00'],
+    ['Australia/Sydney', '2025-10-05', '01:30:00', '03:30:00'],
+    ['Australia/Sydney', '2025-04-06', '01:30:00', '04:00:00'],
+  ])('maps a local event in %s on %s back to itself', (timeZone, date, start, end) => {
+    const local = localEvent({ event_date: date, start_time: start, end_time: end, timezone: timeZone })
+    const sent = CalendarSync.localEventToGoogle(local, 'UTC')
+
+    // Google answers with RFC 3339 date-times carrying the offset
+    const rfc3339 = (value: { dateTime?: string }) => {
+      const [d, t] = value.dateTime!.split('T')
+      return new Date(TimeZone.zonedToUtc(d, t, timeZone)).toISOString()
+    }
+    const received = CalendarSync.googleEventToLocal(
+      { ...sent, start: { dateTime: rfc3339(sent.start!), timeZone }, end: { dateTime: rfc3339(sent.end!), timeZone } },
+      'user-1'
+    )
+
+    expect(received).toMatchObject({ event_date: date, start_time: start, end_time: end, timezone: timeZone })
+  })
+})
@@ -0,0 +1,455 @@
+import { RecurrenceRule } from './recurrenceRule.ts'
+import { TimeZone } from './timeZone.ts'
+
+export interface GoogleDateTime {
+  dateTime?: string
+  date?: string
+  timeZone?: string
+}
+
+/**
+ * The fields of a Google Calendar event that sync reads and writes
+ */
+export interface GoogleEvent {
+  id?: string
+  summary?: string
+  description?: string
+  location?: string
+  start?: GoogleDateTime
+  end?: GoogleDateTime
+  attendees?: Array<{ email?: string; displayName?: string }>
+  recurrence?: string[]
+  recurringEventId?: string
+  originalStartTime?: GoogleDateTime
+  status?: string
+  updated?: string
+}
+
+/**
+ * The columns of a local event that sync reads and writes
+ */
+export interface SyncEvent {
+  id?: string
+  user_id?: string
+  title: string
+  description?: string | null
+  event_date: string // YYYY-MM-DD
+  end_date?: string | null
+  start_time?: string | null // HH:MM:SS
+  end_time?: string | null
+  timezone?: string | null
+  location?: string | null
+  participants?: string[] | null
+  event_type?: string | null
+  recurrence_rule?: string | null
+  recurrence_exceptions?: string[] | null
+  recurrence_parent_id?: string | null
+  recurrence_original_date?: string | null
+  updated_at?: string
+}
+
+// The fields of an event that sync compares and merges
+export interface SyncSnapshot {
+  title: string
+  description: string | null
+  event_date: string
+  start_time: string | null // HH:MM
+  end_time: string | null // HH:MM
+  end_date: string | null // set only when the event ends on a later day
+  location: string | null
+  participants: string[]
+  recurrence_rule: string | null
+  recurrence_exceptions: string[]
+}
+
+export type SyncField = 'title' | 'time' | 'location' | 'attendees' | 'description' | 'recurrence'
+
+// Snapshot keys behind each field; a field is edited, merged and shown as a unit
+export const SYNC_FIELDS: Record<SyncField, (keyof SyncSnapshot)[]> = {
+  title: ['title'],
+  time: ['event_date', 'start_time', 'end_time', 'end_date'],
+  location: ['location'],
+  attendees: ['participants'],
+  description: ['description'],
+  recurrence: ['recurrence_rule', 'recurrence_exceptions'],
+}
+
+export type ConflictPolicy = 'newest' | 'local' | 'google'
+
+export interface SnapshotMerge {
+  merged: SyncSnapshot // every one-sided edit applied; conflicting fields keep the local value
+  conflicting: SyncField[]
+}
+
+/**
+ * Hashing, three-way merging and Google <-> local mapping of events for
+ * calendar sync. The app and the calendar-sync-scheduler function both sync
+ * with these, so the hashes and snapshots either one stores on a mapping
+ * read the same to the other.
+ */
+export class CalendarSync {
+  /**
+   * Generate a hash for an event to detect changes
+   */
+  static generateEventHash(event: SyncEvent | GoogleEvent): string {
+    // For local events
+    if ('event_date' in event) {
+      const data = {
+        title: event.title,
+        description: event.description,
+        event_date: event.event_date,
+        start_time: event.start_time,
+        end_time: event.end_time,
+        end_date: event.end_date || undefined,
+        timezone: event.timezone || undefined,
+        location: event.location,
+        participants: event.participants,
+        event_type: event.event_type,
+        // Omitted when empty so hashes of non-recurring events are unchanged
+        recurrence_rule: event.recurrence_rule || undefined,
+        recurrence_exceptions: event.recurrence_exceptions?.length ? event.recurrence_exceptions : undefined,
+      }
+      return this.simpleHash(JSON.stringify(data))
+    }
+
+    // For Google Calendar events
+    const data = {
+      summary: event.summary,
+      description: event.description,
+      start: event.start,
+      end: event.end,
+      location: event.location,
+      attendees: event.attendees,
+      recurrence: event.recurrence,
+    }
+    return this.simpleHash(JSON.stringify(data))
+  }
+
+  /**
+   * Normalized field values of a local event (or of a Google event run
+   * through googleEventToLocal) so both sides compare like for like
+   */
+  static toSnapshot(event: Partial<SyncEvent>): SyncSnapshot {
+    const time = (t?: string | null) => (t ? t.slice(0, 5) : null)
+    const lastDay = this.lastDay(event)
+
+    return {
+      title: (event.title || '').trim(),
+      description: event.description?.trim() || null,
+      event_date: event.event_date || '',
+      start_time: time(event.start_time),
+      end_time: time(event.end_time),
+      end_date: lastDay > (event.event_date || '') ? lastDay : null,
+      location: event.location?.trim() || null,
+      participants: [...(event.participants ?? [])].filter(Boolean).sort(),
+      recurrence_rule: event.recurrence_rule || null,
+      recurrence_exceptions: [...(event.recurrence_exceptions ?? [])].sort(),
+    }
+  }
+
+  /**
+   * Three-way merge of the local and Google versions against the snapshot
+   * taken at the last sync. A field edited on one side only takes that
+   * side's value; a field edited on both sides to different values is
+   * conflicting. Without a base every differing field is conflicting.
+   */
+  static mergeSnapshots(base: SyncSnapshot | null, local: SyncSnapshot, google: SyncSnapshot): SnapshotMerge {
+    const merged = { ...local }
+    const conflicting: SyncField[] = []
+
+    for (const field of Object.keys(SYNC_FIELDS) as SyncField[]) {
+      const localValue = this.fieldValue(local, field)
+      const googleValue = this.fieldValue(google, field)
+      if (localValue === googleValue) continue
+
+      if (base && localValue === this.fieldValue(base, field)) {
+        Object.assign(merged, this.pickField(google, field))
+      } else if (!base || googleValue !== this.fieldValue(base, field)) {
+        conflicting.push(field)
+      }
+    }
+
+    return { merged, conflicting }
+  }
+
+  /**
+   * Settle conflicting fields of a merge, taking each from the chosen side
+   */
+  static resolveFields(
+    merged: SyncSnapshot,
+    local: SyncSnapshot,
+    google: SyncSnapshot,
+    choices: Partial<Record<SyncField, 'local' | 'google'>>
+  ): SyncSnapshot {
+    const resolved = { ...merged }
+    for (const [field, side] of Object.entries(choices) as [SyncField, 'local' | 'google'][]) {
+      Object.assign(resolved, this.pickField(side === 'google' ? google : local, field))
+    }
+    return resolved
+  }
+
+  /**
+   * Side whose value wins a conflicting field under an auto-resolve policy
+   */
+  static policyWinner(policy: ConflictPolicy, localEvent: SyncEvent, googleEvent: GoogleEvent): 'local' | 'google' {
+    if (policy !== 'newest') return policy
+
+    const localTime = localEvent.updated_at ? new Date(localEvent.updated_at).getTime() : 0
+    const googleTime = googleEvent.updated ? new Date(googleEvent.updated).getTime() : 0
+    return googleTime > localTime ? 'google' : 'local'
+  }
+
+  /**
+   * Event columns to write for a snapshot
+   */
+  static snapshotToEvent(snapshot: SyncSnapshot): Partial<SyncEvent> {
+    return {
+      ...snapshot,
+      participants: snapshot.participants.length > 0 ? snapshot.participants : null,
+      recurrence_exceptions: snapshot.recurrence_exceptions.length > 0 ? snapshot.recurrence_exceptions : null,
+    }
+  }
+
+  /**
+   * Convert Google Calendar event to local event format. Dates and times are
+   * the wall clock in `timeZone`, which defaults to the event's own zone.
+   */
+  static googleEventToLocal(
+    googleEvent: GoogleEvent,
+    userId: string,
+    timeZone: string = this.googleTimeZone(googleEvent.start)
+  ): Partial<SyncEvent> & { source: 'calendar_sync' } {
+    // Extract date and time from Google Calendar event
+    let event_date = ''
+    let end_date: string | null = null
+    let start_time: string | null = null
+    let end_time: string | null = null
+
+    if (googleEvent.start?.date) {
+      // All-day event; Google's end date is exclusive
+      event_date = googleEvent.start.date
+      const lastDay = googleEvent.end?.date ? RecurrenceRule.addDays(googleEvent.end.date, -1) : event_date
+      if (lastDay > event_date) end_date = lastDay
+    } else if (googleEvent.start?.dateTime) {
+      const start = TimeZone.fromRfc3339(googleEvent.start.dateTime, timeZone)
+      event_date = start.date
+      start_time = start.time
+
+      // Google requires an end; one equal to the start means there isn't really one
+      const endDateTime = googleEvent.end?.dateTime
+      if (endDateTime && Date.parse(endDateTime) > Date.parse(googleEvent.start.dateTime)) {
+        const end = TimeZone.fromRfc3339(endDateTime, timeZone)
+        end_time = end.time
+        if (end.date > event_date) end_date = end.date
+      }
+    }
+
+    const recurrence = this.parseGoogleRecurrence(googleEvent.recurrence)
+
+    return {
+      user_id: userId,
+      title: googleEvent.summary || 'Untitled Event',
+      description: googleEvent.description || null,
+      event_date,
+      end_date,
+      start_time,
+      end_time,
+      timezone: timeZone,
+      location: googleEvent.location || null,
+      participants: googleEvent.attendees?.map(a => a.email || a.displayName || '') || null,
+      event_type: 'other',
+      source: 'calendar_sync',
+      recurrence_rule: recurrence.rule,
+      recurrence_exceptions: recurrence.exceptions,
+      // recurrence_parent_id is resolved by the caller from the series mapping
+      recurrence_original_date: googleEvent.originalStartTime
+        ? this.googleStartDate(googleEvent.originalStartTime, timeZone)
+        : null,
+    }
+  }
+
+  /**
+   * Date of a Google start/originalStartTime value on the wall clock of
+   * `timeZone` (by default the value's own zone)
+   */
+  static googleStartDate(start: GoogleDateTime, timeZone: string = this.googleTimeZone(start)): string {
+    if (start.date) return start.date
+    if (start.dateTime) return TimeZone.fromRfc3339(start.dateTime, timeZone).date
+    return ''
+  }
+
+  /**
+   * Zone a Google start value is written in, else `fallback`
+   */
+  static googleTimeZone(start?: GoogleDateTime, fallback: string = TimeZone.local()): string {
+    return TimeZone.isValid(start?.timeZone) ? start.timeZone : fallback
+  }
+
+  /**
+   * Zone of a local event's dates and times, else `fallback` (the owner's)
+   */
+  static eventTimeZone(event: Partial<SyncEvent>, fallback: string = TimeZone.local()): string {
+    return TimeZone.isValid(event.timezone) ? event.timezone : fallback
+  }
+
+  /**
+   * Last day of a local event. Without an end_date, an end time before the
+   * start time means the event runs past midnight.
+   */
+  static lastDay(event: Partial<SyncEvent>): string {
+    const date = event.event_date || ''
+    if (event.end_date) return event.end_date
+    if (event.start_time && event.end_time && event.end_time.slice(0, 5) < event.start_time.slice(0, 5)) {
+      return RecurrenceRule.addDays(date, 1)
+    }
+    return date
+  }
+
+  /**
+   * Split Google's `recurrence` lines into an RRULE body and EXDATE dates
+   */
+  static parseGoogleRecurrence(lines?: string[]): { rule: string | null; exceptions: string[] | null } {
+    if (!lines || lines.length === 0) {
+      return { rule: null, exceptions: null }
+    }
+
+    let rule: string | null = null
+    const exceptions: string[] = []
+
+    for (const line of lines) {
+      if (line.toUpperCase().startsWith('RRULE:')) {
+        const parsed = RecurrenceRule.parse(line)
+        rule = parsed ? RecurrenceRule.serialize(parsed) : null
+      } else if (line.toUpperCase().startsWith('EXDATE')) {
+        const values = line.substring(line.indexOf(':') + 1).split(',')
+        for (const value of values) {
+          const date = RecurrenceRule.fromBasicDate(value.trim())
+          if (date) exceptions.push(date)
+        }
+      }
+    }
+
+    return { rule, exceptions: exceptions.length > 0 ? exceptions : null }
+  }
+
+  /**
+   * Build Google's `recurrence` lines for a local series master
+   */
+  static toGoogleRecurrence(localEvent: SyncEvent, timeZone: string): string[] | undefined {
+    const parsed = RecurrenceRule.parse(localEvent.recurrence_rule)
+    if (!parsed) return undefined
+
+    let rrule = RecurrenceRule.serialize(parsed)
+    if (localEvent.start_time && parsed.until && !parsed.count) {
+      // Timed series need a UTC date-time UNTIL
+      rrule = rrule.replace(/UNTIL=\d{8}/, `UNTIL=${RecurrenceRule.toBasicDate(parsed.until)}T235959Z`)
+    }
+
+    const lines = [`RRULE:${rrule}`]
+    const exceptions = localEvent.recurrence_exceptions ?? []
+
+    if (exceptions.length > 0) {
+      if (localEvent.start_time) {
+        const time = localEvent.start_time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)
+        lines.push(`EXDATE;TZID=${timeZone}:${exceptions.map(d => `${RecurrenceRule.toBasicDate(d)}T${time}`).join(',')}`)
+      } else {
+        lines.push(`EXDATE;VALUE=DATE:${exceptions.map(d => RecurrenceRule.toBasicDate(d)).join(',')}`)
+      }
+    }
+
+    return lines
+  }
+
+  /**
+   * Google's id for a single instance of a recurring event
+   * (`<seriesId>_<originalStart>`), used to push local occurrence overrides
+   */
+  static googleInstanceId(
+    googleSeriesId: string,
+    master: SyncEvent,
+    originalDate: string,
+    defaultTimeZone: string = TimeZone.local()
+  ): string {
+    if (!master.start_time) {
+      return `${googleSeriesId}_${RecurrenceRule.toBasicDate(originalDate)}`
+    }
+
+    const originalStart = TimeZone.zonedToUtc(originalDate, master.start_time, this.eventTimeZone(master, defaultTimeZone))
+    const utc = new Date(originalStart).toISOString().replace(/[-:]/g, '').split('.')[0]
+    return `${googleSeriesId}_${utc}Z`
+  }
+
+  /**
+   * Convert local event to Google Calendar event format. Times go out as
+   * wall clock plus zone, so Google applies the zone's DST rules.
+   */
+  static localEventToGoogle(localEvent: SyncEvent, defaultTimeZone: string = TimeZone.local()): Partial<GoogleEvent> {
+    const googleEvent: Partial<GoogleEvent> = {
+      summary: localEvent.title,
+      description: localEvent.description || undefined,
+      location: localEvent.location || undefined,
+    }
+
+    const timeZone = this.eventTimeZone(localEvent, defaultTimeZone)
+    const lastDay = this.lastDay(localEvent)
+
+    // Set start and end times
+    if (localEvent.start_time) {
+      googleEvent.start = {
+        dateTime: `${localEvent.event_date}T${localEvent.start_time}`,
+        timeZone,
+      }
+
+      // Google requires an end; without one the event ends when it starts
+      googleEvent.end = {
+        dateTime: localEvent.end_time
+          ? `${lastDay}T${localEvent.end_time}`
+          : `${localEvent.event_date}T${localEvent.start_time}`,
+        timeZone,
+      }
+    } else {
+      // All-day event; Google's end date is exclusive
+      googleEvent.start = {
+        date: localEvent.event_date,
+      }
+      googleEvent.end = {
+        date: RecurrenceRule.addDays(lastDay, 1),
+      }
+    }
+
+    // Add attendees if any
+    if (localEvent.participants && localEvent.participants.length > 0) {
+      googleEvent.attendees = localEvent.participants.map(p => ({
+        email: p.includes('@') ? p : undefined,
+        displayName: !p.includes('@') ? p : undefined,
+      }))
+    }
+
+    if (localEvent.recurrence_rule) {
+      googleEvent.recurrence = this.toGoogleRecurrence(localEvent, timeZone)
+    }
+
+    return googleEvent
+  }
+
+  private static fieldValue(snapshot: SyncSnapshot, field: SyncField): string {
+    return JSON.stringify(SYNC_FIELDS[field].map(key => snapshot[key] ?? null))
+  }
+
+  private static pickField(snapshot: SyncSnapshot, field: SyncField): Partial<SyncSnapshot> {
+    return Object.fromEntries(SYNC_FIELDS[field].map(key => [key, snapshot[key]]))
+  }
+
+  /**
+   * Simple hash function for change detection
+   */
+  private static simpleHash(str: string): string {
+    let hash = 0
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i)
+      hash = ((hash << 5) - hash) + char
+      hash = hash & hash
+    }
+    return hash.toString(36)
+  }
+}
@@ -0,0 +1,567 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA'
+
+export interface ByDayEntry {
+  weekday: Weekday
+  // Only meaningful for MONTHLY/YEARLY rules: 2TU = second Tuesday, -1FR = last Friday
+  ordinal?: number
+}
+
+export interface ParsedRecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay?: ByDayEntry[]
+  byMonthDay?: number[]
+  byMonth?: number[]
+  count?: number
+  until?: string // YYYY-MM-DD, inclusive
+}
+
+/**
+ * The subset of RRULE that the "Repeats" pickers in the forms can edit.
+ */
+export interface RecurrenceOptions {
+  frequency: RecurrenceFrequency | ''
+  interval: number
+  weekdays: Weekday[]
+  monthlyBy: 'monthday' | 'weekday'
+  ends: 'never' | 'count' | 'until'
+  count: number
+  until: string
+}
+
+export const EMPTY_RECURRENCE_OPTIONS: RecurrenceOptions = {
+  frequency: '',
+  interval: 1,
+  weekdays: [],
+  monthlyBy: 'monthday',
+  ends: 'never',
+  count: 10,
+  until: ''
+}
+
+/**
+ * RFC 5545 RRULE support for date-based recurrences.
+ *
+ * All arithmetic is done on UTC midnights so that expanding a series never
+ * drifts across DST transitions; times of day are carried by the event itself.
+ */
+export class RecurrenceRule {
+  static readonly WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+  private static readonly WEEKDAY_LABELS: Record<Weekday, string> = {
+    SU: 'Sun',
+    MO: 'Mon',
+    TU: 'Tue',
+    WE: 'Wed',
+    TH: 'Thu',
+    FR: 'Fri',
+    SA: 'Sat',
+  }
+
+  private static readonly FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+  }
+
+  private static readonly MONTH_LABELS = [
+    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+  ]
+
+  // Hard stop for pathological rules (e.g. BYMONTHDAY=31;BYMONTH=2)
+  private static readonly MAX_PERIODS = 5000
+
+  static parse(rule: string | null | undefined): ParsedRecurrenceRule | null {
+    if (!rule) return null
+
+    const body = rule.trim().replace(/^RRULE:/i, '')
+    const parts: Record<string, string> = {}
+    for (const part of body.split(';')) {
+      const [key, value] = part.split('=')
+      if (key && value) parts[key.trim().toUpperCase()] = value.trim().toUpperCase()
+    }
+
+    const freq = parts.FREQ as RecurrenceFrequency
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+      return null
+    }
+
+    const parsed: ParsedRecurrenceRule = {
+      freq,
+      interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    }
+
+    if (parts.BYDAY) {
+      const byDay = parts.BYDAY.split(',')
+        .map(token => {
+          const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+          if (!match) return null
+          const entry: ByDayEntry = { weekday: match[2] as Weekday }
+          if (match[1]) entry.ordinal = parseInt(match[1], 10)
+          return entry
+        })
+        .filter((entry): entry is ByDayEntry => entry !== null)
+      if (byDay.length > 0) parsed.byDay = byDay
+    }
+
+    if (parts.BYMONTHDAY) {
+      const days = this.parseIntList(parts.BYMONTHDAY, -31, 31)
+      if (days.length > 0) parsed.byMonthDay = days
+    }
+
+    if (parts.BYMONTH) {
+      const months = this.parseIntList(parts.BYMONTH, 1, 12)
+      if (months.length > 0) parsed.byMonth = months
+    }
+
+    if (parts.COUNT) {
+      const count = parseInt(parts.COUNT, 10)
+      if (count > 0) parsed.count = count
+    }
+
+    if (parts.UNTIL) {
+      const until = this.fromBasicDate(parts.UNTIL)
+      if (until) parsed.until = until
+    }
+
+    return parsed
+  }
+
+  static serialize(rule: ParsedRecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`]
+
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+    if (rule.byDay && rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`)
+    }
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+    if (rule.byMonth && rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+    if (rule.count) {
+      parts.push(`COUNT=${rule.count}`)
+    } else if (rule.until) {
+      parts.push(`UNTIL=${this.toBasicDate(rule.until)}`)
+    }
+
+    return parts.join(';')
+  }
+
+  /**
+   * Expand a rule into occurrence dates (YYYY-MM-DD) that fall inside
+   * [rangeStart, rangeEnd]. COUNT is applied from the series start, before
+   * exceptions are removed, as RFC 5545 requires.
+   *
+   * Without COUNT, periods before the range are skipped arithmetically, so a
+   * daily series started years ago still expands for today's range.
+   */
+  static expand(
+    rule: string | ParsedRecurrenceRule,
+    seriesStart: string,
+    rangeStart: string,
+    rangeEnd: string,
+    exceptions: string[] = []
+  ): string[] {
+    const parsed = typeof rule === 'string' ? this.parse(rule) : rule
+    if (!parsed) return []
+
+    const start = this.toDate(seriesStart)
+    const from = this.toDate(rangeStart)
+    let to = this.toDate(rangeEnd)
+    if (parsed.until) {
+      const until = this.toDate(parsed.until)
+      if (until < to) to = until
+    }
+
+    const excluded = new Set(exceptions)
+    const occurrences: string[] = []
+    let emitted = 0
+
+    const first = this.firstPeriod(parsed, start, from)
+    for (let period = first; period < first + this.MAX_PERIODS; period++) {
+      const candidates = this.candidatesForPeriod(parsed, start, period)
+      if (candidates === null) break
+
+      for (const candidate of candidates) {
+        if (candidate < start) continue
+        if (candidate > to) return occurrences
+        if (parsed.count && emitted >= parsed.count) return occurrences
+
+        emitted++
+        const iso = this.toISO(candidate)
+        if (candidate >= from && !excluded.has(iso)) {
+          occurrences.push(iso)
+        }
+      }
+
+      if (parsed.count && emitted >= parsed.count) break
+    }
+
+    return occurrences
+  }
+
+  /**
+   * First occurrence strictly after `date`, or null when the series has ended.
+   */
+  static next(rule: string | ParsedRecurrenceRule, seriesStart: string, date: string): string | null {
+    const parsed = typeof rule === 'string' ? this.parse(rule) : rule
+    if (!parsed) return null
+
+    const start = this.toDate(seriesStart)
+    const after = this.toDate(date)
+    const until = parsed.until ? this.toDate(parsed.until) : null
+    let emitted = 0
+
+    const first = this.firstPeriod(parsed, start, after)
+    for (let period = first; period < first + this.MAX_PERIODS; period++) {
+      const candidates = this.candidatesForPeriod(parsed, start, period)
+      if (candidates === null) break
+
+      for (const candidate of candidates) {
+        if (candidate < start) continue
+        if (until && candidate > until) return null
+        if (parsed.count && emitted >= parsed.count) return null
+
+        emitted++
+        if (candidate > after) return this.toISO(candidate)
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Number of occurrences strictly before `date`, ignoring exceptions.
+   * Used when splitting a COUNT-bounded series in two.
+   */
+  static countBefore(rule: string | ParsedRecurrenceRule, seriesStart: string, date: string): number {
+    const dayBefore = this.addDays(date, -1)
+    if (dayBefore < seriesStart) return 0
+    return this.expand(rule, seriesStart, seriesStart, dayBefore).length
+  }
+
+  /**
+   * Return a copy of the rule that stops on `until` (inclusive), dropping COUNT.
+   */
+  static withUntil(rule: string, until: string): string {
+    const parsed = this.parse(rule)
+    if (!parsed) return rule
+    return this.serialize({ ...parsed, count: undefined, until })
+  }
+
+  /**
+   * Form picker state for a stored rule. Rules the picker can't represent
+   * (BYMONTHDAY lists, BYMONTH) keep their frequency and interval.
+   */
+  static toOptions(rule: string | null | undefined): RecurrenceOptions {
+    const parsed = this.parse(rule)
+    if (!parsed) return EMPTY_RECURRENCE_OPTIONS
+    return {
+      frequency: parsed.freq,
+      interval: parsed.interval,
+      weekdays: parsed.byDay?.filter(d => !d.ordinal).map(d => d.weekday) ?? [],
+      monthlyBy: parsed.byDay?.some(d => d.ordinal) ? 'weekday' : 'monthday',
+      ends: parsed.count ? 'count' : parsed.until ? 'until' : 'never',
+      count: parsed.count ?? 10,
+      until: parsed.until ?? ''
+    }
+  }
+
+  /**
+   * Serialize picker state, anchored on the series start date. Returns null
+   * for "Does not repeat".
+   */
+  static fromOptions(options: RecurrenceOptions, startDate: string): string | null {
+    if (!options.frequency || !startDate) return null
+
+    const rule: ParsedRecurrenceRule = {
+      freq: options.frequency,
+      interval: Math.max(1, options.interval || 1)
+    }
+
+    if (options.frequency === 'WEEKLY' && options.weekdays.length > 0) {
+      rule.byDay = options.weekdays.map(weekday => ({ weekday }))
+    }
+    if (options.frequency === 'MONTHLY' && options.monthlyBy === 'weekday') {
+      // e.g. the 2nd Tuesday of every month, based on the start date
+      const day = parseInt(startDate.split('-')[2], 10)
+      rule.byDay = [{ weekday: this.weekdayOf(startDate), ordinal: Math.ceil(day / 7) }]
+    }
+    if (options.ends === 'count') rule.count = Math.max(1, options.count || 1)
+    if (options.ends === 'until' && options.until) rule.until = options.until
+
+    return this.serialize(rule)
+  }
+
+  /**
+   * Parse everyday phrases like "every Tuesday", "daily", "every other week",
+   * "every weekday", "monthly on the 15th" or "every 3 days".
+   * Returns null when the text doesn't describe a recurrence.
+   */
+  static fromText(text: string | null | undefined): ParsedRecurrenceRule | null {
+    if (!text) return null
+    const lower = text.toLowerCase()
+
+    const weekdayNames: [RegExp, Weekday][] = [
+      [/\bsun(day)?s?\b/, 'SU'], [/\bmon(day)?s?\b/, 'MO'], [/\btue(s|sday)?s?\b/, 'TU'],
+      [/\bwed(nesday)?s?\b/, 'WE'], [/\bthu(rs|rsday)?s?\b/, 'TH'], [/\bfri(day)?s?\b/, 'FR'],
+      [/\bsat(urday)?s?\b/, 'SA']
+    ]
+    const weekdays = weekdayNames.filter(([pattern]) => pattern.test(lower)).map(([, day]) => day)
+
+    const intervalMatch = lower.match(/\bevery\s+(\d+|other|second)\s+(day|week|month|year)s?\b/)
+    const interval = intervalMatch
+      ? (/^\d+$/.test(intervalMatch[1]) ? Math.max(1, parseInt(intervalMatch[1], 10)) : 2)
+      : 1
+
+    let freq: RecurrenceFrequency | null = null
+    if (/\b(daily|every\s+(\d+\s+|other\s+)?days?|each\s+day|every\s+(morning|night|evening))\b/.test(lower)) freq = 'DAILY'
+    if (/\b(weekly|every\s+(\d+\s+|other\s+)?weeks?|each\s+week)\b/.test(lower)) freq = 'WEEKLY'
+    if (/\b(monthly|every\s+(\d+\s+|other\s+)?months?|each\s+month)\b/.test(lower)) freq = 'MONTHLY'
+    if (/\b(yearly|annually|every\s+(\d+\s+|other\s+)?years?|each\s+year)\b/.test(lower)) freq = 'YEARLY'
+
+    if (/\b(every|each)\s+weekdays?\b/.test(lower)) {
+      return { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'].map(weekday => ({ weekday: weekday as Weekday })) }
+    }
+    if (/\b(every|each)\s+weekends?\b/.test(lower)) {
+      return { freq: 'WEEKLY', interval: 1, byDay: [{ weekday: 'SA' }, { weekday: 'SU' }] }
+    }
+
+    if (weekdays.length > 0 && (freq === null || freq === 'WEEKLY') && /\b(every|each)\b|days\b/.test(lower)) {
+      return { freq: 'WEEKLY', interval, byDay: weekdays.map(weekday => ({ weekday })) }
+    }
+
+    if (!freq) return null
+
+    const rule: ParsedRecurrenceRule = { freq, interval }
+    if (freq === 'MONTHLY') {
+      const monthDay = lower.match(/\b(?:on\s+the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/)
+      if (monthDay) rule.byMonthDay = [parseInt(monthDay[1], 10)]
+    }
+    return rule
+  }
+
+  /**
+   * Human-readable summary, e.g. "Every 2 weeks on Tue, Thu, 10 times".
+   */
+  static describe(rule: string | ParsedRecurrenceRule | null | undefined): string {
+    const parsed = typeof rule === 'string' || !rule ? this.parse(rule as string | null) : rule
+    if (!parsed) return ''
+
+    const unit = this.FREQUENCY_UNITS[parsed.freq]
+    let text = parsed.interval > 1 ? `Every ${parsed.interval} ${unit}s` : `Every ${unit}`
+    if (parsed.freq === 'DAILY' && parsed.interval === 1) text = 'Daily'
+
+    if (parsed.byDay && parsed.byDay.length > 0) {
+      const days = parsed.byDay.map(d => {
+        const label = this.WEEKDAY_LABELS[d.weekday]
+        if (!d.ordinal) return label
+        return `${d.ordinal === -1 ? 'last' : this.ordinalLabel(d.ordinal)} ${label}`
+      })
+      text += ` on ${days.join(', ')}`
+    } else if (parsed.byMonthDay && parsed.byMonthDay.length > 0) {
+      text += ` on day ${parsed.byMonthDay.join(', ')}`
+    }
+
+    if (parsed.byMonth && parsed.byMonth.length > 0) {
+      text += ` in ${parsed.byMonth.map(m => this.MONTH_LABELS[m - 1]).join(', ')}`
+    }
+
+    if (parsed.count) {
+      text += `, ${parsed.count} time${parsed.count === 1 ? '' : 's'}`
+    } else if (parsed.until) {
+      text += `, until ${parsed.until}`
+    }
+
+    return text
+  }
+
+  static weekdayOf(date: string): Weekday {
+    return this.WEEKDAYS[this.toDate(date).getUTCDay()]
+  }
+
+  static addDays(date: string, days: number): string {
+    const d = this.toDate(date)
+    d.setUTCDate(d.getUTCDate() + days)
+    return this.toISO(d)
+  }
+
+  static daysBetween(from: string, to: string): number {
+    return Math.round((this.toDate(to).getTime() - this.toDate(from).getTime()) / 86400000)
+  }
+
+  static toBasicDate(date: string): string {
+    return date.replace(/-/g, '')
+  }
+
+  /**
+   * Accepts YYYYMMDD, YYYYMMDDTHHMMSS[Z] or YYYY-MM-DD and returns YYYY-MM-DD.
+   */
+  static fromBasicDate(value: string): string | null {
+    const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/)
+    if (!match) return null
+    return `${match[1]}-${match[2]}-${match[3]}`
+  }
+
+  /**
+   * The last period starting on or before `date`, counted from the series
+   * start. COUNT needs every earlier occurrence counted, so those rules
+   * always start from period 0.
+   */
+  private static firstPeriod(rule: ParsedRecurrenceRule, start: Date, date: Date): number {
+    if (rule.count || date <= start) return 0
+
+    let elapsed: number
+    switch (rule.freq) {
+      case 'DAILY':
+        elapsed = Math.floor((date.getTime() - start.getTime()) / 86400000)
+        break
+      case 'WEEKLY': {
+        const mondayOf = (d: Date) => d.getTime() - ((d.getUTCDay() + 6) % 7) * 86400000
+        elapsed = Math.floor((mondayOf(date) - mondayOf(start)) / (7 * 86400000))
+        break
+      }
+      case 'MONTHLY':
+        elapsed = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth()
+        break
+      case 'YEARLY':
+        elapsed = date.getUTCFullYear() - start.getUTCFullYear()
+        break
+      default:
+        return 0
+    }
+
+    return Math.max(0, Math.floor(elapsed / rule.interval))
+  }
+
+  private static candidatesForPeriod(
+    rule: ParsedRecurrenceRule,
+    start: Date,
+    period: number
+  ): Date[] | null {
+    const step = period * rule.interval
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = new Date(start)
+        day.setUTCDate(day.getUTCDate() + step)
+        return this.matchesFilters(rule, day) ? [day] : []
+      }
+
+      case 'WEEKLY': {
+        // Weeks start on Monday (RFC 5545 default WKST)
+        const weekStart = new Date(start)
+        weekStart.setUTCDate(weekStart.getUTCDate() - ((weekStart.getUTCDay() + 6) % 7) + step * 7)
+        const weekdays = rule.byDay?.map(d => d.weekday) ?? [this.WEEKDAYS[start.getUTCDay()]]
+        const days: Date[] = []
+        for (let offset = 0; offset < 7; offset++) {
+          const day = new Date(weekStart)
+          day.setUTCDate(day.getUTCDate() + offset)
+          if (weekdays.includes(this.WEEKDAYS[day.getUTCDay()]) && this.matchesMonth(rule, day)) {
+            days.push(day)
+          }
+        }
+        return days
+      }
+
+      case 'MONTHLY': {
+        const year = start.getUTCFullYear()
+        const month = start.getUTCMonth() + step
+        const monthStart = new Date(Date.UTC(year, month, 1))
+        if (!this.matchesMonth(rule, monthStart)) return []
+        return this.daysInMonth(rule, monthStart, start.getUTCDate())
+      }
+
+      case 'YEARLY': {
+        const year = start.getUTCFullYear() + step
+        const months = rule.byMonth ?? [start.getUTCMonth() + 1]
+        const days: Date[] = []
+        for (const month of [...months].sort((a, b) => a - b)) {
+          days.push(...this.daysInMonth(rule, new Date(Date.UTC(year, month - 1, 1)), start.getUTCDate()))
+        }
+        return days
+      }
+
+      default:
+        return null
+    }
+  }
+
+  private static daysInMonth(rule: ParsedRecurrenceRule, monthStart: Date, defaultDay: number): Date[] {
+    const year = monthStart.getUTCFullYear()
+    const month = monthStart.getUTCMonth()
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    const days = new Set<number>()
+
+    if (rule.byDay && rule.byDay.length > 0) {
+      for (const entry of rule.byDay) {
+        const weekdayIndex = this.WEEKDAYS.indexOf(entry.weekday)
+        const matching: number[] = []
+        for (let d = 1; d <= lastDay; d++) {
+          if (new Date(Date.UTC(year, month, d)).getUTCDay() === weekdayIndex) matching.push(d)
+        }
+        if (entry.ordinal) {
+          const picked = entry.ordinal > 0
+            ? matching[entry.ordinal - 1]
+            : matching[matching.length + entry.ordinal]
+          if (picked) days.add(picked)
+        } else {
+          matching.forEach(d => days.add(d))
+        }
+      }
+    } else if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+      for (const value of rule.byMonthDay) {
+        const day = value > 0 ? value : lastDay + value + 1
+        if (day >= 1 && day <= lastDay) days.add(day)
+      }
+    } else if (defaultDay <= lastDay) {
+      // Months without the start day (e.g. the 31st) are skipped, per RFC 5545
+      days.add(defaultDay)
+    }
+
+    return [...days]
+      .sort((a, b) => a - b)
+      .map(d => new Date(Date.UTC(year, month, d)))
+  }
+
+  private static matchesFilters(rule: ParsedRecurrenceRule, day: Date): boolean {
+    if (rule.byDay && !rule.byDay.some(d => d.weekday === this.WEEKDAYS[day.getUTCDay()])) {
+      return false
+    }
+    if (rule.byMonthDay && !rule.byMonthDay.includes(day.getUTCDate())) {
+      return false
+    }
+    return this.matchesMonth(rule, day)
+  }
+
+  private static matchesMonth(rule: ParsedRecurrenceRule, day: Date): boolean {
+    return !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1)
+  }
+
+  private static parseIntList(value: string, min: number, max: number): number[] {
+    return value.split(',')
+      .map(v => parseInt(v, 10))
+      .filter(v => !isNaN(v) && v !== 0 && v >= min && v <= max)
+  }
+
+  private static ordinalLabel(n: number): string {
+    if (n < 0) return `${Math.abs(n)}${this.ordinalSuffix(Math.abs(n))} from last`
+    return `${n}${this.ordinalSuffix(n)}`
+  }
+
+  private static ordinalSuffix(n: number): string {
+    if (n % 100 >= 11 && n % 100 <= 13) return 'th'
+    return ['th', 'st', 'nd', 'rd'][n % 10] || 'th'
+  }
+
+  private static toDate(date: string): Date {
+    const [y, m, d] = date.split('-').map(Number)
+    return new Date(Date.UTC(y, m - 1, d))
+  }
+
+  private static toISO(date: Date): string {
+    return date.toISOString().split('T')[0]
+  }
+}
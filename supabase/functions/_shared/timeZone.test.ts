@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { TimeZone } from './timeZone.ts'
+
+const utc = (date: string, time: string, timeZone: string) =>
+  new Date(TimeZone.zonedToUtc(date, time, timeZone)).toISOString()
+
+describe('TimeZone.zonedToUtc', () => {
+  it.each([
+    // Ordinary times, either side of UTC
+    ['2025-07-01', '12:00', 'America/New_York', '2025-07-01T16:00:00.000Z'],
+    ['2025-01-15', '23:59', 'Asia/Kolkata', '2025-01-15T18:29:00.000Z'],
+    // Skipped by spring-forward: the offset from before the jump
+    ['2025-03-09', '02:30', 'America/New_York', '2025-03-09T07:30:00.000Z'],
+    ['2025-10-05', '02:30', 'Australia/Sydney', '2025-10-04T16:30:00.000Z'],
+    ['2025-03-30', '01:30', 'Europe/London', '2025-03-30T01:30:00.000Z'],
+    // Repeated by fall-back: the first occurrence
+    ['2025-11-02', '01:30', 'America/New_York', '2025-11-02T05:30:00.000Z'],
+    ['2025-04-06', '02:30', 'Australia/Sydney', '2025-04-05T15:30:00.000Z'],
+    ['2025-10-26', '01:30', 'Europe/London', '2025-10-26T00:30:00.000Z'],
+  ])('%s %s in %s is %s', (date, time, timeZone, expected) => {
+    expect(utc(date, time, timeZone)).toBe(expected)
+  })
+
+  it('round-trips through utcToZoned outside transitions', () => {
+    const instant = TimeZone.zonedToUtc('2025-12-24', '18:45:30', 'Australia/Sydney')
+    expect(TimeZone.utcToZoned(instant, 'Australia/Sydney')).toEqual({ date: '2025-12-24', time: '18:45:30' })
+  })
+})
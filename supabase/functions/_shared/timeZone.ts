@@ -0,0 +1,86 @@
+/**
+ * A wall-clock date and time in some timezone.
+ */
+export interface ZonedDateTime {
+  date: string // YYYY-MM-DD
+  time: string // HH:MM:SS
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * IANA timezone conversions built on Intl, so they follow each zone's DST
+ * rules without a timezone database of our own.
+ */
+export class TimeZone {
+  static local(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  }
+
+  static isValid(timeZone: string | null | undefined): timeZone is string {
+    if (!timeZone) return false
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * The instant (epoch ms) at which the zone's clock shows date and time.
+   * Times skipped by a spring-forward jump use the offset from before it;
+   * times repeated by a fall-back resolve to their first occurrence.
+   */
+  static zonedToUtc(date: string, time: string, timeZone: string): number {
+    const [y, m, d] = date.split('-').map(Number)
+    const [hh, mm, ss = 0] = time.split(':').map(Number)
+    const guess = Date.UTC(y, m - 1, d, hh, mm, ss)
+
+    // Offsets a day either side are the ones in force before and after any
+    // transition near this wall clock time
+    const offsetBefore = this.offset(guess - DAY_MS, timeZone)
+    const offsetAfter = this.offset(guess + DAY_MS, timeZone)
+    const candidates = [guess - offsetBefore, guess - offsetAfter]
+      .filter(instant => guess - this.offset(instant, timeZone) === instant)
+
+    // Both fit in a repeated hour, neither in a skipped one
+    return candidates.length > 0 ? Math.min(...candidates) : guess - offsetBefore
+  }
+
+  static utcToZoned(instant: number, timeZone: string): ZonedDateTime {
+    const iso = new Date(instant + this.offset(instant, timeZone)).toISOString()
+    return { date: iso.slice(0, 10), time: iso.slice(11, 19) }
+  }
+
+  /**
+   * Wall clock in `timeZone` of an RFC 3339 date-time such as Google's
+   * "2025-03-09T01:30:00-08:00"
+   */
+  static fromRfc3339(dateTime: string, timeZone: string): ZonedDateTime {
+    return this.utcToZoned(Date.parse(dateTime), timeZone)
+  }
+
+  // Milliseconds the zone's wall clock is ahead of UTC at `instant`
+  static offset(instant: number, timeZone: string): number {
+    const parts: Record<string, string> = {}
+    const format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    for (const part of format.formatToParts(new Date(instant))) {
+      parts[part.type] = part.value
+    }
+    const wallClock = Date.UTC(
+      Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+      Number(parts.hour), Number(parts.minute), Number(parts.second)
+    )
+    return wallClock - Math.floor(instant / 1000) * 1000
+  }
+}
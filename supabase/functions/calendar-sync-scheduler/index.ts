@@ -0,0 +1,273 @@
+/*
+  # Calendar Sync Scheduler
+
+  1. Purpose
+    - Meant to be called on a cron (every few minutes)
+    - Finds users whose calendar sync is due (`next_sync_at` has passed,
+      including any failure backoff) and that nobody is syncing right now
+    - Clears leases left behind by runs that died mid-sync
+    - Takes each due user's sync lease and runs the Google <-> local sync
+      server-side (see sync.ts), so scheduled syncs happen with no tab open;
+      releasing the lease schedules the next run, backed off after failures
+    - Then broadcasts `sync_due` on the user's `calendar-sync:<user id>`
+      Realtime channel as a nudge: open tabs re-check, refreshing their
+      status, or run the sync themselves if it couldn't run here
+
+  2. Security
+    - Requires `Authorization: Bearer <CALENDAR_SYNC_CRON_SECRET>`
+    - Uses the service role key to read every user's sync preferences and
+      Google tokens
+    - Broadcasts carry no calendar data
+
+  3. Scheduling
+    - Deploy with --no-verify-jwt; the cron secret replaces the JWT check
+    - Schedule a POST every 5 minutes with pg_cron + pg_net (cron.schedule
+      running net.http_post against /functions/v1/calendar-sync-scheduler,
+      with the Authorization header above)
+    - Needs GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET to refresh tokens;
+      without them due users are only nudged
+    - Users without a timezone on their profile are only nudged, since the
+      server has no clock of their own to read events in
+
+  4. Response Format
+    - { due, synced, failed, notified, leasesCleared }
+*/
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.55.0';
+import { TimeZone } from '../_shared/timeZone.ts';
+import { GoogleClient, syncUser, type SyncPreferences } from './sync.ts';
+
+// Users handled per invocation; the rest are picked up on the next tick
+const BATCH_SIZE = 25;
+
+// Stop starting new syncs after this long, well inside the function's time limit
+const TIME_BUDGET_MS = 100 * 1000;
+
+// Longer than any reasonable run; it only matters when a run dies mid-sync
+const LEASE_MS = 10 * 60 * 1000;
+
+// As in SyncScheduler: first retry after a failed run, doubling with each
+// further failure, and runs spread by ±20%
+const RETRY_BASE_MINUTES = 2;
+const RETRY_MAX_MINUTES = 240;
+const JITTER = 0.2;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+function jsonResponse(data: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders,
+    },
+  });
+}
+
+function delayMinutes(frequencyMinutes: number, consecutiveFailures: number): number {
+  const minutes = consecutiveFailures === 0
+    ? frequencyMinutes
+    : Math.min(
+        RETRY_BASE_MINUTES * 2 ** (consecutiveFailures - 1),
+        Math.max(frequencyMinutes, RETRY_MAX_MINUTES)
+      );
+
+  return minutes * (1 - JITTER + Math.random() * 2 * JITTER);
+}
+
+async function claimLease(db: SupabaseClient, userId: string, token: string): Promise<boolean> {
+  const now = Date.now();
+  const { data, error } = await db
+    .from('user_sync_preferences')
+    .update({
+      sync_lock_token: token,
+      sync_lock_expires_at: new Date(now + LEASE_MS).toISOString(),
+    })
+    .eq('user_id', userId)
+    .or(`sync_lock_expires_at.is.null,sync_lock_expires_at.lt."${new Date(now).toISOString()}"`)
+    .select('user_id');
+
+  if (error) {
+    console.error(`❌ Failed to claim sync lease for user ${userId}:`, error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+async function releaseLease(db: SupabaseClient, userId: string, token: string, frequencyMinutes: number): Promise<void> {
+  // Failed runs since the last completed one
+  const { data: logs } = await db
+    .from('calendar_sync_logs')
+    .select('status')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .limit(10);
+
+  let failures = 0;
+  for (const log of logs || []) {
+    if (log.status === 'completed') break;
+    if (log.status === 'failed') failures++;
+  }
+
+  const { error } = await db
+    .from('user_sync_preferences')
+    .update({
+      next_sync_at: new Date(Date.now() + delayMinutes(frequencyMinutes, failures) * 60000).toISOString(),
+      sync_lock_token: null,
+      sync_lock_expires_at: null,
+    })
+    .eq('user_id', userId)
+    .eq('sync_lock_token', token);
+
+  if (error) {
+    console.error(`❌ Failed to release sync lease for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Run one user's sync under their lease. Returns null when it didn't run
+ * here: no profile timezone, or someone else took the lease first.
+ */
+async function runUserSync(
+  db: SupabaseClient,
+  prefs: SyncPreferences,
+  googleClientId: string,
+  googleClientSecret: string
+): Promise<boolean | null> {
+  const userId = prefs.user_id;
+
+  const { data: profile } = await db
+    .from('profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!TimeZone.isValid(profile?.timezone)) return null;
+
+  const token = crypto.randomUUID();
+  if (!(await claimLease(db, userId, token))) return null;
+
+  try {
+    const google = new GoogleClient(db, userId, googleClientId, googleClientSecret);
+    const result = await syncUser(db, google, prefs, profile.timezone);
+    if (!result.success) {
+      console.error(`❌ Calendar sync failed for user ${userId}:`, result.errors);
+    }
+    return result.success;
+  } finally {
+    await releaseLease(db, userId, token, prefs.sync_frequency_minutes);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const cronSecret = Deno.env.get('CALENDAR_SYNC_CRON_SECRET');
+    const googleClientId = Deno.env.get('GOOGLE_CLIENT_ID');
+    const googleClientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
+
+    if (!supabaseUrl || !serviceRoleKey || !cronSecret) {
+      console.error('❌ Missing SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY or CALENDAR_SYNC_CRON_SECRET');
+      return jsonResponse({ error: "Server configuration error" }, 500);
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceSupabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    });
+
+    const startedAt = Date.now();
+    const now = new Date(startedAt).toISOString();
+
+    // Leases past their expiry belong to runs that died
+    const { data: cleared, error: clearError } = await serviceSupabase
+      .from('user_sync_preferences')
+      .update({ sync_lock_token: null, sync_lock_expires_at: null })
+      .lt('sync_lock_expires_at', now)
+      .select('user_id');
+
+    if (clearError) {
+      console.error('❌ Failed to clear expired sync leases:', clearError);
+    }
+
+    const { data: due, error: dueError } = await serviceSupabase
+      .from('user_sync_preferences')
+      .select('*')
+      .eq('sync_enabled', true)
+      .is('sync_lock_token', null)
+      .or(`next_sync_at.is.null,next_sync_at.lte."${now}"`)
+      .order('next_sync_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error('❌ Failed to load due users:', dueError);
+      return jsonResponse({ error: "Failed to load due users" }, 500);
+    }
+
+    if (!googleClientId || !googleClientSecret) {
+      console.error('❌ Missing GOOGLE_CLIENT_ID or GOOGLE_CLIENT_SECRET, due users are only nudged');
+    }
+
+    let synced = 0;
+    let failed = 0;
+    let notified = 0;
+    for (const prefs of (due || []) as SyncPreferences[]) {
+      const userId = prefs.user_id;
+
+      if (googleClientId && googleClientSecret && Date.now() - startedAt < TIME_BUDGET_MS) {
+        try {
+          const success = await runUserSync(serviceSupabase, prefs, googleClientId, googleClientSecret);
+          if (success === true) synced++;
+          if (success === false) failed++;
+        } catch (error) {
+          failed++;
+          console.error(`❌ Calendar sync failed for user ${userId}:`, error);
+        }
+      }
+
+      // Not subscribing first makes send() go over HTTP, which suits a one-off message
+      const channel = serviceSupabase.channel(`calendar-sync:${userId}`);
+      const status = await channel.send({ type: 'broadcast', event: 'sync_due', payload: {} });
+      await serviceSupabase.removeChannel(channel);
+
+      if (status === 'ok') {
+        notified++;
+      } else {
+        console.error(`❌ Failed to notify user ${userId}: ${status}`);
+      }
+    }
+
+    console.log(`⏰ Calendar sync due for ${due?.length || 0} user(s): ${synced} synced, ${failed} failed, ${notified} notified`);
+
+    return jsonResponse({
+      due: due?.length || 0,
+      synced,
+      failed,
+      notified,
+      leasesCleared: cleared?.length || 0,
+    });
+  } catch (error) {
+    console.error('❌ Calendar sync scheduler error:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,970 @@
+/*
+  Server-side calendar sync for one user, so scheduled runs happen without
+  an open tab. This is the app's sync (SyncOrchestrator.performSync in
+  src/services) for the service role: Google is called directly with the
+  user's stored tokens instead of through the google-calendar function.
+  Hashing, merging and mapping come from _shared/calendarSync.ts, the same
+  code the app uses, so either side can pick up where the other left off.
+*/
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.55.0';
+import {
+  CalendarSync,
+  type ConflictPolicy,
+  type GoogleEvent,
+  type SyncEvent,
+  type SyncSnapshot,
+} from '../_shared/calendarSync.ts';
+import { TimeZone } from '../_shared/timeZone.ts';
+
+// The user's main Google calendar; the default to import and write to
+const PRIMARY_CALENDAR = 'primary';
+
+// Safety net against a listing that never stops handing out page tokens
+const MAX_SYNC_PAGES = 100;
+
+interface LocalEvent extends SyncEvent {
+  id: string;
+  user_id: string;
+}
+
+interface SyncMapping {
+  id?: string;
+  user_id: string;
+  local_event_id: string | null;
+  google_event_id: string;
+  google_calendar_id: string;
+  sync_status: 'synced' | 'pending' | 'error';
+  local_hash: string | null;
+  google_hash: string | null;
+  synced_snapshot: SyncSnapshot | null;
+  last_synced_at: string;
+}
+
+export interface SyncPreferences {
+  user_id: string;
+  sync_enabled: boolean;
+  sync_frequency_minutes: number;
+  sync_direction: 'bidirectional' | 'google_to_local' | 'local_to_google';
+  auto_resolve_conflicts: boolean;
+  conflict_policy: ConflictPolicy | null;
+  last_successful_sync_at: string | null;
+  last_full_sync_at: string | null;
+  sync_calendar_ids: string[] | null;
+  write_calendar_id: string | null;
+  sync_tokens: Record<string, string> | null;
+}
+
+export interface SyncResult {
+  success: boolean;
+  eventsProcessed: number;
+  eventsCreated: number;
+  eventsUpdated: number;
+  eventsDeleted: number;
+  conflictsDetected: number;
+  errors: string[];
+}
+
+interface CalendarListing {
+  calendarId: string;
+  color: string | null;
+  timeZone: string;
+  events: GoogleEvent[];
+  nextSyncToken: string | null;
+  fullSync: boolean;
+}
+
+interface PassResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export class GoogleApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GoogleApiError';
+  }
+}
+
+/**
+ * Google Calendar API client for one user, refreshing the stored access
+ * token when it has expired
+ */
+export class GoogleClient {
+  private accessToken: string | null = null;
+
+  constructor(
+    private db: SupabaseClient,
+    private userId: string,
+    private clientId: string,
+    private clientSecret: string
+  ) {}
+
+  async isConnected(): Promise<boolean> {
+    const { data } = await this.db
+      .from('google_tokens')
+      .select('access_token')
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    return !!data?.access_token;
+  }
+
+  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`https://www.googleapis.com/calendar/v3${endpoint}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${await this.token()}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new GoogleApiError(`Google Calendar API error: ${response.status} ${response.statusText} - ${errorText}`, response.status);
+    }
+
+    // DELETE answers 204 with an empty body
+    return (response.status === 204 ? null : await response.json()) as T;
+  }
+
+  private async token(): Promise<string> {
+    if (this.accessToken) return this.accessToken;
+
+    const { data: tokens, error } = await this.db
+      .from('google_tokens')
+      .select('*')
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Database error: ${error.message}`);
+    if (!tokens) throw new Error('Google Calendar not connected');
+
+    if (new Date() < new Date(tokens.expiry_ts)) {
+      this.accessToken = tokens.access_token as string;
+      return this.accessToken;
+    }
+
+    if (!tokens.refresh_token) {
+      throw new Error('Google Calendar connection expired');
+    }
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        refresh_token: tokens.refresh_token,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token refresh failed: ${response.status} ${response.statusText}`);
+    }
+
+    const refreshed = await response.json();
+    await this.db
+      .from('google_tokens')
+      .update({
+        access_token: refreshed.access_token,
+        expiry_ts: new Date(Date.now() + refreshed.expires_in * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', this.userId);
+
+    this.accessToken = refreshed.access_token as string;
+    return this.accessToken;
+  }
+}
+
+// Event ids are only unique within a calendar
+function listingKey(calendarId: string, eventId: string): string {
+  return `${calendarId}/${eventId}`;
+}
+
+function calendarPath(calendarId: string): string {
+  return `/calendars/${encodeURIComponent(calendarId)}`;
+}
+
+/**
+ * Bidirectional sync of every selected Google calendar, as the app's
+ * SyncOrchestrator.performSync does it. `timeZone` is the user's home zone
+ * from their profile.
+ */
+export async function syncUser(
+  db: SupabaseClient,
+  google: GoogleClient,
+  prefs: SyncPreferences,
+  timeZone: string
+): Promise<SyncResult> {
+  const userId = prefs.user_id;
+  const startTime = Date.now();
+  const startedAt = new Date(startTime).toISOString();
+  let logId: string | null = null;
+
+  const result: SyncResult = {
+    success: false,
+    eventsProcessed: 0,
+    eventsCreated: 0,
+    eventsUpdated: 0,
+    eventsDeleted: 0,
+    conflictsDetected: 0,
+    errors: [],
+  };
+
+  try {
+    if (!(await google.isConnected())) {
+      result.errors.push('Google Calendar not connected');
+      return result;
+    }
+
+    const selected = prefs.sync_calendar_ids?.length ? prefs.sync_calendar_ids : [PRIMARY_CALENDAR];
+    const writeCalendarId = prefs.write_calendar_id || PRIMARY_CALENDAR;
+    const calendarIds = [...new Set([...selected, writeCalendarId])];
+    const tokenFor = (calendarId: string) => prefs.sync_tokens?.[calendarId] ?? null;
+
+    const { data: log, error: logError } = await db
+      .from('calendar_sync_logs')
+      .insert([{
+        user_id: userId,
+        sync_operation: calendarIds.every(tokenFor) ? 'incremental_sync' : 'full_sync',
+        sync_direction: prefs.sync_direction,
+        status: 'in_progress',
+        events_processed: 0,
+        events_created: 0,
+        events_updated: 0,
+        events_deleted: 0,
+        conflicts_detected: 0,
+        error_count: 0,
+        started_at: startedAt,
+      }])
+      .select('id')
+      .single();
+
+    if (logError || !log) {
+      result.errors.push('Failed to create sync log');
+      return result;
+    }
+    logId = log.id as string;
+
+    // Masters first so their modified or cancelled instances find the series mapping
+    const calendars = await calendarEntries(google);
+    const listings: CalendarListing[] = [];
+    for (const calendarId of calendarIds) {
+      const googleSync = await syncEvents(google, calendarId, tokenFor(calendarId));
+      const calendarTimeZone = calendars.get(calendarId)?.timeZone;
+      listings.push({
+        calendarId,
+        color: calendars.get(calendarId)?.backgroundColor ?? null,
+        timeZone: TimeZone.isValid(calendarTimeZone) ? calendarTimeZone : timeZone,
+        events: googleSync.events.sort((a, b) => Number(!!a.recurringEventId) - Number(!!b.recurringEventId)),
+        nextSyncToken: googleSync.nextSyncToken,
+        fullSync: googleSync.fullSync,
+      });
+    }
+    const googleEventCount = listings.reduce((count, listing) => count + listing.events.length, 0);
+    const incremental = listings.every(listing => !listing.fullSync);
+
+    // Subscribed feed events are read-only copies and never pushed
+    let localQuery = db
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .is('feed_id', null);
+
+    if (incremental && prefs.last_successful_sync_at) {
+      localQuery = localQuery.gt('updated_at', prefs.last_successful_sync_at);
+    }
+
+    const { data: localRows, error: localError } = await localQuery;
+    if (localError) {
+      result.errors.push(`Failed to fetch local events: ${localError.message}`);
+      return result;
+    }
+    const localEvents = (localRows || []) as LocalEvent[];
+
+    const { data: mappingRows } = await db
+      .from('calendar_sync_mappings')
+      .select('*')
+      .eq('user_id', userId);
+    const mappings = (mappingRows || []) as SyncMapping[];
+    const mappingsByLocalId = new Map(
+      mappings.filter(m => m.local_event_id).map(m => [m.local_event_id!, m])
+    );
+
+    if (prefs.sync_direction === 'bidirectional' || prefs.sync_direction === 'google_to_local') {
+      for (const listing of listings) {
+        const mappingsByGoogleId = new Map(
+          mappings
+            .filter(m => (m.google_calendar_id || PRIMARY_CALENDAR) === listing.calendarId)
+            .map(m => [m.google_event_id, m])
+        );
+
+        const googleResult = await syncGoogleToLocal(
+          db,
+          google,
+          userId,
+          listing,
+          mappingsByGoogleId,
+          timeZone,
+          prefs.auto_resolve_conflicts ? prefs.conflict_policy ?? 'newest' : null
+        );
+        result.eventsCreated += googleResult.created;
+        result.eventsUpdated += googleResult.updated;
+        result.eventsDeleted += googleResult.deleted;
+        result.conflictsDetected += googleResult.conflicts;
+        result.errors.push(...googleResult.errors);
+      }
+    }
+
+    // Only move the tokens forward once every Google change has been applied
+    const googleChangesApplied = prefs.sync_direction !== 'local_to_google' && !result.errors.length;
+
+    if (prefs.sync_direction === 'bidirectional' || prefs.sync_direction === 'local_to_google') {
+      const googleEventsByKey = new Map(
+        listings.flatMap(listing => listing.events.map(e => [listingKey(listing.calendarId, e.id!), e] as const))
+      );
+      const fullyListed = new Set(listings.filter(l => l.fullSync).map(l => l.calendarId));
+
+      const localResult = await syncLocalToGoogle(
+        db,
+        google,
+        userId,
+        localEvents,
+        googleEventsByKey,
+        mappingsByLocalId,
+        fullyListed,
+        writeCalendarId,
+        timeZone
+      );
+      result.eventsCreated += localResult.created;
+      result.eventsUpdated += localResult.updated;
+      result.conflictsDetected += localResult.conflicts;
+      result.errors.push(...localResult.errors);
+
+      const deletionResult = await syncLocalDeletions(
+        db,
+        google,
+        userId,
+        mappings.filter(m => !m.local_event_id),
+        googleEventsByKey,
+        fullyListed
+      );
+      result.eventsDeleted += deletionResult.deleted;
+      result.conflictsDetected += deletionResult.conflicts;
+      result.errors.push(...deletionResult.errors);
+    }
+
+    result.eventsProcessed = localEvents.length + googleEventCount;
+    result.success = result.errors.length === 0;
+
+    const syncTokens = { ...(prefs.sync_tokens ?? {}) };
+    for (const listing of listings) {
+      if (googleChangesApplied && listing.nextSyncToken) {
+        syncTokens[listing.calendarId] = listing.nextSyncToken;
+      }
+    }
+
+    await db
+      .from('user_sync_preferences')
+      .update({
+        last_sync_at: new Date().toISOString(),
+        last_successful_sync_at: result.success ? startedAt : prefs.last_successful_sync_at,
+        sync_tokens: syncTokens,
+        last_full_sync_at: googleChangesApplied && listings.every(l => l.fullSync)
+          ? new Date().toISOString()
+          : prefs.last_full_sync_at,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    await db
+      .from('calendar_sync_logs')
+      .update({
+        status: result.success ? 'completed' : 'failed',
+        events_processed: result.eventsProcessed,
+        events_created: result.eventsCreated,
+        events_updated: result.eventsUpdated,
+        events_deleted: result.eventsDeleted,
+        conflicts_detected: result.conflictsDetected,
+        error_count: result.errors.length,
+        error_details: result.errors.length > 0 ? { errors: result.errors } : null,
+        completed_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime,
+      })
+      .eq('id', logId);
+
+    return result;
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+
+    if (logId) {
+      await db
+        .from('calendar_sync_logs')
+        .update({
+          status: 'failed',
+          error_count: result.errors.length,
+          error_details: { errors: result.errors },
+          completed_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+        })
+        .eq('id', logId);
+    }
+
+    return result;
+  }
+}
+
+async function calendarEntries(
+  google: GoogleClient
+): Promise<Map<string, { timeZone?: string; backgroundColor?: string }>> {
+  try {
+    const data = await google.request<{ items?: Array<{ id: string; primary?: boolean; timeZone?: string; backgroundColor?: string }> }>(
+      '/users/me/calendarList?minAccessRole=reader&maxResults=250'
+    );
+    return new Map((data.items || []).map(calendar => [calendar.primary ? PRIMARY_CALENDAR : calendar.id, calendar]));
+  } catch {
+    // Colors are cosmetic and zones fall back to the user's; sync carries on without them
+    return new Map();
+  }
+}
+
+/**
+ * Changed events since `syncToken`, or all of them; an expired token falls
+ * back to a full download
+ */
+async function syncEvents(
+  google: GoogleClient,
+  calendarId: string,
+  syncToken: string | null
+): Promise<{ events: GoogleEvent[]; nextSyncToken: string | null; fullSync: boolean }> {
+  try {
+    return await listAllPages(google, calendarId, syncToken);
+  } catch (error) {
+    if (error instanceof GoogleApiError && error.status === 410 && syncToken) {
+      console.log(`♻️ Sync token expired for calendar ${calendarId}, full resync required`);
+      return await listAllPages(google, calendarId, null);
+    }
+    throw error;
+  }
+}
+
+async function listAllPages(
+  google: GoogleClient,
+  calendarId: string,
+  syncToken: string | null
+): Promise<{ events: GoogleEvent[]; nextSyncToken: string | null; fullSync: boolean }> {
+  const events: GoogleEvent[] = [];
+  let pageToken: string | null = null;
+
+  for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+    let endpoint = `${calendarPath(calendarId)}/events?singleEvents=false&showDeleted=true&maxResults=250`;
+    if (syncToken) endpoint += `&syncToken=${encodeURIComponent(syncToken)}`;
+    if (pageToken) endpoint += `&pageToken=${encodeURIComponent(pageToken)}`;
+
+    const data = await google.request<{ items?: GoogleEvent[]; nextPageToken?: string; nextSyncToken?: string }>(endpoint);
+    events.push(...(data.items || []));
+
+    if (!data.nextPageToken) {
+      return { events, nextSyncToken: data.nextSyncToken ?? null, fullSync: !syncToken };
+    }
+    pageToken = data.nextPageToken;
+  }
+
+  throw new Error(`Google Calendar returned more than ${MAX_SYNC_PAGES} pages of events`);
+}
+
+async function syncGoogleToLocal(
+  db: SupabaseClient,
+  google: GoogleClient,
+  userId: string,
+  listing: CalendarListing,
+  mappingsByGoogleId: Map<string, SyncMapping>,
+  timeZone: string,
+  conflictPolicy: ConflictPolicy | null
+): Promise<PassResult> {
+  const result: PassResult = { created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] };
+  const { calendarId, events: googleEvents } = listing;
+
+  for (const googleEvent of googleEvents) {
+    if (!googleEvent.id) continue;
+
+    try {
+      const mapping = mappingsByGoogleId.get(googleEvent.id);
+
+      if (googleEvent.status === 'cancelled') {
+        if (googleEvent.recurringEventId) {
+          if (await applyCancelledInstance(db, googleEvent, mapping, mappingsByGoogleId, listing.timeZone)) {
+            result.deleted++;
+          }
+        } else if (mapping?.local_event_id) {
+          await applyGoogleDeletion(db, userId, mapping, googleEvent, result);
+        }
+        continue;
+      }
+
+      // Deleted locally - handled by syncLocalDeletions
+      if (mapping && !mapping.local_event_id) continue;
+
+      if (!mapping) {
+        const localEventData: Partial<LocalEvent> & Record<string, unknown> = {
+          ...CalendarSync.googleEventToLocal(googleEvent, userId, CalendarSync.googleTimeZone(googleEvent.start, listing.timeZone)),
+          google_calendar_id: calendarId,
+          calendar_color: listing.color,
+        };
+
+        if (googleEvent.recurringEventId) {
+          const seriesMapping = mappingsByGoogleId.get(googleEvent.recurringEventId);
+          if (!seriesMapping?.local_event_id) continue;
+          localEventData.recurrence_parent_id = seriesMapping.local_event_id;
+        }
+
+        const { data: newEvent, error } = await db
+          .from('events')
+          .insert([localEventData])
+          .select()
+          .single();
+
+        if (error) {
+          result.errors.push(`Failed to create local event: ${error.message}`);
+          continue;
+        }
+
+        const newMapping: SyncMapping = {
+          user_id: userId,
+          local_event_id: newEvent.id,
+          google_event_id: googleEvent.id,
+          google_calendar_id: calendarId,
+          sync_status: 'synced',
+          local_hash: CalendarSync.generateEventHash(newEvent),
+          google_hash: CalendarSync.generateEventHash(googleEvent),
+          synced_snapshot: CalendarSync.toSnapshot(newEvent),
+          last_synced_at: new Date().toISOString(),
+        };
+        await upsertSyncMapping(db, newMapping);
+        mappingsByGoogleId.set(googleEvent.id, newMapping);
+        result.created++;
+      } else if (mapping.sync_status !== 'pending') {
+        const currentGoogleHash = CalendarSync.generateEventHash(googleEvent);
+        if (currentGoogleHash === mapping.google_hash) continue;
+
+        const localEvent = await fetchLocalEvent(db, mapping.local_event_id!);
+        if (!localEvent) {
+          result.errors.push(`Failed to fetch local event: ${mapping.local_event_id}`);
+          continue;
+        }
+
+        const currentLocalHash = CalendarSync.generateEventHash(localEvent);
+        // Read in the local event's zone so the wall clocks compare
+        const googleSnapshot = CalendarSync.toSnapshot(
+          CalendarSync.googleEventToLocal(googleEvent, userId, CalendarSync.eventTimeZone(localEvent, timeZone))
+        );
+
+        if (currentLocalHash !== mapping.local_hash) {
+          const localSnapshot = CalendarSync.toSnapshot(localEvent);
+          const { merged, conflicting } = CalendarSync.mergeSnapshots(mapping.synced_snapshot ?? null, localSnapshot, googleSnapshot);
+
+          if (conflicting.length > 0 && !conflictPolicy) {
+            await createConflict(db, {
+              user_id: userId,
+              local_event_id: mapping.local_event_id,
+              google_event_id: googleEvent.id,
+              google_calendar_id: calendarId,
+              conflict_type: 'modification',
+              local_event_data: localEvent,
+              google_event_data: googleEvent,
+              conflicting_fields: conflicting,
+              merged_event_data: merged,
+              local_modified_at: localEvent.updated_at,
+              google_modified_at: googleEvent.updated,
+            });
+            // Shared with the local-to-Google pass, which must leave it alone too
+            mapping.sync_status = 'pending';
+            await upsertSyncMapping(db, mapping);
+            result.conflicts++;
+            continue;
+          }
+
+          const winner = CalendarSync.policyWinner(conflictPolicy ?? 'newest', localEvent, googleEvent);
+          const resolved = CalendarSync.resolveFields(
+            merged,
+            localSnapshot,
+            googleSnapshot,
+            Object.fromEntries(conflicting.map(field => [field, winner]))
+          );
+          await applyMergedSnapshot(db, google, mapping, localEvent, resolved, timeZone);
+          result.updated++;
+        } else {
+          const { data: updatedEvent, error: updateError } = await db
+            .from('events')
+            .update(CalendarSync.snapshotToEvent(googleSnapshot))
+            .eq('id', mapping.local_event_id)
+            .select()
+            .single();
+
+          if (updateError || !updatedEvent) {
+            result.errors.push(`Failed to update local event: ${updateError?.message}`);
+            continue;
+          }
+
+          await upsertSyncMapping(db, {
+            ...mapping,
+            local_hash: CalendarSync.generateEventHash(updatedEvent),
+            google_hash: currentGoogleHash,
+            synced_snapshot: CalendarSync.toSnapshot(updatedEvent),
+            last_synced_at: new Date().toISOString(),
+            sync_status: 'synced',
+          });
+          result.updated++;
+        }
+      }
+    } catch (error) {
+      result.errors.push(`Error processing Google event ${googleEvent.id}: ${error}`);
+    }
+  }
+
+  if (listing.fullSync) {
+    const listedIds = new Set(googleEvents.map(e => e.id));
+    const vanished = [...mappingsByGoogleId.values()].filter(
+      m => m.local_event_id && m.sync_status !== 'pending' && !listedIds.has(m.google_event_id)
+    );
+
+    for (const mapping of vanished) {
+      try {
+        await applyGoogleDeletion(db, userId, mapping, null, result);
+      } catch (error) {
+        result.errors.push(`Error removing deleted Google event ${mapping.google_event_id}: ${error}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The Google copy of a mapped event was deleted. Delete the local event
+ * too, unless it was edited since the last sync - then ask the user.
+ */
+async function applyGoogleDeletion(
+  db: SupabaseClient,
+  userId: string,
+  mapping: SyncMapping,
+  googleEvent: GoogleEvent | null,
+  result: PassResult
+): Promise<void> {
+  if (mapping.sync_status === 'pending') return;
+
+  const localEvent = await fetchLocalEvent(db, mapping.local_event_id!);
+  if (!localEvent) {
+    await deleteSyncMapping(db, mapping.id!);
+    return;
+  }
+
+  if (CalendarSync.generateEventHash(localEvent) !== mapping.local_hash) {
+    await createConflict(db, {
+      user_id: userId,
+      local_event_id: localEvent.id,
+      google_event_id: mapping.google_event_id,
+      google_calendar_id: mapping.google_calendar_id,
+      conflict_type: 'deletion',
+      deleted_side: 'google',
+      local_event_data: localEvent,
+      google_event_data: googleEvent ?? { id: mapping.google_event_id, status: 'cancelled' },
+      local_modified_at: localEvent.updated_at ?? null,
+      google_modified_at: googleEvent?.updated ?? null,
+    });
+    mapping.sync_status = 'pending';
+    await upsertSyncMapping(db, mapping);
+    result.conflicts++;
+    return;
+  }
+
+  const { error } = await db.from('events').delete().eq('id', localEvent.id);
+  if (error) {
+    result.errors.push(`Failed to delete local event: ${error.message}`);
+    return;
+  }
+
+  await deleteSyncMapping(db, mapping.id!);
+  result.deleted++;
+}
+
+/**
+ * Push local deletions to Google, unless the Google copy was edited since
+ */
+async function syncLocalDeletions(
+  db: SupabaseClient,
+  google: GoogleClient,
+  userId: string,
+  tombstones: SyncMapping[],
+  googleEventsByKey: Map<string, GoogleEvent>,
+  fullyListed: Set<string>
+): Promise<PassResult> {
+  const result: PassResult = { created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] };
+
+  for (const mapping of tombstones) {
+    if (mapping.sync_status === 'pending') continue;
+
+    try {
+      const calendarId = mapping.google_calendar_id || PRIMARY_CALENDAR;
+      const googleEvent = googleEventsByKey.get(listingKey(calendarId, mapping.google_event_id));
+
+      // Gone on both sides
+      if ((!googleEvent && fullyListed.has(calendarId)) || googleEvent?.status === 'cancelled') {
+        await deleteSyncMapping(db, mapping.id!);
+        continue;
+      }
+
+      // Outside a full listing an unlisted Google event is unchanged
+      if (googleEvent && CalendarSync.generateEventHash(googleEvent) !== mapping.google_hash) {
+        await createConflict(db, {
+          user_id: userId,
+          local_event_id: null,
+          google_event_id: mapping.google_event_id,
+          google_calendar_id: calendarId,
+          conflict_type: 'deletion',
+          deleted_side: 'local',
+          local_event_data: {},
+          google_event_data: googleEvent,
+          local_modified_at: null,
+          google_modified_at: googleEvent.updated ?? null,
+        });
+        await upsertSyncMapping(db, { ...mapping, sync_status: 'pending' });
+        result.conflicts++;
+        continue;
+      }
+
+      try {
+        await google.request(`${calendarPath(calendarId)}/events/${mapping.google_event_id}`, { method: 'DELETE' });
+      } catch (error) {
+        // Already deleted (or its series was): the goal is met
+        if (!(error instanceof GoogleApiError && (error.status === 404 || error.status === 410))) throw error;
+      }
+      await deleteSyncMapping(db, mapping.id!);
+      result.deleted++;
+    } catch (error) {
+      result.errors.push(`Failed to delete Google event ${mapping.google_event_id}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+async function syncLocalToGoogle(
+  db: SupabaseClient,
+  google: GoogleClient,
+  userId: string,
+  localEvents: LocalEvent[],
+  googleEventsByKey: Map<string, GoogleEvent>,
+  mappingsByLocalId: Map<string, SyncMapping>,
+  fullyListed: Set<string>,
+  writeCalendarId: string,
+  timeZone: string
+): Promise<PassResult> {
+  const result: PassResult = { created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] };
+  const localEventsById = new Map(localEvents.map(e => [e.id, e]));
+
+  // Series masters first so their overrides can resolve the Google series id
+  const ordered = [...localEvents].sort(
+    (a, b) => Number(!!a.recurrence_parent_id) - Number(!!b.recurrence_parent_id)
+  );
+
+  for (const localEvent of ordered) {
+    try {
+      const mapping = mappingsByLocalId.get(localEvent.id);
+      const googleEventData = CalendarSync.localEventToGoogle(localEvent, timeZone);
+
+      if (!mapping) {
+        let created: GoogleEvent;
+        let calendarId = writeCalendarId;
+
+        if (localEvent.recurrence_parent_id && localEvent.recurrence_original_date) {
+          // Edited occurrence - update the matching instance of the Google series
+          const master = localEventsById.get(localEvent.recurrence_parent_id)
+            ?? await fetchLocalEvent(db, localEvent.recurrence_parent_id);
+          const seriesMapping = mappingsByLocalId.get(localEvent.recurrence_parent_id);
+          if (!master || !seriesMapping) continue;
+
+          const instanceId = CalendarSync.googleInstanceId(seriesMapping.google_event_id, master, localEvent.recurrence_original_date, timeZone);
+          calendarId = seriesMapping.google_calendar_id || PRIMARY_CALENDAR;
+          created = await google.request<GoogleEvent>(`${calendarPath(calendarId)}/events/${instanceId}`, {
+            method: 'PUT',
+            body: JSON.stringify(googleEventData),
+          });
+        } else {
+          created = await google.request<GoogleEvent>(`${calendarPath(calendarId)}/events`, {
+            method: 'POST',
+            body: JSON.stringify(googleEventData),
+          });
+        }
+
+        const newMapping: SyncMapping = {
+          user_id: userId,
+          local_event_id: localEvent.id,
+          google_event_id: created.id!,
+          google_calendar_id: calendarId,
+          sync_status: 'synced',
+          local_hash: CalendarSync.generateEventHash(localEvent),
+          google_hash: CalendarSync.generateEventHash(created),
+          synced_snapshot: CalendarSync.toSnapshot(localEvent),
+          last_synced_at: new Date().toISOString(),
+        };
+        await upsertSyncMapping(db, newMapping);
+        mappingsByLocalId.set(localEvent.id, newMapping);
+        result.created++;
+      } else if (mapping.sync_status !== 'pending') {
+        const currentLocalHash = CalendarSync.generateEventHash(localEvent);
+        if (currentLocalHash === mapping.local_hash) continue;
+
+        const calendarId = mapping.google_calendar_id || PRIMARY_CALENDAR;
+        const googleEvent = googleEventsByKey.get(listingKey(calendarId, mapping.google_event_id));
+
+        if (!googleEvent && fullyListed.has(calendarId)) {
+          result.errors.push(`Google event not found: ${mapping.google_event_id}`);
+          continue;
+        }
+
+        // Both changed - the Google-to-local pass already handled it
+        if (googleEvent && CalendarSync.generateEventHash(googleEvent) !== mapping.google_hash) continue;
+
+        const updated = await google.request<GoogleEvent>(`${calendarPath(calendarId)}/events/${mapping.google_event_id}`, {
+          method: 'PUT',
+          body: JSON.stringify(googleEventData),
+        });
+
+        await upsertSyncMapping(db, {
+          ...mapping,
+          local_hash: currentLocalHash,
+          google_hash: CalendarSync.generateEventHash(updated),
+          synced_snapshot: CalendarSync.toSnapshot(localEvent),
+          last_synced_at: new Date().toISOString(),
+          sync_status: 'synced',
+        });
+        result.updated++;
+      }
+    } catch (error) {
+      result.errors.push(`Error processing local event ${localEvent.id}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+async function applyMergedSnapshot(
+  db: SupabaseClient,
+  google: GoogleClient,
+  mapping: SyncMapping,
+  localEvent: LocalEvent,
+  snapshot: SyncSnapshot,
+  timeZone: string
+): Promise<void> {
+  const { data: updatedEvent, error } = await db
+    .from('events')
+    .update(CalendarSync.snapshotToEvent(snapshot))
+    .eq('id', localEvent.id)
+    .select()
+    .single();
+
+  if (error || !updatedEvent) {
+    throw new Error(`Failed to update local event: ${error?.message}`);
+  }
+
+  const updatedGoogleEvent = await google.request<GoogleEvent>(
+    `${calendarPath(mapping.google_calendar_id || PRIMARY_CALENDAR)}/events/${mapping.google_event_id}`,
+    { method: 'PUT', body: JSON.stringify(CalendarSync.localEventToGoogle(updatedEvent, timeZone)) }
+  );
+
+  await upsertSyncMapping(db, {
+    ...mapping,
+    local_hash: CalendarSync.generateEventHash(updatedEvent),
+    google_hash: CalendarSync.generateEventHash(updatedGoogleEvent),
+    synced_snapshot: CalendarSync.toSnapshot(updatedEvent),
+    last_synced_at: new Date().toISOString(),
+    sync_status: 'synced',
+  });
+}
+
+/**
+ * A cancelled instance of a Google series becomes an exception on the
+ * local master, replacing any local override for that occurrence
+ */
+async function applyCancelledInstance(
+  db: SupabaseClient,
+  googleEvent: GoogleEvent,
+  mapping: SyncMapping | undefined,
+  mappingsByGoogleId: Map<string, SyncMapping>,
+  timeZone: string
+): Promise<boolean> {
+  const seriesMapping = mappingsByGoogleId.get(googleEvent.recurringEventId!);
+  if (!seriesMapping?.local_event_id || !googleEvent.originalStartTime) return false;
+
+  const originalDate = CalendarSync.googleStartDate(
+    googleEvent.originalStartTime,
+    CalendarSync.googleTimeZone(googleEvent.originalStartTime, timeZone)
+  );
+
+  if (mapping?.id) {
+    if (mapping.local_event_id) {
+      await db.from('events').delete().eq('id', mapping.local_event_id);
+    }
+    await deleteSyncMapping(db, mapping.id);
+    mappingsByGoogleId.delete(googleEvent.id!);
+  }
+
+  const { data: master } = await db
+    .from('events')
+    .select('recurrence_exceptions')
+    .eq('id', seriesMapping.local_event_id)
+    .maybeSingle();
+
+  if (!master) return false;
+
+  const exceptions: string[] = master.recurrence_exceptions ?? [];
+  if (exceptions.includes(originalDate)) return !!mapping?.id;
+
+  await db
+    .from('events')
+    .update({ recurrence_exceptions: [...exceptions, originalDate].sort() })
+    .eq('id', seriesMapping.local_event_id);
+
+  return true;
+}
+
+async function fetchLocalEvent(db: SupabaseClient, eventId: string): Promise<LocalEvent | undefined> {
+  const { data } = await db
+    .from('events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  return data ?? undefined;
+}
+
+async function upsertSyncMapping(db: SupabaseClient, mapping: SyncMapping): Promise<void> {
+  const { error } = await db
+    .from('calendar_sync_mappings')
+    .upsert({ ...mapping, updated_at: new Date().toISOString() }, {
+      onConflict: 'user_id,google_calendar_id,google_event_id'
+    });
+
+  if (error) console.error('❌ Failed to save sync mapping:', error);
+}
+
+async function deleteSyncMapping(db: SupabaseClient, mappingId: string): Promise<void> {
+  const { error } = await db.from('calendar_sync_mappings').delete().eq('id', mappingId);
+  if (error) console.error('❌ Failed to delete sync mapping:', error);
+}
+
+async function createConflict(db: SupabaseClient, conflict: Record<string, unknown>): Promise<void> {
+  const { error } = await db
+    .from('calendar_sync_conflicts')
+    .insert([{ ...conflict, detected_at: new Date().toISOString(), resolution_status: 'pending' }]);
+
+  if (error) console.error('❌ Failed to record sync conflict:', error);
+}
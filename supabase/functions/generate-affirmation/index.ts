@@ -235,7 +235,7 @@ Deno.serve(async (req: Request) => {
       queries.push(
         supabase
           .from('family_members')
-          .select('name, age, gender')
+          .select('name, age, age_as_of, birth_date, gender')
           .eq('user_id', user.id)
           .then(({ data }) => ({ key: 'family', data: data || [] }))
       );
@@ -403,6 +403,18 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+// Mirrors FamilyAge.ageOn in the app: a birth date wins, otherwise the stored
+// age is counted up from the day it was recorded
+function currentAge(member: { age?: number | null; age_as_of?: string | null; birth_date?: string | null }): number | null {
+  const today = new Date().toISOString().split('T')[0];
+  const yearsSince = (date: string) =>
+    Number(today.slice(0, 4)) - Number(date.slice(0, 4)) - (today.slice(5) < date.slice(5) ? 1 : 0);
+
+  if (member.birth_date) return Math.max(0, yearsSince(member.birth_date));
+  if (member.age === null || member.age === undefined) return null;
+  return member.age + (member.age_as_of ? Math.max(0, yearsSince(member.age_as_of)) : 0);
+}
+
 function buildAffirmationPrompt(contextData: any): string {
   const userName = contextData.profile?.full_name || 'there';
   const userType = contextData.profile?.user_type || 'parent';
@@ -431,7 +443,8 @@ function buildAffirmationPrompt(contextData: any): string {
   if (contextData.family.length > 0) {
     prompt += `Family members:\n`;
     contextData.family.forEach((member: any) => {
-      const ageInfo = member.age ? `, age ${member.age}` : '';
+      const age = currentAge(member);
+      const ageInfo = age !== null ? `, age ${age}` : '';
       const genderInfo = member.gender ? ` (${member.gender})` : '';
       prompt += `- ${member.name}${ageInfo}${genderInfo}\n`;
     });
@@ -15,10 +15,26 @@
     - listUpcoming: Get upcoming events
     - getEvents: Get events in date range
     - insertEvent: Create new calendar event
+    - getEvents with singleEvents=false: recurring series as masters with RRULEs
+    - syncEvents: one page of an incremental (syncToken) or full listing;
+      responds 410 with code "sync_token_expired" when a full resync is needed
+    - listCalendars: the user's calendars with their colors, timezones and access roles
+    - insertEvent / updateEvent / deleteEvent take an optional calendarId
+      (defaults to "primary")
 */
 
 import { createClient } from 'npm:@supabase/supabase-js@2.55.0';
 
+interface CalendarListEntry {
+  id: string;
+  summary?: string;
+  summaryOverride?: string;
+  backgroundColor?: string;
+  timeZone?: string;
+  primary?: boolean;
+  accessRole?: string;
+}
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
@@ -129,6 +145,13 @@ async function getValidAccessToken(serviceSupabase: any, userId: string, googleC
   return tokenData.access_token;
 }
 
+class GoogleApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GoogleApiError';
+  }
+}
+
 async function makeGoogleCalendarRequest(accessToken: string, endpoint: string, options: RequestInit = {}) {
   const url = `https://www.googleapis.com/calendar/v3${endpoint}`;
   
@@ -146,14 +169,21 @@ async function makeGoogleCalendarRequest(accessToken: string, endpoint: string,
   if (!response.ok) {
     const errorText = await response.text();
     console.error(`❌ Google Calendar API error: ${response.status} ${response.statusText} - ${errorText}`);
-    throw new Error(`Google Calendar API error: ${response.status} ${response.statusText} - ${errorText}`);
+    throw new GoogleApiError(`Google Calendar API error: ${response.status} ${response.statusText} - ${errorText}`, response.status);
   }
 
-  const data = await response.json();
+  // DELETE answers 204 with an empty body
+  const data = response.status === 204 ? null : await response.json();
   console.log("✅ Google Calendar API request successful");
   return data;
 }
 
+function calendarPath(calendarId: unknown): string | null {
+  if (calendarId === undefined || calendarId === null) return '/calendars/primary';
+  if (typeof calendarId !== 'string' || !calendarId) return null;
+  return `/calendars/${encodeURIComponent(calendarId)}`;
+}
+
 async function getAuthenticatedUser(req: Request, supabase: any) {
   const authHeader = req.headers.get('Authorization');
   if (!authHeader) {
@@ -330,7 +360,7 @@ Deno.serve(async (req: Request) => {
       }
 
       case "getEvents": {
-        const { timeMin, timeMax, maxResults = 250, q } = body;
+        const { timeMin, timeMax, maxResults = 250, q, singleEvents = true, pageToken } = body;
 
         const validatedMaxResults = Math.min(Math.max(1, parseInt(maxResults) || 250), 250);
 
@@ -344,7 +374,11 @@ Deno.serve(async (req: Request) => {
           return jsonResponse({ error: "Invalid search query format" }, 400);
         }
 
-        let endpoint = `/calendars/primary/events?singleEvents=true&orderBy=startTime&maxResults=${validatedMaxResults}`;
+        // Recurring masters can only be listed unexpanded, and Google only
+        // supports ordering by start time for expanded instances
+        let endpoint = singleEvents === false
+          ? `/calendars/primary/events?singleEvents=false&maxResults=${validatedMaxResults}`
+          : `/calendars/primary/events?singleEvents=true&orderBy=startTime&maxResults=${validatedMaxResults}`;
         
         if (timeMin) {
           endpoint += `&timeMin=${encodeURIComponent(timeMin)}`;
@@ -355,13 +389,85 @@ Deno.serve(async (req: Request) => {
         if (q) {
           endpoint += `&q=${encodeURIComponent(q)}`;
         }
+        if (pageToken && typeof pageToken === 'string') {
+          endpoint += `&pageToken=${encodeURIComponent(pageToken)}`;
+        }
         
         const events = await makeGoogleCalendarRequest(accessToken, endpoint);
         return jsonResponse(events);
       }
 
+      case "syncEvents": {
+        const { calendarId = 'primary', syncToken, pageToken, maxResults = 250 } = body;
+
+        if (typeof calendarId !== 'string' || !calendarId) {
+          return jsonResponse({ error: "Invalid calendarId" }, 400);
+        }
+        if (syncToken && typeof syncToken !== 'string') {
+          return jsonResponse({ error: "Invalid syncToken" }, 400);
+        }
+        if (pageToken && typeof pageToken !== 'string') {
+          return jsonResponse({ error: "Invalid pageToken" }, 400);
+        }
+
+        const validatedMaxResults = Math.min(Math.max(1, parseInt(maxResults) || 250), 2500);
+
+        // Incremental requests must repeat the parameters of the listing that
+        // issued the token and can't take timeMin/timeMax, so the full listing
+        // isn't windowed either. Deleted events are included so removals show
+        // up as status "cancelled".
+        let endpoint = `/calendars/${encodeURIComponent(calendarId)}/events?singleEvents=false&showDeleted=true&maxResults=${validatedMaxResults}`;
+        if (syncToken) {
+          endpoint += `&syncToken=${encodeURIComponent(syncToken)}`;
+        }
+        if (pageToken) {
+          endpoint += `&pageToken=${encodeURIComponent(pageToken)}`;
+        }
+
+        try {
+          const page = await makeGoogleCalendarRequest(accessToken, endpoint);
+          return jsonResponse({
+            items: page.items || [],
+            nextPageToken: page.nextPageToken ?? null,
+            nextSyncToken: page.nextSyncToken ?? null,
+          });
+        } catch (error) {
+          if (error instanceof GoogleApiError && error.status === 410) {
+            console.log(`♻️ Sync token expired for calendar ${calendarId}, full resync required`);
+            return jsonResponse({
+              error: "Sync token expired",
+              code: "sync_token_expired",
+            }, 410);
+          }
+          throw error;
+        }
+      }
+
+      case "listCalendars": {
+        const calendars = await makeGoogleCalendarRequest(
+          accessToken,
+          '/users/me/calendarList?minAccessRole=reader&maxResults=250'
+        );
+
+        return jsonResponse({
+          items: ((calendars.items || []) as CalendarListEntry[]).map((calendar) => ({
+            id: calendar.id,
+            summary: calendar.summaryOverride || calendar.summary,
+            backgroundColor: calendar.backgroundColor ?? null,
+            timeZone: calendar.timeZone ?? null,
+            primary: calendar.primary === true,
+            accessRole: calendar.accessRole,
+          })),
+        });
+      }
+
       case "insertEvent": {
         const { event } = body;
+        const calendar = calendarPath(body.calendarId);
+
+        if (!calendar) {
+          return jsonResponse({ error: "Invalid calendarId" }, 400);
+        }
 
         if (!event || typeof event !== 'object') {
           return jsonResponse({ error: "Missing or invalid event data" }, 400);
@@ -373,7 +479,7 @@ Deno.serve(async (req: Request) => {
         
         const createdEvent = await makeGoogleCalendarRequest(
           accessToken,
-          '/calendars/primary/events',
+          `${calendar}/events`,
           {
             method: 'POST',
             body: JSON.stringify(event),
@@ -385,6 +491,11 @@ Deno.serve(async (req: Request) => {
 
       case "updateEvent": {
         const { eventId, event } = body;
+        const calendar = calendarPath(body.calendarId);
+
+        if (!calendar) {
+          return jsonResponse({ error: "Invalid calendarId" }, 400);
+        }
 
         if (!eventId || typeof eventId !== 'string') {
           return jsonResponse({ error: "Missing or invalid eventId" }, 400);
@@ -395,7 +506,7 @@ Deno.serve(async (req: Request) => {
         
         const updatedEvent = await makeGoogleCalendarRequest(
           accessToken,
-          `/calendars/primary/events/${eventId}`,
+          `${calendar}/events/${eventId}`,
           {
             method: 'PUT',
             body: JSON.stringify(event),
@@ -407,16 +518,29 @@ Deno.serve(async (req: Request) => {
 
       case "deleteEvent": {
         const { eventId } = body;
+        const calendar = calendarPath(body.calendarId);
+
+        if (!calendar) {
+          return jsonResponse({ error: "Invalid calendarId" }, 400);
+        }
 
         if (!eventId || typeof eventId !== 'string') {
           return jsonResponse({ error: "Missing or invalid eventId" }, 400);
         }
 
-        await makeGoogleCalendarRequest(
-          accessToken,
-          `/calendars/primary/events/${eventId}`,
-          { method: 'DELETE' }
-        );
+        try {
+          await makeGoogleCalendarRequest(
+            accessToken,
+            `${calendar}/events/${eventId}`,
+            { method: 'DELETE' }
+          );
+        } catch (error) {
+          // Already deleted (or its series was): the caller's goal is met
+          if (error instanceof GoogleApiError && (error.status === 404 || error.status === 410)) {
+            return jsonResponse({ success: true, alreadyDeleted: true, message: "Event was already deleted" });
+          }
+          throw error;
+        }
 
         return jsonResponse({ success: true, message: "Event deleted successfully" });
       }
@@ -0,0 +1,178 @@
+/*
+  # iCalendar Feed Fetcher
+
+  1. Purpose
+    - Fetch subscribed .ics feeds on behalf of the browser
+    - Most feed hosts don't send CORS headers, so the app can't fetch them directly
+    - Supports conditional requests (ETag / Last-Modified)
+
+  2. Security
+    - Requires JWT authentication
+    - Only http(s) and webcal URLs are fetched
+    - Private and loopback hosts are refused unless ICS_FEED_ALLOW_PRIVATE=true
+      (set it when testing against a local fixture server)
+    - Response size and fetch time are capped
+
+  3. Response Format
+    - { notModified: true } when the feed hasn't changed
+    - { body, etag, lastModified } otherwise
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2.55.0';
+
+interface FeedRequest {
+  url?: string;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+function jsonResponse(data: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders,
+    },
+  });
+}
+
+function normalizeFeedUrl(raw: string): URL | null {
+  try {
+    const url = new URL(raw.trim().replace(/^webcals?:\/\//i, 'https://'));
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true;
+  if (host.includes(':')) {
+    return host === '::1' || /^(fc|fd|fe80)/.test(host);
+  }
+
+  const octets = host.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(n => isNaN(n))) return false;
+  const [a, b] = octets;
+  return a === 10 || a === 127 || a === 0 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: {
+        headers: {
+          Authorization: authHeader,
+        },
+      },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('❌ Authentication failed:', userError?.message);
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let body: FeedRequest = {};
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON body" }, 400);
+    }
+
+    const url = body.url ? normalizeFeedUrl(body.url) : null;
+    if (!url) {
+      return jsonResponse({ error: "A valid http(s) or webcal feed URL is required" }, 400);
+    }
+
+    if (Deno.env.get('ICS_FEED_ALLOW_PRIVATE') !== 'true' && isPrivateHost(url.hostname)) {
+      return jsonResponse({ error: "Feeds on private network addresses are not allowed" }, 400);
+    }
+
+    console.log(`📅 Fetching calendar feed for user ${user.id}: ${url.hostname}`);
+
+    const headers: Record<string, string> = {
+      'Accept': 'text/calendar, text/plain;q=0.9, */*;q=0.8',
+      'User-Agent': 'BusyMomsAssistant-Calendar/1.0',
+    };
+    if (body.etag) headers['If-None-Match'] = body.etag;
+    if (body.lastModified) headers['If-Modified-Since'] = body.lastModified;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), { headers, signal: controller.signal, redirect: 'follow' });
+    } catch (error) {
+      const timedOut = error instanceof DOMException && error.name === 'AbortError';
+      return jsonResponse({ error: timedOut ? "The feed took too long to respond" : "Could not reach the feed" }, 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 304) {
+      return jsonResponse({ notModified: true });
+    }
+
+    if (!response.ok) {
+      return jsonResponse({ error: `The feed returned ${response.status} ${response.statusText}` }, 502);
+    }
+
+    const declaredLength = Number(response.headers.get('Content-Length') || 0);
+    if (declaredLength > MAX_FEED_BYTES) {
+      return jsonResponse({ error: "The feed is too large" }, 413);
+    }
+
+    const text = await response.text();
+    if (text.length > MAX_FEED_BYTES) {
+      return jsonResponse({ error: "The feed is too large" }, 413);
+    }
+
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      return jsonResponse({ error: "That URL doesn't look like an iCalendar feed" }, 422);
+    }
+
+    return jsonResponse({
+      body: text,
+      etag: response.headers.get('ETag'),
+      lastModified: response.headers.get('Last-Modified'),
+    });
+  } catch (error) {
+    console.error('❌ Feed fetch error:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
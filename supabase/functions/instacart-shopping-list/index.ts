@@ -11,6 +11,7 @@ interface InstacartShoppingListItem {
   quantity?: number;
   unit?: string;
   category?: string;
+  health_filters?: string[];
 }
 
 interface CreateShoppingListRequest {
@@ -86,6 +87,10 @@ Deno.serve(async (req: Request) => {
             formattedItem.category = item.category;
           }
 
+          if (item.health_filters && item.health_filters.length > 0) {
+            formattedItem.filters = { health_filters: item.health_filters };
+          }
+
           return formattedItem;
         });
 
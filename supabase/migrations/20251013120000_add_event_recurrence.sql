@@ -0,0 +1,67 @@
+/*
+  # Add recurrence support to events
+
+  ## Overview
+  Recurring events (weekly practice, monthly book club) are stored once as a
+  series "master" row carrying an RFC 5545 RRULE, and expanded into
+  occurrences on the client. Single occurrences that were edited are stored
+  as separate override rows pointing back at their master.
+
+  ## Changes
+
+  1. **Modify events table**
+     - `recurrence_rule` (text, nullable) - RRULE body, e.g. `FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10`
+     - `recurrence_exceptions` (date[], nullable) - occurrence dates removed from the series (EXDATE)
+     - `recurrence_parent_id` (uuid, nullable) - set on override rows, references the series master
+     - `recurrence_original_date` (date, nullable) - the occurrence date an override replaces
+
+  2. **Indexes**
+     - Partial index on series masters for range expansion queries
+     - Index on recurrence_parent_id for override lookups
+
+  ## Notes
+  - Existing events are unaffected (all new columns are NULL)
+  - Deleting a master cascades to its overrides
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'recurrence_rule'
+  ) THEN
+    ALTER TABLE events ADD COLUMN recurrence_rule text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'recurrence_exceptions'
+  ) THEN
+    ALTER TABLE events ADD COLUMN recurrence_exceptions date[] DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'recurrence_parent_id'
+  ) THEN
+    ALTER TABLE events ADD COLUMN recurrence_parent_id uuid REFERENCES events(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'recurrence_original_date'
+  ) THEN
+    ALTER TABLE events ADD COLUMN recurrence_original_date date;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring_masters
+  ON events(user_id, event_date)
+  WHERE recurrence_rule IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurrence_parent_id ON events(recurrence_parent_id);
+
+-- One override per occurrence of a series
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_recurrence_override_unique
+  ON events(recurrence_parent_id, recurrence_original_date)
+  WHERE recurrence_parent_id IS NOT NULL;
@@ -0,0 +1,84 @@
+/*
+  # Structured recurrence for reminders and tasks
+
+  ## Overview
+  Reminders and tasks only had a free-text `recurring_pattern` that nothing
+  read. They now carry the same RFC 5545 RRULE body as recurring events.
+  Unlike events, each occurrence is a real row: completing one spawns the
+  next, and all rows of a series share a `recurrence_series_id`.
+
+  ## Changes
+
+  1. **Modify reminders and tasks tables**
+     - `recurrence_rule` (text, nullable) - RRULE body, e.g. `FREQ=WEEKLY;BYDAY=TU`
+     - `recurrence_series_id` (uuid, nullable) - id of the first row of the series
+
+  2. **Data migration**
+     - Existing `recurring_pattern` values (daily/weekly/monthly/yearly) are
+       converted to the equivalent FREQ rule
+
+  3. **Indexes**
+     - One row per series and date, so the next occurrence is never spawned twice
+
+  ## Notes
+  - `recurring_pattern` is kept for backwards compatibility but no longer written
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'reminders' AND column_name = 'recurrence_rule'
+  ) THEN
+    ALTER TABLE reminders ADD COLUMN recurrence_rule text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'reminders' AND column_name = 'recurrence_series_id'
+  ) THEN
+    ALTER TABLE reminders ADD COLUMN recurrence_series_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence_rule'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence_rule text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence_series_id'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence_series_id uuid;
+  END IF;
+END $$;
+
+UPDATE reminders
+SET recurrence_rule = 'FREQ=' || upper(recurring_pattern)
+WHERE recurring = true
+  AND recurring_pattern IN ('daily', 'weekly', 'monthly', 'yearly')
+  AND recurrence_rule IS NULL;
+
+UPDATE tasks
+SET recurrence_rule = 'FREQ=' || upper(recurring_pattern)
+WHERE recurring = true
+  AND recurring_pattern IN ('daily', 'weekly', 'monthly', 'yearly')
+  AND recurrence_rule IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reminders_recurring
+  ON reminders(user_id)
+  WHERE recurrence_rule IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring
+  ON tasks(user_id)
+  WHERE recurrence_rule IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_recurrence_series_date
+  ON reminders(recurrence_series_id, reminder_date)
+  WHERE recurrence_series_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_series_date
+  ON tasks(recurrence_series_id, due_date)
+  WHERE recurrence_series_id IS NOT NULL;
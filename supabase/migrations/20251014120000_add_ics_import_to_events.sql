@@ -0,0 +1,52 @@
+/*
+  # iCalendar (.ics) import support for events
+
+  ## Overview
+  School, doctor and sports league calendars are published as .ics files.
+  Imported events keep the VEVENT UID so that importing the same file again
+  updates nothing and creates no duplicates.
+
+  ## Changes
+
+  1. **Modify events table**
+     - `external_uid` (text, nullable) - iCalendar UID of an imported event
+
+  2. **Constraints**
+     - Allow 'ics_import' as an events.source value
+
+  3. **Indexes**
+     - Lookup index on (user_id, external_uid) for import dedupe
+
+  ## Notes
+  - Override rows of an imported recurring event share the series UID and
+    are told apart by recurrence_original_date
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'external_uid'
+  ) THEN
+    ALTER TABLE events ADD COLUMN external_uid text;
+  END IF;
+END $$;
+
+-- Drop the old constraint
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'events_source_check'
+  ) THEN
+    ALTER TABLE events DROP CONSTRAINT events_source_check;
+  END IF;
+END $$;
+
+-- Add new constraint with 'ics_import' included
+ALTER TABLE events ADD CONSTRAINT events_source_check
+  CHECK (source IN ('manual', 'whatsapp', 'calendar_sync', 'ai', 'ics_import'));
+
+CREATE INDEX IF NOT EXISTS idx_events_external_uid
+  ON events(user_id, external_uid)
+  WHERE external_uid IS NOT NULL;
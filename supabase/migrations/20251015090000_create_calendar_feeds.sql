@@ -0,0 +1,171 @@
+/*
+  # Subscribed iCalendar feeds
+
+  ## Overview
+  Schools and sports leagues publish live calendar URLs (often webcal://).
+  A subscribed feed is re-fetched periodically and reconciled into events as
+  read-only rows, so changed and cancelled feed events update locally.
+
+  ## Changes
+
+  1. **New Tables**
+     - `calendar_feeds`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references auth.users)
+       - `name` (text) - display name, defaults to the feed's X-WR-CALNAME
+       - `url` (text) - http(s) or webcal URL of the .ics feed
+       - `color` (text) - color used for the feed's events
+       - `enabled` (boolean) - whether the feed is refreshed
+       - `refresh_interval_minutes` (integer) - how often to re-fetch
+       - `etag`, `last_modified` (text) - HTTP validators for conditional fetches
+       - `last_refreshed_at` (timestamptz) - last successful refresh
+       - `last_error` (text) - error from the last failed refresh
+       - `created_at`, `updated_at` (timestamptz)
+
+     - `calendar_feed_mappings`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references auth.users)
+       - `feed_id` (uuid, references calendar_feeds)
+       - `local_event_id` (uuid, references events)
+       - `feed_event_uid` (text) - VEVENT UID, plus '#' and RECURRENCE-ID for edited occurrences
+       - `feed_hash` (text) - hash of the event as last reconciled
+       - `last_synced_at` (timestamptz)
+       - `created_at`, `updated_at` (timestamptz)
+
+  2. **Modify events table**
+     - `feed_id` (uuid, nullable) - feed a read-only event comes from
+
+  3. **Constraints**
+     - Allow 'ics_feed' as an events.source value
+
+  4. **Security**
+     - Enable RLS on both tables
+     - Users can only access their own feeds and mappings
+
+  5. **Triggers**
+     - Keep `updated_at` current on both tables with `update_updated_at_column()`
+
+  ## Notes
+  - Removing a feed removes its events and mappings through ON DELETE CASCADE
+  - Mappings follow the calendar_sync_mappings pattern (one row per event)
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  url text NOT NULL,
+  color text DEFAULT '#6366f1',
+  enabled boolean DEFAULT true,
+  refresh_interval_minutes integer DEFAULT 360 CHECK (refresh_interval_minutes >= 15),
+  etag text,
+  last_modified text,
+  last_refreshed_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, url)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'feed_id'
+  ) THEN
+    ALTER TABLE events ADD COLUMN feed_id uuid REFERENCES calendar_feeds(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS calendar_feed_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feed_id uuid NOT NULL REFERENCES calendar_feeds(id) ON DELETE CASCADE,
+  local_event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  feed_event_uid text NOT NULL,
+  feed_hash text,
+  last_synced_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(feed_id, feed_event_uid),
+  UNIQUE(local_event_id)
+);
+
+-- Drop the old constraint
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'events_source_check'
+  ) THEN
+    ALTER TABLE events DROP CONSTRAINT events_source_check;
+  END IF;
+END $$;
+
+-- Add new constraint with 'ics_feed' included
+ALTER TABLE events ADD CONSTRAINT events_source_check
+  CHECK (source IN ('manual', 'whatsapp', 'calendar_sync', 'ai', 'ics_import', 'ics_feed'));
+
+-- Enable RLS
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_mappings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_feeds
+CREATE POLICY "Users can view own calendar feeds"
+  ON calendar_feeds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own calendar feeds"
+  ON calendar_feeds FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own calendar feeds"
+  ON calendar_feeds FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feeds"
+  ON calendar_feeds FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for calendar_feed_mappings
+CREATE POLICY "Users can view own feed mappings"
+  ON calendar_feed_mappings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own feed mappings"
+  ON calendar_feed_mappings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own feed mappings"
+  ON calendar_feed_mappings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own feed mappings"
+  ON calendar_feed_mappings FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_calendar_feed_mappings_updated_at
+  BEFORE UPDATE ON calendar_feed_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON calendar_feeds(user_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_mappings_feed_id ON calendar_feed_mappings(feed_id);
+CREATE INDEX IF NOT EXISTS idx_events_feed_id ON events(feed_id) WHERE feed_id IS NOT NULL;
@@ -0,0 +1,38 @@
+/*
+  # Incremental Google Calendar sync
+
+  ## Overview
+  Instead of re-downloading a fixed window of Google events on every run,
+  sync stores the `nextSyncToken` Google returns at the end of a listing and
+  asks only for what changed since then.
+
+  ## Changes
+
+  1. **Modify user_sync_preferences table**
+     - `sync_tokens` (jsonb) - Google nextSyncToken per calendar id, e.g. {"primary": "CP..."}
+     - `last_full_sync_at` (timestamptz) - when the last complete download finished
+
+  ## Notes
+  - A missing token (or one Google rejects with 410 Gone) means the next run
+    downloads every event again and stores a fresh token
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'sync_tokens'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN sync_tokens jsonb DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'last_full_sync_at'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN last_full_sync_at timestamptz;
+  END IF;
+END $$;
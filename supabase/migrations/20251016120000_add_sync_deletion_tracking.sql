@@ -0,0 +1,44 @@
+/*
+  # Propagate deletions during calendar sync
+
+  ## Overview
+  Deleting a synced event locally used to delete its mapping too (ON DELETE
+  CASCADE), so sync could no longer tell it had ever existed and the Google
+  copy lived on. Mappings now outlive their local event as tombstones, which
+  lets sync delete the Google copy or raise a deletion conflict.
+
+  ## Changes
+
+  1. **Modify calendar_sync_mappings table**
+     - `local_event_id` foreign key now uses ON DELETE SET NULL, so a mapping
+       with a NULL local_event_id marks an event deleted locally
+
+  2. **Modify calendar_sync_conflicts table**
+     - `deleted_side` (text, nullable) - for 'deletion' conflicts, the side
+       ('local' or 'google') where the event was deleted
+
+  ## Notes
+  - UNIQUE(user_id, local_event_id) still holds; Postgres allows many NULLs
+*/
+
+ALTER TABLE calendar_sync_mappings
+  DROP CONSTRAINT IF EXISTS calendar_sync_mappings_local_event_id_fkey;
+
+ALTER TABLE calendar_sync_mappings
+  ADD CONSTRAINT calendar_sync_mappings_local_event_id_fkey
+  FOREIGN KEY (local_event_id) REFERENCES events(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_conflicts' AND column_name = 'deleted_side'
+  ) THEN
+    ALTER TABLE calendar_sync_conflicts ADD COLUMN deleted_side text
+      CHECK (deleted_side IN ('local', 'google'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sync_mappings_tombstones
+  ON calendar_sync_mappings(user_id)
+  WHERE local_event_id IS NULL;
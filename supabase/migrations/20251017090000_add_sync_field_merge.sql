@@ -0,0 +1,68 @@
+/*
+  # Field-level three-way merge for calendar sync
+
+  ## Overview
+  Hashes only say that an event changed. Keeping the field values both sides
+  agreed on at the last sync lets sync tell which fields each side edited,
+  merge edits to different fields automatically and only ask about fields
+  that were edited differently on both sides.
+
+  ## Changes
+
+  1. **Modify calendar_sync_mappings table**
+     - `synced_snapshot` (jsonb) - title, time, location, attendees, description
+       and recurrence as of the last successful sync
+
+  2. **Modify calendar_sync_conflicts table**
+     - `conflicting_fields` (text[]) - fields edited differently on both sides
+     - `merged_event_data` (jsonb) - the event with every non-conflicting edit applied
+
+  3. **Modify user_sync_preferences table**
+     - `conflict_policy` (text) - how auto_resolve_conflicts settles conflicting
+       fields: 'newest' (most recently edited side), 'local' or 'google'
+
+  ## Notes
+  - Mappings without a snapshot (synced before this change) fall back to
+    treating every differing field as conflicting
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_mappings' AND column_name = 'synced_snapshot'
+  ) THEN
+    ALTER TABLE calendar_sync_mappings ADD COLUMN synced_snapshot jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_conflicts' AND column_name = 'conflicting_fields'
+  ) THEN
+    ALTER TABLE calendar_sync_conflicts ADD COLUMN conflicting_fields text[];
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_conflicts' AND column_name = 'merged_event_data'
+  ) THEN
+    ALTER TABLE calendar_sync_conflicts ADD COLUMN merged_event_data jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'conflict_policy'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN conflict_policy text DEFAULT 'newest'
+      CHECK (conflict_policy IN ('newest', 'local', 'google'));
+  END IF;
+END $$;
@@ -0,0 +1,83 @@
+/*
+  # Sync several Google calendars
+
+  ## Overview
+  `sync_calendar_ids` existed but only the primary calendar was ever read.
+  Sync now imports every selected calendar, writes new local events to a
+  chosen calendar, and remembers which calendar each synced event lives in
+  so updates and deletions go back to the right place.
+
+  ## Changes
+
+  1. **Modify user_sync_preferences table**
+     - `write_calendar_id` (text) - calendar new local events are created in
+
+  2. **Modify calendar_sync_mappings table**
+     - `google_calendar_id` (text) - calendar holding the Google copy
+     - UNIQUE(user_id, google_event_id) becomes
+       UNIQUE(user_id, google_calendar_id, google_event_id); an event the
+       user is invited to keeps its id in every calendar it appears in
+
+  3. **Modify calendar_sync_conflicts table**
+     - `google_calendar_id` (text) - calendar of the conflicting Google event
+
+  4. **Modify events table**
+     - `google_calendar_id` (text, nullable) - Google calendar an imported event came from
+     - `calendar_color` (text, nullable) - that calendar's color
+
+  ## Notes
+  - 'primary' stays the id of the user's main calendar, so existing mappings
+    and sync tokens keep working
+  - Imported Google events are stored with source 'calendar_sync'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'write_calendar_id'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN write_calendar_id text DEFAULT 'primary';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_mappings' AND column_name = 'google_calendar_id'
+  ) THEN
+    ALTER TABLE calendar_sync_mappings ADD COLUMN google_calendar_id text NOT NULL DEFAULT 'primary';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_sync_conflicts' AND column_name = 'google_calendar_id'
+  ) THEN
+    ALTER TABLE calendar_sync_conflicts ADD COLUMN google_calendar_id text NOT NULL DEFAULT 'primary';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'google_calendar_id'
+  ) THEN
+    ALTER TABLE events ADD COLUMN google_calendar_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'calendar_color'
+  ) THEN
+    ALTER TABLE events ADD COLUMN calendar_color text;
+  END IF;
+END $$;
+
+ALTER TABLE calendar_sync_mappings
+  DROP CONSTRAINT IF EXISTS calendar_sync_mappings_user_id_google_event_id_key;
+
+ALTER TABLE calendar_sync_mappings
+  DROP CONSTRAINT IF EXISTS calendar_sync_mappings_user_calendar_event_key;
+
+ALTER TABLE calendar_sync_mappings
+  ADD CONSTRAINT calendar_sync_mappings_user_calendar_event_key
+  UNIQUE (user_id, google_calendar_id, google_event_id);
+
+CREATE INDEX IF NOT EXISTS idx_sync_mappings_calendar
+  ON calendar_sync_mappings(user_id, google_calendar_id);
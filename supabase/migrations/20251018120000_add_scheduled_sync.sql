@@ -0,0 +1,56 @@
+/*
+  # Scheduled calendar sync
+
+  ## Overview
+  Calendar sync ran only when the user pressed the sync button. Runs are now
+  scheduled from `sync_frequency_minutes`, backed off after failed runs, and
+  serialized with a lease so two tabs or devices never sync the same user at
+  once.
+
+  ## Changes
+
+  1. **Modify user_sync_preferences table**
+     - `next_sync_at` (timestamptz) - when the next scheduled run is due,
+       including any failure backoff
+     - `sync_lock_token` (uuid) - holder of the sync lease
+     - `sync_lock_expires_at` (timestamptz) - lease expiry, so a crashed tab
+       can't block sync forever
+
+  2. **Indexes**
+     - Due users, for the calendar-sync-scheduler edge function
+     - Recent logs per user, used to count consecutive failures
+
+  ## Notes
+  - A NULL `next_sync_at` means due now
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'next_sync_at'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN next_sync_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'sync_lock_token'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN sync_lock_token uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sync_preferences' AND column_name = 'sync_lock_expires_at'
+  ) THEN
+    ALTER TABLE user_sync_preferences ADD COLUMN sync_lock_expires_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sync_preferences_next_sync
+  ON user_sync_preferences(next_sync_at)
+  WHERE sync_enabled = true;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_user_started
+  ON calendar_sync_logs(user_id, started_at DESC);
@@ -0,0 +1,64 @@
+/*
+  # Timezone-aware events
+
+  ## Overview
+  Event dates and times are wall-clock values, but nothing recorded which
+  clock. Sync guessed with the browser's zone, so events drifted by hours
+  (and evening events by a day) whenever the browser, the profile and the
+  Google calendar disagreed. Events now carry their IANA timezone, and
+  events that end on a later day store that day.
+
+  ## Changes
+
+  1. **Modify events table**
+     - `timezone` (text, nullable) - IANA zone of event_date/start_time/end_time;
+       null means the owner's profile timezone
+     - `end_date` (date, nullable) - last day of a multi-day or overnight
+       event; null means it ends on event_date
+
+  2. **Modify profiles table**
+     - `timezone` (text, nullable) - the user's home zone, filled in by the
+       app from the browser the first time it is needed
+
+  ## Notes
+  - Existing rows keep null and are read in the profile timezone, which is
+    what they were written in for nearly every user
+  - `events_end_date_check` keeps end_date on or after event_date
+  - For all-day events end_date is inclusive (Google's exclusive end date
+    minus one day)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE events ADD COLUMN timezone text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'end_date'
+  ) THEN
+    ALTER TABLE events ADD COLUMN end_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN timezone text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'events' AND constraint_name = 'events_end_date_check'
+  ) THEN
+    ALTER TABLE events ADD CONSTRAINT events_end_date_check
+      CHECK (end_date IS NULL OR end_date >= event_date);
+  END IF;
+END $$;
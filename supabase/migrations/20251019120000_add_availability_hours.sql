@@ -0,0 +1,72 @@
+/*
+  # Availability hours for the slot finder
+
+  ## Overview
+  Free-time search assumed everybody is available around the clock. The
+  user and each family member now have the hours of the day they can be
+  booked (working or waking hours), and the user sets how much breathing
+  room to leave between events.
+
+  ## Changes
+
+  1. **Modify profiles table**
+     - `day_start_time` (time) - earliest time to suggest, default 08:00
+     - `day_end_time` (time) - latest time a suggestion may end, default 20:00
+     - `event_buffer_minutes` (integer) - gap kept before and after events, default 15
+     - `travel_buffer_minutes` (integer) - gap kept around events that have a location, default 30
+
+  2. **Modify family_members table**
+     - `day_start_time` (time, nullable) - e.g. after school
+     - `day_end_time` (time, nullable) - e.g. bedtime
+     Null means the member follows the user's hours.
+
+  ## Notes
+  - A joint search only suggests times inside everybody's hours
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'day_start_time'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN day_start_time time DEFAULT '08:00';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'day_end_time'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN day_end_time time DEFAULT '20:00';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'event_buffer_minutes'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN event_buffer_minutes integer DEFAULT 15
+      CHECK (event_buffer_minutes >= 0 AND event_buffer_minutes <= 240);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'travel_buffer_minutes'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN travel_buffer_minutes integer DEFAULT 30
+      CHECK (travel_buffer_minutes >= 0 AND travel_buffer_minutes <= 240);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'day_start_time'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN day_start_time time;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'day_end_time'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN day_end_time time;
+  END IF;
+END $$;
@@ -0,0 +1,162 @@
+/*
+  # Carpools and ride legs
+
+  ## Overview
+  Many events need somebody to drive a child there or back. A ride leg is a
+  `schedule_ride` row in event_actions for one direction of one occurrence,
+  assigned to a family member or to a contact (another parent). A rotating
+  carpool hands the legs of a recurring event to its drivers in turn.
+
+  ## Changes
+
+  1. **New Tables**
+     - `carpools`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references profiles)
+       - `event_id` (uuid, references events) - the event, usually a series, the carpool drives to
+       - `name` (text) - e.g. "Soccer carpool"
+       - `directions` (text[]) - legs to fill: 'to', 'from' or both
+       - `passengers` (text[]) - who rides, as named in event participants
+       - `start_date` (date) - first occurrence the rotation covers
+       - `active` (boolean) - whether legs are still generated
+       - `created_at`, `updated_at` (timestamptz)
+
+     - `carpool_drivers`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references profiles)
+       - `carpool_id` (uuid, references carpools)
+       - `family_member_id` (uuid, nullable, references family_members)
+       - `contact_id` (uuid, nullable, references contacts)
+       - `position` (integer) - place in the rotation
+       - `created_at` (timestamptz)
+
+  2. **Modify event_actions table**
+     - `ride_direction` (text, nullable) - 'to' or 'from' for schedule_ride rows
+     - `driver_family_member_id` (uuid, nullable) - family member driving the leg
+     - `driver_contact_id` (uuid, nullable) - contact driving the leg
+     - `passengers` (text[]) - who rides
+     - `carpool_id` (uuid, nullable) - carpool that generated the leg
+
+  3. **Constraints**
+     - A carpool driver is exactly one of a family member or a contact
+     - A leg has at most one driver
+     - One leg per event, date and direction
+
+  4. **Security**
+     - Enable RLS on both new tables
+     - Users can only access their own carpools and drivers
+
+  ## Notes
+  - For a recurring event, due_date is the occurrence date and event_id the series
+  - A leg without a driver is pending; assigning one completes the action
+*/
+
+CREATE TABLE IF NOT EXISTS carpools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  directions text[] NOT NULL DEFAULT '{to,from}' CHECK (directions <@ ARRAY['to', 'from'] AND cardinality(directions) > 0),
+  passengers text[] DEFAULT '{}',
+  start_date date NOT NULL DEFAULT CURRENT_DATE,
+  active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS carpool_drivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  carpool_id uuid NOT NULL REFERENCES carpools(id) ON DELETE CASCADE,
+  family_member_id uuid REFERENCES family_members(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES contacts(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((family_member_id IS NULL) <> (contact_id IS NULL))
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'event_actions' AND column_name = 'ride_direction'
+  ) THEN
+    ALTER TABLE event_actions ADD COLUMN ride_direction text CHECK (ride_direction IN ('to', 'from'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'event_actions' AND column_name = 'driver_family_member_id'
+  ) THEN
+    ALTER TABLE event_actions ADD COLUMN driver_family_member_id uuid REFERENCES family_members(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'event_actions' AND column_name = 'driver_contact_id'
+  ) THEN
+    ALTER TABLE event_actions ADD COLUMN driver_contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'event_actions' AND column_name = 'passengers'
+  ) THEN
+    ALTER TABLE event_actions ADD COLUMN passengers text[] DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'event_actions' AND column_name = 'carpool_id'
+  ) THEN
+    ALTER TABLE event_actions ADD COLUMN carpool_id uuid REFERENCES carpools(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'event_actions' AND constraint_name = 'event_actions_single_driver_check'
+  ) THEN
+    ALTER TABLE event_actions ADD CONSTRAINT event_actions_single_driver_check
+      CHECK (driver_family_member_id IS NULL OR driver_contact_id IS NULL);
+  END IF;
+
+  -- Rows that aren't rides have no direction, and NULLs never collide
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'event_actions' AND constraint_name = 'event_actions_ride_leg_key'
+  ) THEN
+    ALTER TABLE event_actions ADD CONSTRAINT event_actions_ride_leg_key
+      UNIQUE (event_id, due_date, ride_direction);
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE carpools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE carpool_drivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own carpools"
+  ON carpools
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own carpool drivers"
+  ON carpool_drivers
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_carpools_updated_at
+  BEFORE UPDATE ON carpools
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_carpools_user_id ON carpools(user_id) WHERE active = true;
+CREATE INDEX IF NOT EXISTS idx_carpool_drivers_carpool_id ON carpool_drivers(carpool_id, position);
+CREATE INDEX IF NOT EXISTS idx_event_actions_rides ON event_actions(user_id, due_date) WHERE action_type = 'schedule_ride';
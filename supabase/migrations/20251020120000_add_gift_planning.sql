@@ -0,0 +1,70 @@
+/*
+  # Gift planning on gift_suggestions
+
+  ## Overview
+  gift_suggestions held AI ideas for a recipient but nothing tracked what
+  happened next. Each row is now a gift plan: the ideas, the one picked,
+  and how far along buying it is, optionally linked to the shopping list
+  item it was added as.
+
+  ## Changes
+
+  1. **Modify gift_suggestions table**
+     - `interests` (text) - what the recipient likes, used for the ideas
+     - `chosen_gift` (jsonb, nullable) - the idea picked from `suggestions`
+     - `status` (text) - 'planning', 'chosen', 'bought', 'wrapped' or 'given'
+     - `shopping_item_id` (uuid, nullable) - shopping list item for the gift
+     - `updated_at` (timestamptz)
+
+  ## Notes
+  - `suggestions` holds objects of the form
+    { title, description, estimated_price, category, source }
+  - Deleting the shopping item keeps the plan and clears the link
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gift_suggestions' AND column_name = 'interests'
+  ) THEN
+    ALTER TABLE gift_suggestions ADD COLUMN interests text DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gift_suggestions' AND column_name = 'chosen_gift'
+  ) THEN
+    ALTER TABLE gift_suggestions ADD COLUMN chosen_gift jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gift_suggestions' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE gift_suggestions ADD COLUMN status text NOT NULL DEFAULT 'planning'
+      CHECK (status IN ('planning', 'chosen', 'bought', 'wrapped', 'given'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gift_suggestions' AND column_name = 'shopping_item_id'
+  ) THEN
+    ALTER TABLE gift_suggestions ADD COLUMN shopping_item_id uuid REFERENCES shopping_lists(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'gift_suggestions' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE gift_suggestions ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_gift_suggestions_updated_at ON gift_suggestions;
+CREATE TRIGGER update_gift_suggestions_updated_at
+  BEFORE UPDATE ON gift_suggestions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_gift_suggestions_event_id ON gift_suggestions(event_id) WHERE event_id IS NOT NULL;
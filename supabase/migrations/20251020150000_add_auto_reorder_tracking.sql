@@ -0,0 +1,69 @@
+/*
+  # Auto-reorder tracking
+
+  ## Overview
+  auto_reorders held a schedule per staple but nothing acted on it. Due
+  rules now put their item on the shopping list, remember which item that
+  was, and learn the real cadence from when the item is ticked off.
+
+  ## Changes
+
+  1. **Modify auto_reorders table**
+     - `quantity` (integer) - how many to put on the list each time
+     - `category` (text) - shopping list category for the item
+     - `send_to_instacart` (boolean) - send due items to the primary retailer
+     - `learn_cadence` (boolean) - adjust frequency_days from completions
+     - `last_completed` (date, nullable) - when the item was last ticked off
+     - `shopping_item_id` (uuid, nullable) - the open shopping list item
+
+  ## Notes
+  - `last_ordered` is the date the item was last put on the list
+  - Deleting the shopping item keeps the rule and clears the link
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'quantity'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'category'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN category text DEFAULT 'household';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'send_to_instacart'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN send_to_instacart boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'learn_cadence'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN learn_cadence boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'last_completed'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN last_completed date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'auto_reorders' AND column_name = 'shopping_item_id'
+  ) THEN
+    ALTER TABLE auto_reorders ADD COLUMN shopping_item_id uuid REFERENCES shopping_lists(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_auto_reorders_shopping_item ON auto_reorders(shopping_item_id) WHERE shopping_item_id IS NOT NULL;
@@ -0,0 +1,73 @@
+/*
+  # Birth dates for family members
+
+  ## Overview
+  family_members only stored an `age`, capped at 25, that went stale every
+  year and couldn't describe adults. Members now have a birth date the app
+  derives ages from, plus links to the yearly birthday event and the
+  reminder created ahead of it.
+
+  ## Changes
+
+  1. **Modify family_members table**
+     - `birth_date` (date, nullable) - takes precedence over `age`
+     - `age_as_of` (date, nullable) - when `age` was recorded, so it can be counted up
+     - `birthday_reminder_days` (integer) - days before the birthday to be reminded
+     - `birthday_event_id` (uuid, nullable) - the yearly birthday event
+     - `birthday_reminder_series_id` (uuid, nullable) - the yearly reminder series
+     - `age` may now be 0 to 130
+
+  2. **Data**
+     - Existing ages are kept, stamped with the date they were last updated
+
+  ## Notes
+  - Deleting the birthday event keeps the member and clears the link
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'birth_date'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN birth_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'age_as_of'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN age_as_of date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'birthday_reminder_days'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN birthday_reminder_days integer NOT NULL DEFAULT 7
+      CHECK (birthday_reminder_days >= 0 AND birthday_reminder_days <= 60);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'birthday_event_id'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN birthday_event_id uuid REFERENCES events(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'birthday_reminder_series_id'
+  ) THEN
+    ALTER TABLE family_members ADD COLUMN birthday_reminder_series_id uuid;
+  END IF;
+END $$;
+
+-- Adults have ages too
+ALTER TABLE family_members DROP CONSTRAINT IF EXISTS family_members_age_check;
+ALTER TABLE family_members ADD CONSTRAINT family_members_age_check CHECK (age >= 0 AND age <= 130);
+
+-- Remember when each existing age was true, so it keeps counting up
+UPDATE family_members
+SET age_as_of = COALESCE(updated_at, created_at, now())::date
+WHERE age IS NOT NULL AND age_as_of IS NULL;
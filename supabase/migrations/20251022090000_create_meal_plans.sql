@@ -0,0 +1,62 @@
+/*
+  # Meal plans
+
+  ## Overview
+  Recipes and the shopping list weren't connected. A meal plan row puts a
+  recipe on a day and meal slot for a number of servings; a week of them
+  can be turned into one shopping list with each recipe scaled and shared
+  ingredients merged.
+
+  ## Changes
+
+  1. **New Tables**
+     - `meal_plans`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references auth.users)
+       - `recipe_id` (uuid, references recipes)
+       - `plan_date` (date) - the day the meal is eaten
+       - `meal_slot` (text) - 'breakfast', 'lunch', 'dinner' or 'snack'
+       - `servings` (integer) - how many people it's cooked for
+       - `notes` (text, nullable)
+       - `shopping_generated_at` (timestamptz, nullable) - when its ingredients went on the shopping list
+       - `created_at`, `updated_at` (timestamptz)
+
+  2. **Security**
+     - Enable RLS on `meal_plans`
+     - Users can only access their own meal plans
+
+  ## Notes
+  - A slot may hold more than one recipe (e.g. a main and a side)
+  - Deleting a recipe removes it from the plan
+*/
+
+CREATE TABLE IF NOT EXISTS meal_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  recipe_id uuid REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  plan_date date NOT NULL,
+  meal_slot text NOT NULL DEFAULT 'dinner' CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  servings integer NOT NULL DEFAULT 4 CHECK (servings > 0),
+  notes text,
+  shopping_generated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE meal_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own meal plans"
+  ON meal_plans
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_meal_plans_updated_at ON meal_plans;
+CREATE TRIGGER update_meal_plans_updated_at
+  BEFORE UPDATE ON meal_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_meal_plans_user_date ON meal_plans(user_id, plan_date);
+CREATE INDEX IF NOT EXISTS idx_meal_plans_recipe_id ON meal_plans(recipe_id);
@@ -0,0 +1,84 @@
+/*
+  # Pantry inventory
+
+  ## Overview
+  recipe_ingredients.is_pantry_item only hinted that something is usually
+  in the cupboard. The pantry now tracks what the family actually has:
+  ticking off a shopping item adds it, cooking a recipe or a planned meal
+  takes its ingredients out, and expiry dates drive "use it soon" warnings.
+
+  ## Changes
+
+  1. **New Tables**
+     - `pantry_items`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references auth.users)
+       - `name` (text) - e.g. "Milk"
+       - `quantity` (numeric) - how much is left, never negative
+       - `unit` (text, nullable) - e.g. "cup" or "gram"; empty for a count of items
+       - `category` (text) - same categories as the shopping list
+       - `expires_on` (date, nullable)
+       - `created_at`, `updated_at` (timestamptz)
+
+  2. **Modify shopping_lists table**
+     - `pantry_item_id` (uuid, nullable) - pantry item it was added to when ticked off,
+       so unticking can take it back out
+
+  3. **Modify meal_plans table**
+     - `cooked_at` (timestamptz, nullable) - when the meal was cooked and its
+       ingredients taken out of the pantry
+
+  4. **Security**
+     - Enable RLS on `pantry_items`
+     - Users can only access their own pantry
+
+  ## Notes
+  - Items used up stay at quantity 0 so their unit and category are kept for restocking
+*/
+
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+  unit text,
+  category text DEFAULT 'pantry',
+  expires_on date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shopping_lists' AND column_name = 'pantry_item_id'
+  ) THEN
+    ALTER TABLE shopping_lists ADD COLUMN pantry_item_id uuid REFERENCES pantry_items(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meal_plans' AND column_name = 'cooked_at'
+  ) THEN
+    ALTER TABLE meal_plans ADD COLUMN cooked_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own pantry items"
+  ON pantry_items
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_pantry_items_updated_at ON pantry_items;
+CREATE TRIGGER update_pantry_items_updated_at
+  BEFORE UPDATE ON pantry_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_expires_on ON pantry_items(user_id, expires_on) WHERE expires_on IS NOT NULL;
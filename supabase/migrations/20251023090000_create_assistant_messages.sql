@@ -0,0 +1,52 @@
+/*
+  # Assistant conversation memory
+
+  ## Overview
+  Sara's text chat only lived in the browser tab, so a follow-up like
+  "move it to 4pm" had nothing to refer back to and the history was lost
+  on reload. Each turn is now stored, along with the things it touched, so
+  "it" can be resolved and the conversation can be browsed later. Older
+  turns are folded into a running summary to keep prompts small.
+
+  ## Changes
+
+  1. **New Tables**
+     - `assistant_messages`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references profiles)
+       - `role` (text) - 'user', 'assistant' or 'summary'
+       - `content` (text)
+       - `entities` (jsonb) - events, tasks, shopping items, family members or reminders an assistant turn created or changed, as `[{ "type", "id", "label" }]`
+       - `summarized_at` (timestamptz, nullable) - when the turn was folded into a summary
+       - `created_at` (timestamptz)
+
+  2. **Security**
+     - Enable RLS on `assistant_messages`
+     - Users can only access their own conversation
+
+  ## Notes
+  - Summarized turns are kept so the history can still be browsed; only the
+    latest summary row is used in prompts
+  - Clearing the history deletes every row for the user
+*/
+
+CREATE TABLE IF NOT EXISTS assistant_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant', 'summary')),
+  content text NOT NULL,
+  entities jsonb NOT NULL DEFAULT '[]'::jsonb,
+  summarized_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE assistant_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own assistant messages"
+  ON assistant_messages
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_assistant_messages_user_created ON assistant_messages(user_id, created_at DESC);